@@ -0,0 +1,46 @@
+/**
+ * Library-wide settings
+ */
+
+import { EncodeError } from "../types";
+
+export interface EncoderSettings {
+  /**
+   * URL of the worker script for encodes that do not pass `worker`. Takes
+   * precedence over WEBCODECS_WORKER_URL and the inline worker of test
+   * environments. Set it to undefined to go back to the defaults.
+   */
+  workerUrl?: string | URL;
+}
+
+let settings: EncoderSettings = {};
+
+/**
+ * Change the settings of this copy of the library. They are not kept on a
+ * global, so copies of different versions on one page do not share them.
+ *
+ * @param options Settings to change; others keep their value
+ * @throws EncodeError 'configuration-error' for a workerUrl that is not a
+ * string or URL
+ */
+export function configure(options: EncoderSettings): void {
+  const { workerUrl } = options;
+  if (
+    workerUrl !== undefined &&
+    typeof workerUrl !== "string" &&
+    !(workerUrl instanceof URL)
+  ) {
+    throw new EncodeError(
+      "configuration-error",
+      "workerUrl must be a string or URL",
+    );
+  }
+  settings = { ...settings, ...options };
+}
+
+/**
+ * Settings set with configure()
+ */
+export function getSettings(): Readonly<EncoderSettings> {
+  return settings;
+}
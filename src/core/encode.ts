@@ -9,33 +9,135 @@ import {
   Frame,
   ProgressInfo,
   VideoFile,
+  EncodedChunkItem,
+  MediaSourceItem,
+  EncodeOutputTarget,
 } from "../types";
 import { inferAndBuildConfig } from "../utils/config-parser";
-import { WorkerCommunicator } from "../worker/worker-communicator";
+import {
+  INITIALIZE_TIMEOUT,
+  WorkerJob,
+  WorkerProvider,
+  workersFor,
+  toEncodeError,
+} from "../worker/worker-communicator";
 import { convertToVideoFrame } from "../utils/video-frame-converter";
+import { createCancelledError, throwIfAborted } from "../utils/abort-signal";
+import {
+  OutputSink,
+  OutputSinkWriter,
+  openOutputSink,
+} from "../utils/output-sink";
+import { VideoFileDecoder } from "../utils/video-file-decoder";
+import { openDemuxer } from "../demuxers/demuxer";
+import { applyRemuxPlan } from "../utils/remux-plan";
+import {
+  applyEncodedChunkConfig,
+  isEncodedChunkItem,
+} from "../utils/encoded-chunk-source";
+import { PeekedSource, peekFirstItem } from "../utils/peek-source";
+import {
+  PcmBuffer,
+  applyAudioItemConfig,
+  isAudioBufferSource,
+  isAudioSamplesSource,
+  toPcmBuffer,
+} from "../utils/audio-source";
+import {
+  closeMediaSourceItem,
+  isAudioData,
+  isAudioSourceItem,
+  isVideoFrame,
+  isVideoSourceItem,
+} from "../utils/media-source-item";
 
 /**
  * Main video encoding function
  *
  * @param source Video source to encode
  * @param options Encoding options
- * @returns Encoded binary data
+ * @returns Encoded binary data, or nothing once the file is written when
+ * `options.output` is set. With `options.memoryBudget`, a File in the origin
+ * private file system when the output exceeded the budget.
  */
-export async function encode(
+export function encode(
+  source: VideoSource,
+  options: EncodeOptions & { output: EncodeOutputTarget },
+): Promise<void>;
+export function encode(
+  source: VideoSource,
+  options: EncodeOptions & { memoryBudget: number },
+): Promise<Uint8Array | File>;
+export function encode(
+  source: VideoSource,
+  options?: EncodeOptions,
+): Promise<Uint8Array>;
+export function encode(
   source: VideoSource,
   options?: EncodeOptions,
-): Promise<Uint8Array> {
-  let communicator: WorkerCommunicator | null = null;
+): Promise<Uint8Array | File | void> {
+  return encodeWith(
+    workersFor(options?.worker, options?.execution),
+    source,
+    options,
+  );
+}
+
+/**
+ * encode() on a worker from `workers`
+ */
+export async function encodeWith(
+  workers: WorkerProvider,
+  source: VideoSource,
+  options?: EncodeOptions,
+): Promise<Uint8Array | File | void> {
+  let communicator: WorkerJob | null = null;
+  let workerFailed = false;
+  let peeked: PeekedSource | null = null;
 
   try {
+    throwIfAborted(options?.signal);
+
+    // AsyncIterable sources are partly configured from their first item
+    peeked = await peekFirstItem(source);
+    source = peeked.source;
+
     // Configuration inference and normalization
     const config = await inferAndBuildConfig(source, options);
+    config.streaming = false; // Resolve with the whole file, at any latency
+    if (isEncodedChunkItem(peeked.first)) {
+      applyEncodedChunkConfig(peeked.first, config, options);
+    } else {
+      applyAudioItemConfig(peeked.first, config, options);
+      await applyRemuxPlan(source, config, options);
+    }
+    throwIfAborted(options?.signal);
+
+    // Stream the file to the output instead
+    let output: OutputSink | null = null;
+    if (options?.output) {
+      output = await openOutputSink(options.output);
+      config.streaming = true;
+      config.seekableOutput = output.seekable;
+    }
 
-    // Start communication with worker
-    communicator = new WorkerCommunicator();
+    // Start communication with worker. performEncoding() discards the
+    // output on failure; before it runs that is done here.
+    try {
+      communicator = await workers.acquire(options?.signal);
+    } catch (error) {
+      await output?.abort(error).catch(() => {});
+      throw error;
+    }
 
     // Execute encoding process
-    const result = await performEncoding(communicator, source, config, options);
+    const result = await performEncoding(
+      communicator,
+      source,
+      config,
+      options,
+      output,
+    );
 
     return result;
   } catch (error) {
@@ -48,6 +150,9 @@ export async function encode(
             `Encoding failed: ${error instanceof Error ? error.message : String(error)}`,
             error,
           );
+    // Other failures end the job only; the worker takes the next one
+    workerFailed =
+      encodeError.type === "worker-error" || encodeError.type === "timeout";
 
     if (options?.onError) {
       options.onError(encodeError);
@@ -56,8 +161,9 @@ export async function encode(
     throw encodeError;
   } finally {
     // Resource cleanup
+    await peeked?.release().catch(() => {});
     if (communicator) {
-      communicator.terminate();
+      workers.release(communicator, !workerFailed);
     }
   }
 }
@@ -66,18 +172,24 @@ export async function encode(
  * Execute the actual encoding process
  */
 async function performEncoding(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   source: VideoSource,
   config: any,
   options?: EncodeOptions,
-): Promise<Uint8Array> {
-  return new Promise<Uint8Array>((resolve, reject) => {
+  output?: OutputSink | null,
+): Promise<Uint8Array | File | void> {
+  const signal = options?.signal;
+  let abortHandler: (() => void) | null = null;
+  let writer: OutputSinkWriter | null = null;
+
+  return new Promise<Uint8Array | File | void>((resolve, reject) => {
     let processedFrames = 0;
     let totalFrames: number | undefined;
     const startTime = Date.now();
 
-    // Calculate totalFrames upfront for progress tracking
-    calculateTotalFrames(source, config)
+    // Calculate totalFrames upfront for progress tracking. The worker sizes
+    // its output from it, so initialize waits for the count.
+    const counted = calculateTotalFrames(source, config)
       .then((frames) => {
         totalFrames = frames;
       })
@@ -110,72 +222,142 @@ async function performEncoding(
       }
     };
 
+    // Stop the worker as soon as the caller aborts
+    abortHandler = () => {
+      communicator.send("cancel");
+      reject(createCancelledError(signal));
+    };
+    signal?.addEventListener("abort", abortHandler, { once: true });
+
     // Handle messages from worker
-    communicator.on("initialized", () => {
+    communicator.on("progress", (data) => {
+      processedFrames = data.processedFrames;
+      if (data.totalFrames !== undefined) {
+        totalFrames = data.totalFrames;
+      }
       updateProgress("encoding");
-      // Start frame processing
-      processVideoSource(communicator, source, config)
-        .then(() => {
-          updateProgress("finalizing");
-          communicator.send("finalize");
-        })
-        .catch(reject);
     });
 
-    communicator.on(
-      "progress",
-      (data: { processedFrames: number; totalFrames?: number }) => {
-        processedFrames = data.processedFrames;
-        if (data.totalFrames !== undefined) {
-          totalFrames = data.totalFrames;
-        }
-        updateProgress("encoding");
-      },
-    );
+    if (output) {
+      // A failed write stops the encode
+      writer = new OutputSinkWriter(output, (error) => {
+        communicator.send("cancel");
+        reject(error);
+      });
+      communicator.on("dataChunk", (data) => {
+        writer!.write(data.chunk, data.offset ?? 0);
+      });
+    }
+    // Source ingestion waits while the output falls behind
+    const ready = () => writer?.ready() ?? Promise.resolve();
 
-    communicator.on("finalized", (data: { output: Uint8Array | null }) => {
-      if (data.output) {
-        updateProgress("finalizing");
-        resolve(data.output);
-      } else {
-        reject(new EncodeError("encoding-failed", "No output produced"));
-      }
+    communicator.on("error", (data) => {
+      reject(toEncodeError(data.errorDetail));
     });
 
-    communicator.on("error", (data: { errorDetail: any }) => {
-      const error = new EncodeError(
-        data.errorDetail.type || "encoding-failed",
-        data.errorDetail.message || "Worker error",
-        data.errorDetail,
-      );
-      reject(error);
+    communicator.on("cancelled", () => {
+      reject(createCancelledError(signal));
     });
 
-    // Start encoding
-    communicator.send("initialize", { config, totalFrames });
-  });
+    // Start encoding, then finalize once every frame is sent
+    counted
+      .then(() =>
+        communicator.request(
+          "initialize",
+          { config, totalFrames },
+          { timeout: INITIALIZE_TIMEOUT },
+        ),
+      )
+      .then(async () => {
+        updateProgress("encoding");
+        await processVideoSource(communicator, source, config, ready, signal);
+        if (signal?.aborted) return;
+        updateProgress("finalizing");
+        const data = await communicator.request("finalize");
+        if (writer) {
+          updateProgress("finalizing");
+          await writer.close();
+          resolve();
+        } else if (data.output) {
+          updateProgress("finalizing");
+          resolve(data.output);
+        } else {
+          reject(new EncodeError("encoding-failed", "No output produced"));
+        }
+      })
+      .catch(reject);
+  })
+    .catch(async (error) => {
+      // Leave no partial file behind
+      await writer?.abort(error);
+      throw error;
+    })
+    .finally(() => {
+      if (abortHandler) {
+        signal?.removeEventListener("abort", abortHandler);
+      }
+    });
 }
 
 /**
  * Process VideoSource and send to worker
  */
 async function processVideoSource(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   source: VideoSource,
   config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   if (Array.isArray(source)) {
     // Process static frame array
-    await processFrameArray(communicator, source, config);
-  } else if (source instanceof MediaStream) {
+    await processFrameArray(communicator, source, config, ready, signal);
+  } else if (
+    typeof MediaStream !== "undefined" &&
+    source instanceof MediaStream
+  ) {
     // Process MediaStream
-    await processMediaStream(communicator, source, config);
+    await processMediaStream(communicator, source, config, ready, signal);
+  } else if (isAudioBufferSource(source) || isAudioSamplesSource(source)) {
+    // Process audio-only source
+    const buffer = toPcmBuffer(source);
+    await processAudioFromFile(
+      communicator,
+      buffer,
+      buffer.length / buffer.sampleRate,
+      config.frameRate || 30,
+      ready,
+      signal,
+    );
   } else if (Symbol.asyncIterator in source) {
-    // Process AsyncIterable
-    await processAsyncIterable(communicator, source, config);
+    if (config.passthrough) {
+      // Encoded chunks go straight to the muxer
+      await processEncodedChunks(
+        communicator,
+        source as AsyncIterable<EncodedChunkItem>,
+        config,
+        ready,
+        signal,
+      );
+    } else {
+      // Process AsyncIterable
+      await processAsyncIterable(
+        communicator,
+        source as AsyncIterable<MediaSourceItem>,
+        config,
+        ready,
+        signal,
+      );
+    }
   } else {
     // Process VideoFile
-    await processVideoFile(communicator, source as VideoFile, config);
+    await processVideoFile(
+      communicator,
+      source as VideoFile,
+      config,
+      ready,
+      signal,
+    );
   }
 }
 
@@ -183,12 +365,16 @@ async function processVideoSource(
  * Process frame array
  */
 async function processFrameArray(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   frames: Frame[],
-  config?: any,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const frameRate = config?.frameRate || 30;
   for (let i = 0; i < frames.length; i++) {
+    throwIfAborted(signal);
+    await ready();
     const frame = frames[i];
     const timestamp = (i * 1000000) / frameRate; // Use frameRate from config
 
@@ -197,20 +383,119 @@ async function processFrameArray(
 }
 
 /**
- * Process AsyncIterable
+ * Process AsyncIterable of frames and audio. Caller-provided
+ * timestamps are kept; other frames follow the previous one at frameRate.
  */
 async function processAsyncIterable(
-  communicator: WorkerCommunicator,
-  source: AsyncIterable<Frame>,
-  config?: any,
+  communicator: WorkerJob,
+  source: AsyncIterable<MediaSourceItem>,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
-  let frameIndex = 0;
-  const frameRate = config?.frameRate || 30;
+  const frameDuration = 1000000 / (config?.frameRate || 30);
+  let nextVideoTimestamp = 0;
+  let nextAudioTimestamp = 0;
 
-  for await (const frame of source) {
-    const timestamp = (frameIndex * 1000000) / frameRate; // Use frameRate from config
-    await addFrameToWorker(communicator, frame, timestamp);
-    frameIndex++;
+  for await (const item of source) {
+    try {
+      throwIfAborted(signal);
+      await ready();
+      // With video disabled there is no encoder for frames
+      if (
+        config.videoBitrate === 0 &&
+        !isAudioData(item) &&
+        !isAudioSourceItem(item)
+      ) {
+        throw new EncodeError(
+          "invalid-input",
+          "The source yielded a video frame, but video is disabled",
+        );
+      }
+
+      if (isAudioData(item)) {
+        communicator.send("addAudioData", {
+          audio: item,
+          timestamp: item.timestamp,
+          format: item.format,
+          sampleRate: item.sampleRate,
+          numberOfFrames: item.numberOfFrames,
+          numberOfChannels: item.numberOfChannels,
+        });
+        nextAudioTimestamp = item.timestamp + item.duration;
+      } else if (isAudioSourceItem(item)) {
+        const timestamp = item.timestamp ?? nextAudioTimestamp;
+        const numberOfFrames = item.data[0]?.length ?? 0;
+        communicator.send("addAudioData", {
+          audioData: item.data,
+          timestamp,
+          format: "f32-planar",
+          sampleRate: item.sampleRate,
+          numberOfFrames,
+          numberOfChannels: item.data.length,
+        });
+        nextAudioTimestamp =
+          timestamp + (numberOfFrames * 1000000) / item.sampleRate;
+      } else if (isVideoSourceItem(item)) {
+        const duration = item.duration ?? frameDuration;
+        await addFrameToWorker(
+          communicator,
+          item.frame,
+          item.timestamp,
+          duration,
+        );
+        nextVideoTimestamp = item.timestamp + duration;
+      } else {
+        // VideoFrames carry their own timing
+        const timestamp = isVideoFrame(item)
+          ? item.timestamp
+          : nextVideoTimestamp;
+        const duration =
+          (isVideoFrame(item) ? item.duration : null) ?? frameDuration;
+        await addFrameToWorker(communicator, item, timestamp, duration);
+        nextVideoTimestamp = timestamp + duration;
+      }
+    } finally {
+      closeMediaSourceItem(item);
+    }
+  }
+}
+
+/**
+ * Process AsyncIterable of encoded chunks
+ */
+async function processEncodedChunks(
+  communicator: WorkerJob,
+  source: AsyncIterable<EncodedChunkItem>,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const passthrough = config.passthrough ?? {};
+  // Metadata may arrive before the first chunk of its track
+  let videoMetadata: EncodedVideoChunkMetadata | undefined;
+  let audioMetadata: EncodedAudioChunkMetadata | undefined;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+    await ready();
+    videoMetadata = item.meta?.video ?? videoMetadata;
+    audioMetadata = item.meta?.audio ?? audioMetadata;
+
+    if (item.video && passthrough.video) {
+      communicator.send("addVideoChunk", {
+        chunk: item.video,
+        metadata: videoMetadata,
+      });
+      videoMetadata = undefined;
+    }
+    if (item.audio && passthrough.audio) {
+      communicator.send("addAudioChunk", {
+        chunk: item.audio,
+        metadata: audioMetadata,
+      });
+      audioMetadata = undefined;
+    }
   }
 }
 
@@ -218,9 +503,11 @@ async function processAsyncIterable(
  * Process MediaStream
  */
 async function processMediaStream(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   stream: MediaStream,
   _config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   // MediaStream processing is complex, so use MediaStreamTrackProcessor
   const videoTracks = stream.getVideoTracks();
@@ -229,6 +516,16 @@ async function processMediaStream(
   const readers: ReadableStreamDefaultReader<any>[] = [];
   const processingPromises: Promise<void>[] = [];
 
+  // Cancelling the readers resolves any pending read() so the loops can exit
+  const cancelReaders = () => {
+    for (const reader of readers) {
+      reader.cancel().catch(() => {
+        // Ignore errors (stream may already be closed)
+      });
+    }
+  };
+  signal?.addEventListener("abort", cancelReaders, { once: true });
+
   try {
     // Process video tracks
     if (videoTracks.length > 0) {
@@ -238,7 +535,9 @@ async function processMediaStream(
         processor.readable.getReader() as ReadableStreamDefaultReader<VideoFrame>;
       readers.push(reader);
 
-      processingPromises.push(processVideoReader(communicator, reader));
+      processingPromises.push(
+        processVideoReader(communicator, reader, ready, signal),
+      );
     }
 
     // Process audio tracks
@@ -249,12 +548,16 @@ async function processMediaStream(
         processor.readable.getReader() as ReadableStreamDefaultReader<AudioData>;
       readers.push(reader);
 
-      processingPromises.push(processAudioReader(communicator, reader));
+      processingPromises.push(
+        processAudioReader(communicator, reader, ready, signal),
+      );
     }
 
     // Wait for all processing to complete
     await Promise.all(processingPromises);
+    throwIfAborted(signal);
   } finally {
+    signal?.removeEventListener("abort", cancelReaders);
     // Clean up readers
     for (const reader of readers) {
       try {
@@ -270,16 +573,23 @@ async function processMediaStream(
  * Process VideoFrame reader
  */
 async function processVideoReader(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   reader: ReadableStreamDefaultReader<VideoFrame>,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   try {
     // eslint-disable-next-line no-constant-condition
     while (true) {
       const { value, done } = await reader.read();
       if (done || !value) break;
+      if (signal?.aborted) {
+        value.close();
+        break;
+      }
 
       try {
+        await ready();
         await addFrameToWorker(communicator, value, value.timestamp || 0);
       } finally {
         value.close();
@@ -298,16 +608,23 @@ async function processVideoReader(
  * Process AudioData reader
  */
 async function processAudioReader(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   reader: ReadableStreamDefaultReader<AudioData>,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   try {
     // eslint-disable-next-line no-constant-condition
     while (true) {
       const { value, done } = await reader.read();
       if (done || !value) break;
+      if (signal?.aborted) {
+        value.close();
+        break;
+      }
 
       try {
+        await ready();
         communicator.send("addAudioData", {
           audio: value,
           timestamp: value.timestamp || 0,
@@ -333,12 +650,13 @@ async function processAudioReader(
  * Send frame to worker
  */
 async function addFrameToWorker(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   frame: Frame,
   timestamp: number,
+  duration?: number,
 ): Promise<void> {
   // Convert frame to VideoFrame
-  const videoFrame = await convertToVideoFrame(frame, timestamp);
+  const videoFrame = await convertToVideoFrame(frame, timestamp, duration);
 
   try {
     communicator.send("addVideoFrame", {
@@ -352,19 +670,137 @@ async function addFrameToWorker(
 }
 
 /**
- * Process VideoFile and extract frames
+ * Process VideoFile by demuxing and decoding it with WebCodecs, falling back
+ * to HTMLVideoElement seeking when that is not possible
  */
 async function processVideoFile(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
+  videoFile: VideoFile,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const passthrough = config.passthrough ?? {};
+  const decoder = await VideoFileDecoder.open(videoFile.file, {
+    video: config.videoBitrate > 0 && !passthrough.video,
+    audio: config.audioBitrate > 0 && !passthrough.audio,
+    width: config.width,
+    height: config.height,
+    frameRate: config.maxFrameRate,
+    sampleRate: config.sampleRate,
+  });
+
+  if (!decoder) {
+    if (passthrough.video || passthrough.audio) {
+      throw new EncodeError(
+        "not-supported",
+        "VideoFile tracks selected for remuxing could not be read",
+      );
+    }
+    await processVideoFileWithElement(
+      communicator,
+      videoFile,
+      config,
+      ready,
+      signal,
+    );
+    return;
+  }
+
+  try {
+    // Audio track that AudioDecoder cannot handle goes through AudioContext
+    if (
+      config.audioBitrate > 0 &&
+      decoder.demuxer.audioTrack &&
+      !decoder.decodesAudio &&
+      !passthrough.audio
+    ) {
+      await processAudioFromVideoFile(
+        communicator,
+        videoFile,
+        config,
+        (decoder.demuxer.duration ?? 0) / 1_000_000,
+        config.frameRate || 30,
+        ready,
+        signal,
+      );
+    }
+
+    await decoder.decode(
+      {
+        onVideoFrame: async (frame) => {
+          try {
+            await ready();
+            communicator.send("addVideoFrame", {
+              frame,
+              timestamp: frame.timestamp,
+            });
+          } finally {
+            frame.close();
+          }
+        },
+        onAudioData: async (audio) => {
+          try {
+            await ready();
+            communicator.send("addAudioData", {
+              audio,
+              timestamp: audio.timestamp,
+              format: audio.format,
+              sampleRate: audio.sampleRate,
+              numberOfFrames: audio.numberOfFrames,
+              numberOfChannels: audio.numberOfChannels,
+            });
+          } finally {
+            audio.close();
+          }
+        },
+        // A disabled video track is skipped rather than copied
+        onVideoChunk: passthrough.video
+          ? async (chunk, metadata) => {
+              await ready();
+              communicator.send("addVideoChunk", { chunk, metadata });
+            }
+          : undefined,
+        // Undecoded audio is only copied when it was selected for remuxing
+        onAudioChunk: passthrough.audio
+          ? async (chunk, metadata) => {
+              await ready();
+              communicator.send("addAudioChunk", { chunk, metadata });
+            }
+          : undefined,
+      },
+      signal,
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createCancelledError(signal);
+    }
+    if (error instanceof EncodeError) {
+      throw error;
+    }
+    throw new EncodeError(
+      "invalid-input",
+      `VideoFile processing failed: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+}
+
+/**
+ * Process VideoFile by seeking an HTMLVideoElement and capturing frames
+ */
+async function processVideoFileWithElement(
+  communicator: WorkerJob,
   videoFile: VideoFile,
   config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const video = document.createElement("video");
   video.muted = true;
   video.preload = "metadata";
 
   let objectUrl: string | null = null;
-  let audioContext: AudioContext | null = null;
 
   try {
     objectUrl = URL.createObjectURL(videoFile.file);
@@ -392,21 +828,16 @@ async function processVideoFile(
       config.frameRate && config.frameRate > 0 ? config.frameRate : 30;
     const totalFrames = Math.max(1, Math.floor(duration * frameRate) || 1);
 
-    if (config.audioBitrate > 0 && typeof AudioContext !== "undefined") {
-      try {
-        audioContext = new AudioContext();
-        const arrayBuffer = await videoFile.file.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-        await processAudioFromFile(
-          communicator,
-          audioBuffer,
-          duration,
-          frameRate,
-        );
-      } catch (audioError) {
-        console.warn("Failed to process audio from VideoFile:", audioError);
-      }
+    if (config.audioBitrate > 0) {
+      await processAudioFromVideoFile(
+        communicator,
+        videoFile,
+        config,
+        duration,
+        frameRate,
+        ready,
+        signal,
+      );
     }
 
     const targetWidth =
@@ -427,6 +858,7 @@ async function processVideoFile(
     }
 
     for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+      throwIfAborted(signal);
       try {
         const timestampSeconds = Math.min(
           duration || 0,
@@ -466,6 +898,7 @@ async function processVideoFile(
         );
 
         const chunkTimestamp = Math.round(frameIndex * (1_000_000 / frameRate));
+        await ready();
         await addFrameToWorker(communicator, canvas, chunkTimestamp);
       } catch (frameError) {
         throw new EncodeError(
@@ -476,11 +909,59 @@ async function processVideoFile(
       }
     }
   } catch (error) {
+    if (signal?.aborted) {
+      throw createCancelledError(signal);
+    }
     throw new EncodeError(
       "invalid-input",
       `VideoFile processing failed: ${error instanceof Error ? error.message : String(error)}`,
       error,
     );
+  } finally {
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+    }
+    video.src = "";
+    video.remove();
+  }
+}
+
+/**
+ * Decode the audio of a VideoFile with AudioContext and send it to worker
+ */
+async function processAudioFromVideoFile(
+  communicator: WorkerJob,
+  videoFile: VideoFile,
+  config: any,
+  duration: number,
+  frameRate: number,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (typeof AudioContext === "undefined") {
+    return;
+  }
+
+  let audioContext: AudioContext | null = null;
+  try {
+    // Resample to the encoder's rate while decoding
+    audioContext =
+      config.sampleRate > 0
+        ? new AudioContext({ sampleRate: config.sampleRate })
+        : new AudioContext();
+    const arrayBuffer = await videoFile.file.arrayBuffer();
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+    await processAudioFromFile(
+      communicator,
+      audioBuffer,
+      duration,
+      frameRate,
+      ready,
+      signal,
+    );
+  } catch (audioError) {
+    console.warn("Failed to process audio from VideoFile:", audioError);
   } finally {
     if (audioContext) {
       try {
@@ -489,12 +970,6 @@ async function processVideoFile(
         console.warn("Failed to close AudioContext", closeError);
       }
     }
-
-    if (objectUrl) {
-      URL.revokeObjectURL(objectUrl);
-    }
-    video.src = "";
-    video.remove();
   }
 }
 
@@ -502,10 +977,12 @@ async function processVideoFile(
  * Process audio data from AudioBuffer and send to worker
  */
 async function processAudioFromFile(
-  communicator: WorkerCommunicator,
-  audioBuffer: AudioBuffer,
+  communicator: WorkerJob,
+  audioBuffer: PcmBuffer,
   duration: number,
   frameRate: number,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const sampleRate = audioBuffer.sampleRate;
   const numberOfChannels = audioBuffer.numberOfChannels;
@@ -517,6 +994,8 @@ async function processAudioFromFile(
   const samplesPerChunk = Math.floor((sampleRate * chunkDurationMs) / 1000);
 
   for (let offset = 0; offset < totalSamples; offset += samplesPerChunk) {
+    if (signal?.aborted) return;
+    await ready();
     const remainingSamples = Math.min(samplesPerChunk, totalSamples - offset);
     const timestamp = (offset / sampleRate) * 1000000; // microseconds
 
@@ -581,15 +1060,35 @@ async function calculateTotalFrames(
     if (Array.isArray(source)) {
       // Static frame array
       return source.length;
-    } else if (source instanceof MediaStream) {
+    } else if (
+      typeof MediaStream !== "undefined" &&
+      source instanceof MediaStream
+    ) {
       // MediaStream - cannot predict total frames
       return undefined;
+    } else if (isAudioBufferSource(source) || isAudioSamplesSource(source)) {
+      // Audio-only - no video frames
+      return undefined;
     } else if (Symbol.asyncIterator in source) {
       // AsyncIterable - cannot predict total frames
       return undefined;
     } else {
-      // VideoFile - calculate from duration and frame rate
+      // VideoFile - use the container index when available
       const videoFile = source as VideoFile;
+      const frameRate = config.frameRate || 30;
+      const demuxer = await openDemuxer(videoFile.file);
+      const sampleCount = demuxer?.videoTrack?.sampleCount;
+      if (sampleCount) {
+        // Frames are only dropped down to a requested frame rate
+        return demuxer.duration && config.maxFrameRate
+          ? Math.min(
+              sampleCount,
+              Math.ceil((demuxer.duration / 1_000_000) * config.maxFrameRate),
+            )
+          : sampleCount;
+      }
+
+      // Otherwise calculate from duration and frame rate
       const video = document.createElement("video");
       video.muted = true;
       video.preload = "metadata";
@@ -604,7 +1103,6 @@ async function calculateTotalFrames(
             reject(new Error("Failed to load video metadata"));
         });
 
-        const frameRate = config.frameRate || 30;
         const totalFrames = Math.floor(video.duration * frameRate);
 
         URL.revokeObjectURL(objectUrl);
@@ -0,0 +1,67 @@
+/**
+ * Encoder backends registered to stand in for WebCodecs
+ */
+
+import { EncodeError, EncoderBackend } from "../types";
+
+type BackendConstructors = Omit<EncoderBackend, "name">;
+
+let backends: EncoderBackend[] = [];
+
+/**
+ * Register classes to encode with ahead of the environment's WebCodecs.
+ * Backends registered later are tried first, one class at a time, so a
+ * backend may supply only some of them.
+ *
+ * Registered backends are used by encoders running in this JavaScript
+ * context, so encodes that do not pass `worker` or `execution` run on the
+ * main thread while any backend is registered.
+ *
+ * @param backend Backend to register
+ * @returns Function that unregisters the backend
+ * @throws EncodeError 'configuration-error' for a backend without a name
+ * or any class
+ */
+export function registerEncoderBackend(backend: EncoderBackend): () => void {
+  if (
+    !backend ||
+    typeof backend.name !== "string" ||
+    !Object.entries(backend).some(
+      ([key, value]) => key !== "name" && typeof value === "function",
+    )
+  ) {
+    throw new EncodeError(
+      "configuration-error",
+      "An encoder backend needs a name and at least one class",
+    );
+  }
+  backends = [...backends, backend];
+  return () => {
+    backends = backends.filter((entry) => entry !== backend);
+  };
+}
+
+/**
+ * Whether any backend is registered
+ */
+export function hasEncoderBackends(): boolean {
+  return backends.length > 0;
+}
+
+/**
+ * The class `name` of the most recently registered backend that has one,
+ * else the environment's
+ */
+export function findConstructor<K extends keyof BackendConstructors>(
+  name: K,
+): BackendConstructors[K] | undefined {
+  for (let i = backends.length - 1; i >= 0; i--) {
+    const constructor = backends[i][name];
+    if (constructor) return constructor;
+  }
+  const scope =
+    typeof self !== "undefined"
+      ? (self as unknown as BackendConstructors)
+      : undefined;
+  return scope?.[name] ?? (globalThis as BackendConstructors)[name];
+}
@@ -0,0 +1,298 @@
+/**
+ * Pool of warm workers shared by many encode jobs
+ */
+
+import { encodeWith } from "./encode";
+import { encodeStreamWith } from "../stream/encode-stream";
+import {
+  EncodeError,
+  EncodeOptions,
+  EncodeOutputTarget,
+  EncodeStreamOptions,
+  ExecutionMode,
+  StreamChunk,
+  VideoSource,
+} from "../types";
+import {
+  WorkerCommunicator,
+  WorkerJob,
+  WorkerProvider,
+  workersFor,
+} from "../worker/worker-communicator";
+import { createCancelledError } from "../utils/abort-signal";
+
+export interface EncoderPoolOptions {
+  /** Jobs that run at once, each on its own worker. Default 2. */
+  size?: number;
+  /**
+   * Milliseconds an unused worker is kept before it is terminated.
+   * Default 30000.
+   */
+  idleTimeout?: number;
+  /**
+   * Script URL of the pool's workers, or a function that creates one.
+   * Defaults to the worker set with configure() or found by default.
+   */
+  worker?: URL | string | (() => Worker);
+  /**
+   * Where the pool's encoders run, as the `execution` option of encode().
+   * Defaults to 'main-thread' while an encoder backend is registered and no
+   * `worker` is passed.
+   */
+  execution?: ExecutionMode;
+}
+
+export interface PoolJobOptions {
+  /** Waiting jobs with a higher priority start first. Default 0. */
+  priority?: number;
+}
+
+// Jobs run on the pool's workers, so they take no `worker` or `execution`
+// of their own
+type PoolEncodeOptions = Omit<EncodeOptions, "worker" | "execution"> &
+  PoolJobOptions;
+type PoolEncodeStreamOptions = Omit<
+  EncodeStreamOptions,
+  "worker" | "execution"
+> &
+  PoolJobOptions;
+
+/**
+ * encode() and encodeStream() on the workers of a pool
+ */
+export interface EncoderPool {
+  encode(
+    source: VideoSource,
+    options: PoolEncodeOptions & { output: EncodeOutputTarget },
+  ): Promise<void>;
+  encode(
+    source: VideoSource,
+    options: PoolEncodeOptions & { memoryBudget: number },
+  ): Promise<Uint8Array | File>;
+  encode(source: VideoSource, options?: PoolEncodeOptions): Promise<Uint8Array>;
+
+  encodeStream(
+    source: VideoSource,
+    options: PoolEncodeStreamOptions & { yield: "detailed" },
+  ): AsyncGenerator<StreamChunk>;
+  encodeStream(
+    source: VideoSource,
+    options?: PoolEncodeStreamOptions,
+  ): AsyncGenerator<Uint8Array>;
+
+  /** Jobs waiting for a worker */
+  readonly pending: number;
+  /** Jobs running on a worker */
+  readonly running: number;
+
+  /**
+   * Terminate the idle workers and reject the waiting jobs. Running jobs
+   * finish, and their workers are terminated after them.
+   */
+  close(): void;
+}
+
+interface WaitingJob {
+  priority: number;
+  resolve(job: WorkerJob | Promise<WorkerJob>): void;
+  reject(error: unknown): void;
+}
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_IDLE_TIMEOUT = 30_000;
+
+/**
+ * Leases workers to at most `size` jobs at a time. Workers go back to the
+ * pool after their job unless they crashed or stopped answering.
+ */
+class WorkerPool {
+  private idle: {
+    communicator: WorkerCommunicator;
+    timer: ReturnType<typeof setTimeout>;
+  }[] = [];
+  private waiting: WaitingJob[] = [];
+  private leased = 0;
+  private closed = false;
+
+  constructor(
+    private size: number,
+    private idleTimeout: number,
+    private source?: URL | string | (() => Worker),
+    private execution?: ExecutionMode,
+  ) {}
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  get running(): number {
+    return this.leased;
+  }
+
+  /**
+   * Provider that queues jobs at `priority`
+   */
+  provider(priority: number): WorkerProvider {
+    return {
+      acquire: (signal) => this.acquire(priority, signal),
+      release: (job, reusable) => this.release(job, reusable),
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const { communicator, timer } of this.idle) {
+      clearTimeout(timer);
+      communicator.terminate();
+    }
+    this.idle = [];
+    const waiting = this.waiting;
+    this.waiting = [];
+    for (const job of waiting) {
+      job.reject(
+        new EncodeError("cancelled", "The encoder pool has been closed"),
+      );
+    }
+  }
+
+  private acquire(priority: number, signal?: AbortSignal): Promise<WorkerJob> {
+    if (this.closed) {
+      return Promise.reject(
+        new EncodeError("cancelled", "The encoder pool has been closed"),
+      );
+    }
+    if (signal?.aborted) {
+      return Promise.reject(createCancelledError(signal));
+    }
+
+    return new Promise<WorkerJob>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((job) => job !== entry);
+        reject(createCancelledError(signal));
+      };
+      const entry: WaitingJob = {
+        priority,
+        resolve: (job) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(job);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // After the last job of the same or a higher priority
+      const index = this.waiting.findIndex((job) => job.priority < priority);
+      if (index === -1) this.waiting.push(entry);
+      else this.waiting.splice(index, 0, entry);
+      this.dispatch();
+    });
+  }
+
+  private release(job: WorkerJob, reusable: boolean): void {
+    this.leased--;
+    const communicator = job.communicator;
+    if (reusable && !this.closed) {
+      job.close();
+      const timer = setTimeout(() => {
+        this.idle = this.idle.filter((entry) => entry.timer !== timer);
+        communicator.terminate();
+      }, this.idleTimeout);
+      this.idle.push({ communicator, timer });
+    } else {
+      communicator.terminate();
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Start waiting jobs while there is capacity, on the most recently used
+   * idle worker or else a new one
+   */
+  private dispatch(): void {
+    while (this.waiting.length > 0 && this.leased < this.size) {
+      const job = this.waiting.shift()!;
+      const warm = this.idle.pop();
+      this.leased++;
+      if (warm) {
+        clearTimeout(warm.timer);
+        job.resolve(warm.communicator.createJob());
+      } else {
+        // New members start as the worker of an encode() call would
+        const members = workersFor(this.source, this.execution);
+        job.resolve(
+          members.acquire().catch((error) => {
+            this.leased--;
+            this.dispatch();
+            throw error;
+          }),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Create a pool that runs encode jobs on reused workers. Jobs beyond `size`
+ * wait for a worker, highest priority first.
+ *
+ * @param options Pool size and idle timeout
+ * @returns Pool with encode() and encodeStream()
+ */
+export function createEncoderPool(
+  options: EncoderPoolOptions = {},
+): EncoderPool {
+  const size = options.size ?? DEFAULT_POOL_SIZE;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new EncodeError(
+      "configuration-error",
+      "Encoder pool size must be a positive integer",
+    );
+  }
+  const workers = new WorkerPool(
+    size,
+    options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+    options.worker,
+    options.execution,
+  );
+
+  const pool = {
+    encode(
+      source: VideoSource,
+      jobOptions?: PoolEncodeOptions,
+    ): Promise<Uint8Array | File | void> {
+      return encodeWith(
+        workers.provider(jobOptions?.priority ?? 0),
+        source,
+        jobOptions,
+      );
+    },
+
+    encodeStream(
+      source: VideoSource,
+      jobOptions?: PoolEncodeStreamOptions,
+    ): AsyncGenerator<Uint8Array | StreamChunk> {
+      return encodeStreamWith(
+        workers.provider(jobOptions?.priority ?? 0),
+        source,
+        jobOptions,
+      );
+    },
+
+    get pending() {
+      return workers.pending;
+    },
+
+    get running() {
+      return workers.running;
+    },
+
+    close() {
+      workers.close();
+    },
+  };
+
+  return pool as EncoderPool;
+}
@@ -0,0 +1,50 @@
+/**
+ * Windowed random-access reader over a Blob
+ */
+
+const DEFAULT_WINDOW_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Reads byte ranges from a Blob without loading the whole file into memory.
+ * Sequential reads are served from a sliding window to keep the number of
+ * `Blob.slice()` calls low.
+ */
+export class BlobReader {
+  readonly size: number;
+  private windowStart = 0;
+  private window: Uint8Array = new Uint8Array(0);
+
+  constructor(
+    private blob: Blob,
+    private windowSize: number = DEFAULT_WINDOW_SIZE,
+  ) {
+    this.size = blob.size;
+  }
+
+  /**
+   * Read `length` bytes at `offset`. The result may be shorter than requested
+   * when the range runs past the end of the file.
+   */
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(this.size, offset + length);
+    if (offset >= end) {
+      return new Uint8Array(0);
+    }
+
+    const windowEnd = this.windowStart + this.window.byteLength;
+    if (offset < this.windowStart || end > windowEnd) {
+      const readEnd = Math.min(
+        this.size,
+        offset + Math.max(this.windowSize, end - offset),
+      );
+      const buffer = await this.blob.slice(offset, readEnd).arrayBuffer();
+      this.window = new Uint8Array(buffer);
+      this.windowStart = offset;
+    }
+
+    return this.window.subarray(
+      offset - this.windowStart,
+      end - this.windowStart,
+    );
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Helpers that turn container codec configuration records into WebCodecs
+ * codec strings and decoder descriptions.
+ */
+
+const toHex = (value: number, length = 2): string =>
+  value.toString(16).toUpperCase().padStart(length, "0");
+
+const pad2 = (value: number): string => value.toString().padStart(2, "0");
+
+/**
+ * Build an AVC codec string (e.g. "avc1.64001F") from an AVCDecoderConfigurationRecord
+ */
+export function avcCodecStringFromConfig(
+  avcC: Uint8Array,
+  sampleEntry: string = "avc1",
+): string {
+  if (avcC.byteLength < 4) {
+    return sampleEntry;
+  }
+  return `${sampleEntry}.${toHex(avcC[1])}${toHex(avcC[2])}${toHex(avcC[3])}`;
+}
+
+/**
+ * Build an HEVC codec string (e.g. "hvc1.1.6.L93.B0") from an HEVCDecoderConfigurationRecord
+ */
+export function hevcCodecStringFromConfig(
+  hvcC: Uint8Array,
+  sampleEntry: string = "hvc1",
+): string {
+  if (hvcC.byteLength < 13) {
+    return sampleEntry;
+  }
+
+  const profileSpace = ["", "A", "B", "C"][hvcC[1] >> 6];
+  const tier = (hvcC[1] >> 5) & 0x01 ? "H" : "L";
+  const profileIdc = hvcC[1] & 0x1f;
+
+  // Compatibility flags are written in reverse bit order
+  const compatibility =
+    ((hvcC[2] << 24) | (hvcC[3] << 16) | (hvcC[4] << 8) | hvcC[5]) >>> 0;
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | ((compatibility >>> i) & 1);
+  }
+
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) {
+    constraints.pop();
+  }
+
+  const level = hvcC[12];
+  const parts = [
+    sampleEntry,
+    `${profileSpace}${profileIdc}`,
+    (reversed >>> 0).toString(16).toUpperCase(),
+    `${tier}${level}`,
+    ...constraints.map((value) => toHex(value)),
+  ];
+  return parts.join(".");
+}
+
+/**
+ * Build an AV1 codec string (e.g. "av01.0.04M.08") from an AV1CodecConfigurationRecord
+ */
+export function av1CodecStringFromConfig(av1C: Uint8Array): string {
+  if (av1C.byteLength < 3) {
+    return "av01.0.04M.08";
+  }
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = av1C[2] >> 7 ? "H" : "M";
+  const highBitDepth = (av1C[2] >> 6) & 0x01;
+  const twelveBit = (av1C[2] >> 5) & 0x01;
+  const bitDepth = twelveBit ? 12 : highBitDepth ? 10 : 8;
+  return `av01.${profile}.${pad2(level)}${tier}.${pad2(bitDepth)}`;
+}
+
+/**
+ * Build a VP9 codec string (e.g. "vp09.00.10.08") from the payload of an MP4 vpcC box
+ * (after the full box header).
+ */
+export function vp9CodecStringFromConfig(vpcC: Uint8Array): string {
+  if (vpcC.byteLength < 3) {
+    return "vp09.00.10.08";
+  }
+  const profile = vpcC[0];
+  const level = vpcC[1];
+  const bitDepth = vpcC[2] >> 4;
+  return `vp09.${pad2(profile)}.${pad2(level)}.${pad2(bitDepth)}`;
+}
+
+/**
+ * Build an AAC codec string (e.g. "mp4a.40.2") from an AudioSpecificConfig
+ */
+export function aacCodecStringFromConfig(
+  audioSpecificConfig: Uint8Array,
+): string {
+  if (audioSpecificConfig.byteLength < 1) {
+    return "mp4a.40.2";
+  }
+  let objectType = audioSpecificConfig[0] >> 3;
+  if (objectType === 31 && audioSpecificConfig.byteLength >= 2) {
+    objectType =
+      32 +
+      (((audioSpecificConfig[0] & 0x07) << 3) | (audioSpecificConfig[1] >> 5));
+  }
+  return `mp4a.40.${objectType}`;
+}
+
+/**
+ * Convert the payload of an MP4 dOps box into the OpusHead structure that
+ * AudioDecoder expects as its description.
+ */
+export function opusHeadFromDops(dOps: Uint8Array): Uint8Array {
+  const view = new DataView(dOps.buffer, dOps.byteOffset, dOps.byteLength);
+  const channelCount = dOps[1];
+  const mappingFamily = dOps[10];
+  const mappingSize = mappingFamily !== 0 ? 2 + channelCount : 0;
+
+  const head = new Uint8Array(19 + mappingSize);
+  const headView = new DataView(head.buffer);
+  head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64], 0); // "OpusHead"
+  head[8] = 1; // version
+  head[9] = channelCount;
+  headView.setUint16(10, view.getUint16(2, false), true); // pre-skip
+  headView.setUint32(12, view.getUint32(4, false), true); // input sample rate
+  headView.setInt16(16, view.getInt16(8, false), true); // output gain
+  head[18] = mappingFamily;
+  if (mappingSize > 0) {
+    head.set(dOps.subarray(11, 11 + mappingSize), 19);
+  }
+  return head;
+}
+
+/**
+ * Convert the payload of an MP4 dfLa box (after the full box header) into the
+ * "fLaC"-prefixed metadata that AudioDecoder expects as its description.
+ */
+export function flacDescriptionFromDfla(
+  metadataBlocks: Uint8Array,
+): Uint8Array {
+  const description = new Uint8Array(4 + metadataBlocks.byteLength);
+  description.set([0x66, 0x4c, 0x61, 0x43], 0); // "fLaC"
+  description.set(metadataBlocks, 4);
+  return description;
+}
+
+/**
+ * Convert an OpusHead (the AudioEncoder description) into the payload of an
+ * MP4 dOps box. Inverse of opusHeadFromDops().
+ */
+export function dopsFromOpusHead(opusHead: Uint8Array): Uint8Array {
+  const head = new DataView(
+    opusHead.buffer,
+    opusHead.byteOffset,
+    opusHead.byteLength,
+  );
+  const channelCount = opusHead[9];
+  const mappingFamily = opusHead[18];
+  const mappingSize = mappingFamily !== 0 ? 2 + channelCount : 0;
+
+  const dOps = new Uint8Array(11 + mappingSize);
+  const view = new DataView(dOps.buffer);
+  dOps[0] = 0; // version
+  dOps[1] = channelCount;
+  view.setUint16(2, head.getUint16(10, true)); // pre-skip
+  view.setUint32(4, head.getUint32(12, true)); // input sample rate
+  view.setInt16(8, head.getInt16(16, true)); // output gain
+  dOps[10] = mappingFamily;
+  if (mappingSize > 0) {
+    dOps.set(opusHead.subarray(19, 19 + mappingSize), 11);
+  }
+  return dOps;
+}
+
+/**
+ * Convert the "fLaC"-prefixed AudioEncoder description into the metadata
+ * blocks of an MP4 dfLa box. Only STREAMINFO is kept, flagged as the last
+ * block. Inverse of flacDescriptionFromDfla().
+ */
+export function dflaFromFlacDescription(description: Uint8Array): Uint8Array {
+  const hasMagic =
+    description.byteLength >= 4 &&
+    description[0] === 0x66 &&
+    description[1] === 0x4c &&
+    description[2] === 0x61 &&
+    description[3] === 0x43;
+  const blocks = hasMagic ? description.subarray(4) : description;
+  // STREAMINFO: 4-byte block header followed by 34 bytes
+  if (blocks.byteLength < 38 || (blocks[0] & 0x7f) !== 0) {
+    throw new Error("FLAC description does not start with STREAMINFO");
+  }
+  const streamInfo = blocks.slice(0, 38);
+  streamInfo[0] = 0x80; // last-metadata-block flag, type 0
+  return streamInfo;
+}
@@ -0,0 +1,70 @@
+/**
+ * Container detection and demuxer factory
+ */
+import type { Demuxer } from "../types";
+import { Mp4Demuxer } from "./mp4demuxer";
+import { WebMDemuxer } from "./webmdemuxer";
+
+const demuxerCache = new WeakMap<Blob, Promise<Demuxer | null>>();
+
+/**
+ * Detect the container of `file` from its leading bytes
+ */
+export async function detectContainer(
+  file: Blob,
+): Promise<"mp4" | "webm" | null> {
+  const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (head.byteLength < 8) {
+    return null;
+  }
+  if (
+    head[0] === 0x1a &&
+    head[1] === 0x45 &&
+    head[2] === 0xdf &&
+    head[3] === 0xa3
+  ) {
+    return "webm";
+  }
+  const type = String.fromCharCode(head[4], head[5], head[6], head[7]);
+  if (
+    type === "ftyp" ||
+    type === "moov" ||
+    type === "mdat" ||
+    type === "wide"
+  ) {
+    return "mp4";
+  }
+  return null;
+}
+
+/**
+ * Open a demuxer for an MP4/MOV or WebM/Matroska file.
+ * Returns null when the file cannot be demuxed, so callers can fall back to
+ * the HTMLVideoElement based path.
+ */
+export function openDemuxer(file: Blob): Promise<Demuxer | null> {
+  // Config inference, progress estimation and decoding all open the same
+  // file, so share the parsed index between them.
+  let demuxer = demuxerCache.get(file);
+  if (!demuxer) {
+    demuxer = createDemuxer(file);
+    demuxerCache.set(file, demuxer);
+  }
+  return demuxer;
+}
+
+async function createDemuxer(file: Blob): Promise<Demuxer | null> {
+  try {
+    const container = await detectContainer(file);
+    if (container === "mp4") {
+      return await Mp4Demuxer.open(file);
+    }
+    if (container === "webm") {
+      return await WebMDemuxer.open(file);
+    }
+    return null;
+  } catch (error) {
+    console.warn("Failed to demux video file:", error);
+    return null;
+  }
+}
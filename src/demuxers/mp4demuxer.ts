@@ -0,0 +1,666 @@
+import type {
+  AudioCodec,
+  DemuxedAudioTrack,
+  DemuxedSample,
+  DemuxedVideoTrack,
+  Demuxer,
+} from "../types";
+import { BlobReader } from "./blob-reader";
+import {
+  aacCodecStringFromConfig,
+  av1CodecStringFromConfig,
+  avcCodecStringFromConfig,
+  flacDescriptionFromDfla,
+  hevcCodecStringFromConfig,
+  opusHeadFromDops,
+  vp9CodecStringFromConfig,
+} from "./codec-config";
+
+interface Box {
+  type: string;
+  /** Offset of the box payload. */
+  start: number;
+  /** Offset just past the end of the box. */
+  end: number;
+}
+
+interface SampleTable {
+  offsets: number[];
+  sizes: number[];
+  timestamps: number[]; // microseconds
+  durations: number[]; // microseconds
+  keyframes: boolean[];
+}
+
+interface ParsedTrack {
+  handler: string;
+  timescale: number;
+  duration: number; // in track timescale
+  video?: DemuxedVideoTrack;
+  audio?: DemuxedAudioTrack;
+  table: SampleTable;
+}
+
+const textDecoder = new TextDecoder();
+
+function readType(data: Uint8Array, offset: number): string {
+  return textDecoder.decode(data.subarray(offset, offset + 4));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * List the child boxes found in `data` between `start` and `end`
+ */
+function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const dv = view(data);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    const type = readType(data, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = dv.getUint32(offset + 8) * 2 ** 32 + dv.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function findBox(data: Uint8Array, parent: Box, type: string): Box | undefined {
+  return readBoxes(data, parent.start, parent.end).find(
+    (box) => box.type === type,
+  );
+}
+
+function findPath(
+  data: Uint8Array,
+  parent: Box,
+  path: string[],
+): Box | undefined {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    if (!current) return undefined;
+    current = findBox(data, current, type);
+  }
+  return current;
+}
+
+/**
+ * Demuxer for progressive (non-fragmented) MP4/MOV files
+ */
+export class Mp4Demuxer implements Demuxer {
+  readonly container = "mp4" as const;
+  readonly duration?: number;
+  readonly videoTrack: DemuxedVideoTrack | null;
+  readonly audioTrack: DemuxedAudioTrack | null;
+
+  private reader: BlobReader;
+  private videoTable: SampleTable | null;
+  private audioTable: SampleTable | null;
+
+  private constructor(
+    reader: BlobReader,
+    duration: number | undefined,
+    video: ParsedTrack | undefined,
+    audio: ParsedTrack | undefined,
+  ) {
+    this.reader = reader;
+    this.duration = duration;
+    this.videoTrack = video?.video ?? null;
+    this.audioTrack = audio?.audio ?? null;
+    this.videoTable = video?.table ?? null;
+    this.audioTable = audio?.table ?? null;
+  }
+
+  /**
+   * Parse the file index. Throws when the file is not a progressive MP4.
+   */
+  static async open(file: Blob): Promise<Mp4Demuxer> {
+    const reader = new BlobReader(file);
+    let moov: Uint8Array | null = null;
+    let offset = 0;
+
+    while (offset + 8 <= reader.size) {
+      const header = await reader.read(offset, 16);
+      const dv = view(header);
+      let size = dv.getUint32(0);
+      const type = readType(header, 4);
+      let headerSize = 8;
+
+      if (size === 1) {
+        size = dv.getUint32(8) * 2 ** 32 + dv.getUint32(12);
+        headerSize = 16;
+      } else if (size === 0) {
+        size = reader.size - offset;
+      }
+      if (size < headerSize) {
+        throw new Error(`MP4: Invalid box size for '${type}'`);
+      }
+
+      if (type === "moov") {
+        moov = (await reader.read(offset, size)).slice();
+      } else if (type === "moof") {
+        throw new Error("MP4: Fragmented files are not supported");
+      }
+
+      offset += size;
+    }
+
+    if (!moov) {
+      throw new Error("MP4: No moov box found");
+    }
+
+    const moovBox: Box = { type: "moov", start: 8, end: moov.byteLength };
+    if (moov.byteLength >= 16 && view(moov).getUint32(0) === 1) {
+      moovBox.start = 16;
+    }
+    if (findBox(moov, moovBox, "mvex")) {
+      throw new Error("MP4: Fragmented files are not supported");
+    }
+
+    let duration: number | undefined;
+    const mvhd = findBox(moov, moovBox, "mvhd");
+    if (mvhd) {
+      const dv = view(moov);
+      const version = moov[mvhd.start];
+      const timescale = dv.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+      const rawDuration =
+        version === 1
+          ? dv.getUint32(mvhd.start + 24) * 2 ** 32 +
+            dv.getUint32(mvhd.start + 28)
+          : dv.getUint32(mvhd.start + 16);
+      if (timescale > 0 && rawDuration > 0) {
+        duration = Math.round((rawDuration * 1e6) / timescale);
+      }
+    }
+
+    let video: ParsedTrack | undefined;
+    let audio: ParsedTrack | undefined;
+    for (const trak of readBoxes(moov, moovBox.start, moovBox.end)) {
+      if (trak.type !== "trak") continue;
+      const track = parseTrack(moov, trak);
+      if (!track) continue;
+      if (track.video && !video) video = track;
+      if (track.audio && !audio) audio = track;
+    }
+
+    if (!video && !audio) {
+      throw new Error("MP4: No audio or video track found");
+    }
+
+    return new Mp4Demuxer(reader, duration, video, audio);
+  }
+
+  async *samples(): AsyncGenerator<DemuxedSample> {
+    const video = this.videoTable;
+    const audio = this.audioTable;
+    let videoIndex = 0;
+    let audioIndex = 0;
+    const videoCount = video?.offsets.length ?? 0;
+    const audioCount = audio?.offsets.length ?? 0;
+
+    // Interleave the tracks by file offset so reads stay sequential
+    while (videoIndex < videoCount || audioIndex < audioCount) {
+      const takeVideo =
+        videoIndex < videoCount &&
+        (audioIndex >= audioCount ||
+          video!.offsets[videoIndex] <= audio!.offsets[audioIndex]);
+
+      const table = takeVideo ? video! : audio!;
+      const index = takeVideo ? videoIndex++ : audioIndex++;
+
+      const data = await this.reader.read(
+        table.offsets[index],
+        table.sizes[index],
+      );
+      if (data.byteLength < table.sizes[index]) {
+        // Truncated file
+        return;
+      }
+
+      yield {
+        track: takeVideo ? "video" : "audio",
+        type: table.keyframes[index] ? "key" : "delta",
+        timestamp: table.timestamps[index],
+        duration: table.durations[index],
+        // Copy out of the reader window, which is reused by the next read
+        data: data.slice(),
+      };
+    }
+  }
+}
+
+function parseTrack(data: Uint8Array, trak: Box): ParsedTrack | null {
+  const dv = view(data);
+  const mdia = findBox(data, trak, "mdia");
+  if (!mdia) return null;
+
+  const hdlr = findBox(data, mdia, "hdlr");
+  const mdhd = findBox(data, mdia, "mdhd");
+  const stbl = findPath(data, mdia, ["minf", "stbl"]);
+  if (!hdlr || !mdhd || !stbl) return null;
+
+  const handler = readType(data, hdlr.start + 8);
+  if (handler !== "vide" && handler !== "soun") return null;
+
+  const mdhdVersion = data[mdhd.start];
+  const timescale = dv.getUint32(mdhd.start + (mdhdVersion === 1 ? 20 : 12));
+  const duration =
+    mdhdVersion === 1
+      ? dv.getUint32(mdhd.start + 24) * 2 ** 32 + dv.getUint32(mdhd.start + 28)
+      : dv.getUint32(mdhd.start + 16);
+  if (!timescale) return null;
+
+  const stsd = findBox(data, stbl, "stsd");
+  if (!stsd) return null;
+  // Full box header (4) + entry count (4)
+  const entries = readBoxes(data, stsd.start + 8, stsd.end);
+  const entry = entries[0];
+  if (!entry) return null;
+
+  const table = parseSampleTable(
+    data,
+    stbl,
+    timescale,
+    editListMediaTime(data, trak),
+  );
+  if (!table) return null;
+
+  if (handler === "vide") {
+    const videoTrack = parseVisualSampleEntry(data, entry);
+    if (!videoTrack) return null;
+    videoTrack.sampleCount = table.offsets.length;
+    videoTrack.reordered = table.timestamps.some(
+      (timestamp, i) => i > 0 && timestamp < table.timestamps[i - 1],
+    );
+    if (duration > 0 && table.offsets.length > 0) {
+      videoTrack.frameRate = table.offsets.length / (duration / timescale);
+    }
+    return { handler, timescale, duration, video: videoTrack, table };
+  }
+
+  const audioTrack = parseAudioSampleEntry(data, entry);
+  if (!audioTrack) return null;
+  return { handler, timescale, duration, audio: audioTrack, table };
+}
+
+export function parseVisualSampleEntry(
+  data: Uint8Array,
+  entry: Box,
+): DemuxedVideoTrack | null {
+  const dv = view(data);
+  const codedWidth = dv.getUint16(entry.start + 24);
+  const codedHeight = dv.getUint16(entry.start + 26);
+  // VisualSampleEntry fields occupy 78 bytes before the child boxes
+  const children = readBoxes(data, entry.start + 78, entry.end);
+  const child = (type: string) => children.find((box) => box.type === type);
+  const payload = (box: Box) => data.slice(box.start, box.end);
+
+  switch (entry.type) {
+    case "avc1":
+    case "avc3": {
+      const avcC = child("avcC");
+      if (!avcC) return null;
+      const description = payload(avcC);
+      return {
+        codec: "avc",
+        codecString: avcCodecStringFromConfig(description, entry.type),
+        codedWidth,
+        codedHeight,
+        description,
+      };
+    }
+    case "hvc1":
+    case "hev1": {
+      const hvcC = child("hvcC");
+      if (!hvcC) return null;
+      const description = payload(hvcC);
+      return {
+        codec: "hevc",
+        codecString: hevcCodecStringFromConfig(description, entry.type),
+        codedWidth,
+        codedHeight,
+        description,
+      };
+    }
+    case "vp09": {
+      const vpcC = child("vpcC");
+      return {
+        codec: "vp9",
+        // Skip the full box header
+        codecString: vpcC
+          ? vp9CodecStringFromConfig(data.subarray(vpcC.start + 4, vpcC.end))
+          : "vp09.00.10.08",
+        codedWidth,
+        codedHeight,
+      };
+    }
+    case "vp08":
+      return { codec: "vp8", codecString: "vp8", codedWidth, codedHeight };
+    case "av01": {
+      const av1C = child("av1C");
+      const description = av1C ? payload(av1C) : undefined;
+      return {
+        codec: "av1",
+        codecString: description
+          ? av1CodecStringFromConfig(description)
+          : "av01.0.04M.08",
+        codedWidth,
+        codedHeight,
+        description,
+      };
+    }
+    default:
+      // Unknown sample entry; VideoDecoder support is checked by the caller
+      return { codecString: entry.type, codedWidth, codedHeight };
+  }
+}
+
+export function parseAudioSampleEntry(
+  data: Uint8Array,
+  entry: Box,
+): DemuxedAudioTrack | null {
+  const dv = view(data);
+  const version = dv.getUint16(entry.start + 8);
+  let numberOfChannels = dv.getUint16(entry.start + 16);
+  let sampleRate = dv.getUint32(entry.start + 24) >>> 16;
+  let childrenStart = entry.start + 28;
+
+  // QuickTime sound sample description versions
+  if (version === 1) {
+    childrenStart += 16;
+  } else if (version === 2) {
+    sampleRate = Math.round(dv.getFloat64(entry.start + 32));
+    numberOfChannels = dv.getUint32(entry.start + 40);
+    childrenStart += 36;
+  }
+
+  const children = readBoxes(data, childrenStart, entry.end);
+  const child = (type: string) => children.find((box) => box.type === type);
+
+  switch (entry.type) {
+    case "mp4a": {
+      const esds = child("esds");
+      if (!esds) return null;
+      const decoderConfig = parseEsds(data.subarray(esds.start + 4, esds.end));
+      if (!decoderConfig) return null;
+      if (
+        decoderConfig.objectTypeIndication === 0x69 ||
+        decoderConfig.objectTypeIndication === 0x6b
+      ) {
+        return {
+          codec: "mp3",
+          codecString: "mp3",
+          sampleRate,
+          numberOfChannels,
+        };
+      }
+      if (decoderConfig.objectTypeIndication !== 0x40) return null;
+      const description = decoderConfig.specificInfo;
+      return {
+        codec: "aac",
+        codecString: description
+          ? aacCodecStringFromConfig(description)
+          : "mp4a.40.2",
+        sampleRate,
+        numberOfChannels,
+        description,
+      };
+    }
+    case "Opus": {
+      const dOps = child("dOps");
+      if (!dOps) return null;
+      const description = opusHeadFromDops(data.subarray(dOps.start, dOps.end));
+      return {
+        codec: "opus",
+        codecString: "opus",
+        // Opus always decodes at 48 kHz
+        sampleRate: 48000,
+        numberOfChannels: description[9] || numberOfChannels,
+        description,
+      };
+    }
+    case "fLaC": {
+      const dfLa = child("dfLa");
+      if (!dfLa) return null;
+      return {
+        codec: "flac",
+        codecString: "flac",
+        sampleRate,
+        numberOfChannels,
+        description: flacDescriptionFromDfla(
+          data.subarray(dfLa.start + 4, dfLa.end),
+        ),
+      };
+    }
+    case ".mp3":
+      return { codec: "mp3", codecString: "mp3", sampleRate, numberOfChannels };
+    case "ulaw":
+    case "alaw":
+      return {
+        codec: entry.type as AudioCodec,
+        codecString: entry.type,
+        sampleRate,
+        numberOfChannels,
+      };
+    default:
+      return { codecString: entry.type, sampleRate, numberOfChannels };
+  }
+}
+
+/**
+ * Extract the DecoderConfigDescriptor from an ES_Descriptor
+ */
+function parseEsds(
+  esds: Uint8Array,
+): { objectTypeIndication: number; specificInfo?: Uint8Array } | null {
+  let offset = 0;
+
+  const readDescriptorHeader = (): { tag: number; size: number } | null => {
+    if (offset >= esds.byteLength) return null;
+    const tag = esds[offset++];
+    let size = 0;
+    for (let i = 0; i < 4 && offset < esds.byteLength; i++) {
+      const byte = esds[offset++];
+      size = (size << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) break;
+    }
+    return { tag, size };
+  };
+
+  const esDescriptor = readDescriptorHeader();
+  if (!esDescriptor || esDescriptor.tag !== 0x03) return null;
+  offset += 2; // ES_ID
+  const flags = esds[offset++];
+  if (flags & 0x80) offset += 2; // dependsOn_ES_ID
+  if (flags & 0x40) offset += 1 + esds[offset]; // URL
+  if (flags & 0x20) offset += 2; // OCR_ES_Id
+
+  const decoderConfig = readDescriptorHeader();
+  if (!decoderConfig || decoderConfig.tag !== 0x04) return null;
+  const objectTypeIndication = esds[offset];
+  const decoderConfigEnd = offset + decoderConfig.size;
+  offset += 13;
+
+  if (offset < decoderConfigEnd) {
+    const specificInfo = readDescriptorHeader();
+    if (specificInfo && specificInfo.tag === 0x05) {
+      return {
+        objectTypeIndication,
+        specificInfo: esds.slice(offset, offset + specificInfo.size),
+      };
+    }
+  }
+
+  return { objectTypeIndication };
+}
+
+/**
+ * Media time, in the track timescale, shown at the start of the
+ * presentation: that of the first edit that is not empty. Encoders with
+ * B-frames put the composition delay of the first frame here.
+ */
+function editListMediaTime(data: Uint8Array, trak: Box): number {
+  const elst = findPath(data, trak, ["edts", "elst"]);
+  if (!elst) return 0;
+  const dv = view(data);
+  const version = data[elst.start];
+  const entrySize = version === 1 ? 20 : 12;
+  const entryCount = dv.getUint32(elst.start + 4);
+  for (let entry = 0; entry < entryCount; entry++) {
+    const base = elst.start + 8 + entry * entrySize;
+    if (base + entrySize > elst.end) break;
+    const mediaTime =
+      version === 1
+        ? dv.getInt32(base + 8) * 2 ** 32 + dv.getUint32(base + 12)
+        : dv.getInt32(base + 4);
+    // -1 marks an empty edit
+    if (mediaTime !== -1) return mediaTime;
+  }
+  return 0;
+}
+
+/**
+ * Sample offsets, sizes and timing. Timestamps are presentation times with
+ * `mediaTime` from the edit list taken off.
+ */
+function parseSampleTable(
+  data: Uint8Array,
+  stbl: Box,
+  timescale: number,
+  mediaTime: number,
+): SampleTable | null {
+  const dv = view(data);
+  const boxes = readBoxes(data, stbl.start, stbl.end);
+  const box = (type: string) => boxes.find((b) => b.type === type);
+
+  const stsz = box("stsz");
+  const stsc = box("stsc");
+  const stts = box("stts");
+  const chunkOffsetBox = box("stco") ?? box("co64");
+  if (!stsz || !stsc || !stts || !chunkOffsetBox) return null;
+
+  // Sample sizes
+  const uniformSize = dv.getUint32(stsz.start + 4);
+  const sampleCount = dv.getUint32(stsz.start + 8);
+  const sizes: number[] = new Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes[i] = uniformSize || dv.getUint32(stsz.start + 12 + i * 4);
+  }
+
+  // Chunk offsets
+  const chunkCount = dv.getUint32(chunkOffsetBox.start + 4);
+  const chunkOffsets: number[] = new Array(chunkCount);
+  for (let i = 0; i < chunkCount; i++) {
+    chunkOffsets[i] =
+      chunkOffsetBox.type === "co64"
+        ? dv.getUint32(chunkOffsetBox.start + 8 + i * 8) * 2 ** 32 +
+          dv.getUint32(chunkOffsetBox.start + 12 + i * 8)
+        : dv.getUint32(chunkOffsetBox.start + 8 + i * 4);
+  }
+
+  // Sample-to-chunk mapping
+  const stscCount = dv.getUint32(stsc.start + 4);
+  const offsets: number[] = new Array(sampleCount);
+  let sampleIndex = 0;
+  for (let entry = 0; entry < stscCount && sampleIndex < sampleCount; entry++) {
+    const base = stsc.start + 8 + entry * 12;
+    const firstChunk = dv.getUint32(base) - 1;
+    const samplesPerChunk = dv.getUint32(base + 4);
+    const nextFirstChunk =
+      entry + 1 < stscCount
+        ? dv.getUint32(stsc.start + 8 + (entry + 1) * 12) - 1
+        : chunkCount;
+
+    for (let chunk = firstChunk; chunk < nextFirstChunk; chunk++) {
+      let offset = chunkOffsets[chunk];
+      for (let i = 0; i < samplesPerChunk && sampleIndex < sampleCount; i++) {
+        offsets[sampleIndex] = offset;
+        offset += sizes[sampleIndex];
+        sampleIndex++;
+      }
+    }
+  }
+  if (sampleIndex < sampleCount) {
+    offsets.length = sampleIndex;
+    sizes.length = sampleIndex;
+  }
+  const count = offsets.length;
+
+  // Decode timestamps
+  const decodeTimes: number[] = new Array(count);
+  const deltas: number[] = new Array(count);
+  const sttsCount = dv.getUint32(stts.start + 4);
+  let time = 0;
+  sampleIndex = 0;
+  for (let entry = 0; entry < sttsCount && sampleIndex < count; entry++) {
+    const runLength = dv.getUint32(stts.start + 8 + entry * 8);
+    const delta = dv.getUint32(stts.start + 12 + entry * 8);
+    for (let i = 0; i < runLength && sampleIndex < count; i++) {
+      decodeTimes[sampleIndex] = time;
+      deltas[sampleIndex] = delta;
+      time += delta;
+      sampleIndex++;
+    }
+  }
+  for (; sampleIndex < count; sampleIndex++) {
+    decodeTimes[sampleIndex] = time;
+    deltas[sampleIndex] = 0;
+  }
+
+  // Composition offsets
+  const compositionOffsets: number[] = new Array(count).fill(0);
+  const ctts = box("ctts");
+  if (ctts) {
+    const cttsCount = dv.getUint32(ctts.start + 4);
+    sampleIndex = 0;
+    for (let entry = 0; entry < cttsCount && sampleIndex < count; entry++) {
+      const runLength = dv.getUint32(ctts.start + 8 + entry * 8);
+      const offset = dv.getInt32(ctts.start + 12 + entry * 8);
+      for (let i = 0; i < runLength && sampleIndex < count; i++) {
+        compositionOffsets[sampleIndex++] = offset;
+      }
+    }
+  }
+
+  // Sync samples (all samples are sync samples when stss is absent)
+  const stss = box("stss");
+  const keyframes: boolean[] = new Array(count).fill(!stss);
+  if (stss) {
+    const stssCount = dv.getUint32(stss.start + 4);
+    for (let i = 0; i < stssCount; i++) {
+      const sampleNumber = dv.getUint32(stss.start + 8 + i * 4);
+      if (sampleNumber >= 1 && sampleNumber <= count) {
+        keyframes[sampleNumber - 1] = true;
+      }
+    }
+  }
+
+  const toMicroseconds = (value: number) =>
+    Math.round((value * 1e6) / timescale);
+
+  return {
+    offsets,
+    sizes,
+    timestamps: decodeTimes.map((dts, i) =>
+      toMicroseconds(dts + compositionOffsets[i] - mediaTime),
+    ),
+    durations: deltas.map(toMicroseconds),
+    keyframes,
+  };
+}
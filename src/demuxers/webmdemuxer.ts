@@ -0,0 +1,633 @@
+import type {
+  DemuxedAudioTrack,
+  DemuxedSample,
+  DemuxedVideoTrack,
+  Demuxer,
+} from "../types";
+import { BlobReader } from "./blob-reader";
+import {
+  aacCodecStringFromConfig,
+  av1CodecStringFromConfig,
+  avcCodecStringFromConfig,
+  hevcCodecStringFromConfig,
+} from "./codec-config";
+
+// EBML / Matroska element IDs
+export const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  ContentEncodings: 0x6d80,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+} as const;
+
+export const TRACK_TYPE_VIDEO = 1;
+export const TRACK_TYPE_AUDIO = 2;
+
+interface ElementHeader {
+  id: number;
+  /** Payload size, or -1 when the size is unknown. */
+  size: number;
+  /** Offset of the payload. */
+  dataStart: number;
+}
+
+export interface TrackInfo {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  defaultDuration?: number; // nanoseconds
+  compressed: boolean;
+  width: number;
+  height: number;
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Read an EBML variable-length integer. Element IDs keep their length marker;
+ * sizes have it stripped and report all-ones values as unknown (-1).
+ */
+export function readVint(
+  data: Uint8Array,
+  offset: number,
+  keepMarker: boolean,
+): { value: number; length: number } | null {
+  if (offset >= data.byteLength) return null;
+  const first = data[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+    length++;
+  }
+  if (length > 8 || offset + length > data.byteLength) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    const byte = data[offset + i];
+    value = value * 256 + byte;
+    if (byte !== 0xff) allOnes = false;
+  }
+
+  if (!keepMarker && allOnes) {
+    return { value: -1, length };
+  }
+  return { value, length };
+}
+
+export function readElementHeader(
+  data: Uint8Array,
+  offset: number,
+): { id: number; size: number; headerLength: number } | null {
+  const id = readVint(data, offset, true);
+  if (!id) return null;
+  const size = readVint(data, offset + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    size: size.value,
+    headerLength: id.length + size.length,
+  };
+}
+
+/**
+ * Iterate over the child elements of a fully loaded master element
+ */
+export function* children(
+  data: Uint8Array,
+  start: number,
+  end: number,
+): Generator<{ id: number; start: number; end: number }> {
+  let offset = start;
+  while (offset < end) {
+    const header = readElementHeader(data, offset);
+    if (!header || header.size < 0) return;
+    const dataStart = offset + header.headerLength;
+    const dataEnd = Math.min(end, dataStart + header.size);
+    yield { id: header.id, start: dataStart, end: dataEnd };
+    offset = dataEnd;
+  }
+}
+
+export function readUint(data: Uint8Array, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) {
+    value = value * 256 + data[i];
+  }
+  return value;
+}
+
+function readFloat(data: Uint8Array, start: number, end: number): number {
+  const view = new DataView(data.buffer, data.byteOffset + start, end - start);
+  if (end - start === 4) return view.getFloat32(0);
+  if (end - start === 8) return view.getFloat64(0);
+  return 0;
+}
+
+function readString(data: Uint8Array, start: number, end: number): string {
+  return new TextDecoder()
+    .decode(data.subarray(start, end))
+    .replace(/\0+$/, "");
+}
+
+export function parseTrackEntry(
+  data: Uint8Array,
+  start: number,
+  end: number,
+): TrackInfo {
+  const track: TrackInfo = {
+    number: 0,
+    type: 0,
+    codecId: "",
+    compressed: false,
+    width: 0,
+    height: 0,
+    sampleRate: 8000,
+    channels: 1,
+  };
+
+  for (const el of children(data, start, end)) {
+    switch (el.id) {
+      case ID.TrackNumber:
+        track.number = readUint(data, el.start, el.end);
+        break;
+      case ID.TrackType:
+        track.type = readUint(data, el.start, el.end);
+        break;
+      case ID.CodecID:
+        track.codecId = readString(data, el.start, el.end);
+        break;
+      case ID.CodecPrivate:
+        track.codecPrivate = data.slice(el.start, el.end);
+        break;
+      case ID.DefaultDuration:
+        track.defaultDuration = readUint(data, el.start, el.end);
+        break;
+      case ID.ContentEncodings:
+        track.compressed = true;
+        break;
+      case ID.Video:
+        for (const v of children(data, el.start, el.end)) {
+          if (v.id === ID.PixelWidth) {
+            track.width = readUint(data, v.start, v.end);
+          } else if (v.id === ID.PixelHeight) {
+            track.height = readUint(data, v.start, v.end);
+          }
+        }
+        break;
+      case ID.Audio:
+        for (const a of children(data, el.start, el.end)) {
+          if (a.id === ID.SamplingFrequency) {
+            track.sampleRate = readFloat(data, a.start, a.end);
+          } else if (a.id === ID.Channels) {
+            track.channels = readUint(data, a.start, a.end);
+          }
+        }
+        break;
+    }
+  }
+
+  return track;
+}
+
+export function toVideoTrack(track: TrackInfo): DemuxedVideoTrack {
+  const codedWidth = track.width;
+  const codedHeight = track.height;
+  const frameRate = track.defaultDuration
+    ? 1e9 / track.defaultDuration
+    : undefined;
+  const description = track.codecPrivate;
+
+  switch (track.codecId) {
+    case "V_VP8":
+      return {
+        codec: "vp8",
+        codecString: "vp8",
+        codedWidth,
+        codedHeight,
+        frameRate,
+      };
+    case "V_VP9":
+      return {
+        codec: "vp9",
+        codecString: "vp09.00.10.08",
+        codedWidth,
+        codedHeight,
+        frameRate,
+      };
+    case "V_AV1":
+      return {
+        codec: "av1",
+        codecString: description
+          ? av1CodecStringFromConfig(description)
+          : "av01.0.04M.08",
+        codedWidth,
+        codedHeight,
+        description,
+        frameRate,
+      };
+    case "V_MPEG4/ISO/AVC":
+      return {
+        codec: "avc",
+        codecString: avcCodecStringFromConfig(description ?? new Uint8Array(0)),
+        codedWidth,
+        codedHeight,
+        description,
+        frameRate,
+      };
+    case "V_MPEGH/ISO/HEVC":
+      return {
+        codec: "hevc",
+        codecString: hevcCodecStringFromConfig(
+          description ?? new Uint8Array(0),
+        ),
+        codedWidth,
+        codedHeight,
+        description,
+        frameRate,
+      };
+    default:
+      // Unknown codec; VideoDecoder support is checked by the caller
+      return { codecString: track.codecId, codedWidth, codedHeight, frameRate };
+  }
+}
+
+export function toAudioTrack(track: TrackInfo): DemuxedAudioTrack {
+  const sampleRate = Math.round(track.sampleRate);
+  const numberOfChannels = track.channels;
+  const description = track.codecPrivate;
+
+  switch (track.codecId) {
+    case "A_OPUS":
+      return {
+        codec: "opus",
+        codecString: "opus",
+        // Opus always decodes at 48 kHz
+        sampleRate: 48000,
+        numberOfChannels,
+        description,
+      };
+    case "A_VORBIS":
+      return {
+        codec: "vorbis",
+        codecString: "vorbis",
+        sampleRate,
+        numberOfChannels,
+        description,
+      };
+    case "A_FLAC":
+      return {
+        codec: "flac",
+        codecString: "flac",
+        sampleRate,
+        numberOfChannels,
+        description,
+      };
+    case "A_AAC":
+      return {
+        codec: "aac",
+        codecString: description
+          ? aacCodecStringFromConfig(description)
+          : "mp4a.40.2",
+        sampleRate,
+        numberOfChannels,
+        description,
+      };
+    case "A_MPEG/L3":
+      return { codec: "mp3", codecString: "mp3", sampleRate, numberOfChannels };
+    default:
+      return { codecString: track.codecId, sampleRate, numberOfChannels };
+  }
+}
+
+/**
+ * Split a laced block payload into its frames
+ */
+function splitLaces(
+  data: Uint8Array,
+  offset: number,
+  lacing: number,
+): Uint8Array[] {
+  if (lacing === 0) {
+    return [data.subarray(offset)];
+  }
+
+  const frameCount = data[offset++] + 1;
+  const sizes: number[] = [];
+
+  if (lacing === 1) {
+    // Xiph lacing
+    for (let i = 0; i < frameCount - 1; i++) {
+      let size = 0;
+      let byte: number;
+      do {
+        byte = data[offset++];
+        size += byte;
+      } while (byte === 0xff && offset < data.byteLength);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML lacing
+    const first = readVint(data, offset, false);
+    if (!first) return [];
+    offset += first.length;
+    let size = first.value;
+    sizes.push(size);
+    for (let i = 1; i < frameCount - 1; i++) {
+      const delta = readVint(data, offset, false);
+      if (!delta) return [];
+      offset += delta.length;
+      // Signed difference, biased by 2^(7n-1) - 1
+      size += delta.value - (2 ** (7 * delta.length - 1) - 1);
+      sizes.push(size);
+    }
+  } else {
+    // Fixed-size lacing
+    const size = Math.floor((data.byteLength - offset) / frameCount);
+    for (let i = 0; i < frameCount - 1; i++) {
+      sizes.push(size);
+    }
+  }
+
+  const used = sizes.reduce((sum, size) => sum + size, 0);
+  sizes.push(data.byteLength - offset - used);
+
+  const frames: Uint8Array[] = [];
+  for (const size of sizes) {
+    if (size < 0 || offset + size > data.byteLength) break;
+    frames.push(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  return frames;
+}
+
+/**
+ * Demuxer for WebM/Matroska files
+ */
+export class WebMDemuxer implements Demuxer {
+  readonly container = "webm" as const;
+  readonly duration?: number;
+  readonly videoTrack: DemuxedVideoTrack | null;
+  readonly audioTrack: DemuxedAudioTrack | null;
+
+  private reader: BlobReader;
+  private timecodeScale: number;
+  private firstClusterOffset: number;
+  private segmentEnd: number;
+  private tracks: Map<number, { kind: "video" | "audio"; info: TrackInfo }>;
+
+  private constructor(init: {
+    reader: BlobReader;
+    duration?: number;
+    timecodeScale: number;
+    firstClusterOffset: number;
+    segmentEnd: number;
+    video?: TrackInfo;
+    audio?: TrackInfo;
+  }) {
+    this.reader = init.reader;
+    this.duration = init.duration;
+    this.timecodeScale = init.timecodeScale;
+    this.firstClusterOffset = init.firstClusterOffset;
+    this.segmentEnd = init.segmentEnd;
+    this.videoTrack = init.video ? toVideoTrack(init.video) : null;
+    this.audioTrack = init.audio ? toAudioTrack(init.audio) : null;
+    this.tracks = new Map();
+    if (init.video) {
+      this.tracks.set(init.video.number, { kind: "video", info: init.video });
+    }
+    if (init.audio) {
+      this.tracks.set(init.audio.number, { kind: "audio", info: init.audio });
+    }
+  }
+
+  private static async readHeader(
+    reader: BlobReader,
+    offset: number,
+  ): Promise<ElementHeader | null> {
+    const bytes = await reader.read(offset, 12);
+    const header = readElementHeader(bytes, 0);
+    if (!header) return null;
+    return {
+      id: header.id,
+      size: header.size,
+      dataStart: offset + header.headerLength,
+    };
+  }
+
+  /**
+   * Parse the segment headers up to the first cluster. Throws when the file
+   * is not a usable WebM/Matroska file.
+   */
+  static async open(file: Blob): Promise<WebMDemuxer> {
+    const reader = new BlobReader(file);
+
+    const ebml = await WebMDemuxer.readHeader(reader, 0);
+    if (!ebml || ebml.id !== ID.EBML || ebml.size < 0) {
+      throw new Error("WebM: Missing EBML header");
+    }
+    const segment = await WebMDemuxer.readHeader(
+      reader,
+      ebml.dataStart + ebml.size,
+    );
+    if (!segment || segment.id !== ID.Segment) {
+      throw new Error("WebM: Missing Segment element");
+    }
+    const segmentEnd =
+      segment.size < 0
+        ? reader.size
+        : Math.min(reader.size, segment.dataStart + segment.size);
+
+    let timecodeScale = 1_000_000;
+    let rawDuration: number | undefined;
+    let trackInfos: TrackInfo[] | null = null;
+    let firstClusterOffset = -1;
+
+    let offset = segment.dataStart;
+    while (offset < segmentEnd) {
+      const header = await WebMDemuxer.readHeader(reader, offset);
+      if (!header) break;
+
+      if (header.id === ID.Cluster) {
+        firstClusterOffset = offset;
+        break;
+      }
+      if (header.size < 0) {
+        throw new Error("WebM: Unknown-size element before first Cluster");
+      }
+
+      if (header.id === ID.Info || header.id === ID.Tracks) {
+        const payload = (
+          await reader.read(header.dataStart, header.size)
+        ).slice();
+
+        if (header.id === ID.Info) {
+          for (const el of children(payload, 0, payload.byteLength)) {
+            if (el.id === ID.TimecodeScale) {
+              timecodeScale = readUint(payload, el.start, el.end);
+            } else if (el.id === ID.Duration) {
+              rawDuration = readFloat(payload, el.start, el.end);
+            }
+          }
+        } else {
+          trackInfos = [];
+          for (const el of children(payload, 0, payload.byteLength)) {
+            if (el.id === ID.TrackEntry) {
+              trackInfos.push(parseTrackEntry(payload, el.start, el.end));
+            }
+          }
+        }
+      }
+
+      offset = header.dataStart + header.size;
+    }
+
+    if (!trackInfos) {
+      throw new Error("WebM: No Tracks element found");
+    }
+    if (firstClusterOffset < 0) {
+      throw new Error("WebM: No Cluster found");
+    }
+
+    const video = trackInfos.find(
+      (t) => t.type === TRACK_TYPE_VIDEO && !t.compressed,
+    );
+    const audio = trackInfos.find(
+      (t) => t.type === TRACK_TYPE_AUDIO && !t.compressed,
+    );
+    if (!video && !audio) {
+      throw new Error("WebM: No audio or video track found");
+    }
+
+    return new WebMDemuxer({
+      reader,
+      duration:
+        rawDuration !== undefined
+          ? Math.round((rawDuration * timecodeScale) / 1000)
+          : undefined,
+      timecodeScale,
+      firstClusterOffset,
+      segmentEnd,
+      video,
+      audio,
+    });
+  }
+
+  async *samples(): AsyncGenerator<DemuxedSample> {
+    let clusterTimecode = 0;
+    let offset = this.firstClusterOffset;
+
+    // Cluster children never share IDs with top-level elements, so clusters
+    // (including unknown-size ones) can be walked as a flat element stream.
+    while (offset < this.segmentEnd) {
+      const header = await WebMDemuxer.readHeader(this.reader, offset);
+      if (!header) return;
+
+      if (header.id === ID.Cluster) {
+        offset = header.dataStart;
+        continue;
+      }
+      if (header.size < 0) return;
+
+      const end = header.dataStart + header.size;
+      if (end > this.reader.size) {
+        // Truncated file
+        return;
+      }
+
+      if (header.id === ID.Timecode) {
+        const payload = await this.reader.read(header.dataStart, header.size);
+        clusterTimecode = readUint(payload, 0, payload.byteLength);
+      } else if (header.id === ID.SimpleBlock) {
+        const payload = (
+          await this.reader.read(header.dataStart, header.size)
+        ).slice();
+        yield* this.parseBlock(payload, clusterTimecode, null, null);
+      } else if (header.id === ID.BlockGroup) {
+        const payload = (
+          await this.reader.read(header.dataStart, header.size)
+        ).slice();
+        let block: Uint8Array | null = null;
+        let blockDuration: number | null = null;
+        let isKey = true;
+        for (const el of children(payload, 0, payload.byteLength)) {
+          if (el.id === ID.Block) {
+            block = payload.subarray(el.start, el.end);
+          } else if (el.id === ID.BlockDuration) {
+            blockDuration = readUint(payload, el.start, el.end);
+          } else if (el.id === ID.ReferenceBlock) {
+            isKey = false;
+          }
+        }
+        if (block) {
+          yield* this.parseBlock(block, clusterTimecode, isKey, blockDuration);
+        }
+      }
+
+      offset = end;
+    }
+  }
+
+  private *parseBlock(
+    block: Uint8Array,
+    clusterTimecode: number,
+    isKey: boolean | null,
+    blockDuration: number | null,
+  ): Generator<DemuxedSample> {
+    const trackNumber = readVint(block, 0, false);
+    if (!trackNumber || block.byteLength < trackNumber.length + 3) return;
+
+    const track = this.tracks.get(trackNumber.value);
+    if (!track) return;
+
+    let offset = trackNumber.length;
+    const relativeTimecode = ((block[offset] << 24) >> 16) | block[offset + 1];
+    const flags = block[offset + 2];
+    offset += 3;
+
+    // SimpleBlock carries the keyframe flag itself
+    const key = isKey ?? (flags & 0x80) !== 0;
+    const frames = splitLaces(block, offset, (flags >> 1) & 0x03);
+
+    const timestamp =
+      ((clusterTimecode + relativeTimecode) * this.timecodeScale) / 1000;
+    const defaultDuration = (track.info.defaultDuration ?? 0) / 1000;
+    const totalDuration =
+      blockDuration !== null
+        ? (blockDuration * this.timecodeScale) / 1000
+        : defaultDuration * frames.length;
+    const frameDuration = frames.length ? totalDuration / frames.length : 0;
+
+    for (let i = 0; i < frames.length; i++) {
+      yield {
+        track: track.kind,
+        type: key ? "key" : "delta",
+        timestamp: Math.round(timestamp + i * frameDuration),
+        duration: Math.round(frameDuration),
+        data: frames[i],
+      };
+    }
+  }
+}
@@ -1,7 +1,22 @@
 // メイン関数ファーストAPI
 export { encode } from "./core/encode";
 export { encodeStream } from "./stream/encode-stream";
+export { encodeHls } from "./stream/encode-hls";
+export { encodeDash } from "./stream/encode-dash";
+export {
+  createEncodeTransform,
+  encodeToReadableStream,
+} from "./stream/encode-transform";
 export { canEncode } from "./utils/can-encode";
+export { configure } from "./core/configure";
+export type { EncoderSettings } from "./core/configure";
+export { registerEncoderBackend } from "./core/encoder-backends";
+export { createEncoderPool } from "./core/encoder-pool";
+export type {
+  EncoderPool,
+  EncoderPoolOptions,
+  PoolJobOptions,
+} from "./core/encoder-pool";
 
 // 高度な使用向け：カスタムエンコーダーファクトリ
 export { createEncoder, encoders, examples } from "./factory/encoder";
@@ -13,7 +28,15 @@ export type { EncoderFactory } from "./factory/encoder";
 export type {
   VideoSource,
   Frame,
+  MediaSourceItem,
+  VideoSourceItem,
+  AudioSourceItem,
+  AudioSamples,
   EncodeOptions,
+  EncodeOutputTarget,
+  WorkerSource,
+  ExecutionMode,
+  EncoderBackend,
   QualityPreset,
   VideoConfig,
   AudioConfig,
@@ -23,6 +46,20 @@ export type {
   ProgressInfo,
   EncodeErrorType,
   VideoFile,
+  EncodedChunkItem,
+  EncodeMode,
+  ContainerFormat,
+  Mp4Options,
+  EncodeStreamOptions,
+  StreamChunk,
+  StreamChunkKind,
+  EncodedOutputChunk,
+  HlsOptions,
+  HlsEncodeOptions,
+  HlsOutput,
+  DashOptions,
+  DashEncodeOptions,
+  DashOutput,
 } from "./types";
 
 export { EncodeError } from './types';
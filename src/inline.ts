@@ -0,0 +1,26 @@
+/**
+ * Entry point with the encoder worker built in
+ *
+ * Importing from `webcodecs-encoder/inline` runs encodes on a Blob worker
+ * made from the bundled worker source, so no worker file has to be served.
+ * The page's CSP must allow `worker-src blob:`.
+ */
+
+import { configure } from "./core/configure";
+
+export * from "./index";
+
+// Replaced with the bundled source of encoder-worker.ts at build time
+declare const __INLINE_WORKER_SOURCE__: string | undefined;
+
+if (
+  typeof __INLINE_WORKER_SOURCE__ === "string" &&
+  typeof Blob !== "undefined" &&
+  typeof URL !== "undefined" &&
+  typeof URL.createObjectURL === "function"
+) {
+  const blob = new Blob([__INLINE_WORKER_SOURCE__], {
+    type: "application/javascript",
+  });
+  configure({ workerUrl: URL.createObjectURL(blob) });
+}
@@ -0,0 +1,128 @@
+/**
+ * ADTS muxer for raw AAC (.aac) output
+ */
+
+import type { EncoderConfig, MainThreadMessage } from "../types";
+import { AudioStreamMuxerWrapper } from "./audiomuxer";
+
+const SAMPLING_FREQUENCIES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+
+const ADTS_HEADER_SIZE = 7;
+const MAX_FRAME_LENGTH = 0x1fff;
+
+interface AdtsParameters {
+  objectType: number;
+  frequencyIndex: number;
+  channelConfiguration: number;
+}
+
+/**
+ * Prefixes each AAC access unit with an ADTS header. The header fields come
+ * from the AudioSpecificConfig in the encoder's decoder configuration, or from
+ * the encoder config when the encoder does not provide one. Chunks that
+ * already start with an ADTS header (`aac.format: 'adts'`) are written as-is.
+ */
+export class AdtsMuxerWrapper extends AudioStreamMuxerWrapper {
+  private parameters: AdtsParameters | null = null;
+
+  constructor(
+    config: EncoderConfig,
+    postMessageCallback: (
+      message: MainThreadMessage,
+      transfer?: Transferable[],
+    ) => void,
+    options?: { disableAudio?: boolean },
+  ) {
+    super("aac", "ADTS", ["aac"], config, postMessageCallback, options);
+  }
+
+  protected writeAudioChunk(
+    data: Uint8Array,
+    _chunk: EncodedAudioChunk,
+    meta?: EncodedAudioChunkMetadata,
+  ): void {
+    if (data.byteLength >= 2 && data[0] === 0xff && (data[1] & 0xf6) === 0xf0) {
+      this.write(data);
+      return;
+    }
+
+    const description = meta?.decoderConfig?.description;
+    if (description) {
+      this.parameters = parseAudioSpecificConfig(description);
+    }
+    if (!this.parameters) {
+      this.parameters = {
+        objectType: 2, // AAC-LC
+        frequencyIndex: frequencyIndexFor(this.config.sampleRate),
+        channelConfiguration: this.config.channels,
+      };
+    }
+
+    const frameLength = ADTS_HEADER_SIZE + data.byteLength;
+    if (frameLength > MAX_FRAME_LENGTH) {
+      throw new Error(`AAC frame of ${data.byteLength} bytes is too large`);
+    }
+    const { objectType, frequencyIndex, channelConfiguration } =
+      this.parameters;
+    const frame = new Uint8Array(frameLength);
+    frame[0] = 0xff;
+    frame[1] = 0xf1; // MPEG-4, layer 0, no CRC
+    frame[2] =
+      ((objectType - 1) << 6) |
+      (frequencyIndex << 2) |
+      ((channelConfiguration >> 2) & 0x01);
+    frame[3] = ((channelConfiguration & 0x03) << 6) | (frameLength >> 11);
+    frame[4] = (frameLength >> 3) & 0xff;
+    frame[5] = ((frameLength & 0x07) << 5) | 0x1f; // buffer fullness 0x7ff (VBR)
+    frame[6] = 0xfc; // one raw data block
+    frame.set(data, ADTS_HEADER_SIZE);
+    this.write(frame);
+  }
+}
+
+function frequencyIndexFor(sampleRate: number): number {
+  const index = SAMPLING_FREQUENCIES.indexOf(sampleRate);
+  if (index < 0) {
+    throw new Error(`Sample rate ${sampleRate} cannot be stored in ADTS`);
+  }
+  return index;
+}
+
+function parseAudioSpecificConfig(
+  description: AllowSharedBufferSource,
+): AdtsParameters | null {
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(
+        description.buffer,
+        description.byteOffset,
+        description.byteLength,
+      )
+    : new Uint8Array(description);
+  if (bytes.byteLength < 2) return null;
+
+  let objectType = bytes[0] >> 3;
+  let frequencyIndex = ((bytes[0] & 0x07) << 1) | (bytes[1] >> 7);
+  let channelConfiguration = (bytes[1] >> 3) & 0x0f;
+  if (frequencyIndex === 0x0f) {
+    // Explicit 24-bit frequency follows the index
+    if (bytes.byteLength < 5) return null;
+    const frequency =
+      ((bytes[1] & 0x7f) << 17) |
+      (bytes[2] << 9) |
+      (bytes[3] << 1) |
+      (bytes[4] >> 7);
+    frequencyIndex = frequencyIndexFor(frequency);
+    channelConfiguration = (bytes[4] >> 3) & 0x0f;
+  }
+  // ADTS can only signal the core profile of HE-AAC (SBR/PS are implicit)
+  if (objectType === 5 || objectType === 29) {
+    objectType = 2;
+  }
+  if (objectType < 1 || objectType > 4) {
+    throw new Error(`AAC object type ${objectType} cannot be stored in ADTS`);
+  }
+  return { objectType, frequencyIndex, channelConfiguration };
+}
@@ -0,0 +1,221 @@
+/**
+ * Shared plumbing for containers that hold a single audio stream
+ */
+
+import type {
+  AudioCodec,
+  ContainerFormat,
+  EncoderConfig,
+  MainThreadMessage,
+  WorkerDataChunkMessage,
+} from "../types";
+import { EncoderErrorType } from "../types";
+import { streamsOutput } from "../utils/container";
+
+/**
+ * Base class for the WAV, ADTS, Ogg and MP3 wrappers. Subclasses turn encoded
+ * audio chunks into bytes with `write()`; the base class buffers them, or
+ * posts them as `dataChunk` messages in realtime mode, and exposes the same
+ * surface as the MP4/WebM wrappers.
+ */
+export abstract class AudioStreamMuxerWrapper {
+  protected config: EncoderConfig;
+  protected readonly audioConfigured: boolean;
+  private postMessageToMain: (
+    message: MainThreadMessage,
+    transfer?: Transferable[],
+  ) => void;
+  private chunks: Uint8Array[] = [];
+  private bytesWritten = 0;
+  private headerWritten = false;
+  private headerLength = 0;
+  // Media time of the chunks added since data was last posted, in microseconds
+  private pendingRange: { start: number; end: number } | null = null;
+
+  protected constructor(
+    private container: ContainerFormat,
+    private label: string,
+    supportedCodecs: readonly AudioCodec[],
+    config: EncoderConfig,
+    postMessageCallback: (
+      message: MainThreadMessage,
+      transfer?: Transferable[],
+    ) => void,
+    options?: { disableAudio?: boolean },
+  ) {
+    this.config = config;
+    this.postMessageToMain = postMessageCallback;
+
+    let disableAudio = options?.disableAudio ?? false;
+    const requestedAudioCodec = config.codec?.audio;
+    if (
+      !disableAudio &&
+      (!requestedAudioCodec || !supportedCodecs.includes(requestedAudioCodec))
+    ) {
+      console.warn(
+        `${label} muxer: Audio codec ${requestedAudioCodec} is not supported. Disabling audio track.`,
+      );
+      disableAudio = true;
+    }
+    this.audioConfigured = !disableAudio;
+  }
+
+  addVideoChunk(
+    _chunk: EncodedVideoChunk,
+    _meta?: EncodedVideoChunkMetadata,
+  ): void {
+    this.postMessageToMain({
+      type: "error",
+      errorDetail: {
+        message: `${this.label}: Container has no video track.`,
+        type: EncoderErrorType.ConfigurationError,
+      },
+    });
+  }
+
+  addAudioChunk(
+    chunk: EncodedAudioChunk,
+    meta?: EncodedAudioChunkMetadata,
+  ): void {
+    if (!this.audioConfigured) return;
+    try {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      this.addPendingRange(chunk);
+      this.writeAudioChunk(data, chunk, meta);
+    } catch (e: any) {
+      this.postMessageToMain({
+        type: "error",
+        errorDetail: {
+          message: `${this.label}: Error adding audio chunk: ${e.message}`,
+          type: EncoderErrorType.MuxingFailed,
+          stack: e.stack,
+        },
+      });
+    }
+  }
+
+  finalize(): Uint8Array | null {
+    try {
+      this.flush();
+
+      if (streamsOutput(this.config)) {
+        this.writeHeaderOnce();
+        if (this.config.seekableOutput) {
+          // The receiver writes at offsets, so the sizes can be filled in
+          const header = this.buildHeader(
+            this.bytesWritten - this.headerLength,
+          );
+          if (header) this.post(header, true, 0);
+        }
+        return null;
+      }
+
+      const header = this.buildHeader(this.bytesWritten);
+      const headerLength = header?.byteLength ?? 0;
+      const output = new Uint8Array(headerLength + this.bytesWritten);
+      if (header) output.set(header, 0);
+      let offset = headerLength;
+      for (const chunk of this.chunks) {
+        output.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+      this.chunks = [];
+      return output;
+    } catch (e: any) {
+      this.postMessageToMain({
+        type: "error",
+        errorDetail: {
+          message: `${this.label}: Error finalizing muxer: ${e.message}`,
+          type: EncoderErrorType.MuxingFailed,
+          stack: e.stack,
+        },
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Append one encoded audio chunk to the output
+   */
+  protected abstract writeAudioChunk(
+    data: Uint8Array,
+    chunk: EncodedAudioChunk,
+    meta?: EncodedAudioChunkMetadata,
+  ): void;
+
+  /**
+   * Bytes that precede the stream. `dataSize` is the number of bytes written
+   * after the header, or null while streaming when it is not known yet.
+   */
+  protected buildHeader(_dataSize: number | null): Uint8Array | null {
+    return null;
+  }
+
+  /**
+   * Called before the output is completed to write any buffered data
+   */
+  protected flush(): void {}
+
+  /**
+   * Append bytes to the output. In realtime mode they are posted right away,
+   * preceded by the header on the first call.
+   */
+  protected write(bytes: Uint8Array, isHeader = false): void {
+    if (!streamsOutput(this.config)) {
+      this.chunks.push(bytes);
+      this.bytesWritten += bytes.byteLength;
+      return;
+    }
+    if (!isHeader) {
+      this.writeHeaderOnce();
+    }
+    this.post(bytes, isHeader);
+  }
+
+  private writeHeaderOnce(): void {
+    if (this.headerWritten) return;
+    this.headerWritten = true;
+    const header = this.buildHeader(null);
+    if (header) {
+      this.headerLength = header.byteLength;
+      this.post(header, true);
+    }
+  }
+
+  private addPendingRange(chunk: EncodedAudioChunk): void {
+    if (typeof chunk.timestamp !== "number") return;
+    const end = chunk.timestamp + (chunk.duration ?? 0);
+    this.pendingRange = this.pendingRange
+      ? {
+          start: Math.min(this.pendingRange.start, chunk.timestamp),
+          end: Math.max(this.pendingRange.end, end),
+        }
+      : { start: chunk.timestamp, end };
+  }
+
+  /**
+   * Post bytes at the end of the output, or over earlier bytes at `offset`
+   */
+  private post(bytes: Uint8Array, isHeader: boolean, offset?: number): void {
+    const chunkCopy = new Uint8Array(bytes);
+    // Every audio frame can start playback
+    const message: WorkerDataChunkMessage = {
+      type: "dataChunk",
+      chunk: chunkCopy,
+      offset: offset ?? this.bytesWritten,
+      isHeader,
+      container: this.container,
+      kind: isHeader ? "init" : "fragment",
+      keyframe: !isHeader,
+    };
+    if (!isHeader && this.pendingRange) {
+      message.timestampRange = this.pendingRange;
+      this.pendingRange = null;
+    }
+    if (offset === undefined) {
+      this.bytesWritten += chunkCopy.byteLength;
+    }
+    this.postMessageToMain(message, [chunkCopy.buffer]);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Kind, media time and key frame flag of streamed muxer output, for the
+ * detailed chunks of encodeStream()
+ */
+
+import type { StreamChunkKind } from "../types";
+import {
+  ID,
+  TrackInfo,
+  children,
+  parseTrackEntry,
+  readElementHeader,
+  readUint,
+  readVint,
+} from "../demuxers/webmdemuxer";
+import {
+  Fmp4TrackInfo,
+  parseFmp4Fragment,
+  parseFmp4Init,
+} from "../utils/fmp4-segmenter";
+
+export interface ChunkInfo {
+  kind: StreamChunkKind;
+  timestampRange?: { start: number; end: number }; // microseconds
+  keyframe: boolean;
+}
+
+const WEBM_INIT_IDS = new Set<number>([
+  ID.EBML,
+  ID.Segment,
+  ID.Info,
+  ID.Tracks,
+  0x114d9b74, // SeekHead
+  0x1254c367, // Tags
+  0x1043a770, // Chapters
+]);
+const WEBM_CUES = 0x1c53bb6b;
+
+/**
+ * Reads the top-level boxes of each chunk written by mp4-muxer. A chunk that
+ * does not start on a known box, such as an mdat written apart from its moof,
+ * is reported like the chunk before it.
+ */
+export class Mp4ChunkInfoReader {
+  private tracks = new Map<number, Fmp4TrackInfo>();
+  private last: ChunkInfo = { kind: "init", keyframe: false };
+
+  read(chunk: Uint8Array): ChunkInfo {
+    const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    let info: ChunkInfo | null = null;
+    let offset = 0;
+
+    while (offset + 8 <= chunk.byteLength) {
+      let size = view.getUint32(offset);
+      const type = String.fromCharCode(
+        ...chunk.subarray(offset + 4, offset + 8),
+      );
+      if (size === 1 && offset + 16 <= chunk.byteLength) {
+        size =
+          view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      } else if (size === 0) {
+        size = chunk.byteLength - offset;
+      }
+      if (size < 8) break;
+      const box = chunk.subarray(offset, offset + size);
+      const complete = offset + size <= chunk.byteLength;
+
+      if (type === "moov" && complete) {
+        this.tracks = parseFmp4Init(box).tracks;
+      }
+      if (!info) {
+        if (type === "ftyp" || type === "moov") {
+          info = { kind: "init", keyframe: false };
+        } else if (type === "moof" && complete) {
+          info = this.readFragment(box);
+        } else if (type === "styp" || type === "moof") {
+          info = { kind: "fragment", keyframe: false };
+        } else if (type === "mfra") {
+          info = { kind: "index", keyframe: false };
+        }
+      }
+      offset += size;
+    }
+
+    this.last = info ?? this.last;
+    return this.last;
+  }
+
+  private readFragment(moof: Uint8Array): ChunkInfo {
+    const fragments = parseFmp4Fragment(moof, this.tracks);
+    if (fragments.length === 0) return { kind: "fragment", keyframe: false };
+
+    const start = Math.min(...fragments.map((f) => f.startTime));
+    const end = Math.max(...fragments.map((f) => f.startTime + f.duration));
+    // Audio samples are all sync samples; the video track decides
+    const video = fragments.find((f) => f.handler === "vide");
+    return {
+      kind: "fragment",
+      timestampRange: {
+        start: Math.round(start * 1e6),
+        end: Math.round(end * 1e6),
+      },
+      keyframe: video ? video.keyframe : fragments.every((f) => f.keyframe),
+    };
+  }
+}
+
+/**
+ * Reads the elements of each chunk written by webm-muxer. Segment and Cluster
+ * are entered so that the blocks in a chunk are found whether or not their
+ * Cluster starts in it.
+ */
+export class WebMChunkInfoReader {
+  private timecodeScale = 1_000_000; // nanoseconds
+  private tracks = new Map<number, TrackInfo>();
+  private clusterTime = 0;
+  private lastBlockTime = new Map<number, number>();
+  private frameGap = new Map<number, number>();
+  private lastKind: StreamChunkKind = "init";
+
+  read(chunk: Uint8Array): ChunkInfo {
+    let kind: StreamChunkKind | null = null;
+    let keyframe: boolean | null = null;
+    let start = Infinity;
+    let end = -Infinity;
+    let offset = 0;
+
+    while (offset < chunk.byteLength) {
+      const header = readElementHeader(chunk, offset);
+      if (!header) break;
+      const dataStart = offset + header.headerLength;
+      const dataEnd = dataStart + header.size;
+      const complete = header.size >= 0 && dataEnd <= chunk.byteLength;
+
+      if (WEBM_INIT_IDS.has(header.id)) {
+        kind ??= "init";
+        if (header.id === ID.Info && complete) {
+          this.parseInfo(chunk, dataStart, dataEnd);
+        } else if (header.id === ID.Tracks && complete) {
+          this.parseTracks(chunk, dataStart, dataEnd);
+        }
+      } else if (header.id === WEBM_CUES) {
+        kind ??= "index";
+      } else if (header.id === ID.Cluster) {
+        kind ??= "cluster";
+      } else if (header.id === ID.Timecode && complete) {
+        kind ??= "cluster";
+        this.clusterTime = readUint(chunk, dataStart, dataEnd);
+      } else if (
+        (header.id === ID.SimpleBlock || header.id === ID.BlockGroup) &&
+        complete
+      ) {
+        kind ??= "cluster";
+        const block = this.readBlock(header.id, chunk, dataStart, dataEnd);
+        if (block) {
+          keyframe ??= block.keyframe;
+          start = Math.min(start, block.start);
+          end = Math.max(end, block.end);
+        }
+      }
+
+      if (header.id === ID.Segment || header.id === ID.Cluster) {
+        offset = dataStart;
+      } else if (header.size < 0) {
+        break;
+      } else {
+        offset = dataEnd;
+      }
+    }
+
+    this.lastKind = kind ?? this.lastKind;
+    const info: ChunkInfo = {
+      kind: this.lastKind,
+      keyframe: keyframe ?? false,
+    };
+    if (start <= end) {
+      info.timestampRange = {
+        start: this.toMicroseconds(start),
+        end: this.toMicroseconds(end),
+      };
+    }
+    return info;
+  }
+
+  /**
+   * Time of a block, and its end from BlockDuration, the track default or
+   * the gap since the previous block of the same track, in timecode units
+   */
+  private readBlock(
+    id: number,
+    chunk: Uint8Array,
+    start: number,
+    end: number,
+  ): { start: number; end: number; keyframe: boolean } | null {
+    let block = chunk.subarray(start, end);
+    let blockDuration: number | null = null;
+    let keyframe: boolean;
+    if (id === ID.BlockGroup) {
+      let found: Uint8Array | null = null;
+      let referenced = false;
+      for (const el of children(block, 0, block.byteLength)) {
+        if (el.id === ID.Block) {
+          found = block.subarray(el.start, el.end);
+        } else if (el.id === ID.BlockDuration) {
+          blockDuration = readUint(block, el.start, el.end);
+        } else if (el.id === ID.ReferenceBlock) {
+          referenced = true;
+        }
+      }
+      if (!found) return null;
+      block = found;
+      keyframe = !referenced;
+    } else {
+      keyframe = false;
+    }
+
+    const trackNumber = readVint(block, 0, false);
+    if (!trackNumber || block.byteLength < trackNumber.length + 3) return null;
+    const offset = trackNumber.length;
+    const relativeTimecode = ((block[offset] << 24) >> 16) | block[offset + 1];
+    if (id === ID.SimpleBlock) {
+      keyframe = (block[offset + 2] & 0x80) !== 0;
+    }
+    const timecode = this.clusterTime + relativeTimecode;
+
+    const track = trackNumber.value;
+    const previous = this.lastBlockTime.get(track);
+    if (previous !== undefined && timecode > previous) {
+      this.frameGap.set(track, timecode - previous);
+    }
+    this.lastBlockTime.set(track, timecode);
+    const defaultDuration = this.tracks.get(track)?.defaultDuration;
+    const duration =
+      blockDuration ??
+      (defaultDuration !== undefined
+        ? defaultDuration / this.timecodeScale
+        : (this.frameGap.get(track) ?? 0));
+
+    return { start: timecode, end: timecode + duration, keyframe };
+  }
+
+  private toMicroseconds(timecode: number): number {
+    return Math.round((timecode * this.timecodeScale) / 1000);
+  }
+
+  private parseInfo(chunk: Uint8Array, start: number, end: number): void {
+    for (const el of children(chunk, start, end)) {
+      if (el.id === ID.TimecodeScale) {
+        this.timecodeScale = readUint(chunk, el.start, el.end);
+      }
+    }
+  }
+
+  private parseTracks(chunk: Uint8Array, start: number, end: number): void {
+    for (const el of children(chunk, start, end)) {
+      if (el.id === ID.TrackEntry) {
+        const track = parseTrackEntry(chunk, el.start, el.end);
+        this.tracks.set(track.number, track);
+      }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * MP3 muxer: an elementary stream of MPEG audio frames
+ */
+
+import type { EncoderConfig, MainThreadMessage } from "../types";
+import { AudioStreamMuxerWrapper } from "./audiomuxer";
+
+/**
+ * MP3 frames carry their own headers, so encoded chunks are concatenated.
+ */
+export class Mp3MuxerWrapper extends AudioStreamMuxerWrapper {
+  constructor(
+    config: EncoderConfig,
+    postMessageCallback: (
+      message: MainThreadMessage,
+      transfer?: Transferable[],
+    ) => void,
+    options?: { disableAudio?: boolean },
+  ) {
+    super("mp3", "MP3", ["mp3"], config, postMessageCallback, options);
+  }
+
+  protected writeAudioChunk(data: Uint8Array): void {
+    this.write(data);
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Edits to mp4-muxer output for boxes it cannot write by itself: Opus and
+ * FLAC audio sample entries, and extra ftyp brands
+ */
+
+import {
+  dflaFromFlacDescription,
+  dopsFromOpusHead,
+} from "../demuxers/codec-config";
+
+interface BoxHeader {
+  type: string;
+  offset: number;
+  headerSize: number;
+  end: number;
+}
+
+export type Mp4RewrittenAudioCodec = "opus" | "flac";
+
+function readType(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function readBoxHeaders(
+  data: Uint8Array,
+  start: number,
+  end: number,
+): BoxHeader[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: BoxHeader[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({
+      type: readType(data, offset + 4),
+      offset,
+      headerSize,
+      end: offset + size,
+    });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function childBoxes(data: Uint8Array, parent: BoxHeader): BoxHeader[] {
+  return readBoxHeaders(data, parent.offset + parent.headerSize, parent.end);
+}
+
+function childBox(
+  data: Uint8Array,
+  parent: BoxHeader | undefined,
+  type: string,
+): BoxHeader | undefined {
+  return parent && childBoxes(data, parent).find((box) => box.type === type);
+}
+
+function box(type: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + payload.byteLength);
+  new DataView(out.buffer).setUint32(0, out.byteLength);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(payload, 8);
+  return out;
+}
+
+/**
+ * Build an 'Opus' (with dOps) or 'fLaC' (with dfLa) AudioSampleEntry from the
+ * AudioEncoder description.
+ *
+ * @throws Error when FLAC has no description, or multichannel Opus has no
+ * OpusHead to take the channel mapping from
+ */
+export function buildAudioSampleEntry(
+  codec: Mp4RewrittenAudioCodec,
+  description: Uint8Array | undefined,
+  numberOfChannels: number,
+  sampleRate: number,
+): Uint8Array {
+  let configBox: Uint8Array;
+  let entrySampleRate: number;
+
+  if (codec === "opus") {
+    let dOps: Uint8Array;
+    if (description && readType(description, 0) === "Opus") {
+      dOps = dopsFromOpusHead(description);
+    } else {
+      if (numberOfChannels > 2) {
+        throw new Error(
+          "Opus with more than 2 channels requires an OpusHead from the encoder",
+        );
+      }
+      dOps = new Uint8Array(11);
+      const view = new DataView(dOps.buffer);
+      dOps[1] = numberOfChannels;
+      view.setUint32(4, sampleRate); // pre-skip and gain left at 0
+    }
+    configBox = box("dOps", dOps);
+    // The sample rate of an Opus entry is always 48 kHz
+    entrySampleRate = 48000;
+  } else {
+    if (!description) {
+      throw new Error("FLAC in MP4 requires the encoder's STREAMINFO");
+    }
+    const blocks = dflaFromFlacDescription(description);
+    const payload = new Uint8Array(4 + blocks.byteLength); // full box v0
+    payload.set(blocks, 4);
+    configBox = box("dfLa", payload);
+    entrySampleRate = sampleRate <= 0xffff ? sampleRate : 0;
+  }
+
+  const fields = new Uint8Array(28);
+  const view = new DataView(fields.buffer);
+  view.setUint16(6, 1); // data reference index
+  view.setUint16(16, numberOfChannels);
+  view.setUint16(18, 16); // sample size
+  view.setUint32(24, entrySampleRate * 0x10000);
+
+  const payload = new Uint8Array(fields.byteLength + configBox.byteLength);
+  payload.set(fields, 0);
+  payload.set(configBox, fields.byteLength);
+  return box(codec === "opus" ? "Opus" : "fLaC", payload);
+}
+
+/**
+ * Add `brand` to the compatible brands of the leading ftyp box.
+ *
+ * @returns null while `data` does not contain the whole ftyp box
+ */
+export function addCompatibleBrand(
+  data: Uint8Array,
+  brand: string,
+): { data: Uint8Array; delta: number } | null {
+  const [ftyp] = readBoxHeaders(data, 0, data.byteLength);
+  if (!ftyp) return null;
+  if (ftyp.type !== "ftyp") return { data, delta: 0 };
+
+  // major_brand and minor_version precede the compatible brands
+  for (let at = ftyp.offset + ftyp.headerSize + 8; at < ftyp.end; at += 4) {
+    if (readType(data, at) === brand) return { data, delta: 0 };
+  }
+
+  const out = new Uint8Array(data.byteLength + 4);
+  out.set(data.subarray(0, ftyp.end), 0);
+  for (let i = 0; i < 4; i++) out[ftyp.end + i] = brand.charCodeAt(i);
+  out.set(data.subarray(ftyp.end), ftyp.end + 4);
+  new DataView(out.buffer).setUint32(ftyp.offset, ftyp.end - ftyp.offset + 4);
+  return { data: out, delta: 4 };
+}
+
+/**
+ * Replace the sample entry of the sound track in `data`, which must start at
+ * the beginning of the file. Box sizes up to moov are updated and chunk
+ * offsets that point past the moov box are shifted by the size change.
+ *
+ * @returns null while `data` does not contain the whole moov box
+ */
+export function replaceAudioSampleEntry(
+  data: Uint8Array,
+  entry: Uint8Array,
+): { data: Uint8Array; delta: number } | null {
+  const moov = readBoxHeaders(data, 0, data.byteLength).find(
+    (b) => b.type === "moov",
+  );
+  if (!moov) return null;
+
+  for (const trak of childBoxes(data, moov)) {
+    if (trak.type !== "trak") continue;
+    const mdia = childBox(data, trak, "mdia");
+    const hdlr = childBox(data, mdia, "hdlr");
+    // hdlr: full box header, pre_defined, handler_type
+    if (!hdlr || readType(data, hdlr.offset + hdlr.headerSize + 8) !== "soun") {
+      continue;
+    }
+    const minf = childBox(data, mdia, "minf");
+    const stbl = childBox(data, minf, "stbl");
+    const stsd = childBox(data, stbl, "stsd");
+    if (!mdia || !minf || !stbl || !stsd) return null;
+
+    // stsd: full box header and entry count precede the entries
+    const [oldEntry] = readBoxHeaders(
+      data,
+      stsd.offset + stsd.headerSize + 8,
+      stsd.end,
+    );
+    if (!oldEntry) return null;
+
+    const delta = entry.byteLength - (oldEntry.end - oldEntry.offset);
+    const out = new Uint8Array(data.byteLength + delta);
+    out.set(data.subarray(0, oldEntry.offset), 0);
+    out.set(entry, oldEntry.offset);
+    out.set(data.subarray(oldEntry.end), oldEntry.offset + entry.byteLength);
+
+    const view = new DataView(out.buffer);
+    for (const parent of [moov, trak, mdia, minf, stbl, stsd]) {
+      const size = parent.end - parent.offset + delta;
+      if (parent.headerSize === 16) {
+        view.setUint32(parent.offset + 8, Math.floor(size / 2 ** 32));
+        view.setUint32(parent.offset + 12, size >>> 0);
+      } else {
+        view.setUint32(parent.offset, size);
+      }
+    }
+
+    if (delta !== 0) {
+      shiftChunkOffsets(
+        out,
+        { ...moov, end: moov.end + delta },
+        moov.end,
+        delta,
+      );
+    }
+    return { data: out, delta };
+  }
+
+  // No sound track to rewrite
+  return { data, delta: 0 };
+}
+
+function shiftChunkOffsets(
+  data: Uint8Array,
+  moov: BoxHeader,
+  threshold: number,
+  delta: number,
+): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (const trak of childBoxes(data, moov)) {
+    if (trak.type !== "trak") continue;
+    const stbl = childBox(
+      data,
+      childBox(data, childBox(data, trak, "mdia"), "minf"),
+      "stbl",
+    );
+    for (const table of stbl ? childBoxes(data, stbl) : []) {
+      const start = table.offset + table.headerSize;
+      const count = view.getUint32(start + 4);
+      if (table.type === "stco") {
+        for (let i = 0; i < count; i++) {
+          const at = start + 8 + i * 4;
+          const offset = view.getUint32(at);
+          if (offset >= threshold) view.setUint32(at, offset + delta);
+        }
+      } else if (table.type === "co64") {
+        for (let i = 0; i < count; i++) {
+          const at = start + 8 + i * 8;
+          const offset = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+          if (offset >= threshold) {
+            const shifted = offset + delta;
+            view.setUint32(at, Math.floor(shifted / 2 ** 32));
+            view.setUint32(at + 4, shifted >>> 0);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Shift the moof offsets of a fragmented file's mfra index, in place. Used
+ * for streamed output whose moov box grew after the index was written.
+ */
+export function shiftFragmentIndex(data: Uint8Array, delta: number): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (const mfra of readBoxHeaders(data, 0, data.byteLength)) {
+    if (mfra.type !== "mfra") continue;
+    for (const tfra of childBoxes(data, mfra)) {
+      if (tfra.type !== "tfra") continue;
+      const start = tfra.offset + tfra.headerSize;
+      const version = data[start];
+      const sizes = view.getUint32(start + 8);
+      const count = view.getUint32(start + 12);
+      const fieldSize = version === 1 ? 8 : 4;
+      const trailingSize =
+        ((sizes >> 4) & 0x03) + ((sizes >> 2) & 0x03) + (sizes & 0x03) + 3;
+      let at = start + 16;
+      for (let i = 0; i < count; i++) {
+        const offsetAt = at + fieldSize;
+        if (version === 1) {
+          const offset =
+            view.getUint32(offsetAt) * 2 ** 32 + view.getUint32(offsetAt + 4);
+          const shifted = offset + delta;
+          view.setUint32(offsetAt, Math.floor(shifted / 2 ** 32));
+          view.setUint32(offsetAt + 4, shifted >>> 0);
+        } else {
+          view.setUint32(offsetAt, view.getUint32(offsetAt) + delta);
+        }
+        at += fieldSize * 2 + trailingSize;
+      }
+    }
+  }
+}
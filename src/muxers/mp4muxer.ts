@@ -5,6 +5,16 @@ import type {
   WorkerDataChunkMessage,
 } from "../types";
 import { EncoderErrorType } from "../types";
+import { streamsOutput } from "../utils/container";
+import { findConstructor } from "../core/encoder-backends";
+import { Mp4ChunkInfoReader } from "./chunk-info";
+import {
+  addCompatibleBrand,
+  buildAudioSampleEntry,
+  replaceAudioSampleEntry,
+  shiftFragmentIndex,
+  type Mp4RewrittenAudioCodec,
+} from "./mp4-box-rewrite";
 
 // MuxerOptions がエクスポートされていないため、ConstructorParameters を使用して型を推論し、
 // fastStart プロパティを明示的に追加します。
@@ -25,6 +35,7 @@ interface ExtendedMuxerOptions
     | "in-memory"
     | "fragmented"
     | { expectedVideoChunks?: number; expectedAudioChunks?: number };
+  minFragmentDuration?: number;
   // Add other potential options if needed based on mp4-muxer documentation
 }
 
@@ -40,6 +51,16 @@ export class Mp4MuxerWrapper {
   private firstAudioTimestamp: number | null = null;
   private firstVideoTimestamp: number | null = null;
   private firstTimestamp: number | null = null;
+  private fragmented: boolean;
+  private streamed: boolean;
+  private cmaf: boolean;
+  // Opus and FLAC sample entries are written by us after mp4-muxer is done
+  private rewrittenAudioCodec: Mp4RewrittenAudioCodec | null = null;
+  private audioDescription: Uint8Array | undefined;
+  private streamHead: Uint8Array | null = new Uint8Array(0);
+  private streamOffsetDelta = 0;
+  private finalizing = false;
+  private chunkInfo = new Mp4ChunkInfoReader();
   private postMessageToMain: (
     message: MainThreadMessage,
     transfer?: Transferable[],
@@ -62,7 +83,7 @@ export class Mp4MuxerWrapper {
       config.width <= 0 || config.height <= 0 || config.videoBitrate <= 0;
 
     const audioCodecOption = config.codec?.audio ?? "aac";
-    const supportedAudioCodecsForMp4 = new Set(["aac", "mp3"]);
+    const supportedAudioCodecsForMp4 = new Set(["aac", "mp3", "opus", "flac"]);
     if (!supportedAudioCodecsForMp4.has(audioCodecOption)) {
       console.warn(
         `MP4 muxer: Audio codec ${audioCodecOption} is not supported. Disabling audio track.`,
@@ -70,7 +91,15 @@ export class Mp4MuxerWrapper {
       disableAudio = true;
     }
 
-    const muxerAudioCodec = audioCodecOption;
+    if (
+      !disableAudio &&
+      (audioCodecOption === "opus" || audioCodecOption === "flac")
+    ) {
+      this.rewrittenAudioCodec = audioCodecOption;
+    }
+    // mp4-muxer has no FLAC support; its Opus entry stands in until finalize
+    const muxerAudioCodec =
+      audioCodecOption === "flac" ? "opus" : audioCodecOption;
 
     const commonMuxerOptions: Partial<ExtendedMuxerOptions> = {};
 
@@ -112,19 +141,33 @@ export class Mp4MuxerWrapper {
       };
     }
 
-    if (config.latencyMode === "realtime") {
+    // Fragmented output is streamed as it is written; a progressive file is
+    // only complete once the moov box is placed in front at finalize
+    const streaming = streamsOutput(config);
+    this.cmaf = config.mp4?.cmaf === true;
+    this.fragmented =
+      config.mp4?.fragmented ??
+      (this.cmaf || (streaming && !config.seekableOutput));
+    if (this.fragmented && config.mp4?.fragmentDuration !== undefined) {
+      commonMuxerOptions.minFragmentDuration = config.mp4.fragmentDuration;
+    }
+    // A receiver that writes at offsets also takes a progressive file as it
+    // is written: mdat first, its size patched and the moov box at the end.
+    // Rewriting the head would mean holding the whole file back.
+    this.streamed =
+      streaming &&
+      (this.fragmented ||
+        (config.seekableOutput === true && !this.rewritesHead()));
+
+    if (this.streamed) {
       this.target = new StreamTarget({
         onData: (chunk: Uint8Array, position: number) => {
           const chunkCopy = new Uint8Array(chunk.slice(0)); // Ensure buffer is not reused by mp4-muxer
-          const isHeader = position === 0;
-          const message: WorkerDataChunkMessage = {
-            type: "dataChunk",
-            chunk: chunkCopy,
-            offset: position, // Use position as offset
-            isHeader,
-            container: "mp4",
-          };
-          this.postMessageToMain(message, [chunkCopy.buffer]);
+          if (this.rewritesHead()) {
+            this.handleRewrittenStreamData(chunkCopy, position);
+          } else {
+            this.postDataChunk(chunkCopy, position);
+          }
         },
       } as any); // Use `as any` to bypass the strict type check for StreamTargetOptions if it's causing issues
       // This is a temporary workaround if the locally available .d.ts for mp4-muxer is problematic.
@@ -133,14 +176,14 @@ export class Mp4MuxerWrapper {
       this.muxer = new Muxer({
         target: this.target,
         ...commonMuxerOptions,
-        fastStart: "fragmented",
+        fastStart: this.fragmented ? "fragmented" : false,
       } as ExtendedMuxerOptions);
     } else {
       this.target = new ArrayBufferTarget();
       this.muxer = new Muxer({
         target: this.target,
         ...commonMuxerOptions,
-        fastStart: "in-memory", // or false, depending on desired behavior for non-realtime
+        fastStart: this.fragmented ? "fragmented" : "in-memory",
       } as ExtendedMuxerOptions);
     }
 
@@ -148,6 +191,87 @@ export class Mp4MuxerWrapper {
     this.audioConfigured = !disableAudio;
   }
 
+  private postDataChunk(chunk: Uint8Array, position: number): void {
+    const isHeader = position === 0;
+    const message: WorkerDataChunkMessage = {
+      type: "dataChunk",
+      chunk,
+      offset: position, // Use position as offset
+      isHeader,
+      container: "mp4",
+      ...this.chunkInfo.read(chunk),
+    };
+    this.postMessageToMain(message, [chunk.buffer]);
+  }
+
+  private rewritesHead(): boolean {
+    return this.cmaf || this.rewrittenAudioCodec !== null;
+  }
+
+  /**
+   * Adds the CMAF brand and swaps in the Opus/FLAC sample entry.
+   *
+   * @returns null while `data` does not reach the end of the moov box
+   */
+  private rewriteHead(
+    data: Uint8Array,
+  ): { data: Uint8Array; delta: number } | null {
+    let delta = 0;
+    if (this.cmaf) {
+      const branded = addCompatibleBrand(data, "cmfc");
+      if (!branded) return null;
+      data = branded.data;
+      delta += branded.delta;
+    }
+    if (this.rewrittenAudioCodec) {
+      const rewritten = replaceAudioSampleEntry(
+        data,
+        this.buildAudioSampleEntry(),
+      );
+      if (!rewritten) return null;
+      data = rewritten.data;
+      delta += rewritten.delta;
+    }
+    return { data, delta };
+  }
+
+  /**
+   * Holds streamed output back until the head of the file can be rewritten,
+   * then shifts later positions by the size change.
+   */
+  private handleRewrittenStreamData(chunk: Uint8Array, position: number): void {
+    if (!this.streamHead) {
+      if (this.finalizing) {
+        shiftFragmentIndex(chunk, this.streamOffsetDelta);
+      }
+      this.postDataChunk(chunk, position + this.streamOffsetDelta);
+      return;
+    }
+
+    const end = Math.max(this.streamHead.byteLength, position + chunk.byteLength);
+    if (end > this.streamHead.byteLength) {
+      const grown = new Uint8Array(end);
+      grown.set(this.streamHead);
+      this.streamHead = grown;
+    }
+    this.streamHead.set(chunk, position);
+
+    const rewritten = this.rewriteHead(this.streamHead);
+    if (!rewritten) return;
+    this.streamHead = null;
+    this.streamOffsetDelta = rewritten.delta;
+    this.postDataChunk(rewritten.data, 0);
+  }
+
+  private buildAudioSampleEntry(): Uint8Array {
+    return buildAudioSampleEntry(
+      this.rewrittenAudioCodec!,
+      this.audioDescription,
+      this.config.channels,
+      this.config.sampleRate,
+    );
+  }
+
   addVideoChunk(
     chunk: EncodedVideoChunk,
     meta?: EncodedVideoChunkMetadata,
@@ -193,7 +317,8 @@ export class Mp4MuxerWrapper {
         const data = new Uint8Array(chunk.byteLength);
         chunk.copyTo(data.buffer);
         (chunk as any).close?.();
-        adjustedChunk = new EncodedVideoChunk({
+        const EncodedVideoChunkCtor = findConstructor("EncodedVideoChunk")!;
+        adjustedChunk = new EncodedVideoChunkCtor({
           type: chunk.type,
           timestamp: newTimestamp,
           duration: chunk.duration ?? undefined,
@@ -230,7 +355,25 @@ export class Mp4MuxerWrapper {
     }
     try {
       let adjustedChunk = chunk;
-      const adjustedMeta = meta;
+      let adjustedMeta = meta;
+
+      const description = meta?.decoderConfig?.description;
+      if (this.rewrittenAudioCodec && description && !this.audioDescription) {
+        this.audioDescription = ArrayBuffer.isView(description)
+          ? new Uint8Array(
+              description.buffer,
+              description.byteOffset,
+              description.byteLength,
+            ).slice()
+          : new Uint8Array(description).slice();
+      }
+      if (this.rewrittenAudioCodec === "flac" && meta?.decoderConfig) {
+        // Keep mp4-muxer from reading STREAMINFO as an OpusHead
+        adjustedMeta = {
+          ...meta,
+          decoderConfig: { ...meta.decoderConfig, description: undefined },
+        };
+      }
 
       if (
         this.config.firstTimestampBehavior === "offset" &&
@@ -259,7 +402,8 @@ export class Mp4MuxerWrapper {
         const data = new Uint8Array(chunk.byteLength);
         chunk.copyTo(data.buffer);
         (chunk as any).close?.();
-        adjustedChunk = new EncodedAudioChunk({
+        const EncodedAudioChunkCtor = findConstructor("EncodedAudioChunk")!;
+        adjustedChunk = new EncodedAudioChunkCtor({
           type: chunk.type,
           timestamp: newTimestamp,
           duration: chunk.duration ?? undefined,
@@ -286,12 +430,16 @@ export class Mp4MuxerWrapper {
   }
 
   finalize(): Uint8Array | null {
-    if (this.config.latencyMode === "realtime") {
+    if (this.streamed) {
       // In real-time mode, finalization might just mean flushing any remaining data.
       // The actual 'file' is streamed. mp4-muxer with StreamTarget doesn't produce a single blob at the end.
       // However, mp4-muxer's finalize() still needs to be called to write any pending data like the 'mfra' box.
       try {
+        this.finalizing = true;
         this.muxer.finalize();
+        if (this.streamHead && this.streamHead.byteLength > 0) {
+          throw new Error("moov box was not written");
+        }
       } catch (e: any) {
         this.postMessageToMain({
           type: "error",
@@ -323,7 +471,23 @@ export class Mp4MuxerWrapper {
       // It's good practice to create a new target if the muxer were to be reused,
       // or to help with GC.
       this.target = new ArrayBufferTarget(); // Reset for potential reuse, though typically not reused.
-      return new Uint8Array(buffer);
+      let output = new Uint8Array(buffer);
+      if (this.rewritesHead()) {
+        const rewritten = this.rewriteHead(output);
+        if (!rewritten) {
+          throw new Error("moov box was not written");
+        }
+        output = rewritten.data;
+        if (this.fragmented && rewritten.delta !== 0) {
+          shiftFragmentIndex(output, rewritten.delta);
+        }
+      }
+      if (streamsOutput(this.config)) {
+        // Progressive file requested from a stream: emit it in one piece
+        this.postDataChunk(output, 0);
+        return null;
+      }
+      return output;
     } catch (e: any) {
       this.postMessageToMain({
         type: "error",
@@ -0,0 +1,245 @@
+/**
+ * Ogg muxer for Opus audio (RFC 7845)
+ */
+
+import type { EncoderConfig, MainThreadMessage } from "../types";
+import { AudioStreamMuxerWrapper } from "./audiomuxer";
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+const MAX_SEGMENTS = 255;
+// Opus granule positions always count 48 kHz samples
+const GRANULE_RATE = 48000;
+// Audio pages are closed after this many samples
+const PAGE_DURATION = GRANULE_RATE;
+
+const VENDOR = "webcodecs-encoder";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Ogg page checksum (CRC-32, polynomial 0x04c11db7, no reflection)
+ */
+export function oggCrc32(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.byteLength; i++) {
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff];
+  }
+  return crc >>> 0;
+}
+
+/**
+ * Number of 48 kHz samples in an Opus packet, read from its TOC byte
+ */
+export function opusPacketSamples(packet: Uint8Array): number | null {
+  if (packet.byteLength === 0) return null;
+  const toc = packet[0];
+  const config = toc >> 3;
+  let frameSize: number;
+  if (config < 12) {
+    frameSize = [480, 960, 1920, 2880][config % 4]; // SILK 10/20/40/60 ms
+  } else if (config < 16) {
+    frameSize = [480, 960][config % 2]; // Hybrid 10/20 ms
+  } else {
+    frameSize = [120, 240, 480, 960][config % 4]; // CELT 2.5/5/10/20 ms
+  }
+
+  const code = toc & 0x03;
+  let frameCount: number;
+  if (code === 0) {
+    frameCount = 1;
+  } else if (code === 3) {
+    if (packet.byteLength < 2) return null;
+    frameCount = packet[1] & 0x3f;
+  } else {
+    frameCount = 2;
+  }
+  return frameSize * frameCount;
+}
+
+/**
+ * Writes one logical Opus stream: an OpusHead page, an OpusTags page, then
+ * audio pages of up to one second each. The identification header is taken
+ * from the encoder's decoder configuration when it provides one.
+ */
+export class OggMuxerWrapper extends AudioStreamMuxerWrapper {
+  private readonly serialNumber = (Math.random() * 0x100000000) >>> 0;
+  private pageSequence = 0;
+  private headersWritten = false;
+  private granulePosition = 0;
+  private pendingPackets: Uint8Array[] = [];
+  private pendingSamples = 0;
+
+  constructor(
+    config: EncoderConfig,
+    postMessageCallback: (
+      message: MainThreadMessage,
+      transfer?: Transferable[],
+    ) => void,
+    options?: { disableAudio?: boolean },
+  ) {
+    super("ogg", "Ogg", ["opus"], config, postMessageCallback, options);
+  }
+
+  protected writeAudioChunk(
+    data: Uint8Array,
+    chunk: EncodedAudioChunk,
+    meta?: EncodedAudioChunkMetadata,
+  ): void {
+    if (!this.headersWritten) {
+      this.writeHeaders(meta?.decoderConfig?.description);
+    }
+
+    const samples =
+      opusPacketSamples(data) ??
+      Math.round(((chunk.duration ?? 20_000) * GRANULE_RATE) / 1_000_000);
+
+    if (
+      this.segmentCount([...this.pendingPackets, data]) > MAX_SEGMENTS ||
+      this.pendingSamples >= PAGE_DURATION
+    ) {
+      this.writePendingPage(0);
+    }
+    this.pendingPackets.push(data);
+    this.pendingSamples += samples;
+    this.granulePosition += samples;
+  }
+
+  protected flush(): void {
+    if (!this.headersWritten) {
+      this.writeHeaders(undefined);
+    }
+    this.writePendingPage(HEADER_TYPE_EOS);
+  }
+
+  private writeHeaders(description?: AllowSharedBufferSource): void {
+    this.headersWritten = true;
+    const opusHead = description ? toBytes(description) : null;
+    const head =
+      opusHead && isOpusHead(opusHead) ? opusHead : this.buildOpusHead();
+    // Pre-skip samples are counted by the granule positions
+    this.granulePosition = head[10] | (head[11] << 8);
+
+    this.write(this.buildPage([head], HEADER_TYPE_BOS, 0), true);
+    this.write(this.buildPage([buildOpusTags()], 0, 0), true);
+  }
+
+  private buildOpusHead(): Uint8Array {
+    const channels = this.config.channels;
+    if (channels > 2) {
+      throw new Error(
+        "Opus with more than 2 channels requires an OpusHead from the encoder",
+      );
+    }
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(ascii("OpusHead"), 0);
+    head[8] = 1; // version
+    head[9] = channels;
+    view.setUint16(10, 0, true); // pre-skip (encoder delay unknown)
+    view.setUint32(12, this.config.sampleRate, true);
+    view.setInt16(16, 0, true); // output gain
+    head[18] = 0; // channel mapping family
+    return head;
+  }
+
+  private writePendingPage(headerType: number): void {
+    if (this.pendingPackets.length === 0 && !(headerType & HEADER_TYPE_EOS)) {
+      return;
+    }
+    this.write(
+      this.buildPage(this.pendingPackets, headerType, this.granulePosition),
+    );
+    this.pendingPackets = [];
+    this.pendingSamples = 0;
+  }
+
+  private segmentCount(packets: Uint8Array[]): number {
+    return packets.reduce(
+      (count, packet) => count + Math.floor(packet.byteLength / 255) + 1,
+      0,
+    );
+  }
+
+  private buildPage(
+    packets: Uint8Array[],
+    headerType: number,
+    granulePosition: number,
+  ): Uint8Array {
+    const segments: number[] = [];
+    for (const packet of packets) {
+      let remaining = packet.byteLength;
+      while (remaining >= 255) {
+        segments.push(255);
+        remaining -= 255;
+      }
+      segments.push(remaining);
+    }
+    if (segments.length > MAX_SEGMENTS) {
+      throw new Error("Opus packet is too large for an Ogg page");
+    }
+
+    const bodySize = packets.reduce((n, p) => n + p.byteLength, 0);
+    const page = new Uint8Array(27 + segments.length + bodySize);
+    const view = new DataView(page.buffer);
+    page.set(ascii("OggS"), 0);
+    page[4] = 0; // version
+    page[5] = headerType;
+    view.setUint32(6, granulePosition % 0x100000000, true);
+    view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+    view.setUint32(14, this.serialNumber, true);
+    view.setUint32(18, this.pageSequence++, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+    let offset = 27 + segments.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.byteLength;
+    }
+    view.setUint32(22, oggCrc32(page), true);
+    return page;
+  }
+}
+
+function buildOpusTags(): Uint8Array {
+  const vendor = ascii(VENDOR);
+  const tags = new Uint8Array(8 + 4 + vendor.byteLength + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii("OpusTags"), 0);
+  view.setUint32(8, vendor.byteLength, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.byteLength, 0, true); // no user comments
+  return tags;
+}
+
+function isOpusHead(bytes: Uint8Array): boolean {
+  return (
+    bytes.byteLength >= 19 &&
+    String.fromCharCode(...bytes.subarray(0, 8)) === "OpusHead"
+  );
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+function ascii(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
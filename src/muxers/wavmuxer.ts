@@ -0,0 +1,118 @@
+/**
+ * WAV (RIFF/WAVE) muxer for PCM, A-law and μ-law audio
+ */
+
+import type { EncoderConfig, MainThreadMessage } from "../types";
+import { AudioStreamMuxerWrapper } from "./audiomuxer";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+
+// Size fields of a stream whose length is not known yet
+const UNKNOWN_SIZE = 0xffffffff;
+
+/**
+ * Writes interleaved samples as produced by the PCM encoder: 16-bit little
+ * endian for 'pcm', one byte per sample for 'alaw' and 'ulaw'.
+ */
+export class WavMuxerWrapper extends AudioStreamMuxerWrapper {
+  private dataBytes = 0;
+
+  constructor(
+    config: EncoderConfig,
+    postMessageCallback: (
+      message: MainThreadMessage,
+      transfer?: Transferable[],
+    ) => void,
+    options?: { disableAudio?: boolean },
+  ) {
+    super(
+      "wav",
+      "WAV",
+      ["pcm", "alaw", "ulaw"],
+      config,
+      postMessageCallback,
+      options,
+    );
+  }
+
+  protected writeAudioChunk(data: Uint8Array): void {
+    this.dataBytes += data.byteLength;
+    this.write(data);
+  }
+
+  protected flush(): void {
+    // RIFF chunks are word aligned
+    if (this.dataBytes % 2 === 1) {
+      this.write(new Uint8Array(1));
+    }
+  }
+
+  protected buildHeader(dataSize: number | null): Uint8Array {
+    const codec = this.config.codec?.audio;
+    const formatTag =
+      codec === "alaw"
+        ? WAVE_FORMAT_ALAW
+        : codec === "ulaw"
+          ? WAVE_FORMAT_MULAW
+          : WAVE_FORMAT_PCM;
+    const bitsPerSample = formatTag === WAVE_FORMAT_PCM ? 16 : 8;
+    const channels = this.config.channels;
+    const blockAlign = (channels * bitsPerSample) / 8;
+    // Non-PCM formats carry cbSize and a fact chunk
+    const fmtSize = formatTag === WAVE_FORMAT_PCM ? 16 : 18;
+    const factSize = formatTag === WAVE_FORMAT_PCM ? 0 : 12;
+    const headerSize = 12 + 8 + fmtSize + factSize + 8;
+
+    const known = dataSize !== null;
+    if (known && headerSize - 8 + dataSize > UNKNOWN_SIZE) {
+      throw new Error("WAV output exceeds 4 GiB");
+    }
+
+    const header = new Uint8Array(headerSize);
+    const view = new DataView(header.buffer);
+    let offset = 0;
+    const writeTag = (tag: string) => {
+      for (let i = 0; i < 4; i++) {
+        view.setUint8(offset++, tag.charCodeAt(i));
+      }
+    };
+    const writeU32 = (value: number) => {
+      view.setUint32(offset, value, true);
+      offset += 4;
+    };
+    const writeU16 = (value: number) => {
+      view.setUint16(offset, value, true);
+      offset += 2;
+    };
+
+    writeTag("RIFF");
+    // dataSize includes the pad byte written by flush()
+    writeU32(known ? headerSize - 8 + dataSize : UNKNOWN_SIZE);
+    writeTag("WAVE");
+
+    writeTag("fmt ");
+    writeU32(fmtSize);
+    writeU16(formatTag);
+    writeU16(channels);
+    writeU32(this.config.sampleRate);
+    writeU32(this.config.sampleRate * blockAlign);
+    writeU16(blockAlign);
+    writeU16(bitsPerSample);
+    if (fmtSize === 18) {
+      writeU16(0);
+    }
+
+    if (factSize > 0) {
+      writeTag("fact");
+      writeU32(4);
+      writeU32(known ? Math.floor(this.dataBytes / blockAlign) : UNKNOWN_SIZE);
+    }
+
+    writeTag("data");
+    writeU32(known ? this.dataBytes : UNKNOWN_SIZE);
+
+    return header;
+  }
+}
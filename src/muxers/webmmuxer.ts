@@ -1,23 +1,55 @@
-import WebMMuxer from "webm-muxer";
+import { Muxer, ArrayBufferTarget, StreamTarget } from "webm-muxer";
+import type { MuxerOptions } from "webm-muxer";
 import type {
   EncoderConfig,
   MainThreadMessage,
   WorkerDataChunkMessage,
 } from "../types";
 import { EncoderErrorType } from "../types";
+import { streamsOutput } from "../utils/container";
+import { WebMChunkInfoReader } from "./chunk-info";
 
-class CallbackWritableStream {
-  private position = 0;
-  constructor(private onData: (chunk: Uint8Array, position: number) => void) {}
+type WebMTarget = ArrayBufferTarget | StreamTarget;
 
-  write({ data, position }: { data: Uint8Array; position: number }): void {
-    this.onData(data, position);
-    this.position = position + data.byteLength;
-  }
+/**
+ * The bytes of a chunk. The muxer is given raw data, so that chunks of an
+ * encoder backend need no global EncodedVideoChunk/EncodedAudioChunk.
+ */
+function chunkData(chunk: EncodedVideoChunk | EncodedAudioChunk): Uint8Array {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
 }
 
+// Codec IDs from the Matroska codec mapping. WebM only allows the VP8/VP9/AV1
+// and Opus/Vorbis/FLAC entries.
+const MATROSKA_VIDEO_CODEC_IDS: Record<string, string> = {
+  vp8: "V_VP8",
+  vp9: "V_VP9",
+  av1: "V_AV1",
+  avc: "V_MPEG4/ISO/AVC",
+  hevc: "V_MPEGH/ISO/HEVC",
+};
+
+const MATROSKA_AUDIO_CODEC_IDS: Record<string, string> = {
+  opus: "A_OPUS",
+  vorbis: "A_VORBIS",
+  flac: "A_FLAC",
+  aac: "A_AAC",
+  mp3: "A_MPEG/L3",
+  pcm: "A_PCM/INT/LIT",
+};
+
+const WEBM_VIDEO_CODECS = new Set(["vp8", "vp9", "av1"]);
+const WEBM_AUDIO_CODECS = new Set(["opus", "vorbis", "flac"]);
+
+/**
+ * Writes WebM, or Matroska when `config.container` is 'mkv'. Matroska output
+ * uses the same muxer with the 'matroska' DocType and the wider codec set.
+ */
 export class WebMMuxerWrapper {
-  private muxer: WebMMuxer;
+  private muxer: Muxer<WebMTarget>;
+  private target: WebMTarget;
   private videoConfigured = false;
   private audioConfigured = false;
   private firstAudioTimestamp: number | null = null;
@@ -28,6 +60,7 @@ export class WebMMuxerWrapper {
     transfer?: Transferable[],
   ) => void;
   private config: EncoderConfig;
+  private container: "webm" | "mkv";
 
   constructor(
     config: EncoderConfig,
@@ -40,49 +73,43 @@ export class WebMMuxerWrapper {
     this.config = config;
     this.postMessageToMain = postMessageCallback;
     let disableAudio = options?.disableAudio ?? false;
+    this.container = config.container === "mkv" ? "mkv" : "webm";
+    const isMatroska = this.container === "mkv";
 
-    const videoCodecOption = config.codec?.video ?? "vp9";
-    let muxerVideoCodec: string;
-    switch (videoCodecOption) {
-      case "vp8":
-        muxerVideoCodec = "V_VP8";
-        break;
-      case "vp9":
-        muxerVideoCodec = "V_VP9";
-        break;
-      case "av1":
-        muxerVideoCodec = "V_AV1";
-        break;
-      default:
-        muxerVideoCodec = "V_VP9";
-        break;
-    }
+    const videoCodecOption =
+      config.codec?.video ?? (isMatroska ? "avc" : "vp9");
+    const muxerVideoCodec =
+      (isMatroska || WEBM_VIDEO_CODECS.has(videoCodecOption)) &&
+      Object.prototype.hasOwnProperty.call(
+        MATROSKA_VIDEO_CODEC_IDS,
+        videoCodecOption,
+      )
+        ? MATROSKA_VIDEO_CODEC_IDS[videoCodecOption]
+        : "V_VP9";
 
-    const requestedAudioCodec = config.codec?.audio ?? "opus";
+    const requestedAudioCodec =
+      config.codec?.audio ?? (isMatroska ? "aac" : "opus");
     let muxerAudioCodec: string | null = null;
-    switch (requestedAudioCodec) {
-      case "opus":
-        muxerAudioCodec = "A_OPUS";
-        break;
-      case "vorbis":
-        muxerAudioCodec = "A_VORBIS";
-        break;
-      case "flac":
-        muxerAudioCodec = "A_FLAC";
-        break;
-      default:
-        if (!disableAudio) {
-          console.warn(
-            `WebM muxer: Audio codec ${requestedAudioCodec} is not supported. Disabling audio track.`,
-          );
-          disableAudio = true;
-        }
-        break;
+    if (
+      (isMatroska || WEBM_AUDIO_CODECS.has(requestedAudioCodec)) &&
+      Object.prototype.hasOwnProperty.call(
+        MATROSKA_AUDIO_CODEC_IDS,
+        requestedAudioCodec,
+      )
+    ) {
+      muxerAudioCodec = MATROSKA_AUDIO_CODEC_IDS[requestedAudioCodec];
+    } else if (!disableAudio) {
+      console.warn(
+        `${isMatroska ? "Matroska" : "WebM"} muxer: Audio codec ${requestedAudioCodec} is not supported. Disabling audio track.`,
+      );
+      disableAudio = true;
     }
 
-    const target =
-      config.latencyMode === "realtime"
-        ? new CallbackWritableStream((chunk, position) => {
+    const streaming = streamsOutput(config);
+    const chunkInfo = new WebMChunkInfoReader();
+    this.target = streaming
+      ? new StreamTarget({
+          onData: (chunk, position) => {
             const chunkCopy = new Uint8Array(chunk.slice(0));
             const isHeader = position === 0;
             const message: WorkerDataChunkMessage = {
@@ -90,18 +117,27 @@ export class WebMMuxerWrapper {
               chunk: chunkCopy,
               offset: position,
               isHeader,
-              container: "webm",
+              container: this.container,
+              ...chunkInfo.read(chunkCopy),
             };
             this.postMessageToMain(message, [chunkCopy.buffer]);
-          })
-        : ("buffer" as const);
+          },
+        })
+      : new ArrayBufferTarget();
 
     // Check if video is disabled (audio-only encoding)
     const videoDisabled =
       config.width === 0 || config.height === 0 || config.videoBitrate === 0;
 
-    const optionsForMuxer: any = {
-      target,
+    const optionsForMuxer: MuxerOptions<WebMTarget> = {
+      target: this.target,
+      ...(isMatroska ? { type: "matroska" as const } : {}),
+      // The 'offset' behavior is applied here, across both tracks
+      firstTimestampBehavior: "permissive",
+      // Write monotonically so the streamed chunks can be appended as they
+      // come, e.g. for DASH segments. A receiver that writes at offsets gets
+      // the sizes, duration and Cues written back at the end instead.
+      ...(streaming && !config.seekableOutput ? { streaming: true } : {}),
     };
 
     // Only add video configuration if video is enabled
@@ -119,10 +155,12 @@ export class WebMMuxerWrapper {
         codec: muxerAudioCodec,
         numberOfChannels: config.channels,
         sampleRate: config.sampleRate,
+        // PcmAudioEncoder writes signed 16-bit little endian samples
+        ...(requestedAudioCodec === "pcm" ? { bitDepth: 16 } : {}),
       };
     }
 
-    this.muxer = new WebMMuxer(optionsForMuxer);
+    this.muxer = new Muxer(optionsForMuxer);
     this.videoConfigured = !videoDisabled;
     this.audioConfigured = !disableAudio;
   }
@@ -142,8 +180,7 @@ export class WebMMuxerWrapper {
       return;
     }
     try {
-      let adjustedChunk = chunk;
-      const adjustedMeta = meta as any;
+      let timestamp = chunk.timestamp;
 
       if (
         this.config.firstTimestampBehavior === "offset" &&
@@ -164,23 +201,15 @@ export class WebMMuxerWrapper {
         }
 
         // Always use the shared firstTimestamp for offset calculation
-        const newTimestamp = Math.max(
-          0,
-          chunk.timestamp - (this.firstTimestamp || 0),
-        );
-
-        const data = new Uint8Array(chunk.byteLength);
-        chunk.copyTo(data.buffer);
-        (chunk as any).close?.();
-        adjustedChunk = new EncodedVideoChunk({
-          type: chunk.type,
-          timestamp: newTimestamp,
-          duration: chunk.duration ?? undefined,
-          data: data.buffer,
-        });
+        timestamp = Math.max(0, chunk.timestamp - (this.firstTimestamp || 0));
       }
 
-      this.muxer.addVideoChunk(adjustedChunk, adjustedMeta);
+      this.muxer.addVideoChunkRaw(
+        chunkData(chunk),
+        chunk.type,
+        timestamp,
+        meta,
+      );
     } catch (e: any) {
       this.postMessageToMain({
         type: "error",
@@ -199,8 +228,7 @@ export class WebMMuxerWrapper {
   ): void {
     if (!this.audioConfigured) return;
     try {
-      let adjustedChunk = chunk;
-      const adjustedMeta = meta as any;
+      let timestamp = chunk.timestamp;
 
       if (
         this.config.firstTimestampBehavior === "offset" &&
@@ -221,22 +249,15 @@ export class WebMMuxerWrapper {
         }
 
         // Always use the shared firstTimestamp for offset calculation
-        const newTimestamp = Math.max(
-          0,
-          chunk.timestamp - (this.firstTimestamp || 0),
-        );
-
-        const data = new Uint8Array(chunk.byteLength);
-        chunk.copyTo(data.buffer);
-        (chunk as any).close?.();
-        adjustedChunk = new EncodedAudioChunk({
-          type: chunk.type,
-          timestamp: newTimestamp,
-          duration: chunk.duration ?? undefined,
-          data: data.buffer,
-        });
+        timestamp = Math.max(0, chunk.timestamp - (this.firstTimestamp || 0));
       }
-      this.muxer.addAudioChunk(adjustedChunk, adjustedMeta);
+
+      this.muxer.addAudioChunkRaw(
+        chunkData(chunk),
+        chunk.type,
+        timestamp,
+        meta,
+      );
     } catch (e: any) {
       this.postMessageToMain({
         type: "error",
@@ -250,7 +271,7 @@ export class WebMMuxerWrapper {
   }
 
   finalize(): Uint8Array | null {
-    if (this.config.latencyMode === "realtime") {
+    if (streamsOutput(this.config)) {
       try {
         this.muxer.finalize();
       } catch (e: any) {
@@ -267,7 +288,8 @@ export class WebMMuxerWrapper {
     }
 
     try {
-      const buffer = this.muxer.finalize();
+      this.muxer.finalize();
+      const { buffer } = this.target as ArrayBufferTarget;
       if (buffer) return new Uint8Array(buffer);
       this.postMessageToMain({
         type: "error",
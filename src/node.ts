@@ -0,0 +1,270 @@
+/**
+ * Node.js entry point: raw RGBA/I420 frames and planar PCM in, a file path,
+ * Writable or Buffer out. Encoding runs on the main thread with a
+ * registered encoder backend, through the same presets and muxers as the
+ * browser build.
+ */
+
+/// <reference types="node" />
+
+import { open, rm } from "fs/promises";
+import type { FileHandle } from "fs/promises";
+import { Writable } from "stream";
+import { encode as encodeSource } from "./core/encode";
+import { findConstructor } from "./core/encoder-backends";
+import { EncodeError } from "./types";
+import type {
+  AudioSourceItem,
+  EncodeOptions,
+  EncodeOutputTarget,
+  MediaSourceItem,
+} from "./types";
+
+export { registerEncoderBackend } from "./core/encoder-backends";
+export { configure } from "./core/configure";
+export { EncodeError } from "./types";
+export type {
+  AudioSourceItem,
+  EncoderBackend,
+  EncodeOptions,
+  ProgressInfo,
+  QualityPreset,
+  VideoConfig,
+  AudioConfig,
+} from "./types";
+
+// Raw video frame with optional timing (microseconds)
+export interface RawVideoFrame {
+  type: "video";
+  /**
+   * RGBA: 4 bytes per pixel. I420: the Y plane, then the U and V planes at
+   * half the width and height, rounded up.
+   */
+  data: Uint8Array;
+  format: "RGBA" | "I420";
+  width: number;
+  height: number;
+  /** Defaults to the end of the previous frame. */
+  timestamp?: number;
+  /** Defaults to 1 / frameRate. */
+  duration?: number;
+}
+
+export type NodeSourceItem = RawVideoFrame | AudioSourceItem;
+
+export type NodeSource =
+  Iterable<NodeSourceItem> | AsyncIterable<NodeSourceItem>;
+
+// File path, or a Writable that is ended once the file is complete
+export type NodeOutputTarget = string | Writable;
+
+export type NodeEncodeOptions = Omit<
+  EncodeOptions,
+  "worker" | "execution" | "output" | "memoryBudget"
+> & {
+  output?: NodeOutputTarget;
+};
+
+function isAudioItem(item: NodeSourceItem): item is AudioSourceItem {
+  return item.type === "audio";
+}
+
+function frameByteLength(frame: RawVideoFrame): number {
+  const pixels = frame.width * frame.height;
+  if (frame.format === "RGBA") return pixels * 4;
+  return pixels + 2 * Math.ceil(frame.width / 2) * Math.ceil(frame.height / 2);
+}
+
+function checkFrame(frame: RawVideoFrame): void {
+  if (frame.format !== "RGBA" && frame.format !== "I420") {
+    throw new EncodeError(
+      "invalid-input",
+      `Unsupported raw frame format: ${String(frame.format)}. Use 'RGBA' or 'I420'.`,
+    );
+  }
+  if (
+    !(frame.data instanceof Uint8Array) ||
+    frame.data.byteLength < frameByteLength(frame)
+  ) {
+    throw new EncodeError(
+      "invalid-input",
+      `A ${frame.width}x${frame.height} ${frame.format} frame needs ${frameByteLength(frame)} bytes of data`,
+    );
+  }
+}
+
+/**
+ * A VideoFrame of the registered backend holding a raw frame
+ *
+ * @throws EncodeError 'not-supported' when no backend provides VideoFrame
+ */
+function toVideoFrame(
+  frame: RawVideoFrame,
+  timestamp: number,
+  duration: number,
+): VideoFrame {
+  const VideoFrameCtor = findConstructor("VideoFrame");
+  if (!VideoFrameCtor) {
+    throw new EncodeError(
+      "not-supported",
+      "VideoFrame is not available. Register an encoder backend that provides one.",
+    );
+  }
+  return new VideoFrameCtor(frame.data, {
+    format: frame.format,
+    codedWidth: frame.width,
+    codedHeight: frame.height,
+    timestamp,
+    duration,
+  });
+}
+
+/**
+ * The items of `source` as the items encode() takes, with the first one
+ * read ahead so its frame size can configure the encoder
+ */
+async function toMediaSource(
+  source: NodeSource,
+  frameRate: number,
+): Promise<{
+  first: NodeSourceItem | undefined;
+  items: AsyncIterable<MediaSourceItem>;
+}> {
+  const iterator =
+    Symbol.asyncIterator in source
+      ? source[Symbol.asyncIterator]()
+      : source[Symbol.iterator]();
+  const head = await iterator.next();
+  const frameDuration = 1_000_000 / frameRate;
+
+  async function* items(): AsyncGenerator<MediaSourceItem> {
+    let nextTimestamp = 0;
+    let result = head;
+    while (!result.done) {
+      const item = result.value;
+      if (item.type === "video") {
+        checkFrame(item);
+        const timestamp = item.timestamp ?? nextTimestamp;
+        const duration = item.duration ?? frameDuration;
+        nextTimestamp = timestamp + duration;
+        yield toVideoFrame(item, timestamp, duration);
+      } else {
+        yield item;
+      }
+      result = await iterator.next();
+    }
+  }
+
+  return { first: head.done ? undefined : head.value, items: items() };
+}
+
+/**
+ * The subset of FileSystemWritableFileStream the encoder writes through,
+ * on a file opened with fs. Writing at any offset keeps MP4 output
+ * seekable.
+ */
+class FileHandleStream {
+  constructor(
+    private file: FileHandle,
+    private path: string,
+  ) {}
+
+  seek(): void {}
+
+  async write(params: { position: number; data: Uint8Array }): Promise<void> {
+    const { data, position } = params;
+    await this.file.write(data, 0, data.byteLength, position);
+  }
+
+  async close(): Promise<void> {
+    await this.file.close();
+  }
+
+  // A failed encode leaves no partial file behind
+  async abort(): Promise<void> {
+    await this.file.close().catch(() => {});
+    await rm(this.path, { force: true });
+  }
+}
+
+async function openOutput(
+  output: NodeOutputTarget,
+): Promise<EncodeOutputTarget> {
+  if (typeof output === "string") {
+    try {
+      const file = await open(output, "w");
+      return new FileHandleStream(
+        file,
+        output,
+      ) as unknown as FileSystemWritableFileStream;
+    } catch (error) {
+      throw new EncodeError(
+        "filesystem-error",
+        `Failed to open ${output} for writing`,
+        error,
+      );
+    }
+  }
+  if (output instanceof Writable) {
+    return Writable.toWeb(output) as unknown as WritableStream<Uint8Array>;
+  }
+  throw new EncodeError(
+    "configuration-error",
+    "output must be a file path or a Writable",
+  );
+}
+
+/**
+ * Encode raw frames and audio under Node.js with a registered encoder
+ * backend
+ *
+ * @param source Raw RGBA/I420 frames and planar PCM, in presentation order
+ * @param options The options of the browser encode(), with `output` a file
+ * path or Writable
+ * @returns Nothing when written to `output`, else the file in a Buffer
+ */
+export function encode(
+  source: NodeSource,
+  options: NodeEncodeOptions & { output: NodeOutputTarget },
+): Promise<void>;
+export function encode(
+  source: NodeSource,
+  options?: NodeEncodeOptions,
+): Promise<Buffer>;
+export async function encode(
+  source: NodeSource,
+  options: NodeEncodeOptions = {},
+): Promise<Buffer | void> {
+  const { output, ...rest } = options;
+  const { first, items } = await toMediaSource(source, rest.frameRate ?? 30);
+
+  // Raw frames carry their size, so the first one sets it
+  const encodeOptions: EncodeOptions = { ...rest, execution: "main-thread" };
+  if (first?.type === "video") {
+    encodeOptions.width ??= first.width;
+    encodeOptions.height ??= first.height;
+    // Video-only unless audio is asked for or an array carries it, as
+    // audio items further into an iterable are not known yet
+    if (
+      encodeOptions.audio === undefined &&
+      (!findConstructor("AudioEncoder") ||
+        !(Array.isArray(source) && source.some(isAudioItem)))
+    ) {
+      encodeOptions.audio = false;
+    }
+  }
+
+  if (output !== undefined) {
+    const target = await openOutput(output);
+    try {
+      await encodeSource(items, { ...encodeOptions, output: target });
+    } catch (error) {
+      // A source that fails before the first write leaves the output open
+      await (target as WritableStream<Uint8Array>).abort(error).catch(() => {});
+      throw error;
+    }
+    return;
+  }
+  const bytes = (await encodeSource(items, encodeOptions)) as Uint8Array;
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
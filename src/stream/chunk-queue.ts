@@ -0,0 +1,97 @@
+/**
+ * Queue between the worker output of encodeStream() and its consumer
+ */
+
+/**
+ * Holds encoded chunks until the consumer pulls them. Pulls wait for the
+ * next chunk instead of polling, and ready() lets source ingestion wait
+ * while the queued bytes are above the high-water mark.
+ */
+export class ChunkQueue<T> {
+  private items: { value: T; size: number }[] = [];
+  private queuedBytes = 0;
+  private closed = false;
+  private cancelReason: unknown = null;
+  private pullWaiter: (() => void) | null = null;
+  private readyWaiters: {
+    resolve: () => void;
+    reject: (e: unknown) => void;
+  }[] = [];
+
+  constructor(private highWaterMark: number) {}
+
+  push(value: T, size: number): void {
+    if (this.closed) return;
+    this.items.push({ value, size });
+    this.queuedBytes += size;
+    this.wakePull();
+  }
+
+  /**
+   * Next chunk, waiting for one when the queue is empty
+   *
+   * @returns The chunk, or null once the queue is closed and empty
+   */
+  async pull(): Promise<T | null> {
+    while (this.items.length === 0 && !this.closed) {
+      await new Promise<void>((resolve) => {
+        this.pullWaiter = resolve;
+      });
+    }
+    const item = this.items.shift();
+    if (!item) return null;
+    this.queuedBytes -= item.size;
+    if (this.queuedBytes <= this.highWaterMark) this.wakeReady();
+    return item.value;
+  }
+
+  /**
+   * Resolves once the queued bytes are at or below the high-water mark
+   *
+   * @throws The cancel() reason once the consumer is gone
+   */
+  ready(): Promise<void> {
+    if (this.cancelReason !== null) return Promise.reject(this.cancelReason);
+    if (this.closed || this.queuedBytes <= this.highWaterMark) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * No more chunks will be pushed. Queued chunks can still be pulled.
+   */
+  close(): void {
+    this.closed = true;
+    this.wakePull();
+    this.wakeReady();
+  }
+
+  /**
+   * The consumer stopped pulling: drop the queued chunks and fail ready()
+   */
+  cancel(reason: unknown): void {
+    this.cancelReason = reason;
+    this.items = [];
+    this.queuedBytes = 0;
+    this.closed = true;
+    this.wakePull();
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const waiter of waiters) waiter.reject(reason);
+  }
+
+  private wakePull(): void {
+    const waiter = this.pullWaiter;
+    this.pullWaiter = null;
+    waiter?.();
+  }
+
+  private wakeReady(): void {
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const waiter of waiters) waiter.resolve();
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * MPEG-DASH packaging of the streamed fragmented MP4 or WebM output
+ */
+
+import {
+  VideoSource,
+  EncodeError,
+  EncodeOptions,
+  DashEncodeOptions,
+  DashOptions,
+  DashOutput,
+  DemuxedAudioTrack,
+  DemuxedVideoTrack,
+} from "../types";
+import { encodeStream } from "./encode-stream";
+import { Fmp4Segmenter } from "../utils/fmp4-segmenter";
+import { WebMSegmenter } from "../utils/webm-segmenter";
+import { MediaSegmenter, segmentStream } from "../utils/segmenter";
+
+const DEFAULT_SEGMENT_DURATION = 4;
+// SegmentTimeline values are in milliseconds
+const TIMESCALE = 1000;
+
+interface ManifestSegment {
+  number: number;
+  startTime: number;
+  duration: number;
+  size: number;
+}
+
+interface ManifestOptions {
+  type: "static" | "dynamic";
+  container: "mp4" | "webm";
+  initName: string;
+  media: string;
+  segmentDuration: number;
+  ended: boolean;
+  availabilityStartTime?: Date;
+  video?: DemuxedVideoTrack;
+  audio?: DemuxedAudioTrack;
+}
+
+const duration = (seconds: number): string => `PT${seconds.toFixed(3)}S`;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Build an MPD with one Representation for the muxed output. `segments`
+ * holds the segments still available; the first one sets startNumber.
+ */
+export function buildMpd(
+  segments: ManifestSegment[],
+  options: ManifestOptions,
+): string {
+  const { video, audio } = options;
+  const last = segments[segments.length - 1];
+  const end = last ? last.startTime + last.duration : 0;
+
+  // Peak bitrate of a segment, so a player that buffers one segment keeps up
+  const bandwidth = Math.ceil(
+    Math.max(
+      0,
+      ...segments
+        .filter((segment) => segment.duration > 0)
+        .map((segment) => (segment.size * 8) / segment.duration),
+    ),
+  );
+
+  const mpd: string[] = [
+    'xmlns="urn:mpeg:dash:schema:mpd:2011"',
+    'profiles="urn:mpeg:dash:profile:isoff-live:2011"',
+    `type="${options.type}"`,
+    `minBufferTime="${duration(options.segmentDuration)}"`,
+  ];
+  if (options.type === "dynamic") {
+    mpd.push(
+      `availabilityStartTime="${(options.availabilityStartTime ?? new Date(0)).toISOString()}"`,
+      `publishTime="${new Date().toISOString()}"`,
+    );
+    if (!options.ended) {
+      mpd.push(`minimumUpdatePeriod="${duration(options.segmentDuration)}"`);
+    }
+    if (segments.length > 0) {
+      mpd.push(
+        `timeShiftBufferDepth="${duration(end - segments[0].startTime)}"`,
+      );
+    }
+  }
+  if (options.ended) {
+    mpd.push(`mediaPresentationDuration="${duration(end)}"`);
+  }
+
+  const codecs = [video?.codecString, audio?.codecString]
+    .filter(Boolean)
+    .join(",");
+  const representation: string[] = [
+    'id="0"',
+    `codecs="${escapeXml(codecs)}"`,
+    `bandwidth="${bandwidth}"`,
+  ];
+  if (video) {
+    representation.push(
+      `width="${video.codedWidth}"`,
+      `height="${video.codedHeight}"`,
+    );
+  }
+  if (audio) {
+    representation.push(`audioSamplingRate="${audio.sampleRate}"`);
+  }
+
+  const mimeType = `${video ? "video" : "audio"}/${options.container}`;
+  const timeline = segments.map(
+    (segment) =>
+      `            <S t="${Math.round(segment.startTime * TIMESCALE)}" d="${Math.round(segment.duration * TIMESCALE)}"/>`,
+  );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<MPD ${mpd.join(" ")}>`,
+    '  <Period id="0" start="PT0S">',
+    `    <AdaptationSet mimeType="${mimeType}" segmentAlignment="true" startWithSAP="1">`,
+    `      <Representation ${representation.join(" ")}>`,
+  ];
+  if (audio) {
+    lines.push(
+      `        <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="${audio.numberOfChannels}"/>`,
+    );
+  }
+  lines.push(
+    `        <SegmentTemplate timescale="${TIMESCALE}" initialization="${escapeXml(options.initName)}" media="${escapeXml(options.media)}" startNumber="${segments[0]?.number ?? 1}">`,
+    "          <SegmentTimeline>",
+    ...timeline,
+    "          </SegmentTimeline>",
+    "        </SegmentTemplate>",
+    "      </Representation>",
+    "    </AdaptationSet>",
+    "  </Period>",
+    "</MPD>",
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+function resolveDashOptions(options?: DashEncodeOptions) {
+  const dash: DashOptions = options?.dash ?? {};
+  const container = options?.container ?? "mp4";
+  const segmentDuration = dash.segmentDuration ?? DEFAULT_SEGMENT_DURATION;
+
+  if (container !== "mp4" && container !== "webm") {
+    throw new EncodeError(
+      "configuration-error",
+      `DASH output uses fragmented MP4 or WebM segments, not '${container}'`,
+    );
+  }
+  if (!(segmentDuration > 0)) {
+    throw new EncodeError(
+      "configuration-error",
+      "dash.segmentDuration must be a positive number of seconds",
+    );
+  }
+  if (
+    dash.liveWindow !== undefined &&
+    !(Number.isInteger(dash.liveWindow) && dash.liveWindow > 0)
+  ) {
+    throw new EncodeError(
+      "configuration-error",
+      "dash.liveWindow must be a positive integer",
+    );
+  }
+  if (options?.mp4?.fragmented === false) {
+    throw new EncodeError(
+      "configuration-error",
+      "DASH output requires fragmented MP4",
+    );
+  }
+
+  const extension = container === "webm" ? "webm" : "m4s";
+  return {
+    container,
+    segmentDuration,
+    type: dash.type ?? "static",
+    liveWindow: dash.liveWindow,
+    manifestName: dash.manifestName ?? "manifest.mpd",
+    initName: dash.initName ?? `init.${container}`,
+    media: dash.media ?? `segment$Number$.${extension}`,
+  } as const;
+}
+
+/**
+ * Encode to MPEG-DASH: an init segment, numbered media segments that start
+ * on a key frame, and an MPD describing them. A static MPD is yielded once
+ * at the end; a dynamic one after every segment.
+ *
+ * @param source Video source to encode
+ * @param options Encoding options, with DASH packaging options under `dash`
+ * @returns AsyncGenerator of the files to publish, in the order to publish
+ * them
+ */
+export async function* encodeDash(
+  source: VideoSource,
+  options?: DashEncodeOptions,
+): AsyncGenerator<DashOutput> {
+  const dash = resolveDashOptions(options);
+  const encodeOptions: DashEncodeOptions = { ...options };
+  delete encodeOptions.dash;
+  const availabilityStartTime = new Date();
+  const segments: ManifestSegment[] = [];
+  let init: { video?: DemuxedVideoTrack; audio?: DemuxedAudioTrack } = {};
+  let number = 1;
+
+  const manifest = (ended: boolean): DashOutput => ({
+    type: "manifest",
+    name: dash.manifestName,
+    content: buildMpd(segments, {
+      ...dash,
+      ...init,
+      ended,
+      availabilityStartTime,
+    }),
+    ended,
+  });
+
+  let streamOptions: EncodeOptions;
+  let segmenter: MediaSegmenter;
+  if (dash.container === "webm") {
+    // WebM clusters are grouped into segments. Key frames are requested at
+    // the segment duration; the frame rate is only known here when given.
+    const video = encodeOptions.video;
+    streamOptions =
+      video === false || (video && video.keyFrameInterval !== undefined)
+        ? encodeOptions
+        : {
+            ...encodeOptions,
+            video: {
+              ...video,
+              keyFrameInterval: Math.max(
+                1,
+                Math.round(
+                  (encodeOptions.frameRate ?? 30) * dash.segmentDuration,
+                ),
+              ),
+            },
+          };
+    segmenter = new WebMSegmenter(dash.segmentDuration);
+  } else {
+    streamOptions = {
+      ...encodeOptions,
+      container: "mp4",
+      mp4: {
+        ...encodeOptions.mp4,
+        fragmented: true,
+        fragmentDuration: dash.segmentDuration,
+      },
+    };
+    segmenter = new Fmp4Segmenter();
+  }
+
+  const stream = encodeStream(source, streamOptions);
+  for await (const part of segmentStream(stream, segmenter)) {
+    if (part.type === "init") {
+      init = { video: part.video, audio: part.audio };
+      yield { type: "init", name: dash.initName, data: part.data };
+      continue;
+    }
+
+    const segment: ManifestSegment = {
+      number,
+      startTime: part.startTime,
+      duration: part.duration,
+      size: part.data.byteLength,
+    };
+    number++;
+    segments.push(segment);
+    if (
+      dash.type === "dynamic" &&
+      dash.liveWindow &&
+      segments.length > dash.liveWindow
+    ) {
+      segments.shift();
+    }
+
+    yield {
+      type: "segment",
+      name: dash.media.replace(/\$Number\$/g, String(segment.number)),
+      data: part.data,
+      number: segment.number,
+      startTime: segment.startTime,
+      duration: segment.duration,
+    };
+    if (dash.type === "dynamic") {
+      yield manifest(false);
+    }
+  }
+
+  yield manifest(true);
+}
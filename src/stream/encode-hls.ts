@@ -0,0 +1,171 @@
+/**
+ * HLS packaging of the streamed fragmented MP4 output
+ */
+
+import {
+  VideoSource,
+  EncodeError,
+  HlsEncodeOptions,
+  HlsOptions,
+  HlsOutput,
+} from "../types";
+import { encodeStream } from "./encode-stream";
+import { Fmp4Segmenter } from "../utils/fmp4-segmenter";
+import { segmentStream } from "../utils/segmenter";
+
+const DEFAULT_SEGMENT_DURATION = 6;
+
+interface PlaylistSegment {
+  name: string;
+  sequence: number;
+  duration: number;
+}
+
+/**
+ * Build a media playlist for fMP4 segments. `segments` holds the segments
+ * still in the playlist; the first one sets EXT-X-MEDIA-SEQUENCE.
+ */
+export function buildMediaPlaylist(
+  segments: PlaylistSegment[],
+  options: {
+    initName: string;
+    segmentDuration: number;
+    ended: boolean;
+    liveWindow?: number;
+  },
+): string {
+  // Every EXTINF rounded to the nearest integer must fit in the target
+  const targetDuration = Math.max(
+    Math.ceil(options.segmentDuration),
+    ...segments.map((segment) => Math.round(segment.duration)),
+  );
+
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:7",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sequence ?? 0}`,
+  ];
+  if (!options.liveWindow) {
+    lines.push(`#EXT-X-PLAYLIST-TYPE:${options.ended ? "VOD" : "EVENT"}`);
+  }
+  lines.push(
+    "#EXT-X-INDEPENDENT-SEGMENTS",
+    `#EXT-X-MAP:URI="${options.initName}"`,
+  );
+  for (const segment of segments) {
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`, segment.name);
+  }
+  if (options.ended) {
+    lines.push("#EXT-X-ENDLIST");
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function resolveHlsOptions(options?: HlsEncodeOptions) {
+  const hls: HlsOptions = options?.hls ?? {};
+  const segmentDuration = hls.segmentDuration ?? DEFAULT_SEGMENT_DURATION;
+
+  if (!(segmentDuration > 0)) {
+    throw new EncodeError(
+      "configuration-error",
+      "hls.segmentDuration must be a positive number of seconds",
+    );
+  }
+  if (
+    hls.liveWindow !== undefined &&
+    !(Number.isInteger(hls.liveWindow) && hls.liveWindow > 0)
+  ) {
+    throw new EncodeError(
+      "configuration-error",
+      "hls.liveWindow must be a positive integer",
+    );
+  }
+  if (options?.container && options.container !== "mp4") {
+    throw new EncodeError(
+      "configuration-error",
+      `HLS output uses fragmented MP4 segments, not '${options.container}'`,
+    );
+  }
+  if (options?.mp4?.fragmented === false) {
+    throw new EncodeError(
+      "configuration-error",
+      "HLS output requires fragmented MP4",
+    );
+  }
+
+  return {
+    segmentDuration,
+    liveWindow: hls.liveWindow,
+    playlistName: hls.playlistName ?? "playlist.m3u8",
+    initName: hls.initName ?? "init.mp4",
+    segmentName:
+      hls.segmentName ?? ((sequence: number) => `segment${sequence}.m4s`),
+  };
+}
+
+/**
+ * Encode to HLS: an fMP4 init segment, numbered media segments that start on
+ * a key frame, and a media playlist that is updated after every segment
+ *
+ * @param source Video source to encode
+ * @param options Encoding options, with HLS packaging options under `hls`
+ * @returns AsyncGenerator of the files to publish, in the order to publish
+ * them
+ */
+export async function* encodeHls(
+  source: VideoSource,
+  options?: HlsEncodeOptions,
+): AsyncGenerator<HlsOutput> {
+  const hls = resolveHlsOptions(options);
+  const encodeOptions: HlsEncodeOptions = { ...options };
+  delete encodeOptions.hls;
+  const segments: PlaylistSegment[] = [];
+  let sequence = 0;
+
+  const playlist = (ended: boolean): HlsOutput => ({
+    type: "playlist",
+    name: hls.playlistName,
+    content: buildMediaPlaylist(segments, { ...hls, ended }),
+    ended,
+  });
+
+  const stream = encodeStream(source, {
+    ...encodeOptions,
+    container: "mp4",
+    mp4: {
+      ...encodeOptions.mp4,
+      fragmented: true,
+      fragmentDuration: hls.segmentDuration,
+    },
+  });
+
+  for await (const part of segmentStream(stream, new Fmp4Segmenter())) {
+    if (part.type === "init") {
+      yield { type: "init", name: hls.initName, data: part.data };
+      continue;
+    }
+
+    const segment = {
+      name: hls.segmentName(sequence),
+      sequence,
+      duration: part.duration,
+    };
+    sequence++;
+    segments.push(segment);
+    if (hls.liveWindow && segments.length > hls.liveWindow) {
+      segments.shift();
+    }
+
+    yield {
+      type: "segment",
+      ...segment,
+      data: part.data,
+      startTime: part.startTime,
+    };
+    yield playlist(false);
+  }
+
+  yield playlist(true);
+}
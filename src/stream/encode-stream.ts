@@ -4,38 +4,127 @@
 
 import {
   VideoSource,
-  EncodeOptions,
+  EncodeStreamOptions,
   EncodeError,
   ProgressInfo,
   VideoFile,
+  Frame,
+  EncodedChunkItem,
+  MediaSourceItem,
+  EncoderConfig,
+  StreamChunk,
 } from "../types";
 import { inferAndBuildConfig } from "../utils/config-parser";
-import { WorkerCommunicator } from "../worker/worker-communicator";
+import {
+  INITIALIZE_TIMEOUT,
+  WorkerJob,
+  WorkerProvider,
+  workersFor,
+  toEncodeError,
+} from "../worker/worker-communicator";
 import { convertToVideoFrame } from "../utils/video-frame-converter";
+import { createCancelledError, throwIfAborted } from "../utils/abort-signal";
+import { VideoFileDecoder } from "../utils/video-file-decoder";
+import { openDemuxer } from "../demuxers/demuxer";
+import { applyRemuxPlan } from "../utils/remux-plan";
+import {
+  applyEncodedChunkConfig,
+  isEncodedChunkItem,
+} from "../utils/encoded-chunk-source";
+import { PeekedSource, peekFirstItem } from "../utils/peek-source";
+import {
+  PcmBuffer,
+  applyAudioItemConfig,
+  isAudioBufferSource,
+  isAudioSamplesSource,
+  toPcmBuffer,
+} from "../utils/audio-source";
+import {
+  closeMediaSourceItem,
+  isAudioData,
+  isAudioSourceItem,
+  isVideoFrame,
+  isVideoSourceItem,
+} from "../utils/media-source-item";
+import { ChunkQueue } from "./chunk-queue";
+
+// Unconsumed output above which source ingestion pauses
+const DEFAULT_HIGH_WATER_MARK = 16 * 1024 * 1024;
 
 /**
  * Streaming encode function
  *
  * @param source Video source to encode
- * @param options Encoding options
+ * @param options Encoding options. With `yield: 'detailed'` every chunk comes
+ * with its offset, kind, media time and key frame flag.
  * @returns AsyncGenerator of encoded chunks
  */
-export async function* encodeStream(
+export function encodeStream(
+  source: VideoSource,
+  options: EncodeStreamOptions & { yield: "detailed" },
+): AsyncGenerator<StreamChunk>;
+export function encodeStream(
+  source: VideoSource,
+  options?: EncodeStreamOptions,
+): AsyncGenerator<Uint8Array>;
+export function encodeStream(
+  source: VideoSource,
+  options?: EncodeStreamOptions,
+): AsyncGenerator<Uint8Array | StreamChunk> {
+  return encodeStreamWith(
+    workersFor(options?.worker, options?.execution),
+    source,
+    options,
+  );
+}
+
+/**
+ * encodeStream() on a worker from `workers`
+ */
+export async function* encodeStreamWith(
+  workers: WorkerProvider,
   source: VideoSource,
-  options?: EncodeOptions,
-): AsyncGenerator<Uint8Array> {
-  let communicator: WorkerCommunicator | null = null;
-  const chunks: Uint8Array[] = [];
-  let isFinalized = false;
+  options?: EncodeStreamOptions,
+): AsyncGenerator<Uint8Array | StreamChunk> {
+  let communicator: WorkerJob | null = null;
+  let workerFailed = false;
+  let peeked: PeekedSource | null = null;
+  const detailed = options?.yield === "detailed";
+  const queue = new ChunkQueue<StreamChunk>(
+    options?.highWaterMark ?? DEFAULT_HIGH_WATER_MARK,
+  );
+  let bytesReceived = 0;
   let streamError: EncodeError | null = null;
   let processedFrames = 0;
   let totalFrames: number | undefined;
   const startTime = Date.now();
+  const signal = options?.signal;
+  let abortHandler: (() => void) | null = null;
 
   try {
-    // Configuration inference and normalization (prioritize realtime mode)
+    throwIfAborted(signal);
+
+    // AsyncIterable sources are partly configured from their first item
+    peeked = await peekFirstItem(source);
+    source = peeked.source;
+
+    // Configuration inference and normalization. Output is always streamed;
+    // latency defaults to realtime unless the caller picks one
     const baseConfig = await inferAndBuildConfig(source, options);
-    const config = { ...baseConfig, latencyMode: "realtime" as const }; // Force setting for streaming
+    const requestedLatencyMode =
+      options?.latencyMode ??
+      (options?.video ? options.video.latencyMode : undefined);
+    const config: EncoderConfig = {
+      ...baseConfig,
+      latencyMode: requestedLatencyMode ?? "realtime",
+      streaming: true,
+    };
+    if (isEncodedChunkItem(peeked.first)) {
+      applyEncodedChunkConfig(peeked.first, config, options);
+    } else {
+      applyAudioItemConfig(peeked.first, config, options);
+      await applyRemuxPlan(source, config, options);
+    }
 
     // Calculate totalFrames upfront for progress tracking
     try {
@@ -43,9 +132,10 @@ export async function* encodeStream(
     } catch (error) {
       console.warn("Failed to calculate total frames for streaming:", error);
     }
+    throwIfAborted(signal);
 
     // Start communication with worker
-    communicator = new WorkerCommunicator();
+    communicator = await workers.acquire(signal);
 
     // Update progress information
     const updateProgress = (stage: string) => {
@@ -74,71 +164,96 @@ export async function* encodeStream(
 
     // Manage encoding process start with Promise
     const encodingPromise = new Promise<void>((resolve, reject) => {
+      // Stop the worker as soon as the caller aborts
+      abortHandler = () => {
+        communicator!.send("cancel");
+        streamError = createCancelledError(signal);
+        reject(streamError);
+      };
+      signal?.addEventListener("abort", abortHandler, { once: true });
+
       // Handle messages from worker
-      communicator!.on("initialized", () => {
+      communicator!.on("progress", (data) => {
+        processedFrames = data.processedFrames;
+        if (data.totalFrames !== undefined) {
+          totalFrames = data.totalFrames;
+        }
         updateProgress("streaming");
-        // Start frame processing
-        processVideoSource(communicator!, source, config)
-          .then(() => {
-            updateProgress("finalizing");
-            communicator!.send("finalize");
-          })
-          .catch(reject);
       });
 
-      communicator!.on(
-        "progress",
-        (data: { processedFrames: number; totalFrames?: number }) => {
-          processedFrames = data.processedFrames;
-          if (data.totalFrames !== undefined) {
-            totalFrames = data.totalFrames;
-          }
-          updateProgress("streaming");
-        },
-      );
-
-      communicator!.on("dataChunk", (data: { chunk: Uint8Array }) => {
-        chunks.push(data.chunk);
+      communicator!.on("dataChunk", (data) => {
+        const isHeader = data.isHeader ?? false;
+        const chunk: StreamChunk = {
+          data: data.chunk,
+          offset: data.offset ?? bytesReceived,
+          isHeader,
+          kind: data.kind ?? (isHeader ? "init" : "fragment"),
+          keyframe: data.keyframe ?? false,
+        };
+        if (data.timestampRange) {
+          chunk.timestampRange = data.timestampRange;
+        }
+        bytesReceived = chunk.offset + chunk.data.byteLength;
+        queue.push(chunk, chunk.data.byteLength);
       });
 
-      communicator!.on("finalized", () => {
-        isFinalized = true;
-        updateProgress("finalizing");
-        resolve();
+      communicator!.on("error", (data) => {
+        streamError = toEncodeError(data.errorDetail);
+        reject(streamError);
       });
 
-      communicator!.on("error", (data: { errorDetail: any }) => {
-        streamError = new EncodeError(
-          data.errorDetail.type || "encoding-failed",
-          data.errorDetail.message || "Worker error",
-          data.errorDetail,
-        );
+      communicator!.on("cancelled", () => {
+        streamError = createCancelledError(signal);
         reject(streamError);
       });
 
-      // Start encoding
-      communicator!.send("initialize", { config, totalFrames });
+      // Start encoding, then finalize once every frame is sent
+      communicator!
+        .request(
+          "initialize",
+          { config, totalFrames },
+          { timeout: INITIALIZE_TIMEOUT },
+        )
+        .then(async () => {
+          updateProgress("streaming");
+          await processVideoSource(
+            communicator!,
+            source,
+            config,
+            () => queue.ready(),
+            signal,
+          );
+          if (signal?.aborted) return;
+          updateProgress("finalizing");
+          await communicator!.request("finalize");
+          updateProgress("finalizing");
+          resolve();
+        })
+        .catch((error) => {
+          streamError =
+            error instanceof EncodeError
+              ? error
+              : new EncodeError(
+                  "encoding-failed",
+                  `Streaming failed: ${error instanceof Error ? error.message : String(error)}`,
+                  error,
+                );
+          reject(streamError);
+        });
     });
 
     // Error handling for encoding process
     // Note: Don't use .catch() here as it would swallow the error
-    // Instead, let errors propagate and handle them later
-
-    // Yield chunks sequentially
-    while (!isFinalized && !streamError) {
-      if (chunks.length > 0) {
-        const chunk = chunks.shift()!;
-        yield chunk;
-      } else {
-        // Wait a bit before checking again
-        await new Promise((resolve) => setTimeout(resolve, 10));
-      }
-    }
-
-    // Yield remaining chunks
-    while (chunks.length > 0) {
-      const chunk = chunks.shift()!;
-      yield chunk;
+    // Instead, let errors propagate and handle them later.
+    // Rejections may land while the generator is suspended; mark them as
+    // observed so they surface through streamError below instead.
+    encodingPromise.catch(() => {}).finally(() => queue.close());
+
+    // Yield chunks as they arrive; the queued ones are still yielded after
+    // an error
+    let chunk: StreamChunk | null;
+    while ((chunk = await queue.pull())) {
+      yield detailed ? chunk : chunk.data;
     }
 
     // Throw exception if error occurred
@@ -176,6 +291,9 @@ export async function* encodeStream(
             `Stream encoding failed: ${error instanceof Error ? error.message : String(error)}`,
             error,
           );
+    // Other failures end the job only; the worker takes the next one
+    workerFailed =
+      encodeError.type === "worker-error" || encodeError.type === "timeout";
 
     if (options?.onError) {
       options.onError(encodeError);
@@ -183,9 +301,17 @@ export async function* encodeStream(
 
     throw encodeError;
   } finally {
+    // Stops source ingestion when the consumer leaves early
+    queue.cancel(
+      new EncodeError("cancelled", "The stream was closed before it ended"),
+    );
+    if (abortHandler) {
+      signal?.removeEventListener("abort", abortHandler);
+    }
     // Resource cleanup
+    await peeked?.release().catch(() => {});
     if (communicator) {
-      communicator.terminate();
+      workers.release(communicator, !workerFailed);
     }
   }
 }
@@ -194,22 +320,67 @@ export async function* encodeStream(
  * Process VideoSource and send to worker (for streaming)
  */
 async function processVideoSource(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   source: VideoSource,
   config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   if (Array.isArray(source)) {
     // Process static frame array
-    await processFrameArray(communicator, source, config);
-  } else if (source instanceof MediaStream) {
+    await processFrameArray(communicator, source, config, ready, signal);
+  } else if (
+    typeof MediaStream !== "undefined" &&
+    source instanceof MediaStream
+  ) {
     // Process MediaStream (realtime)
-    await processMediaStreamRealtime(communicator, source, config);
+    await processMediaStreamRealtime(
+      communicator,
+      source,
+      config,
+      ready,
+      signal,
+    );
+  } else if (isAudioBufferSource(source) || isAudioSamplesSource(source)) {
+    // Process audio-only source
+    const buffer = toPcmBuffer(source);
+    await processAudioFromFile(
+      communicator,
+      buffer,
+      buffer.length / buffer.sampleRate,
+      config.frameRate || 30,
+      ready,
+      signal,
+    );
   } else if (Symbol.asyncIterator in source) {
-    // Process AsyncIterable
-    await processAsyncIterable(communicator, source, config);
+    if (config.passthrough) {
+      // Encoded chunks go straight to the muxer
+      await processEncodedChunks(
+        communicator,
+        source as AsyncIterable<EncodedChunkItem>,
+        config,
+        ready,
+        signal,
+      );
+    } else {
+      // Process AsyncIterable
+      await processAsyncIterable(
+        communicator,
+        source as AsyncIterable<MediaSourceItem>,
+        config,
+        ready,
+        signal,
+      );
+    }
   } else {
     // Process VideoFile
-    await processVideoFile(communicator, source as VideoFile, config);
+    await processVideoFile(
+      communicator,
+      source as VideoFile,
+      config,
+      ready,
+      signal,
+    );
   }
 }
 
@@ -217,9 +388,11 @@ async function processVideoSource(
  * Process frame array (for streaming)
  */
 async function processFrameArray(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   frames: import("../types").Frame[],
-  config?: any,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const frameRate = config?.frameRate || 30;
   const frameDelay = 1000 / frameRate;
@@ -227,6 +400,8 @@ async function processFrameArray(
   let lastFrameTime = performance.now();
 
   for (let i = 0; i < frames.length; i++) {
+    throwIfAborted(signal);
+    await ready();
     const frame = frames[i];
     const timestamp = (i * 1000000) / frameRate;
 
@@ -242,20 +417,119 @@ async function processFrameArray(
 }
 
 /**
- * Process AsyncIterable (for streaming)
+ * Process AsyncIterable of frames and audio (for streaming). Caller-provided
+ * timestamps are kept; other frames follow the previous one at frameRate.
  */
 async function processAsyncIterable(
-  communicator: WorkerCommunicator,
-  source: AsyncIterable<import("../types").Frame>,
-  config?: any,
+  communicator: WorkerJob,
+  source: AsyncIterable<MediaSourceItem>,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
-  let frameIndex = 0;
-  const frameRate = config?.frameRate || 30;
+  const frameDuration = 1000000 / (config?.frameRate || 30);
+  let nextVideoTimestamp = 0;
+  let nextAudioTimestamp = 0;
 
-  for await (const frame of source) {
-    const timestamp = (frameIndex * 1000000) / frameRate; // Use frameRate from config
-    await addFrameToWorker(communicator, frame, timestamp);
-    frameIndex++;
+  for await (const item of source) {
+    try {
+      throwIfAborted(signal);
+      await ready();
+      // With video disabled there is no encoder for frames
+      if (
+        config.videoBitrate === 0 &&
+        !isAudioData(item) &&
+        !isAudioSourceItem(item)
+      ) {
+        throw new EncodeError(
+          "invalid-input",
+          "The source yielded a video frame, but video is disabled",
+        );
+      }
+
+      if (isAudioData(item)) {
+        communicator.send("addAudioData", {
+          audio: item,
+          timestamp: item.timestamp,
+          format: item.format,
+          sampleRate: item.sampleRate,
+          numberOfFrames: item.numberOfFrames,
+          numberOfChannels: item.numberOfChannels,
+        });
+        nextAudioTimestamp = item.timestamp + item.duration;
+      } else if (isAudioSourceItem(item)) {
+        const timestamp = item.timestamp ?? nextAudioTimestamp;
+        const numberOfFrames = item.data[0]?.length ?? 0;
+        communicator.send("addAudioData", {
+          audioData: item.data,
+          timestamp,
+          format: "f32-planar",
+          sampleRate: item.sampleRate,
+          numberOfFrames,
+          numberOfChannels: item.data.length,
+        });
+        nextAudioTimestamp =
+          timestamp + (numberOfFrames * 1000000) / item.sampleRate;
+      } else if (isVideoSourceItem(item)) {
+        const duration = item.duration ?? frameDuration;
+        await addFrameToWorker(
+          communicator,
+          item.frame,
+          item.timestamp,
+          duration,
+        );
+        nextVideoTimestamp = item.timestamp + duration;
+      } else {
+        // VideoFrames carry their own timing
+        const timestamp = isVideoFrame(item)
+          ? item.timestamp
+          : nextVideoTimestamp;
+        const duration =
+          (isVideoFrame(item) ? item.duration : null) ?? frameDuration;
+        await addFrameToWorker(communicator, item, timestamp, duration);
+        nextVideoTimestamp = timestamp + duration;
+      }
+    } finally {
+      closeMediaSourceItem(item);
+    }
+  }
+}
+
+/**
+ * Process AsyncIterable of encoded chunks (for streaming)
+ */
+async function processEncodedChunks(
+  communicator: WorkerJob,
+  source: AsyncIterable<EncodedChunkItem>,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const passthrough = config.passthrough ?? {};
+  // Metadata may arrive before the first chunk of its track
+  let videoMetadata: EncodedVideoChunkMetadata | undefined;
+  let audioMetadata: EncodedAudioChunkMetadata | undefined;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+    await ready();
+    videoMetadata = item.meta?.video ?? videoMetadata;
+    audioMetadata = item.meta?.audio ?? audioMetadata;
+
+    if (item.video && passthrough.video) {
+      communicator.send("addVideoChunk", {
+        chunk: item.video,
+        metadata: videoMetadata,
+      });
+      videoMetadata = undefined;
+    }
+    if (item.audio && passthrough.audio) {
+      communicator.send("addAudioChunk", {
+        chunk: item.audio,
+        metadata: audioMetadata,
+      });
+      audioMetadata = undefined;
+    }
   }
 }
 
@@ -263,9 +537,11 @@ async function processAsyncIterable(
  * Process MediaStream in realtime
  */
 async function processMediaStreamRealtime(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   stream: MediaStream,
   config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const videoTracks = stream.getVideoTracks();
   const audioTracks = stream.getAudioTracks();
@@ -273,6 +549,16 @@ async function processMediaStreamRealtime(
   const readers: ReadableStreamDefaultReader<any>[] = [];
   const processingPromises: Promise<void>[] = [];
 
+  // Cancelling the readers resolves any pending read() so the loops can exit
+  const cancelReaders = () => {
+    for (const reader of readers) {
+      reader.cancel().catch(() => {
+        // Ignore errors (stream may already be closed)
+      });
+    }
+  };
+  signal?.addEventListener("abort", cancelReaders, { once: true });
+
   try {
     // Process video tracks
     if (videoTracks.length > 0) {
@@ -283,7 +569,7 @@ async function processMediaStreamRealtime(
       readers.push(reader);
 
       processingPromises.push(
-        processVideoTrackRealtime(communicator, reader, config),
+        processVideoTrackRealtime(communicator, reader, config, ready, signal),
       );
     }
 
@@ -295,12 +581,16 @@ async function processMediaStreamRealtime(
         processor.readable.getReader() as ReadableStreamDefaultReader<AudioData>;
       readers.push(reader);
 
-      processingPromises.push(processAudioTrackRealtime(communicator, reader));
+      processingPromises.push(
+        processAudioTrackRealtime(communicator, reader, ready, signal),
+      );
     }
 
     // Wait for all processing to complete
     await Promise.all(processingPromises);
+    throwIfAborted(signal);
   } finally {
+    signal?.removeEventListener("abort", cancelReaders);
     // Clean up readers
     for (const reader of readers) {
       try {
@@ -316,9 +606,11 @@ async function processMediaStreamRealtime(
  * Process VideoTrack in realtime
  */
 async function processVideoTrackRealtime(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   reader: ReadableStreamDefaultReader<VideoFrame>,
   _config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   // Frame drop functionality planned for future implementation
   // const maxQueueDepth = config.maxQueueDepth || 10;
@@ -328,8 +620,13 @@ async function processVideoTrackRealtime(
     while (true) {
       const { value, done } = await reader.read();
       if (done || !value) break;
+      if (signal?.aborted) {
+        value.close();
+        break;
+      }
 
       try {
+        await ready();
         await addFrameToWorker(communicator, value, value.timestamp || 0);
       } finally {
         value.close();
@@ -348,16 +645,23 @@ async function processVideoTrackRealtime(
  * Process AudioTrack in realtime
  */
 async function processAudioTrackRealtime(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
   reader: ReadableStreamDefaultReader<AudioData>,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   try {
     // eslint-disable-next-line no-constant-condition
     while (true) {
       const { value, done } = await reader.read();
       if (done || !value) break;
+      if (signal?.aborted) {
+        value.close();
+        break;
+      }
 
       try {
+        await ready();
         communicator.send("addAudioData", {
           audio: value,
           timestamp: value.timestamp || 0,
@@ -383,12 +687,13 @@ async function processAudioTrackRealtime(
  * Send frame to worker
  */
 async function addFrameToWorker(
-  communicator: WorkerCommunicator,
-  frame: import("../types").Frame,
+  communicator: WorkerJob,
+  frame: Frame,
   timestamp: number,
+  duration?: number,
 ): Promise<void> {
   // Convert frame to VideoFrame
-  const videoFrame = await convertToVideoFrame(frame, timestamp);
+  const videoFrame = await convertToVideoFrame(frame, timestamp, duration);
 
   try {
     communicator.send("addVideoFrame", {
@@ -402,19 +707,137 @@ async function addFrameToWorker(
 }
 
 /**
- * Process VideoFile and extract frames (for streaming)
+ * Process VideoFile by demuxing and decoding it with WebCodecs, falling back
+ * to HTMLVideoElement seeking when that is not possible (for streaming)
  */
 async function processVideoFile(
-  communicator: WorkerCommunicator,
+  communicator: WorkerJob,
+  videoFile: VideoFile,
+  config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const passthrough = config.passthrough ?? {};
+  const decoder = await VideoFileDecoder.open(videoFile.file, {
+    video: config.videoBitrate > 0 && !passthrough.video,
+    audio: config.audioBitrate > 0 && !passthrough.audio,
+    width: config.width,
+    height: config.height,
+    frameRate: config.maxFrameRate,
+    sampleRate: config.sampleRate,
+  });
+
+  if (!decoder) {
+    if (passthrough.video || passthrough.audio) {
+      throw new EncodeError(
+        "not-supported",
+        "VideoFile tracks selected for remuxing could not be read",
+      );
+    }
+    await processVideoFileWithElement(
+      communicator,
+      videoFile,
+      config,
+      ready,
+      signal,
+    );
+    return;
+  }
+
+  try {
+    // Audio track that AudioDecoder cannot handle goes through AudioContext
+    if (
+      config.audioBitrate > 0 &&
+      decoder.demuxer.audioTrack &&
+      !decoder.decodesAudio &&
+      !passthrough.audio
+    ) {
+      await processAudioFromVideoFile(
+        communicator,
+        videoFile,
+        config,
+        (decoder.demuxer.duration ?? 0) / 1_000_000,
+        config.frameRate || 30,
+        ready,
+        signal,
+      );
+    }
+
+    await decoder.decode(
+      {
+        onVideoFrame: async (frame) => {
+          try {
+            await ready();
+            communicator.send("addVideoFrame", {
+              frame,
+              timestamp: frame.timestamp,
+            });
+          } finally {
+            frame.close();
+          }
+        },
+        onAudioData: async (audio) => {
+          try {
+            await ready();
+            communicator.send("addAudioData", {
+              audio,
+              timestamp: audio.timestamp,
+              format: audio.format,
+              sampleRate: audio.sampleRate,
+              numberOfFrames: audio.numberOfFrames,
+              numberOfChannels: audio.numberOfChannels,
+            });
+          } finally {
+            audio.close();
+          }
+        },
+        // A disabled video track is skipped rather than copied
+        onVideoChunk: passthrough.video
+          ? async (chunk, metadata) => {
+              await ready();
+              communicator.send("addVideoChunk", { chunk, metadata });
+            }
+          : undefined,
+        // Undecoded audio is only copied when it was selected for remuxing
+        onAudioChunk: passthrough.audio
+          ? async (chunk, metadata) => {
+              await ready();
+              communicator.send("addAudioChunk", { chunk, metadata });
+            }
+          : undefined,
+      },
+      signal,
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createCancelledError(signal);
+    }
+    if (error instanceof EncodeError) {
+      throw error;
+    }
+    throw new EncodeError(
+      "invalid-input",
+      `VideoFile processing failed: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+}
+
+/**
+ * Process VideoFile by seeking an HTMLVideoElement (for streaming)
+ */
+async function processVideoFileWithElement(
+  communicator: WorkerJob,
   videoFile: VideoFile,
   config: any,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const video = document.createElement("video");
   video.muted = true;
   video.preload = "metadata";
 
   let objectUrl: string | null = null;
-  let audioContext: AudioContext | null = null;
 
   try {
     objectUrl = URL.createObjectURL(videoFile.file);
@@ -442,20 +865,16 @@ async function processVideoFile(
       config.frameRate && config.frameRate > 0 ? config.frameRate : 30;
     const totalFrames = Math.max(1, Math.floor(duration * frameRate) || 1);
 
-    if (config.audioBitrate > 0 && typeof AudioContext !== "undefined") {
-      try {
-        audioContext = new AudioContext();
-        const arrayBuffer = await videoFile.file.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        await processAudioFromFile(
-          communicator,
-          audioBuffer,
-          duration,
-          frameRate,
-        );
-      } catch (audioError) {
-        console.warn("Failed to process audio from VideoFile:", audioError);
-      }
+    if (config.audioBitrate > 0) {
+      await processAudioFromVideoFile(
+        communicator,
+        videoFile,
+        config,
+        duration,
+        frameRate,
+        ready,
+        signal,
+      );
     }
 
     const targetWidth =
@@ -476,6 +895,7 @@ async function processVideoFile(
     }
 
     for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+      throwIfAborted(signal);
       const timestampSeconds = Math.min(duration || 0, frameIndex / frameRate);
       video.currentTime = Number.isFinite(timestampSeconds)
         ? timestampSeconds
@@ -511,16 +931,65 @@ async function processVideoFile(
       );
 
       const chunkTimestamp = Math.round(frameIndex * (1_000_000 / frameRate));
+      await ready();
       await addFrameToWorker(communicator, canvas, chunkTimestamp);
 
       await new Promise((resolve) => requestAnimationFrame(resolve));
     }
   } catch (error) {
+    if (signal?.aborted) {
+      throw createCancelledError(signal);
+    }
     throw new EncodeError(
       "invalid-input",
       `VideoFile processing failed: ${error instanceof Error ? error.message : String(error)}`,
       error,
     );
+  } finally {
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+    }
+    video.src = "";
+    video.remove();
+  }
+}
+
+/**
+ * Decode VideoFile audio with AudioContext and send to worker (for streaming)
+ */
+async function processAudioFromVideoFile(
+  communicator: WorkerJob,
+  videoFile: VideoFile,
+  config: any,
+  duration: number,
+  frameRate: number,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (typeof AudioContext === "undefined") {
+    return;
+  }
+
+  let audioContext: AudioContext | null = null;
+  try {
+    // Resample to the encoder's rate while decoding
+    audioContext =
+      config.sampleRate > 0
+        ? new AudioContext({ sampleRate: config.sampleRate })
+        : new AudioContext();
+    const arrayBuffer = await videoFile.file.arrayBuffer();
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+    await processAudioFromFile(
+      communicator,
+      audioBuffer,
+      duration,
+      frameRate,
+      ready,
+      signal,
+    );
+  } catch (audioError) {
+    console.warn("Failed to process audio from VideoFile:", audioError);
   } finally {
     if (audioContext) {
       try {
@@ -529,12 +998,6 @@ async function processVideoFile(
         console.warn("Failed to close AudioContext", closeError);
       }
     }
-
-    if (objectUrl) {
-      URL.revokeObjectURL(objectUrl);
-    }
-    video.src = "";
-    video.remove();
   }
 }
 
@@ -542,10 +1005,12 @@ async function processVideoFile(
  * Process audio data from AudioBuffer and send to worker (for streaming)
  */
 async function processAudioFromFile(
-  communicator: WorkerCommunicator,
-  audioBuffer: AudioBuffer,
+  communicator: WorkerJob,
+  audioBuffer: PcmBuffer,
   duration: number,
   frameRate: number,
+  ready: () => Promise<void>,
+  signal?: AbortSignal,
 ): Promise<void> {
   const sampleRate = audioBuffer.sampleRate;
   const numberOfChannels = audioBuffer.numberOfChannels;
@@ -555,6 +1020,8 @@ async function processAudioFromFile(
   const samplesPerChunk = Math.floor((sampleRate * chunkDurationMs) / 1000);
 
   for (let offset = 0; offset < totalSamples; offset += samplesPerChunk) {
+    if (signal?.aborted) return;
+    await ready();
     const remainingSamples = Math.min(samplesPerChunk, totalSamples - offset);
     const timestamp = (offset / sampleRate) * 1000000;
 
@@ -617,15 +1084,35 @@ async function calculateTotalFrames(
     if (Array.isArray(source)) {
       // Static frame array
       return source.length;
-    } else if (source instanceof MediaStream) {
+    } else if (
+      typeof MediaStream !== "undefined" &&
+      source instanceof MediaStream
+    ) {
       // MediaStream - cannot predict total frames
       return undefined;
+    } else if (isAudioBufferSource(source) || isAudioSamplesSource(source)) {
+      // Audio-only - no video frames
+      return undefined;
     } else if (Symbol.asyncIterator in source) {
       // AsyncIterable - cannot predict total frames
       return undefined;
     } else {
-      // VideoFile - calculate from duration and frame rate
+      // VideoFile - use the container index when available
       const videoFile = source as VideoFile;
+      const frameRate = config.frameRate || 30;
+      const demuxer = await openDemuxer(videoFile.file);
+      const sampleCount = demuxer?.videoTrack?.sampleCount;
+      if (sampleCount) {
+        // Frames are only dropped down to a requested frame rate
+        return demuxer.duration && config.maxFrameRate
+          ? Math.min(
+              sampleCount,
+              Math.ceil((demuxer.duration / 1_000_000) * config.maxFrameRate),
+            )
+          : sampleCount;
+      }
+
+      // Otherwise calculate from duration and frame rate
       const video = document.createElement("video");
       video.muted = true;
       video.preload = "metadata";
@@ -640,7 +1127,6 @@ async function calculateTotalFrames(
             reject(new Error("Failed to load video metadata"));
         });
 
-        const frameRate = config.frameRate || 30;
         const totalFrames = Math.floor(video.duration * frameRate);
 
         URL.revokeObjectURL(objectUrl);
@@ -0,0 +1,142 @@
+/**
+ * WHATWG stream wrappers around encodeStream()
+ */
+
+import {
+  VideoSource,
+  EncodeStreamOptions,
+  EncodedOutputChunk,
+  StreamChunk,
+} from "../types";
+import { encodeStream } from "./encode-stream";
+import { isAudioData, isVideoFrame } from "../utils/media-source-item";
+
+/**
+ * Read the generator on demand only, so that a full readable queue holds the
+ * generator and, through its high-water mark, the encoder input. Cancelling
+ * aborts the encode. `onStop` runs when the encode fails or is cancelled.
+ */
+function toReadableStream<T>(
+  generator: AsyncGenerator<T>,
+  controller: AbortController,
+  onStop?: (reason: unknown) => void,
+): ReadableStream<T> {
+  return new ReadableStream<T>({
+    async pull(stream) {
+      let result: IteratorResult<T>;
+      try {
+        result = await generator.next();
+      } catch (error) {
+        onStop?.(error);
+        throw error;
+      }
+      if (result.done) {
+        stream.close();
+      } else {
+        stream.enqueue(result.value);
+      }
+    },
+    async cancel(reason) {
+      controller.abort(reason);
+      onStop?.(reason);
+      // Runs the generator's cleanup once the aborted encode has settled
+      await generator.return(undefined).catch(() => {});
+    },
+  });
+}
+
+/**
+ * Abort controller for a stream that also follows the caller's signal
+ */
+function followSignal(signal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+    });
+  }
+  return controller;
+}
+
+/**
+ * Encode a source into a ReadableStream, e.g. for a fetch() request body or
+ * pipeTo() a FileSystemWritableFileStream. Chunks are produced as the stream
+ * is read; a stream that is not read pauses encoding.
+ *
+ * @param source Video source to encode
+ * @param options Same as encodeStream()
+ * @returns Stream of the output bytes, or of detailed chunks with
+ * `yield: 'detailed'`
+ */
+export function encodeToReadableStream(
+  source: VideoSource,
+  options: EncodeStreamOptions & { yield: "detailed" },
+): ReadableStream<StreamChunk>;
+export function encodeToReadableStream(
+  source: VideoSource,
+  options?: EncodeStreamOptions,
+): ReadableStream<Uint8Array>;
+export function encodeToReadableStream(
+  source: VideoSource,
+  options?: EncodeStreamOptions,
+): ReadableStream<Uint8Array | StreamChunk> {
+  const controller = followSignal(options?.signal);
+  const generator = encodeStream(source, {
+    ...options,
+    signal: controller.signal,
+  }) as AsyncGenerator<Uint8Array | StreamChunk>;
+  return toReadableStream(generator, controller);
+}
+
+/**
+ * Encode the VideoFrames and AudioData written to the stream. Each written
+ * frame is closed once the encoder has taken it. Writes resolve as the
+ * encoder takes frames, so they wait while the readable side is not read.
+ * The output settings are inferred from the first frame and `options`.
+ *
+ * @param options Same as encodeStream(); chunks are always detailed
+ * @returns Transform to use with pipeThrough()
+ */
+export function createEncodeTransform(
+  options?: Omit<EncodeStreamOptions, "yield">,
+): TransformStream<VideoFrame | AudioData, EncodedOutputChunk> {
+  // Passes each write on when the encoder reads the next item
+  const input = new TransformStream<
+    VideoFrame | AudioData,
+    VideoFrame | AudioData
+  >();
+  const reader = input.readable.getReader();
+
+  async function* frames(): AsyncGenerator<VideoFrame | AudioData> {
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        try {
+          yield value;
+        } finally {
+          if (isVideoFrame(value) || isAudioData(value)) value.close();
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  const controller = followSignal(options?.signal);
+  const generator = encodeStream(frames(), {
+    ...options,
+    yield: "detailed",
+    signal: controller.signal,
+  });
+
+  return {
+    writable: input.writable,
+    readable: toReadableStream(generator, controller, (reason) => {
+      // Releases a read waiting for the next write and fails the writes
+      reader.cancel(reason).catch(() => {});
+    }),
+  };
+}
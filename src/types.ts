@@ -9,12 +9,63 @@ export interface VideoFile {
   type: string;
 }
 
+// Planar PCM audio (audio-only source)
+export interface AudioSamples {
+  /** One Float32Array per channel. */
+  data: Float32Array[];
+  sampleRate: number;
+}
+
+// Video frame with caller-provided timing (microseconds)
+export interface VideoSourceItem {
+  type: "video";
+  frame: Frame;
+  timestamp: number;
+  /** Defaults to 1 / frameRate. */
+  duration?: number;
+}
+
+// Audio samples with caller-provided timing (microseconds)
+export interface AudioSourceItem {
+  type: "audio";
+  /** Planar PCM, one Float32Array per channel. */
+  data: Float32Array[];
+  sampleRate: number;
+  /** Defaults to the end of the previous audio item. */
+  timestamp?: number;
+}
+
+// Items of an AsyncIterable source. VideoFrame and AudioData keep their own
+// timestamps; other frames are spaced by frameRate.
+export type MediaSourceItem =
+  | Frame
+  | AudioData
+  | VideoSourceItem
+  | AudioSourceItem;
+
+// Already-encoded chunks (muxed without encoding)
+export interface EncodedChunkItem {
+  video?: EncodedVideoChunk;
+  audio?: EncodedAudioChunk;
+  /**
+   * Chunk metadata. The first item must carry the decoderConfig of every
+   * track the source contains; tracks are taken from it.
+   */
+  meta?: {
+    video?: EncodedVideoChunkMetadata;
+    audio?: EncodedAudioChunkMetadata;
+  };
+}
+
 // Video source type (all input formats)
 export type VideoSource = 
   | Frame[]                    // Static frame array
-  | AsyncIterable<Frame>       // Streaming frames
+  | AsyncIterable<MediaSourceItem> // Streaming frames and audio
+  | AsyncIterable<EncodedChunkItem> // Encoded chunks
   | MediaStream               // Camera/screen sharing
-  | VideoFile;                // Existing video file
+  | VideoFile                 // Existing video file
+  | AudioBuffer               // Audio only
+  | AudioSamples;             // Audio only (planar PCM)
 
 // Quality presets
 export type QualityPreset = 'low' | 'medium' | 'high' | 'lossless';
@@ -23,9 +74,12 @@ export type AvcBitstreamFormatOption = "annexb" | "avc";
 export type HevcBitstreamFormatOption = "annexb" | "hevc";
 export type AacBitstreamFormatOption = "aac" | "adts";
 
+// Video codecs
+export type VideoCodec = 'avc' | 'hevc' | 'vp9' | 'vp8' | 'av1';
+
 // Video configuration
 export interface VideoConfig {
-  codec?: 'avc' | 'hevc' | 'vp9' | 'vp8' | 'av1';
+  codec?: VideoCodec;
   /** Override codec string passed to VideoEncoder (e.g. "avc1.640028"). */
   codecString?: string;
   bitrate?: number;
@@ -58,6 +112,20 @@ export type AudioCodec =
   | 'ulaw'
   | 'alaw';
 
+/**
+ * Output container. 'mkv' is Matroska, which unlike WebM also accepts H.264,
+ * HEVC, AAC, MP3 and PCM. 'wav', 'aac' (ADTS), 'ogg' (Ogg Opus) and 'mp3' hold
+ * a single audio track and imply `video: false`.
+ */
+export type ContainerFormat =
+  | 'mp4'
+  | 'webm'
+  | 'mkv'
+  | 'wav'
+  | 'aac'
+  | 'ogg'
+  | 'mp3';
+
 export interface AudioConfig {
   codec?: AudioCodec;
   /** Override codec string passed to AudioEncoder (e.g. "mp4a.40.2"). */
@@ -72,6 +140,29 @@ export interface AudioConfig {
   };
 }
 
+/**
+ * MP4 layout. Independent of `latencyMode`: fragmented output can be written
+ * at quality latency, and a progressive file can come out of encodeStream().
+ */
+export interface Mp4Options {
+  /**
+   * Write a moov box followed by moof/mdat fragments instead of a single
+   * progressive mdat. Default: true for encodeStream() and realtime latency,
+   * false otherwise.
+   */
+  fragmented?: boolean;
+  /**
+   * Minimum fragment duration in seconds. Fragments start on a key frame;
+   * unless `video.keyFrameInterval` is set, one is requested per fragment.
+   */
+  fragmentDuration?: number;
+  /**
+   * Mark the fragmented output as CMAF by adding the 'cmfc' brand. Implies
+   * `fragmented: true`.
+   */
+  cmaf?: boolean;
+}
+
 // Progress information
 export interface ProgressInfo {
   percent: number;
@@ -82,6 +173,21 @@ export interface ProgressInfo {
   estimatedRemainingMs?: number;
 }
 
+// Processing mode for VideoFile sources
+export type EncodeMode = 'auto' | 'transcode' | 'remux';
+
+// Destination that encode() writes the file to as it is muxed
+export type EncodeOutputTarget =
+  | WritableStream<Uint8Array>
+  | FileSystemWritableFileStream
+  | FileSystemFileHandle;
+
+// Encoder worker: an instance, its script URL, or a function that creates one
+export type WorkerSource = Worker | URL | string | (() => Worker);
+
+// Where the encoder runs
+export type ExecutionMode = "worker" | "main-thread";
+
 // Encode options
 export interface EncodeOptions {
   // Basic settings (auto-detectable)
@@ -95,7 +201,28 @@ export interface EncodeOptions {
   // Detailed settings (optional)
   video?: VideoConfig | false; // false to disable video
   audio?: AudioConfig | false; // false to disable audio
-  container?: 'mp4' | 'webm';
+  container?: ContainerFormat;
+  mp4?: Mp4Options; // Only used for 'mp4' output
+
+  // Output destination
+  /**
+   * Write the file here while encoding instead of holding it in memory;
+   * encode() then resolves once it is written and closed. File streams and
+   * handles are written at offsets, so MP4 stays progressive with the moov
+   * box after the media data. A plain WritableStream is only appended to,
+   * so MP4 output is fragmented unless `mp4.fragmented` is false, in which
+   * case the file is written in one piece at the end.
+   */
+  output?: EncodeOutputTarget;
+  /**
+   * Bytes of output encode() may hold in memory. Above it, or from the start
+   * when the expected size is larger, the worker writes the file to the
+   * origin private file system and encode() resolves with that File. The
+   * file stays there until removed with
+   * `(await navigator.storage.getDirectory()).removeEntry(file.name)`.
+   * Ignored by encodeStream() and together with `output`.
+   */
+  memoryBudget?: number;
 
   // Timestamp handling
   firstTimestampBehavior?: "offset" | "strict";
@@ -108,11 +235,180 @@ export interface EncodeOptions {
   maxAudioQueueSize?: number; // Default: 30 chunks
   backpressureStrategy?: "drop" | "wait"; // Default: "drop"
 
+  // Processing mode (VideoFile sources)
+  /**
+   * 'transcode' (default) decodes and re-encodes every track.
+   * 'remux' copies the compressed samples into the output container and
+   * fails when a track cannot be copied. 'auto' copies the tracks that the
+   * container accepts and transcodes the rest.
+   */
+  mode?: EncodeMode;
+
+  // Worker
+  /**
+   * Worker to encode on instead of the one set with configure() or found
+   * by default. A script URL or a function, e.g. a Vite `?worker` import,
+   * starts a new worker for each encode that is terminated at the end. A
+   * Worker instance is left running and may take several encodes at once.
+   */
+  worker?: WorkerSource;
+  /**
+   * 'worker' (default) encodes on a worker. 'main-thread' runs the worker's
+   * encoder in the page instead, for hosts that cannot start module workers
+   * such as extension content scripts and strict-CSP pages. It needs no
+   * worker file and cannot be combined with `worker`. Defaults to
+   * 'main-thread' while an encoder backend is registered and no `worker` is
+   * passed.
+   */
+  execution?: ExecutionMode;
+
+  // Cancellation
+  /**
+   * Aborting this signal stops reading the source, cancels the worker and
+   * rejects with an EncodeError of type 'cancelled'.
+   */
+  signal?: AbortSignal;
+
   // Callbacks
   onProgress?: (progress: ProgressInfo) => void;
   onError?: (error: EncodeError) => void;
 }
 
+// Streaming output
+export interface EncodeStreamOptions extends EncodeOptions {
+  /**
+   * 'data' (default) yields the output bytes. 'detailed' yields a StreamChunk
+   * per muxer write, with the offset to write it at.
+   */
+  yield?: 'data' | 'detailed';
+  /**
+   * Bytes of output not yet taken from the stream above which the source is
+   * no longer read, so a slow consumer pauses encoding. Default 16 MiB.
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * 'init': file header (ftyp/moov, EBML/Segment/Info/Tracks, or the audio
+ * container header), 'fragment': an fMP4 moof/mdat or audio data, 'cluster':
+ * a WebM/Matroska Cluster or the blocks written into it, 'index': mfra or Cues
+ */
+export type StreamChunkKind = 'init' | 'fragment' | 'cluster' | 'index';
+
+/**
+ * Output chunk yielded by encodeStream() with `yield: 'detailed'`. Writing
+ * each `data` at `offset` gives the complete file; chunks can overwrite
+ * earlier bytes, for example when a header is updated at the end.
+ */
+export interface StreamChunk {
+  data: Uint8Array;
+  /** Byte position of `data` in the output file */
+  offset: number;
+  isHeader: boolean;
+  kind: StreamChunkKind;
+  /**
+   * Media time covered by the chunk in microseconds, from the first sample
+   * to the end of the last one. Not set for chunks without samples.
+   */
+  timestampRange?: { start: number; end: number };
+  /** Whether the chunk starts with a key frame */
+  keyframe: boolean;
+}
+
+/**
+ * Output of createEncodeTransform(): one muxer write with its offset and
+ * media time
+ */
+export type EncodedOutputChunk = StreamChunk;
+
+// HLS output
+export interface HlsOptions {
+  /**
+   * Target segment duration in seconds. Segments are cut on the first key
+   * frame after this much media, so they can run longer. Default: 6
+   */
+  segmentDuration?: number;
+  /**
+   * Number of segments kept in the playlist for a sliding-window live
+   * stream. By default every segment is kept (an EVENT playlist that becomes
+   * VOD when encoding ends).
+   */
+  liveWindow?: number;
+  /** Default: 'playlist.m3u8' */
+  playlistName?: string;
+  /** Default: 'init.mp4' */
+  initName?: string;
+  /** URI of a media segment. Default: `segment${sequence}.m4s` */
+  segmentName?: (sequence: number) => string;
+}
+
+export interface HlsEncodeOptions extends EncodeOptions {
+  hls?: HlsOptions;
+}
+
+/**
+ * Files produced by encodeHls(). The playlist is yielded again after every
+ * segment and once more with `ended: true` when encoding finishes.
+ */
+export type HlsOutput =
+  | { type: 'init'; name: string; data: Uint8Array }
+  | {
+      type: 'segment';
+      name: string;
+      data: Uint8Array;
+      sequence: number;
+      startTime: number; // seconds
+      duration: number; // seconds
+    }
+  | { type: 'playlist'; name: string; content: string; ended: boolean };
+
+// DASH output
+export interface DashOptions {
+  /**
+   * Minimum segment duration in seconds. Segments start on a key frame.
+   * Default: 4
+   */
+  segmentDuration?: number;
+  /**
+   * 'static' (default) yields a VOD MPD once encoding ends. 'dynamic' yields
+   * a live MPD after every segment, and a last one with the total duration.
+   */
+  type?: 'static' | 'dynamic';
+  /** Number of segments kept in a dynamic MPD. Default: all */
+  liveWindow?: number;
+  /** Default: 'manifest.mpd' */
+  manifestName?: string;
+  /** Default: 'init.mp4', or 'init.webm' for WebM */
+  initName?: string;
+  /**
+   * SegmentTemplate media pattern; `$Number$` is the segment number, from 1.
+   * Default: 'segment$Number$.m4s', or 'segment$Number$.webm' for WebM
+   */
+  media?: string;
+}
+
+export interface DashEncodeOptions extends EncodeOptions {
+  /** 'mp4' (fragmented, default) or 'webm' */
+  container?: 'mp4' | 'webm';
+  dash?: DashOptions;
+}
+
+/**
+ * Files produced by encodeDash(). The MPD uses a SegmentTemplate with a
+ * SegmentTimeline built from the actual segment durations.
+ */
+export type DashOutput =
+  | { type: 'init'; name: string; data: Uint8Array }
+  | {
+      type: 'segment';
+      name: string;
+      data: Uint8Array;
+      number: number;
+      startTime: number; // seconds
+      duration: number; // seconds
+    }
+  | { type: 'manifest'; name: string; content: string; ended: boolean };
+
 // Error types
 export type EncodeErrorType =
   | 'not-supported'
@@ -160,7 +456,7 @@ export interface EncoderConfig {
   audioBitrateMode?: "constant" | "variable";
   sampleRate: number; // Hz
   channels: number; // e.g., 1 for mono, 2 for stereo
-  container?: "mp4" | "webm"; // Default: 'mp4'. Set 'webm' for WebM output.
+  container?: ContainerFormat; // Default: 'mp4'. Set 'webm' for WebM output.
   codec?: {
     video?: "avc" | "hevc" | "vp9" | "vp8" | "av1"; // Default: 'avc' (H.264)
     audio?: AudioCodec; // Default: 'aac'
@@ -174,6 +470,24 @@ export interface EncoderConfig {
     audio?: string;
   };
   latencyMode?: "quality" | "realtime"; // Default: 'quality'
+  /**
+   * Post muxer output as dataChunk messages while encoding instead of
+   * returning the whole file from finalize. Defaults to
+   * `latencyMode === 'realtime'`.
+   */
+  streaming?: boolean;
+  /**
+   * The receiver of dataChunk messages writes each one at its offset, so
+   * muxers can go back to update sizes and headers while streaming.
+   */
+  seekableOutput?: boolean;
+  /**
+   * Bytes of a non-streamed file the worker keeps in memory before moving it
+   * to the origin private file system
+   */
+  memoryBudget?: number;
+  /** MP4 layout options. */
+  mp4?: Mp4Options;
   /** Preference for hardware or software encoding. */
   hardwareAcceleration?:
     | "prefer-hardware"
@@ -203,6 +517,19 @@ export interface EncoderConfig {
   videoEncoderConfig?: Partial<VideoEncoderConfig>;
   /** Additional AudioEncoder configuration overrides. */
   audioEncoderConfig?: Partial<AudioEncoderConfig>;
+  /**
+   * Tracks whose compressed samples are sent with addVideoChunk/addAudioChunk
+   * and written to the muxer without encoding (remux).
+   */
+  passthrough?: {
+    video?: boolean;
+    audio?: boolean;
+  };
+  /**
+   * Frame rate the caller asked for. Decoded VideoFile frames above it are
+   * dropped; without it every frame keeps its own timestamp.
+   */
+  maxFrameRate?: number;
 }
 
 // Processing stage definitions
@@ -254,12 +581,26 @@ export interface AddAudioDataMessage {
   /** Optional AudioData object to be encoded directly. */
   audio?: AudioData;
   timestamp: number; // microseconds
-  format: AudioSampleFormat; // e.g., "f32-planar" or "s16" etc. (AudioSampleFormat from WebCodecs)
+  format: AudioSampleFormat | null; // e.g., "f32-planar" or "s16" etc. (AudioSampleFormat from WebCodecs); null for a closed `audio`
   sampleRate: number;
   numberOfFrames: number;
   numberOfChannels: number;
 }
 
+export interface AddVideoChunkMessage {
+  type: "addVideoChunk";
+  chunk: EncodedVideoChunk;
+  /** Must carry decoderConfig for the first chunk. */
+  metadata?: EncodedVideoChunkMetadata;
+}
+
+export interface AddAudioChunkMessage {
+  type: "addAudioChunk";
+  chunk: EncodedAudioChunk;
+  /** Must carry decoderConfig for the first chunk. */
+  metadata?: EncodedAudioChunkMetadata;
+}
+
 export interface FinalizeWorkerMessage {
   type: "finalize";
 }
@@ -268,18 +609,31 @@ export interface CancelWorkerMessage {
   type: "cancel";
 }
 
-export type WorkerMessage =
+/**
+ * Encode job a message belongs to. A worker runs one encoder per job id;
+ * messages without one share a single encoder.
+ */
+export interface JobMessage {
+  jobId?: number;
+}
+
+export type WorkerMessage = (
   | InitializeWorkerMessage
   | AddVideoFrameMessage
   | AddAudioDataMessage
+  | AddVideoChunkMessage
+  | AddAudioChunkMessage
   | FinalizeWorkerMessage
-  | CancelWorkerMessage;
+  | CancelWorkerMessage
+) &
+  JobMessage;
 
 // Messages FROM the Worker
 export interface WorkerInitializedMessage {
   type: "initialized";
   actualVideoCodec?: string;
-  actualAudioCodec?: string;
+  // null when audio is disabled
+  actualAudioCodec?: string | null;
 }
 
 export interface ProgressMessage {
@@ -290,7 +644,7 @@ export interface ProgressMessage {
 
 export interface WorkerFinalizedMessage {
   type: "finalized";
-  output: Uint8Array | null; // MP4 file data or null when streaming
+  output: Uint8Array | File | null; // MP4 file data, the OPFS file it was written to, or null when streaming
 }
 
 export interface QueueSizeMessage {
@@ -304,7 +658,10 @@ export interface WorkerDataChunkMessage {
   chunk: Uint8Array;
   isHeader?: boolean; // Indicates if this chunk is a header (e.g., moov for MP4, EBML for WebM)
   offset?: number; // For MP4 fragmented streaming
-  container: "mp4" | "webm"; // To inform the main thread which muxer this chunk belongs to
+  container: ContainerFormat; // To inform the main thread which muxer this chunk belongs to
+  kind?: StreamChunkKind;
+  timestampRange?: { start: number; end: number }; // microseconds
+  keyframe?: boolean;
 }
 
 export interface WorkerErrorMessage {
@@ -320,20 +677,110 @@ export interface WorkerCancelledMessage {
   type: "cancelled";
 }
 
-export type MainThreadMessage =
+export type MainThreadMessage = (
   | WorkerInitializedMessage
   | ProgressMessage
   | WorkerFinalizedMessage
   | QueueSizeMessage
   | WorkerDataChunkMessage
   | WorkerErrorMessage
-  | WorkerCancelledMessage;
+  | WorkerCancelledMessage
+) &
+  JobMessage;
+
+/**
+ * Fields of the message of type `K` in union `M`, without `type` and `jobId`
+ */
+export type MessagePayload<
+  M extends { type: string },
+  K extends M["type"],
+> = Omit<Extract<M, { type: K }>, "type" | "jobId">;
+
+/**
+ * Message the worker answers each request with
+ */
+export interface WorkerResponseMap {
+  initialize: WorkerInitializedMessage;
+  finalize: WorkerFinalizedMessage;
+  cancel: WorkerCancelledMessage;
+}
+
+// --- Demuxer type definitions (internal implementation) ---
+
+export interface DemuxedVideoTrack {
+  /** Codec family of the compressed samples, when recognised. */
+  codec?: VideoCodec;
+  /** Codec string for VideoDecoder (e.g. "avc1.64001F"). */
+  codecString: string;
+  codedWidth: number;
+  codedHeight: number;
+  /** Codec-specific decoder configuration (avcC, hvcC, ...). */
+  description?: Uint8Array;
+  /** Number of samples, when the container has an index. */
+  sampleCount?: number;
+  /** Average frame rate, when it can be derived from the container. */
+  frameRate?: number;
+  /** Whether samples are stored out of presentation order (B-frames). */
+  reordered?: boolean;
+}
+
+export interface DemuxedAudioTrack {
+  /** Codec family of the compressed samples, when recognised. */
+  codec?: AudioCodec;
+  /** Codec string for AudioDecoder (e.g. "mp4a.40.2"). */
+  codecString: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  /** Codec-specific decoder configuration (AudioSpecificConfig, OpusHead, ...). */
+  description?: Uint8Array;
+}
+
+export interface DemuxedSample {
+  track: "video" | "audio";
+  type: "key" | "delta";
+  timestamp: number; // microseconds (presentation time)
+  duration: number; // microseconds
+  data: Uint8Array;
+}
+
+export interface Demuxer {
+  readonly container: "mp4" | "webm";
+  /** Duration in microseconds, if the container declares it. */
+  readonly duration?: number;
+  readonly videoTrack: DemuxedVideoTrack | null;
+  readonly audioTrack: DemuxedAudioTrack | null;
+  /** Yields the samples of all selected tracks in decode order. */
+  samples(): AsyncGenerator<DemuxedSample>;
+}
 
 // --- Helper Types for environment-dependent constructors ---
 export type VideoEncoderConstructor = typeof VideoEncoder;
 export type AudioEncoderConstructor = typeof AudioEncoder;
 export type AudioDataConstructor = typeof AudioData;
+export type VideoFrameConstructor = typeof VideoFrame;
+export type EncodedVideoChunkConstructor = typeof EncodedVideoChunk;
+export type EncodedAudioChunkConstructor = typeof EncodedAudioChunk;
 
 export type VideoEncoderGetter = () => VideoEncoderConstructor | undefined;
 export type AudioEncoderGetter = () => AudioEncoderConstructor | undefined;
 export type AudioDataGetter = () => AudioDataConstructor | undefined;
+
+/**
+ * Implementations of the WebCodecs classes to encode with where WebCodecs
+ * is missing or not wanted, such as a WASM x264/libopus build or a software
+ * reference encoder under Node. Each class must behave like the WebCodecs
+ * class of the same name, including its static isConfigSupported().
+ */
+export interface EncoderBackend {
+  /** Name used in messages about the backend */
+  name: string;
+  VideoEncoder?: VideoEncoderConstructor;
+  AudioEncoder?: AudioEncoderConstructor;
+  /** Wraps raw audio samples where the environment has no AudioData */
+  AudioData?: AudioDataConstructor;
+  /** Wraps raw frame pixels where the environment has no VideoFrame */
+  VideoFrame?: VideoFrameConstructor;
+  /** Chunks re-timed by the muxers where the environment has none */
+  EncodedVideoChunk?: EncodedVideoChunkConstructor;
+  EncodedAudioChunk?: EncodedAudioChunkConstructor;
+}
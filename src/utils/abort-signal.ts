@@ -0,0 +1,33 @@
+/**
+ * AbortSignal helpers for cancelling encodes
+ */
+
+import { EncodeError } from "../types";
+
+/**
+ * Build the EncodeError used when an encode is cancelled through its signal
+ */
+export function createCancelledError(signal?: AbortSignal): EncodeError {
+  const reason = signal?.reason;
+  const detail =
+    reason instanceof Error
+      ? reason.message
+      : reason !== undefined
+        ? String(reason)
+        : undefined;
+
+  return new EncodeError(
+    "cancelled",
+    detail ? `Encoding was cancelled: ${detail}` : "Encoding was cancelled",
+    reason,
+  );
+}
+
+/**
+ * Throw a cancelled EncodeError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError(signal);
+  }
+}
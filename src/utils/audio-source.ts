@@ -0,0 +1,84 @@
+/**
+ * Helpers for audio-only sources
+ */
+
+import {
+  AudioSamples,
+  EncodeOptions,
+  EncoderConfig,
+  MediaSourceItem,
+  VideoSource,
+} from "../types";
+import { isAudioData, isAudioSourceItem } from "./media-source-item";
+
+/** The parts of AudioBuffer needed to send its samples to the worker */
+export type PcmBuffer = Pick<
+  AudioBuffer,
+  "sampleRate" | "numberOfChannels" | "length" | "getChannelData"
+>;
+
+export function isAudioBufferSource(
+  source: VideoSource,
+): source is AudioBuffer {
+  return typeof AudioBuffer !== "undefined" && source instanceof AudioBuffer;
+}
+
+export function isAudioSamplesSource(
+  source: VideoSource,
+): source is AudioSamples {
+  return (
+    !!source &&
+    typeof source === "object" &&
+    !Array.isArray(source) &&
+    Array.isArray((source as AudioSamples).data) &&
+    typeof (source as AudioSamples).sampleRate === "number"
+  );
+}
+
+/**
+ * Wrap planar samples so they can be sent like an AudioBuffer
+ */
+export function toPcmBuffer(source: AudioBuffer | AudioSamples): PcmBuffer {
+  if (isAudioBufferSource(source)) {
+    return source;
+  }
+  const { data, sampleRate } = source;
+  return {
+    sampleRate,
+    numberOfChannels: data.length,
+    length: data.length > 0 ? Math.min(...data.map((c) => c.length)) : 0,
+    getChannelData: (channel: number) => data[channel],
+  };
+}
+
+/**
+ * The format of an AsyncIterable's first item, when it is audio, fills in
+ * unset audio options. Video stays on unless `video: false` is given, as
+ * frames may follow the audio.
+ */
+export function applyAudioItemConfig(
+  first: unknown,
+  config: EncoderConfig,
+  options?: EncodeOptions,
+): void {
+  if (!first || typeof first !== "object") return;
+
+  const item = first as MediaSourceItem;
+  let sampleRate: number;
+  let channels: number;
+  if (isAudioData(item)) {
+    sampleRate = item.sampleRate;
+    channels = item.numberOfChannels;
+  } else if (isAudioSourceItem(item)) {
+    sampleRate = item.sampleRate;
+    channels = item.data.length;
+  } else {
+    return;
+  }
+
+  const audioOptions = typeof options?.audio === "object" ? options.audio : {};
+  if (options?.audio !== false) {
+    config.sampleRate = audioOptions.sampleRate || sampleRate;
+    config.channels = audioOptions.channels || channels;
+  }
+}
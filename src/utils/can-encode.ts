@@ -3,6 +3,8 @@
  */
 
 import { EncodeOptions, VideoConfig, AudioConfig } from "../types";
+import { AUDIO_ONLY_CONTAINER_CODEC, isAudioOnlyContainer } from "./container";
+import { findConstructor } from "../core/encoder-backends";
 
 /**
  * Verify encode capability
@@ -24,7 +26,8 @@ export async function canEncode(options?: EncodeOptions): Promise<boolean> {
 
     // Check video configuration unless explicitly disabled
     const hasVideoConfig = options.video && typeof options.video === "object";
-    const videoEnabled = options.video !== false;
+    const videoEnabled =
+      options.video !== false && !isAudioOnlyContainer(options.container);
     if (videoEnabled) {
       const videoConfig = hasVideoConfig
         ? (options.video as VideoConfig)
@@ -41,7 +44,11 @@ export async function canEncode(options?: EncodeOptions): Promise<boolean> {
     const audioEnabled = options.audio !== false;
     if (audioEnabled) {
       if (hasAudioConfig) {
-        const audioCodec = (options.audio as AudioConfig).codec || "aac";
+        const audioCodec =
+          (options.audio as AudioConfig).codec ||
+          (isAudioOnlyContainer(options.container)
+            ? AUDIO_ONLY_CONTAINER_CODEC[options.container]
+            : "aac");
         const audioSupported = await testAudioCodecSupport(audioCodec, options);
         if (!audioSupported) {
           return false;
@@ -70,15 +77,16 @@ export async function canEncode(options?: EncodeOptions): Promise<boolean> {
 }
 
 /**
- * Check basic WebCodecs support
+ * Check basic WebCodecs support, from the environment or a registered
+ * encoder backend
  */
 function isWebCodecsSupported(): boolean {
   try {
     return (
-      typeof VideoEncoder !== "undefined" &&
-      typeof AudioEncoder !== "undefined" &&
-      typeof VideoFrame !== "undefined" &&
-      typeof AudioData !== "undefined"
+      findConstructor("VideoEncoder") !== undefined &&
+      findConstructor("AudioEncoder") !== undefined &&
+      findConstructor("VideoFrame") !== undefined &&
+      findConstructor("AudioData") !== undefined
     );
   } catch {
     return false;
@@ -107,7 +115,8 @@ async function testDefaultConfiguration(): Promise<boolean> {
       framerate: defaultFrameRate,
     };
 
-    const videoSupport = await VideoEncoder.isConfigSupported(videoConfig);
+    const videoSupport =
+      await findConstructor("VideoEncoder")!.isConfigSupported(videoConfig);
     if (!videoSupport.supported) {
       return false;
     }
@@ -120,7 +129,8 @@ async function testDefaultConfiguration(): Promise<boolean> {
       bitrate: 128_000,
     };
 
-    const audioSupport = await AudioEncoder.isConfigSupported(audioConfig);
+    const audioSupport =
+      await findConstructor("AudioEncoder")!.isConfigSupported(audioConfig);
     return audioSupport.supported || false;
   } catch {
     return false;
@@ -172,7 +182,8 @@ async function testVideoCodecSupport(
       (config as any).hevc = { format: videoOptions.hevc.format };
     }
 
-    const support = await VideoEncoder.isConfigSupported(config);
+    const support =
+      await findConstructor("VideoEncoder")!.isConfigSupported(config);
     return support.supported || false;
   } catch {
     return false;
@@ -193,6 +204,15 @@ async function testAudioCodecSupport(
 
     const isTelephonyCodec = codec === "ulaw" || codec === "alaw";
     const isPcmCodec = codec === "pcm";
+
+    // WAV output, and PCM in Matroska, is encoded in software by the worker
+    if (options?.container === "wav") {
+      return isPcmCodec || isTelephonyCodec;
+    }
+    if (options?.container === "mkv" && isPcmCodec) {
+      return true;
+    }
+
     const defaultSampleRate =
       audioOptions.sampleRate || (isTelephonyCodec ? 8000 : 48000);
     const defaultChannels = audioOptions.channels || (isTelephonyCodec ? 1 : 2);
@@ -229,7 +249,8 @@ async function testAudioCodecSupport(
       (config as any).aac = { format: audioOptions.aac.format };
     }
 
-    const support = await AudioEncoder.isConfigSupported(config);
+    const support =
+      await findConstructor("AudioEncoder")!.isConfigSupported(config);
     return support.supported || false;
   } catch {
     return false;
@@ -263,7 +284,7 @@ function getVideoCodecString(
 
 /**
  * Dynamically generate AVC (H.264) codec string
- * Uses same logic as encoder-worker.ts
+ * Uses same logic as encoder-core.ts
  */
 export function generateAvcCodecString(
   width: number,
@@ -324,7 +345,8 @@ export async function generateSupportedAvcCodecString(
         framerate: frameRate,
       };
 
-      const support = await VideoEncoder.isConfigSupported(config);
+      const support =
+        await findConstructor("VideoEncoder")!.isConfigSupported(config);
       if (support.supported) {
         return codecString;
       }
@@ -371,7 +393,10 @@ function getDefaultAudioProbeOrder(
   if (container === "webm") {
     return ["opus", "vorbis", "flac"];
   }
-  return ["aac", "mp3"];
+  if (isAudioOnlyContainer(container)) {
+    return [AUDIO_ONLY_CONTAINER_CODEC[container]];
+  }
+  return ["aac", "mp3", "opus"];
 }
 
 /**
@@ -401,7 +426,8 @@ export async function canEncodeWithProfile(
         framerate: profile?.framerate || 30,
       };
 
-      const videoSupport = await VideoEncoder.isConfigSupported(videoConfig);
+      const videoSupport =
+        await findConstructor("VideoEncoder")!.isConfigSupported(videoConfig);
       result.video = videoSupport.supported || false;
     }
 
@@ -414,7 +440,8 @@ export async function canEncodeWithProfile(
         bitrate: profile?.audioBitrate || 128_000,
       };
 
-      const audioSupport = await AudioEncoder.isConfigSupported(audioConfig);
+      const audioSupport =
+        await findConstructor("AudioEncoder")!.isConfigSupported(audioConfig);
       result.audio = audioSupport.supported || false;
     } else {
       result.audio = true; // Consider supported if no audio
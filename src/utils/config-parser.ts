@@ -3,6 +3,7 @@
  */
 
 import {
+  EncodeError,
   EncodeOptions,
   VideoSource,
   Frame,
@@ -10,6 +11,9 @@ import {
   EncoderConfig,
   VideoFile,
 } from "../types";
+import { openDemuxer } from "../demuxers/demuxer";
+import { isAudioBufferSource, isAudioSamplesSource } from "./audio-source";
+import { AUDIO_ONLY_CONTAINER_CODEC, isAudioOnlyContainer } from "./container";
 
 /**
  * VideoSourceから設定を推定し、EncodeOptionsとマージして最終的なEncoderConfigを生成
@@ -28,7 +32,12 @@ export async function inferAndBuildConfig(
   const configWithPreset = applyQualityPreset(mergedOptions, options?.quality);
 
   // 最終的なEncoderConfigに変換
-  return convertToEncoderConfig(configWithPreset);
+  const config = convertToEncoderConfig(configWithPreset);
+  // Only a requested frame rate drops decoded frames
+  if (options?.frameRate) {
+    config.maxFrameRate = options.frameRate;
+  }
+  return config;
 }
 
 /**
@@ -43,6 +52,18 @@ async function inferConfigFromSource(
   };
 
   try {
+    // 音声のみのソース（AudioBuffer / PCM）はビデオなし
+    if (isAudioBufferSource(source) || isAudioSamplesSource(source)) {
+      config.video = false;
+      config.audio = {
+        sampleRate: source.sampleRate,
+        channels: isAudioBufferSource(source)
+          ? source.numberOfChannels
+          : source.data.length,
+      };
+      return config;
+    }
+
     // 最初のフレームを取得して解像度を推定
     const firstFrame = await getFirstFrame(source);
     if (firstFrame) {
@@ -56,7 +77,7 @@ async function inferConfigFromSource(
     }
 
     // MediaStreamの場合はビデオ・オーディオトラックの有無も確認
-    if (source instanceof MediaStream) {
+    if (typeof MediaStream !== "undefined" && source instanceof MediaStream) {
       const videoTracks = source.getVideoTracks();
       const audioTracks = source.getAudioTracks();
 
@@ -216,31 +237,32 @@ function applyQualityPreset(
 function convertToEncoderConfig(options: EncodeOptions): EncoderConfig {
   const videoOptions =
     options.video && typeof options.video === "object" ? options.video : null;
+  // Audio-only containers have no video track to write
+  const videoDisabled =
+    options.video === false || isAudioOnlyContainer(options.container);
 
   const config: EncoderConfig = {
-    width: options.video === false ? 0 : options.width || 640,
-    height: options.video === false ? 0 : options.height || 480,
+    width: videoDisabled ? 0 : options.width || 640,
+    height: videoDisabled ? 0 : options.height || 480,
     frameRate: options.frameRate || 30,
-    videoBitrate:
-      options.video === false ? 0 : videoOptions?.bitrate || 1_000_000,
+    videoBitrate: videoDisabled ? 0 : videoOptions?.bitrate || 1_000_000,
     audioBitrate: 0,
     sampleRate: 0,
     channels: 0,
     container: options.container || "mp4",
     codec: {
-      video: options.video === false ? undefined : videoOptions?.codec || "avc",
+      video: videoDisabled ? undefined : videoOptions?.codec || "avc",
       audio: undefined,
     },
-    latencyMode:
-      options.video === false
-        ? "quality"
-        : options.latencyMode || videoOptions?.latencyMode || "quality",
-    hardwareAcceleration:
-      options.video === false
-        ? "no-preference"
-        : videoOptions?.hardwareAcceleration || "no-preference",
-    keyFrameInterval:
-      options.video === false ? undefined : videoOptions?.keyFrameInterval,
+    latencyMode: videoDisabled
+      ? "quality"
+      : options.latencyMode || videoOptions?.latencyMode || "quality",
+    hardwareAcceleration: videoDisabled
+      ? "no-preference"
+      : videoOptions?.hardwareAcceleration || "no-preference",
+    keyFrameInterval: videoDisabled
+      ? undefined
+      : videoOptions?.keyFrameInterval,
     audioBitrateMode: undefined,
     firstTimestampBehavior: options.firstTimestampBehavior || "offset",
     maxVideoQueueSize: options.maxVideoQueueSize || 30,
@@ -248,14 +270,45 @@ function convertToEncoderConfig(options: EncodeOptions): EncoderConfig {
     backpressureStrategy: options.backpressureStrategy || "drop",
   };
 
-  if (options.video !== false && videoOptions?.codecString) {
+  if (options.memoryBudget !== undefined) {
+    if (!(options.memoryBudget >= 0)) {
+      throw new EncodeError(
+        "configuration-error",
+        "memoryBudget must be a number of bytes",
+      );
+    }
+    config.memoryBudget = options.memoryBudget;
+  }
+
+  if (options.mp4 && config.container === "mp4") {
+    if (options.mp4.cmaf && options.mp4.fragmented === false) {
+      throw new EncodeError(
+        "configuration-error",
+        "mp4.cmaf requires fragmented output",
+      );
+    }
+    config.mp4 = { ...options.mp4 };
+    // Fragments can only be cut on a key frame, so ask for one per fragment
+    if (
+      options.mp4.fragmentDuration &&
+      config.codec?.video &&
+      config.keyFrameInterval === undefined
+    ) {
+      config.keyFrameInterval = Math.max(
+        1,
+        Math.round(config.frameRate * options.mp4.fragmentDuration),
+      );
+    }
+  }
+
+  if (!videoDisabled && videoOptions?.codecString) {
     config.codecString = {
       ...(config.codecString ?? {}),
       video: videoOptions.codecString,
     };
   }
 
-  if (options.video !== false && videoOptions) {
+  if (!videoDisabled && videoOptions) {
     const videoEncoderConfig: Partial<VideoEncoderConfig> = {};
     if (typeof videoOptions.quantizer === "number") {
       (videoEncoderConfig as any).quantizer = videoOptions.quantizer;
@@ -273,7 +326,10 @@ function convertToEncoderConfig(options: EncodeOptions): EncoderConfig {
 
   if (options.audio !== false) {
     const audioOptions = (options.audio as any) || {};
-    const requestedCodec = (audioOptions.codec || "aac") as any;
+    const requestedCodec = (audioOptions.codec ||
+      (isAudioOnlyContainer(options.container)
+        ? AUDIO_ONLY_CONTAINER_CODEC[options.container]
+        : "aac")) as any;
     const isTelephonyCodec =
       requestedCodec === "ulaw" || requestedCodec === "alaw";
     const isPcmCodec = requestedCodec === "pcm";
@@ -344,7 +400,7 @@ async function getFirstFrame(source: VideoSource): Promise<Frame | null> {
     return source.length > 0 ? source[0] : null;
   }
 
-  if (source instanceof MediaStream) {
+  if (typeof MediaStream !== "undefined" && source instanceof MediaStream) {
     // MediaStreamから最初のフレームを取得するのは複雑なので、
     // VideoTrackの設定から解像度を推定
     const videoTracks = source.getVideoTracks();
@@ -375,12 +431,32 @@ async function enrichConfigFromVideoFile(
   config: Partial<EncodeOptions>,
   videoFile: VideoFile,
 ): Promise<void> {
-  if (typeof document === "undefined" || typeof URL === "undefined") {
+  const file = videoFile.file;
+  if (!(typeof Blob !== "undefined" && file instanceof Blob)) {
     return;
   }
 
-  const file = videoFile.file;
-  if (!(typeof Blob !== "undefined" && file instanceof Blob)) {
+  // コンテナのトラック情報から推定（HTMLVideoElementより正確）
+  const demuxer = await openDemuxer(file);
+  if (demuxer?.videoTrack) {
+    const { codedWidth, codedHeight, frameRate } = demuxer.videoTrack;
+    if (codedWidth && codedHeight) {
+      config.width = codedWidth;
+      config.height = codedHeight;
+    }
+    if (frameRate && Number.isFinite(frameRate)) {
+      config.frameRate = Math.round(frameRate * 1000) / 1000;
+    }
+    config.audio = demuxer.audioTrack
+      ? {
+          sampleRate: demuxer.audioTrack.sampleRate,
+          channels: demuxer.audioTrack.numberOfChannels,
+        }
+      : false;
+    return;
+  }
+
+  if (typeof document === "undefined" || typeof URL === "undefined") {
     return;
   }
 
@@ -0,0 +1,40 @@
+/**
+ * Output container helpers
+ */
+
+import type { AudioCodec, ContainerFormat, EncoderConfig } from "../types";
+
+export type AudioOnlyContainer = "wav" | "aac" | "ogg" | "mp3";
+
+// Codec used when the audio options do not name one
+export const AUDIO_ONLY_CONTAINER_CODEC: Record<
+  AudioOnlyContainer,
+  AudioCodec
+> = {
+  wav: "pcm",
+  aac: "aac",
+  ogg: "opus",
+  mp3: "mp3",
+};
+
+/**
+ * Whether `container` stores a single audio track and no video
+ */
+export function isAudioOnlyContainer(
+  container?: ContainerFormat | string,
+): container is AudioOnlyContainer {
+  return (
+    typeof container === "string" &&
+    Object.prototype.hasOwnProperty.call(AUDIO_ONLY_CONTAINER_CODEC, container)
+  );
+}
+
+/**
+ * Whether muxers post their output as dataChunk messages while encoding
+ * rather than returning the file from finalize()
+ */
+export function streamsOutput(
+  config: Pick<EncoderConfig, "streaming" | "latencyMode">,
+): boolean {
+  return config.streaming ?? config.latencyMode === "realtime";
+}
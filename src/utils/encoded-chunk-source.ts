@@ -0,0 +1,142 @@
+/**
+ * Helpers for AsyncIterable sources of already-encoded chunks
+ */
+
+import {
+  AudioCodec,
+  EncodedChunkItem,
+  EncodeError,
+  EncodeOptions,
+  EncoderConfig,
+  VideoCodec,
+} from "../types";
+import { containerAcceptsAudio, containerAcceptsVideo } from "./remux-plan";
+
+/**
+ * Map a WebCodecs codec string to its codec family
+ */
+export function videoCodecFromCodecString(
+  codec: string,
+): VideoCodec | undefined {
+  const fourcc = codec.split(".")[0].toLowerCase();
+  switch (fourcc) {
+    case "avc1":
+    case "avc3":
+      return "avc";
+    case "hvc1":
+    case "hev1":
+      return "hevc";
+    case "vp09":
+    case "vp9":
+      return "vp9";
+    case "vp8":
+      return "vp8";
+    case "av01":
+      return "av1";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Map a WebCodecs codec string to its codec family
+ */
+export function audioCodecFromCodecString(
+  codec: string,
+): AudioCodec | undefined {
+  const lower = codec.toLowerCase();
+  if (lower === "mp3" || lower === "mp4a.69" || lower === "mp4a.6b") {
+    return "mp3";
+  }
+  if (lower.startsWith("mp4a.")) return "aac";
+  if (lower === "opus" || lower === "vorbis" || lower === "flac") {
+    return lower;
+  }
+  return undefined;
+}
+
+export function isEncodedChunkItem(value: unknown): value is EncodedChunkItem {
+  if (!value || typeof value !== "object") return false;
+  const item = value as EncodedChunkItem;
+  return (
+    (typeof EncodedVideoChunk !== "undefined" &&
+      item.video instanceof EncodedVideoChunk) ||
+    (typeof EncodedAudioChunk !== "undefined" &&
+      item.audio instanceof EncodedAudioChunk) ||
+    (!!item.meta && typeof item.meta === "object")
+  );
+}
+
+/**
+ * Configure `config` so that the tracks of an encoded chunk source are muxed
+ * without encoding. Tracks are taken from the first item's chunks and
+ * decoder configurations.
+ *
+ * @throws EncodeError when a track lacks a decoder configuration or its codec
+ * cannot be stored in the target container
+ */
+export function applyEncodedChunkConfig(
+  firstItem: EncodedChunkItem,
+  config: EncoderConfig,
+  options?: EncodeOptions,
+): void {
+  const passthrough: NonNullable<EncoderConfig["passthrough"]> = {};
+  const container = (config.container ?? "mp4").toUpperCase();
+
+  const videoConfig = firstItem.meta?.video?.decoderConfig;
+  if (options?.video !== false && (firstItem.video || videoConfig)) {
+    if (!videoConfig) {
+      throw new EncodeError(
+        "invalid-input",
+        "The first encoded video chunk must come with meta.video.decoderConfig",
+      );
+    }
+    const codec = videoCodecFromCodecString(videoConfig.codec);
+    if (!codec || !containerAcceptsVideo(config.container, codec)) {
+      throw new EncodeError(
+        "not-supported",
+        `Video codec '${videoConfig.codec}' cannot be stored in ${container}`,
+      );
+    }
+    passthrough.video = true;
+    config.width = videoConfig.codedWidth ?? config.width;
+    config.height = videoConfig.codedHeight ?? config.height;
+    config.codec = { ...config.codec, video: codec };
+    config.codecString = { ...config.codecString, video: videoConfig.codec };
+  } else {
+    config.videoBitrate = 0;
+  }
+
+  const audioConfig = firstItem.meta?.audio?.decoderConfig;
+  if (options?.audio !== false && (firstItem.audio || audioConfig)) {
+    if (!audioConfig) {
+      throw new EncodeError(
+        "invalid-input",
+        "The first encoded audio chunk must come with meta.audio.decoderConfig",
+      );
+    }
+    const codec = audioCodecFromCodecString(audioConfig.codec);
+    if (!codec || !containerAcceptsAudio(config.container, codec)) {
+      throw new EncodeError(
+        "not-supported",
+        `Audio codec '${audioConfig.codec}' cannot be stored in ${container}`,
+      );
+    }
+    passthrough.audio = true;
+    config.sampleRate = audioConfig.sampleRate;
+    config.channels = audioConfig.numberOfChannels;
+    config.codec = { ...config.codec, audio: codec };
+    config.codecString = { ...config.codecString, audio: audioConfig.codec };
+  } else {
+    config.audioBitrate = 0;
+    config.codec = { ...config.codec, audio: undefined };
+  }
+
+  if (!passthrough.video && !passthrough.audio) {
+    throw new EncodeError(
+      "invalid-input",
+      "Encoded chunk source has no video or audio track",
+    );
+  }
+  config.passthrough = passthrough;
+}
@@ -0,0 +1,372 @@
+/**
+ * Split a fragmented MP4 byte stream into an init segment and media segments
+ */
+
+import type { DemuxedAudioTrack, DemuxedVideoTrack } from "../types";
+import {
+  parseAudioSampleEntry,
+  parseVisualSampleEntry,
+} from "../demuxers/mp4demuxer";
+import {
+  ByteQueue,
+  InitSegmentPart,
+  MediaSegmenter,
+  MediaSegmentPart,
+  SegmentPart,
+  concatBytes,
+} from "./segmenter";
+
+interface BoxHeader {
+  type: string;
+  offset: number;
+  headerSize: number;
+  end: number;
+}
+
+export interface Fmp4TrackInfo {
+  timescale: number;
+  handler: string;
+  // Sample defaults from the trex box
+  defaultDuration: number;
+  defaultFlags: number;
+}
+
+export interface Fmp4TrackFragment {
+  handler: string;
+  /** Decode time of the first sample, in seconds */
+  startTime: number;
+  /** Sum of the sample durations, in seconds */
+  duration: number;
+  /** Whether the first sample is a sync sample */
+  keyframe: boolean;
+}
+
+export interface Fmp4Init {
+  tracks: Map<number, Fmp4TrackInfo>;
+  video?: DemuxedVideoTrack;
+  audio?: DemuxedAudioTrack;
+}
+
+// sample_is_non_sync_sample in the sample flags
+const NON_SYNC_SAMPLE = 0x10000;
+
+// Boxes allowed in front of a moof as part of the same segment
+const SEGMENT_PREFIX_BOXES = new Set(["styp", "sidx", "prft", "emsg"]);
+
+function readType(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + 4));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function readBoxes(data: Uint8Array, start: number, end: number): BoxHeader[] {
+  const dv = view(data);
+  const boxes: BoxHeader[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = dv.getUint32(offset + 8) * 2 ** 32 + dv.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({
+      type: readType(data, offset + 4),
+      offset,
+      headerSize,
+      end: offset + size,
+    });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+function children(data: Uint8Array, parent: BoxHeader): BoxHeader[] {
+  return readBoxes(data, parent.offset + parent.headerSize, parent.end);
+}
+
+function child(
+  data: Uint8Array,
+  parent: BoxHeader | undefined,
+  type: string,
+): BoxHeader | undefined {
+  return parent && children(data, parent).find((box) => box.type === type);
+}
+
+/**
+ * Read the tracks of a fragmented MP4 moov box
+ */
+export function parseFmp4Init(moov: Uint8Array): Fmp4Init {
+  const init: Fmp4Init = { tracks: new Map() };
+  const [root] = readBoxes(moov, 0, moov.byteLength);
+  const dv = view(moov);
+
+  const trexDefaults = new Map<number, { duration: number; flags: number }>();
+  const mvex = child(moov, root, "mvex");
+  for (const trex of mvex ? children(moov, mvex) : []) {
+    if (trex.type !== "trex") continue;
+    const body = trex.offset + trex.headerSize;
+    trexDefaults.set(dv.getUint32(body + 4), {
+      duration: dv.getUint32(body + 12),
+      flags: dv.getUint32(body + 20),
+    });
+  }
+
+  for (const trak of children(moov, root).filter((b) => b.type === "trak")) {
+    const tkhd = child(moov, trak, "tkhd");
+    const mdia = child(moov, trak, "mdia");
+    const mdhd = child(moov, mdia, "mdhd");
+    const hdlr = child(moov, mdia, "hdlr");
+    if (!tkhd || !mdhd) continue;
+
+    const tkhdBody = tkhd.offset + tkhd.headerSize;
+    const trackId = dv.getUint32(tkhdBody + (moov[tkhdBody] === 1 ? 20 : 12));
+    const mdhdBody = mdhd.offset + mdhd.headerSize;
+    const timescale = dv.getUint32(mdhdBody + (moov[mdhdBody] === 1 ? 20 : 12));
+    const handler = hdlr
+      ? readType(moov, hdlr.offset + hdlr.headerSize + 8)
+      : "";
+    init.tracks.set(trackId, {
+      timescale,
+      handler,
+      defaultDuration: trexDefaults.get(trackId)?.duration ?? 0,
+      defaultFlags: trexDefaults.get(trackId)?.flags ?? 0,
+    });
+
+    // Codec strings and dimensions for manifests
+    const stsd = child(
+      moov,
+      child(moov, child(moov, mdia, "minf"), "stbl"),
+      "stsd",
+    );
+    const entry =
+      stsd && readBoxes(moov, stsd.offset + stsd.headerSize + 8, stsd.end)[0];
+    if (!entry) continue;
+    const sampleEntry = {
+      type: entry.type,
+      start: entry.offset + entry.headerSize,
+      end: entry.end,
+    };
+    if (handler === "vide" && !init.video) {
+      init.video = parseVisualSampleEntry(moov, sampleEntry) ?? undefined;
+    } else if (handler === "soun" && !init.audio) {
+      init.audio = parseAudioSampleEntry(moov, sampleEntry) ?? undefined;
+    }
+  }
+
+  return init;
+}
+
+/**
+ * Reassembles the chunks written by the MP4 muxer into whole boxes and
+ * groups them: ftyp and moov form the init segment, and each moof with its
+ * mdat forms a media segment. The muxer starts every fragment on a key frame,
+ * so each media segment can be played on its own after the init segment.
+ */
+export class Fmp4Segmenter implements MediaSegmenter {
+  private queue = new ByteQueue();
+  private head: Uint8Array[] = [];
+  private prefix: Uint8Array[] = [];
+  private moof: Uint8Array | null = null;
+  private tracks: Map<number, Fmp4TrackInfo> | null = null;
+
+  push(chunk: Uint8Array): SegmentPart[] {
+    this.queue.push(chunk);
+
+    const parts: SegmentPart[] = [];
+    let box: Uint8Array | null;
+    while ((box = this.takeBox()) !== null) {
+      const part = this.addBox(box);
+      if (part) parts.push(part);
+    }
+    return parts;
+  }
+
+  end(): SegmentPart[] {
+    // Every segment is complete as soon as its mdat is
+    if (this.queue.length > 0 || this.moof) {
+      throw new Error("Fragmented MP4 stream ended inside a segment");
+    }
+    return [];
+  }
+
+  private takeBox(): Uint8Array | null {
+    if (this.queue.length < 8) return null;
+    const header = this.queue.peek(16);
+    const dv = view(header);
+    let size = dv.getUint32(0);
+    if (size === 1) {
+      if (header.byteLength < 16) return null;
+      size = dv.getUint32(8) * 2 ** 32 + dv.getUint32(12);
+    } else if (size < 8) {
+      // Boxes that run to the end of the file are not written by the muxer
+      throw new Error(`Unsupported box size ${size} in fragmented MP4 stream`);
+    }
+    if (this.queue.length < size) return null;
+    return this.queue.take(size);
+  }
+
+  private addBox(box: Uint8Array): SegmentPart | null {
+    const type = readType(box, 4);
+
+    if (!this.tracks) {
+      if (type === "moov") {
+        const { tracks, video, audio } = parseFmp4Init(box);
+        this.tracks = tracks;
+        const init: InitSegmentPart = {
+          type: "init",
+          data: concatBytes([...this.head, box]),
+          video,
+          audio,
+        };
+        this.head = [];
+        return init;
+      }
+      this.head.push(box);
+      return null;
+    }
+
+    if (type === "moof") {
+      this.moof = box;
+      return null;
+    }
+    if (type === "mdat" && this.moof) {
+      const segment = this.buildSegment(this.moof, box);
+      this.moof = null;
+      return segment;
+    }
+    if (SEGMENT_PREFIX_BOXES.has(type)) {
+      this.prefix.push(box);
+    }
+    // Anything else (mfra, free) is left out of the segments
+    return null;
+  }
+
+  private buildSegment(moof: Uint8Array, mdat: Uint8Array): MediaSegmentPart {
+    const data = concatBytes([...this.prefix, moof, mdat]);
+    this.prefix = [];
+
+    // The video track sets the segment timing when there is one
+    const fragments = parseFmp4Fragment(moof, this.tracks!);
+    const timing =
+      fragments.find((fragment) => fragment.handler === "vide") ?? fragments[0];
+
+    return {
+      type: "segment",
+      data,
+      startTime: timing?.startTime ?? 0,
+      duration: timing?.duration ?? 0,
+    };
+  }
+}
+
+/**
+ * Read the timing of each track fragment in a moof box
+ */
+export function parseFmp4Fragment(
+  moof: Uint8Array,
+  tracks: Map<number, Fmp4TrackInfo>,
+): Fmp4TrackFragment[] {
+  const dv = view(moof);
+  const [root] = readBoxes(moof, 0, moof.byteLength);
+  const fragments: Fmp4TrackFragment[] = [];
+
+  for (const traf of children(moof, root).filter((b) => b.type === "traf")) {
+    const tfhd = child(moof, traf, "tfhd");
+    if (!tfhd) continue;
+    const tfhdBody = tfhd.offset + tfhd.headerSize;
+    const tfhdFlags = dv.getUint32(tfhdBody) & 0xffffff;
+    const track = tracks.get(dv.getUint32(tfhdBody + 4));
+    if (!track) continue;
+
+    let defaultDuration = track.defaultDuration;
+    let defaultFlags = track.defaultFlags;
+    let field = tfhdBody + 8;
+    if (tfhdFlags & 0x01) field += 8;
+    if (tfhdFlags & 0x02) field += 4;
+    if (tfhdFlags & 0x08) {
+      defaultDuration = dv.getUint32(field);
+      field += 4;
+    }
+    if (tfhdFlags & 0x10) field += 4;
+    if (tfhdFlags & 0x20) defaultFlags = dv.getUint32(field);
+
+    let baseTime = 0;
+    const tfdt = child(moof, traf, "tfdt");
+    if (tfdt) {
+      const body = tfdt.offset + tfdt.headerSize;
+      baseTime =
+        moof[body] === 1
+          ? dv.getUint32(body + 4) * 2 ** 32 + dv.getUint32(body + 8)
+          : dv.getUint32(body + 4);
+    }
+
+    let ticks = 0;
+    let firstFlags: number | null = null;
+    for (const trun of children(moof, traf).filter((b) => b.type === "trun")) {
+      const run = readTrun(dv, trun, defaultDuration, defaultFlags);
+      ticks += run.duration;
+      firstFlags ??= run.firstFlags;
+    }
+
+    fragments.push({
+      handler: track.handler,
+      startTime: baseTime / track.timescale,
+      duration: ticks / track.timescale,
+      keyframe: !((firstFlags ?? defaultFlags) & NON_SYNC_SAMPLE),
+    });
+  }
+
+  return fragments;
+}
+
+function readTrun(
+  dv: DataView,
+  trun: BoxHeader,
+  defaultDuration: number,
+  defaultFlags: number,
+): { duration: number; firstFlags: number | null } {
+  const body = trun.offset + trun.headerSize;
+  const flags = dv.getUint32(body) & 0xffffff;
+  const sampleCount = dv.getUint32(body + 4);
+
+  let field = body + 8;
+  if (flags & 0x01) field += 4;
+  let firstFlags: number | null = null;
+  if (flags & 0x04) {
+    firstFlags = dv.getUint32(field);
+    field += 4;
+  }
+  if (sampleCount === 0) return { duration: 0, firstFlags };
+
+  // Offsets of the optional per-sample fields
+  const durationAt = 0;
+  const flagsAt = 4 * ((flags & 0x100 ? 1 : 0) + (flags & 0x200 ? 1 : 0));
+  const sampleSize =
+    4 *
+    ((flags & 0x100 ? 1 : 0) +
+      (flags & 0x200 ? 1 : 0) +
+      (flags & 0x400 ? 1 : 0) +
+      (flags & 0x800 ? 1 : 0));
+
+  if (firstFlags === null) {
+    firstFlags = flags & 0x400 ? dv.getUint32(field + flagsAt) : defaultFlags;
+  }
+  if (!(flags & 0x100)) {
+    return { duration: sampleCount * defaultDuration, firstFlags };
+  }
+
+  let duration = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    duration += dv.getUint32(field + i * sampleSize + durationAt);
+  }
+  return { duration, firstFlags };
+}
@@ -0,0 +1,45 @@
+/**
+ * Type guards for the items of an AsyncIterable source
+ */
+
+import { AudioSourceItem, MediaSourceItem, VideoSourceItem } from "../types";
+import { findConstructor } from "../core/encoder-backends";
+
+// The classes of a registered encoder backend count as well
+
+export function isVideoFrame(item: MediaSourceItem): item is VideoFrame {
+  const VideoFrameCtor = findConstructor("VideoFrame");
+  return VideoFrameCtor !== undefined && item instanceof VideoFrameCtor;
+}
+
+export function isAudioData(item: MediaSourceItem): item is AudioData {
+  const AudioDataCtor = findConstructor("AudioData");
+  return AudioDataCtor !== undefined && item instanceof AudioDataCtor;
+}
+
+export function isVideoSourceItem(
+  item: MediaSourceItem,
+): item is VideoSourceItem {
+  return (item as VideoSourceItem).type === "video" && "frame" in item;
+}
+
+export function isAudioSourceItem(
+  item: MediaSourceItem,
+): item is AudioSourceItem {
+  return (
+    (item as AudioSourceItem).type === "audio" &&
+    Array.isArray((item as AudioSourceItem).data)
+  );
+}
+
+/**
+ * Close the VideoFrame or AudioData an item carries. Items are handed over
+ * with the source, so they are closed once sent or when the encode stops.
+ */
+export function closeMediaSourceItem(item: MediaSourceItem): void {
+  if (isVideoFrame(item) || isAudioData(item)) {
+    item.close();
+  } else if (isVideoSourceItem(item) && isVideoFrame(item.frame)) {
+    item.frame.close();
+  }
+}
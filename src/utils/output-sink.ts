@@ -0,0 +1,190 @@
+/**
+ * Writing muxer output straight to a caller-provided stream or file
+ */
+
+import { EncodeError } from "../types";
+import type { EncodeOutputTarget } from "../types";
+
+export interface OutputSink {
+  /** Whether chunks can be written at any offset, e.g. to update a header */
+  readonly seekable: boolean;
+  write(data: Uint8Array, offset: number): Promise<void>;
+  close(): Promise<void>;
+  abort(reason?: unknown): Promise<void>;
+}
+
+function isFileHandle(
+  output: EncodeOutputTarget,
+): output is FileSystemFileHandle {
+  return typeof (output as FileSystemFileHandle).createWritable === "function";
+}
+
+function isWritableFileStream(
+  output: WritableStream<Uint8Array> | FileSystemWritableFileStream,
+): output is FileSystemWritableFileStream {
+  return typeof (output as FileSystemWritableFileStream).seek === "function";
+}
+
+function sinkError(error: unknown): EncodeError {
+  return error instanceof EncodeError
+    ? error
+    : new EncodeError(
+        "filesystem-error",
+        `Failed to write output: ${error instanceof Error ? error.message : String(error)}`,
+        error,
+      );
+}
+
+/**
+ * Positional writes through the write() command of a file stream
+ */
+class WritableFileStreamSink implements OutputSink {
+  readonly seekable = true;
+
+  constructor(private stream: FileSystemWritableFileStream) {}
+
+  async write(data: Uint8Array, offset: number): Promise<void> {
+    await this.stream.write({ type: "write", position: offset, data });
+  }
+
+  async close(): Promise<void> {
+    await this.stream.close();
+  }
+
+  async abort(reason?: unknown): Promise<void> {
+    await this.stream.abort(reason);
+  }
+}
+
+/**
+ * Appends to a plain WritableStream, which cannot go back to earlier bytes
+ */
+class WritableStreamSink implements OutputSink {
+  readonly seekable = false;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private position = 0;
+
+  constructor(stream: WritableStream<Uint8Array>) {
+    this.writer = stream.getWriter();
+  }
+
+  async write(data: Uint8Array, offset: number): Promise<void> {
+    if (offset !== this.position) {
+      throw new EncodeError(
+        "muxing-failed",
+        `Output at byte ${offset} cannot be written to a WritableStream at byte ${this.position}`,
+      );
+    }
+    this.position += data.byteLength;
+    await this.writer.write(data);
+  }
+
+  async close(): Promise<void> {
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown): Promise<void> {
+    await this.writer.abort(reason);
+  }
+}
+
+/**
+ * Open `output` for writing. File handles are opened with createWritable(),
+ * which replaces the file contents when the stream is closed.
+ *
+ * @throws EncodeError 'filesystem-error' when the file cannot be opened
+ */
+export async function openOutputSink(
+  output: EncodeOutputTarget,
+): Promise<OutputSink> {
+  if (isFileHandle(output)) {
+    try {
+      return new WritableFileStreamSink(await output.createWritable());
+    } catch (error) {
+      throw sinkError(error);
+    }
+  }
+  return isWritableFileStream(output)
+    ? new WritableFileStreamSink(output)
+    : new WritableStreamSink(output);
+}
+
+/** Bytes queued for the sink above which ready() waits */
+const HIGH_WATER_MARK = 16 * 1024 * 1024;
+
+/**
+ * Serializes the writes to a sink in the order they are queued. The first
+ * failure is kept and reported by every later call. ready() lets source
+ * ingestion wait while the queued bytes are above the high-water mark.
+ */
+export class OutputSinkWriter {
+  private pending: Promise<void> = Promise.resolve();
+  private failure: EncodeError | null = null;
+  private queuedBytes = 0;
+  private readyWaiters: (() => void)[] = [];
+
+  constructor(
+    private sink: OutputSink,
+    private onError: (error: EncodeError) => void,
+  ) {}
+
+  write(data: Uint8Array, offset: number): void {
+    this.queuedBytes += data.byteLength;
+    this.pending = this.pending.then(async () => {
+      try {
+        if (this.failure) return;
+        await this.sink.write(data, offset);
+      } catch (error) {
+        this.failure = sinkError(error);
+        this.onError(this.failure);
+      } finally {
+        this.queuedBytes -= data.byteLength;
+        if (this.failure || this.queuedBytes <= HIGH_WATER_MARK) {
+          this.wakeReady();
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolves once the queued bytes are at or below the high-water mark, or
+   * once a write has failed
+   */
+  ready(): Promise<void> {
+    if (this.failure || this.queuedBytes <= HIGH_WATER_MARK) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.readyWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Wait for the queued writes and close the sink
+   *
+   * @throws EncodeError when a write or closing the sink failed
+   */
+  async close(): Promise<void> {
+    await this.pending;
+    if (this.failure) throw this.failure;
+    try {
+      await this.sink.close();
+    } catch (error) {
+      throw sinkError(error);
+    }
+  }
+
+  /**
+   * Discard the output. Errors from the sink are ignored.
+   */
+  async abort(reason?: unknown): Promise<void> {
+    await this.pending;
+    await this.sink.abort(reason).catch(() => {});
+  }
+
+  private wakeReady(): void {
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const waiter of waiters) waiter();
+  }
+}
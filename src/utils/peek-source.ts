@@ -0,0 +1,68 @@
+/**
+ * Look at the first item of an AsyncIterable source without losing it
+ */
+
+import { MediaSourceItem, VideoSource } from "../types";
+import { closeMediaSourceItem } from "./media-source-item";
+
+export interface PeekedSource {
+  /** Source to use in place of the original one */
+  source: VideoSource;
+  /** First item of an AsyncIterable source */
+  first: unknown;
+  /**
+   * Closes the first item and ends the source unless it was read; call it
+   * once encoding is over
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Read the first item of an AsyncIterable source so it can be configured
+ * from it. The returned source replays that item, so it must be used in place
+ * of the original one. `first` is undefined for other sources.
+ */
+export async function peekFirstItem(
+  source: VideoSource,
+): Promise<PeekedSource> {
+  if (
+    !source ||
+    typeof (source as any)[Symbol.asyncIterator] !== "function" ||
+    (typeof MediaStream !== "undefined" && source instanceof MediaStream)
+  ) {
+    return { source, first: undefined, release: async () => {} };
+  }
+
+  const iterator = (source as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  let state: "peeked" | "replayed" | "released" = "peeked";
+
+  async function* replay(): AsyncGenerator<unknown> {
+    if (state === "released") return;
+    state = "replayed";
+    try {
+      if (first.done) return;
+      yield first.value;
+      while (true) {
+        const result = await iterator.next();
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      // Let the source release its resources when iteration stops early
+      await iterator.return?.();
+    }
+  }
+
+  return {
+    source: replay() as VideoSource,
+    first: first.done ? undefined : first.value,
+    // A replay that never started has not closed the item or the source
+    release: async () => {
+      if (state !== "peeked") return;
+      state = "released";
+      if (!first.done) closeMediaSourceItem(first.value as MediaSourceItem);
+      await iterator.return?.();
+    },
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Decide which VideoFile tracks can be copied without re-encoding
+ */
+
+import {
+  AudioCodec,
+  ContainerFormat,
+  DemuxedAudioTrack,
+  DemuxedVideoTrack,
+  EncodeError,
+  EncodeOptions,
+  EncoderConfig,
+  VideoCodec,
+  VideoSource,
+  VideoFile,
+} from "../types";
+import { openDemuxer } from "../demuxers/demuxer";
+
+const REMUXABLE_VIDEO: Record<ContainerFormat, Set<VideoCodec>> = {
+  mp4: new Set<VideoCodec>(["avc", "hevc", "vp9", "av1"]),
+  webm: new Set<VideoCodec>(["vp8", "vp9", "av1"]),
+  mkv: new Set<VideoCodec>(["avc", "hevc", "vp8", "vp9", "av1"]),
+  wav: new Set<VideoCodec>(),
+  aac: new Set<VideoCodec>(),
+  ogg: new Set<VideoCodec>(),
+  mp3: new Set<VideoCodec>(),
+};
+
+// Mirrors the audio codecs each muxer wrapper accepts
+const REMUXABLE_AUDIO: Record<ContainerFormat, Set<AudioCodec>> = {
+  mp4: new Set<AudioCodec>(["aac", "mp3", "opus", "flac"]),
+  webm: new Set<AudioCodec>(["opus", "vorbis", "flac"]),
+  mkv: new Set<AudioCodec>(["aac", "mp3", "opus", "vorbis", "flac"]),
+  // PCM is never copied: the demuxers do not produce raw PCM tracks
+  wav: new Set<AudioCodec>(),
+  aac: new Set<AudioCodec>(["aac"]),
+  ogg: new Set<AudioCodec>(["opus"]),
+  mp3: new Set<AudioCodec>(["mp3"]),
+};
+
+// Codecs whose container configuration is rebuilt from the decoder description
+const DESCRIPTION_REQUIRED = new Set<string>([
+  "avc",
+  "hevc",
+  "aac",
+  "vorbis",
+  "flac",
+]);
+
+/**
+ * Whether compressed `codec` video can be written to `container` as-is
+ */
+export function containerAcceptsVideo(
+  container: EncoderConfig["container"],
+  codec: VideoCodec,
+): boolean {
+  return REMUXABLE_VIDEO[container ?? "mp4"].has(codec);
+}
+
+/**
+ * Whether compressed `codec` audio can be written to `container` as-is
+ */
+export function containerAcceptsAudio(
+  container: EncoderConfig["container"],
+  codec: AudioCodec,
+): boolean {
+  return REMUXABLE_AUDIO[container ?? "mp4"].has(codec);
+}
+
+function isVideoFile(source: VideoSource): source is VideoFile {
+  return (
+    !!source &&
+    typeof source === "object" &&
+    "file" in source &&
+    typeof Blob !== "undefined" &&
+    (source as VideoFile).file instanceof Blob
+  );
+}
+
+/**
+ * Returns the reason the video track cannot be copied, or null if it can
+ */
+function videoRemuxBlocker(
+  track: DemuxedVideoTrack,
+  container: ContainerFormat,
+  options: EncodeOptions,
+): string | null {
+  const videoOptions = typeof options.video === "object" ? options.video : {};
+
+  if (!track.codec || !containerAcceptsVideo(container, track.codec)) {
+    return `video codec '${track.codecString}' cannot be stored in ${container.toUpperCase()}`;
+  }
+  if (DESCRIPTION_REQUIRED.has(track.codec) && !track.description) {
+    return `video track has no ${track.codec} decoder configuration`;
+  }
+  if (track.reordered) {
+    // The muxers require presentation timestamps in decode order
+    return "video track has B-frames";
+  }
+  if (videoOptions.codec && videoOptions.codec !== track.codec) {
+    return `video codec '${videoOptions.codec}' was requested but the source is '${track.codec}'`;
+  }
+  if (
+    (options.width && options.width !== track.codedWidth) ||
+    (options.height && options.height !== track.codedHeight)
+  ) {
+    return "resizing requires re-encoding";
+  }
+  if (
+    options.frameRate &&
+    track.frameRate &&
+    Math.abs(options.frameRate - track.frameRate) > 0.01
+  ) {
+    return "changing the frame rate requires re-encoding";
+  }
+  return null;
+}
+
+/**
+ * Returns the reason the audio track cannot be copied, or null if it can
+ */
+function audioRemuxBlocker(
+  track: DemuxedAudioTrack,
+  container: ContainerFormat,
+  options: EncodeOptions,
+): string | null {
+  const audioOptions = typeof options.audio === "object" ? options.audio : {};
+
+  if (!track.codec || !containerAcceptsAudio(container, track.codec)) {
+    return `audio codec '${track.codecString}' cannot be stored in ${container.toUpperCase()}`;
+  }
+  if (DESCRIPTION_REQUIRED.has(track.codec) && !track.description) {
+    return `audio track has no ${track.codec} decoder configuration`;
+  }
+  if (audioOptions.codec && audioOptions.codec !== track.codec) {
+    return `audio codec '${audioOptions.codec}' was requested but the source is '${track.codec}'`;
+  }
+  if (
+    (audioOptions.sampleRate && audioOptions.sampleRate !== track.sampleRate) ||
+    (audioOptions.channels && audioOptions.channels !== track.numberOfChannels)
+  ) {
+    return "changing sample rate or channel count requires re-encoding";
+  }
+  return null;
+}
+
+/**
+ * Apply `options.mode` to `config`: tracks that can be copied are marked as
+ * passthrough and their codec parameters are taken from the source.
+ *
+ * @throws EncodeError when mode is 'remux' and a track cannot be copied
+ */
+export async function applyRemuxPlan(
+  source: VideoSource,
+  config: EncoderConfig,
+  options?: EncodeOptions,
+): Promise<void> {
+  const mode = options?.mode ?? "transcode";
+  if (mode === "transcode") {
+    return;
+  }
+
+  if (!isVideoFile(source)) {
+    if (mode === "remux") {
+      throw new EncodeError(
+        "invalid-input",
+        "mode 'remux' requires a VideoFile source",
+      );
+    }
+    return;
+  }
+
+  const demuxer = await openDemuxer(source.file);
+  if (!demuxer) {
+    if (mode === "remux") {
+      throw new EncodeError(
+        "not-supported",
+        "Cannot remux: the VideoFile could not be demuxed (progressive MP4/MOV or WebM/Matroska required)",
+      );
+    }
+    return;
+  }
+
+  const container = config.container ?? "mp4";
+  const blockers: string[] = [];
+  const passthrough: NonNullable<EncoderConfig["passthrough"]> = {};
+
+  const videoEnabled = options?.video !== false && config.videoBitrate > 0;
+  if (videoEnabled && demuxer.videoTrack) {
+    const track = demuxer.videoTrack;
+    const blocker = videoRemuxBlocker(track, container, options ?? {});
+    if (blocker) {
+      blockers.push(blocker);
+    } else {
+      passthrough.video = true;
+      config.width = track.codedWidth;
+      config.height = track.codedHeight;
+      config.codec = { ...config.codec, video: track.codec };
+      config.codecString = {
+        ...config.codecString,
+        video: track.codecString,
+      };
+    }
+  }
+
+  const audioEnabled = options?.audio !== false && config.audioBitrate > 0;
+  if (audioEnabled && demuxer.audioTrack) {
+    const track = demuxer.audioTrack;
+    const blocker = audioRemuxBlocker(track, container, options ?? {});
+    if (blocker) {
+      blockers.push(blocker);
+    } else {
+      passthrough.audio = true;
+      config.sampleRate = track.sampleRate;
+      config.channels = track.numberOfChannels;
+      config.codec = { ...config.codec, audio: track.codec };
+      config.codecString = {
+        ...config.codecString,
+        audio: track.codecString,
+      };
+    }
+  }
+
+  if (mode === "remux" && blockers.length > 0) {
+    throw new EncodeError(
+      "not-supported",
+      `Cannot remux: ${blockers.join("; ")}`,
+    );
+  }
+
+  if (passthrough.video || passthrough.audio) {
+    config.passthrough = passthrough;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Split streamed muxer output into an init segment and media segments
+ */
+
+import { EncodeError } from "../types";
+import type { DemuxedAudioTrack, DemuxedVideoTrack } from "../types";
+
+export interface InitSegmentPart {
+  type: "init";
+  data: Uint8Array;
+  video?: DemuxedVideoTrack;
+  audio?: DemuxedAudioTrack;
+}
+
+export interface MediaSegmentPart {
+  type: "segment";
+  data: Uint8Array;
+  /** Decode time of the first sample, in seconds */
+  startTime: number;
+  /** Duration in seconds */
+  duration: number;
+}
+
+export type SegmentPart = InitSegmentPart | MediaSegmentPart;
+
+export interface MediaSegmenter {
+  /**
+   * Add the next bytes of the file and return the segments they complete
+   */
+  push(chunk: Uint8Array): SegmentPart[];
+  /**
+   * Return the segments held back until the end of the file
+   *
+   * @throws Error when the file ends inside a segment
+   */
+  end(): SegmentPart[];
+}
+
+function segmentationError(error: unknown): EncodeError {
+  return new EncodeError(
+    "muxing-failed",
+    `Segmentation failed: ${error instanceof Error ? error.message : String(error)}`,
+    error,
+  );
+}
+
+/**
+ * Feed streamed muxer output through `segmenter`
+ *
+ * @throws EncodeError 'muxing-failed' when the output cannot be segmented
+ */
+export async function* segmentStream(
+  chunks: AsyncIterable<Uint8Array>,
+  segmenter: MediaSegmenter,
+): AsyncGenerator<SegmentPart> {
+  let parts: SegmentPart[];
+  for await (const chunk of chunks) {
+    try {
+      parts = segmenter.push(chunk);
+    } catch (error) {
+      throw segmentationError(error);
+    }
+    for (const part of parts) yield part;
+  }
+  try {
+    parts = segmenter.end();
+  } catch (error) {
+    throw segmentationError(error);
+  }
+  for (const part of parts) yield part;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+/**
+ * Chunks waiting to be read as whole boxes or elements. Bytes are only
+ * copied when a read spans more than one chunk.
+ */
+export class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  private size = 0;
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(chunk: Uint8Array): void {
+    if (chunk.byteLength === 0) return;
+    this.chunks.push(chunk);
+    this.size += chunk.byteLength;
+  }
+
+  /** Up to `length` bytes from the front of the queue */
+  peek(length: number): Uint8Array {
+    const first = this.chunks[0];
+    if (!first) return new Uint8Array(0);
+    if (first.byteLength >= length || this.chunks.length === 1) {
+      return first.subarray(0, length);
+    }
+    this.chunks = [concatBytes(this.chunks)];
+    return this.chunks[0].subarray(0, length);
+  }
+
+  /** Remove `length` bytes, which must be available, from the queue */
+  take(length: number): Uint8Array {
+    const bytes = this.peek(length);
+    const first = this.chunks[0];
+    if (first.byteLength > length) {
+      this.chunks[0] = first.subarray(length);
+    } else {
+      this.chunks.shift();
+    }
+    this.size -= length;
+    return bytes;
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Demuxer-based decoding of VideoFile sources
+ */
+
+import type { Demuxer, DemuxedAudioTrack, DemuxedVideoTrack } from "../types";
+import { openDemuxer } from "../demuxers/demuxer";
+import { throwIfAborted } from "./abort-signal";
+
+// Keep a handful of chunks in flight so decoding overlaps with encoding
+// without buffering a large number of decoded frames.
+const MAX_PENDING_VIDEO = 8;
+const MAX_PENDING_AUDIO = 32;
+
+export interface VideoFileDecoderOptions {
+  /** Decode the video track. When false its samples are copied. Default: true */
+  video?: boolean;
+  /** Decode the audio track with AudioDecoder when possible. */
+  audio: boolean;
+  /** Output size; decoded frames are scaled when they differ. */
+  width?: number;
+  height?: number;
+  /** Drop frames so that the output does not exceed this rate. */
+  frameRate?: number;
+  /** Required audio sample rate; audio is not decoded when it differs. */
+  sampleRate?: number;
+}
+
+export interface VideoFileDecoderHandlers {
+  /** Receives ownership of the frame. */
+  onVideoFrame(frame: VideoFrame): Promise<void> | void;
+  /** Receives ownership of the audio data. */
+  onAudioData(audio: AudioData): Promise<void> | void;
+  /**
+   * Receives the compressed samples of a video track that is not decoded.
+   * Metadata with the decoder configuration accompanies the first chunk.
+   */
+  onVideoChunk?(
+    chunk: EncodedVideoChunk,
+    metadata?: EncodedVideoChunkMetadata,
+  ): Promise<void> | void;
+  /** Same as onVideoChunk, for an audio track that is not decoded. */
+  onAudioChunk?(
+    chunk: EncodedAudioChunk,
+    metadata?: EncodedAudioChunkMetadata,
+  ): Promise<void> | void;
+}
+
+function toVideoDecoderConfig(track: DemuxedVideoTrack): VideoDecoderConfig {
+  return {
+    codec: track.codecString,
+    codedWidth: track.codedWidth,
+    codedHeight: track.codedHeight,
+    ...(track.description ? { description: track.description } : {}),
+  };
+}
+
+function toAudioDecoderConfig(track: DemuxedAudioTrack): AudioDecoderConfig {
+  return {
+    codec: track.codecString,
+    sampleRate: track.sampleRate,
+    numberOfChannels: track.numberOfChannels,
+    ...(track.description ? { description: track.description } : {}),
+  };
+}
+
+async function isVideoDecoderConfigSupported(
+  config: VideoDecoderConfig,
+): Promise<boolean> {
+  try {
+    const support = await VideoDecoder.isConfigSupported(config);
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+async function isAudioDecoderConfigSupported(
+  config: AudioDecoderConfig,
+): Promise<boolean> {
+  try {
+    const support = await AudioDecoder.isConfigSupported(config);
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Demuxes a video file and decodes its samples with VideoDecoder/AudioDecoder.
+ * Samples of tracks that are not decoded can be passed on as encoded chunks.
+ */
+export class VideoFileDecoder {
+  readonly demuxer: Demuxer;
+  /** Whether the video track is decoded (otherwise its samples are copied). */
+  readonly decodesVideo: boolean;
+  /** Whether audio is decoded by this decoder (otherwise the caller handles it). */
+  readonly decodesAudio: boolean;
+  private videoConfig: VideoDecoderConfig | null;
+  private audioConfig: AudioDecoderConfig | null;
+  private options: VideoFileDecoderOptions;
+
+  private constructor(
+    demuxer: Demuxer,
+    decodesVideo: boolean,
+    decodesAudio: boolean,
+    options: VideoFileDecoderOptions,
+  ) {
+    this.demuxer = demuxer;
+    this.decodesVideo = decodesVideo;
+    this.decodesAudio = decodesAudio;
+    this.videoConfig = demuxer.videoTrack
+      ? toVideoDecoderConfig(demuxer.videoTrack)
+      : null;
+    this.audioConfig = demuxer.audioTrack
+      ? toAudioDecoderConfig(demuxer.audioTrack)
+      : null;
+    this.options = options;
+  }
+
+  /**
+   * Open `file` for decoding. Returns null when the file cannot be demuxed or
+   * its video track cannot be decoded in this environment.
+   */
+  static async open(
+    file: Blob,
+    options: VideoFileDecoderOptions,
+  ): Promise<VideoFileDecoder | null> {
+    const decodeVideo = options.video !== false;
+    if (decodeVideo && typeof VideoDecoder === "undefined") {
+      return null;
+    }
+
+    const demuxer = await openDemuxer(file);
+    if (!demuxer || (decodeVideo && !demuxer.videoTrack)) {
+      return null;
+    }
+
+    if (decodeVideo && demuxer.videoTrack) {
+      const videoConfig = toVideoDecoderConfig(demuxer.videoTrack);
+      if (!(await isVideoDecoderConfigSupported(videoConfig))) {
+        console.warn(
+          `VideoDecoder does not support '${videoConfig.codec}', falling back to HTMLVideoElement decoding`,
+        );
+        return null;
+      }
+    }
+
+    let decodeAudio = false;
+    const audioTrack = demuxer.audioTrack;
+    if (
+      options.audio &&
+      audioTrack &&
+      typeof AudioDecoder !== "undefined" &&
+      (!options.sampleRate || options.sampleRate === audioTrack.sampleRate)
+    ) {
+      decodeAudio = await isAudioDecoderConfigSupported(
+        toAudioDecoderConfig(audioTrack),
+      );
+    }
+
+    return new VideoFileDecoder(demuxer, decodeVideo, decodeAudio, options);
+  }
+
+  /**
+   * Decode all samples, passing frames and audio to `handlers` in
+   * presentation order. Resolves once both decoders have been flushed.
+   */
+  async decode(
+    handlers: VideoFileDecoderHandlers,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    let decodeError: unknown = null;
+    let outputChain: Promise<void> = Promise.resolve();
+    let pendingVideo = 0;
+    let pendingAudio = 0;
+    let lastFrameSlot = -Infinity;
+    const { frameRate } = this.options;
+
+    // Wakes the demux loop when a decoder takes a chunk, an output is
+    // handled or decoding fails
+    let wake: (() => void) | null = null;
+    const notifyProgress = () => {
+      const resolve = wake;
+      wake = null;
+      resolve?.();
+    };
+
+    const enqueueOutput = (
+      kind: "video" | "audio",
+      output: VideoFrame | AudioData,
+      task: () => Promise<void> | void,
+    ) => {
+      outputChain = outputChain.then(async () => {
+        try {
+          // Outputs queued before a cancel are not passed on
+          if (decodeError || signal?.aborted) {
+            output.close();
+          } else {
+            await task();
+          }
+        } catch (error) {
+          decodeError = decodeError ?? error;
+        } finally {
+          if (kind === "video") pendingVideo--;
+          else pendingAudio--;
+          notifyProgress();
+        }
+      });
+    };
+
+    let videoDecoder: VideoDecoder | null = null;
+    if (this.decodesVideo && this.videoConfig) {
+      videoDecoder = new VideoDecoder({
+        output: (frame) => {
+          // Drop frames that would exceed the requested frame rate
+          if (frameRate && frameRate > 0) {
+            const slot = Math.round((frame.timestamp * frameRate) / 1_000_000);
+            if (slot <= lastFrameSlot) {
+              frame.close();
+              notifyProgress();
+              return;
+            }
+            lastFrameSlot = slot;
+          }
+          pendingVideo++;
+          enqueueOutput("video", frame, async () => {
+            await handlers.onVideoFrame(this.resizeFrame(frame));
+          });
+        },
+        error: (error) => {
+          decodeError = decodeError ?? error;
+          notifyProgress();
+        },
+      });
+      videoDecoder.ondequeue = notifyProgress;
+      videoDecoder.configure(this.videoConfig);
+    }
+
+    let audioDecoder: AudioDecoder | null = null;
+    if (this.decodesAudio && this.audioConfig) {
+      audioDecoder = new AudioDecoder({
+        output: (audio) => {
+          pendingAudio++;
+          enqueueOutput("audio", audio, async () => {
+            await handlers.onAudioData(audio);
+          });
+        },
+        error: (error) => {
+          decodeError = decodeError ?? error;
+          notifyProgress();
+        },
+      });
+      audioDecoder.ondequeue = notifyProgress;
+      audioDecoder.configure(this.audioConfig);
+    }
+
+    const waitForCapacity = async () => {
+      while (
+        !decodeError &&
+        !signal?.aborted &&
+        ((videoDecoder?.decodeQueueSize ?? 0) + pendingVideo >
+          MAX_PENDING_VIDEO ||
+          (audioDecoder?.decodeQueueSize ?? 0) + pendingAudio >
+            MAX_PENDING_AUDIO)
+      ) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    };
+    signal?.addEventListener("abort", notifyProgress, { once: true });
+
+    let waitingForKeyframe = true;
+    let videoMetadataSent = false;
+    let audioMetadataSent = false;
+
+    try {
+      for await (const sample of this.demuxer.samples()) {
+        throwIfAborted(signal);
+        if (decodeError) break;
+
+        if (sample.track === "video") {
+          // Both decoding and copying have to start on a keyframe
+          if (waitingForKeyframe && sample.type !== "key") continue;
+          waitingForKeyframe = false;
+          const chunk = new EncodedVideoChunk({
+            type: sample.type,
+            timestamp: sample.timestamp,
+            duration: sample.duration,
+            data: sample.data,
+          });
+          if (videoDecoder) {
+            videoDecoder.decode(chunk);
+          } else if (handlers.onVideoChunk && this.videoConfig) {
+            await handlers.onVideoChunk(
+              chunk,
+              videoMetadataSent
+                ? undefined
+                : { decoderConfig: this.videoConfig },
+            );
+            videoMetadataSent = true;
+          }
+        } else {
+          const chunk = new EncodedAudioChunk({
+            type: sample.type,
+            timestamp: sample.timestamp,
+            duration: sample.duration,
+            data: sample.data,
+          });
+          if (audioDecoder) {
+            audioDecoder.decode(chunk);
+          } else if (handlers.onAudioChunk && this.audioConfig) {
+            await handlers.onAudioChunk(
+              chunk,
+              audioMetadataSent
+                ? undefined
+                : { decoderConfig: this.audioConfig },
+            );
+            audioMetadataSent = true;
+          }
+        }
+
+        await waitForCapacity();
+      }
+
+      throwIfAborted(signal);
+      if (!decodeError) {
+        await Promise.all([videoDecoder?.flush(), audioDecoder?.flush()]);
+      }
+      await outputChain;
+      throwIfAborted(signal);
+
+      if (decodeError) {
+        throw decodeError;
+      }
+    } finally {
+      signal?.removeEventListener("abort", notifyProgress);
+      if (videoDecoder && videoDecoder.state !== "closed") videoDecoder.close();
+      if (audioDecoder && audioDecoder.state !== "closed") audioDecoder.close();
+    }
+  }
+
+  /**
+   * Scale a decoded frame to the output size when needed
+   */
+  private resizeFrame(frame: VideoFrame): VideoFrame {
+    const { width, height } = this.options;
+    if (
+      !width ||
+      !height ||
+      (frame.displayWidth === width && frame.displayHeight === height)
+    ) {
+      return frame;
+    }
+
+    const canvas =
+      typeof OffscreenCanvas !== "undefined"
+        ? new OffscreenCanvas(width, height)
+        : Object.assign(document.createElement("canvas"), { width, height });
+    const ctx = canvas.getContext("2d") as
+      | OffscreenCanvasRenderingContext2D
+      | CanvasRenderingContext2D
+      | null;
+    if (!ctx) {
+      // Leave scaling to the encoder
+      return frame;
+    }
+
+    try {
+      ctx.drawImage(frame, 0, 0, width, height);
+      return new VideoFrame(canvas, {
+        timestamp: frame.timestamp,
+        duration: frame.duration ?? undefined,
+      });
+    } finally {
+      frame.close();
+    }
+  }
+}
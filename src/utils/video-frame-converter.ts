@@ -3,6 +3,7 @@
  */
 
 import { EncodeError, Frame } from "../types";
+import { findConstructor } from "../core/encoder-backends";
 
 /**
  * FrameをVideoFrameに変換
@@ -10,33 +11,50 @@ import { EncodeError, Frame } from "../types";
 export async function convertToVideoFrame(
   frame: Frame,
   timestamp: number,
+  duration?: number,
 ): Promise<VideoFrame> {
-  if (frame instanceof VideoFrame) {
+  // A registered encoder backend's VideoFrame, e.g. under Node
+  const VideoFrameCtor = findConstructor("VideoFrame");
+  if (!VideoFrameCtor) {
+    throw new EncodeError(
+      "not-supported",
+      "VideoFrame is not available. Register an encoder backend that provides one.",
+    );
+  }
+
+  if (frame instanceof VideoFrameCtor) {
     // Always create a new VideoFrame to ensure clear ownership
     // The caller owns the returned VideoFrame and must close it
-    return new VideoFrame(frame, { timestamp });
+    return new VideoFrameCtor(frame, { timestamp, duration });
   }
 
   // 他のFrame型をVideoFrameに変換
-  if (frame instanceof HTMLCanvasElement) {
-    return new VideoFrame(frame, { timestamp });
+  if (
+    typeof HTMLCanvasElement !== "undefined" &&
+    frame instanceof HTMLCanvasElement
+  ) {
+    return new VideoFrameCtor(frame, { timestamp, duration });
   }
 
-  if (frame instanceof OffscreenCanvas) {
-    return new VideoFrame(frame, { timestamp });
+  if (
+    typeof OffscreenCanvas !== "undefined" &&
+    frame instanceof OffscreenCanvas
+  ) {
+    return new VideoFrameCtor(frame, { timestamp, duration });
   }
 
-  if (frame instanceof ImageBitmap) {
-    return new VideoFrame(frame, { timestamp });
+  if (typeof ImageBitmap !== "undefined" && frame instanceof ImageBitmap) {
+    return new VideoFrameCtor(frame, { timestamp, duration });
   }
 
-  if (frame instanceof ImageData) {
+  if (typeof ImageData !== "undefined" && frame instanceof ImageData) {
     // ImageDataの場合、BufferInitを使用
-    return new VideoFrame(frame.data, {
+    return new VideoFrameCtor(frame.data, {
       format: "RGBA",
       codedWidth: frame.width,
       codedHeight: frame.height,
       timestamp,
+      duration,
     });
   }
 
@@ -49,11 +67,12 @@ export async function convertToVideoFrame(
         height: number;
         data: Uint8ClampedArray;
       };
-      return new VideoFrame(imageDataLike.data, {
+      return new VideoFrameCtor(imageDataLike.data, {
         format: "RGBA",
         codedWidth: imageDataLike.width,
         codedHeight: imageDataLike.height,
         timestamp,
+        duration,
       });
     }
 
@@ -63,7 +82,7 @@ export async function convertToVideoFrame(
       "height" in frame &&
       ("getContext" in frame || "transferToImageBitmap" in frame)
     ) {
-      return new VideoFrame(frame as any, { timestamp });
+      return new VideoFrameCtor(frame as any, { timestamp, duration });
     }
 
     // ImageBitmapに似たオブジェクト
@@ -73,7 +92,7 @@ export async function convertToVideoFrame(
       "close" in frame &&
       typeof (frame as any).close === "function"
     ) {
-      return new VideoFrame(frame as any, { timestamp });
+      return new VideoFrameCtor(frame as any, { timestamp, duration });
     }
   }
 
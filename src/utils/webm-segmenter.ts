@@ -0,0 +1,260 @@
+/**
+ * Split a live WebM byte stream into an init segment and media segments
+ */
+
+import {
+  ID,
+  TRACK_TYPE_AUDIO,
+  TRACK_TYPE_VIDEO,
+  TrackInfo,
+  children,
+  parseTrackEntry,
+  readElementHeader,
+  readUint,
+  readVint,
+  toAudioTrack,
+  toVideoTrack,
+} from "../demuxers/webmdemuxer";
+import {
+  ByteQueue,
+  InitSegmentPart,
+  MediaSegmenter,
+  MediaSegmentPart,
+  SegmentPart,
+  concatBytes,
+} from "./segmenter";
+
+interface PendingSegment {
+  parts: Uint8Array[];
+  startTime: number;
+  /** Estimated end of the last block, in seconds */
+  endTime: number;
+}
+
+/**
+ * Reads the muxer output as a flat stream of elements: everything in front
+ * of the first Cluster is the init segment, and Clusters are grouped into
+ * media segments of at least `segmentDuration` seconds. Cluster children
+ * never share IDs with top-level elements, so unknown-size Clusters need no
+ * special handling. A segment is emitted when the Cluster that follows it
+ * starts, which gives its exact duration; the last one is estimated from its
+ * blocks.
+ */
+export class WebMSegmenter implements MediaSegmenter {
+  private queue = new ByteQueue();
+  private head: Uint8Array[] | null = [];
+  private timecodeScale = 1_000_000; // nanoseconds
+  private tracks = new Map<number, TrackInfo>();
+  private lastBlockTime = new Map<number, number>();
+  private frameGap = new Map<number, number>();
+  private clusterHeader: Uint8Array | null = null;
+  private clusterTime = 0;
+  private segment: PendingSegment | null = null;
+
+  constructor(private segmentDuration: number) {}
+
+  push(chunk: Uint8Array): SegmentPart[] {
+    this.queue.push(chunk);
+
+    const parts: SegmentPart[] = [];
+    let element: { id: number; bytes: Uint8Array; dataStart: number } | null;
+    while ((element = this.takeElement()) !== null) {
+      const part = this.addElement(
+        element.id,
+        element.bytes,
+        element.dataStart,
+      );
+      if (part) parts.push(part);
+    }
+    return parts;
+  }
+
+  end(): SegmentPart[] {
+    if (this.queue.length > 0 || this.clusterHeader) {
+      throw new Error("WebM stream ended inside an element");
+    }
+    const last = this.segment;
+    this.segment = null;
+    return last ? [this.toSegment(last, last.endTime)] : [];
+  }
+
+  /**
+   * Take the next element. Only the header of a Segment or Cluster is taken,
+   * so that their children are read one by one.
+   */
+  private takeElement(): {
+    id: number;
+    bytes: Uint8Array;
+    dataStart: number;
+  } | null {
+    const header = readElementHeader(this.queue.peek(12), 0);
+    if (!header) return null;
+
+    if (header.id === ID.Segment || header.id === ID.Cluster) {
+      return {
+        id: header.id,
+        bytes: this.queue.take(header.headerLength),
+        dataStart: header.headerLength,
+      };
+    }
+    if (header.size < 0) {
+      throw new Error("WebM: Unknown-size element outside a Cluster");
+    }
+    const length = header.headerLength + header.size;
+    if (this.queue.length < length) return null;
+    return {
+      id: header.id,
+      bytes: this.queue.take(length),
+      dataStart: header.headerLength,
+    };
+  }
+
+  private addElement(
+    id: number,
+    bytes: Uint8Array,
+    dataStart: number,
+  ): SegmentPart | null {
+    if (this.head) {
+      if (id !== ID.Cluster) {
+        this.head.push(bytes);
+        if (id === ID.Info) this.parseInfo(bytes, dataStart);
+        if (id === ID.Tracks) this.parseTracks(bytes, dataStart);
+        return null;
+      }
+      this.clusterHeader = bytes;
+      return this.takeInit();
+    }
+
+    switch (id) {
+      case ID.Cluster:
+        this.clusterHeader = bytes;
+        return null;
+      case ID.Timecode:
+        return this.startCluster(
+          readUint(bytes, dataStart, bytes.byteLength),
+          bytes,
+        );
+      case ID.SimpleBlock:
+      case ID.BlockGroup:
+        if (this.segment) {
+          this.segment.parts.push(bytes);
+          this.addBlock(id, bytes, dataStart);
+        }
+        return null;
+      default:
+        // Other Cluster children belong to the current segment; Cues, Tags
+        // and other top-level elements are left out
+        if (this.segment && id <= 0xffff) {
+          this.segment.parts.push(bytes);
+        }
+        return null;
+    }
+  }
+
+  private takeInit(): InitSegmentPart {
+    const trackList = [...this.tracks.values()];
+    const video = trackList.find((t) => t.type === TRACK_TYPE_VIDEO);
+    const audio = trackList.find((t) => t.type === TRACK_TYPE_AUDIO);
+    const init: InitSegmentPart = {
+      type: "init",
+      data: concatBytes(this.head!),
+      video: video ? toVideoTrack(video) : undefined,
+      audio: audio ? toAudioTrack(audio) : undefined,
+    };
+    this.head = null;
+    return init;
+  }
+
+  private startCluster(
+    timecode: number,
+    bytes: Uint8Array,
+  ): MediaSegmentPart | null {
+    this.clusterTime = timecode;
+    const time = this.toSeconds(timecode);
+    const header = this.clusterHeader ?? new Uint8Array(0);
+    this.clusterHeader = null;
+
+    const current = this.segment;
+    // Clusters start on a key frame, so any of them can start a segment
+    if (current && time - current.startTime < this.segmentDuration) {
+      current.parts.push(header, bytes);
+      return null;
+    }
+
+    this.segment = { parts: [header, bytes], startTime: time, endTime: time };
+    return current ? this.toSegment(current, time) : null;
+  }
+
+  private addBlock(id: number, bytes: Uint8Array, dataStart: number): void {
+    let block = bytes.subarray(dataStart);
+    let blockDuration: number | null = null;
+    if (id === ID.BlockGroup) {
+      let found: Uint8Array | null = null;
+      for (const el of children(block, 0, block.byteLength)) {
+        if (el.id === ID.Block) {
+          found = block.subarray(el.start, el.end);
+        } else if (el.id === ID.BlockDuration) {
+          blockDuration = readUint(block, el.start, el.end);
+        }
+      }
+      if (!found) return;
+      block = found;
+    }
+
+    const trackNumber = readVint(block, 0, false);
+    if (!trackNumber || block.byteLength < trackNumber.length + 2) return;
+    const offset = trackNumber.length;
+    const relativeTimecode = ((block[offset] << 24) >> 16) | block[offset + 1];
+    const timecode = this.clusterTime + relativeTimecode;
+
+    // Duration of the block: BlockDuration, the track default, or the gap
+    // since the previous block of the same track
+    const track = trackNumber.value;
+    const previous = this.lastBlockTime.get(track);
+    if (previous !== undefined && timecode > previous) {
+      this.frameGap.set(track, timecode - previous);
+    }
+    this.lastBlockTime.set(track, timecode);
+    const defaultDuration = this.tracks.get(track)?.defaultDuration;
+    const duration =
+      blockDuration ??
+      (defaultDuration !== undefined
+        ? defaultDuration / this.timecodeScale
+        : (this.frameGap.get(track) ?? 0));
+
+    this.segment!.endTime = Math.max(
+      this.segment!.endTime,
+      this.toSeconds(timecode + duration),
+    );
+  }
+
+  private toSegment(segment: PendingSegment, end: number): MediaSegmentPart {
+    return {
+      type: "segment",
+      data: concatBytes(segment.parts),
+      startTime: segment.startTime,
+      duration: Math.max(0, end - segment.startTime),
+    };
+  }
+
+  private toSeconds(timecode: number): number {
+    return (timecode * this.timecodeScale) / 1e9;
+  }
+
+  private parseInfo(bytes: Uint8Array, dataStart: number): void {
+    for (const el of children(bytes, dataStart, bytes.byteLength)) {
+      if (el.id === ID.TimecodeScale) {
+        this.timecodeScale = readUint(bytes, el.start, el.end);
+      }
+    }
+  }
+
+  private parseTracks(bytes: Uint8Array, dataStart: number): void {
+    for (const el of children(bytes, dataStart, bytes.byteLength)) {
+      if (el.id === ID.TrackEntry) {
+        const track = parseTrackEntry(bytes, el.start, el.end);
+        this.tracks.set(track.number, track);
+      }
+    }
+  }
+}
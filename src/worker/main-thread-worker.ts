@@ -0,0 +1,111 @@
+/**
+ * Worker stand-in that runs the encoder on the main thread, for hosts that
+ * cannot start module workers
+ */
+
+import type { MainThreadMessage, WorkerMessage } from "../types";
+import type { EncoderHost } from "./encoder-core";
+
+interface MediaData {
+  clone(): unknown;
+  close(): void;
+}
+
+// VideoFrame and AudioData, including those of an encoder backend
+function isMediaData(value: unknown): value is MediaData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as MediaData).clone === "function" &&
+    typeof (value as MediaData).close === "function"
+  );
+}
+
+/**
+ * Copy a message as postMessage would, so that the sender may close or
+ * reuse what it sent. Frames are copied with their own clone(), which also
+ * works for classes the platform cannot clone.
+ */
+function cloneMessage<T extends object>(
+  message: T,
+  transfer?: Transferable[],
+): T {
+  const fields: Record<string, unknown> = { ...(message as object) };
+  const media: Record<string, MediaData> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (isMediaData(value)) {
+      media[key] = value;
+      delete fields[key];
+    }
+  }
+  const copy =
+    typeof structuredClone === "function"
+      ? structuredClone(
+          fields,
+          transfer && transfer.length > 0 ? { transfer } : undefined,
+        )
+      : fields;
+  for (const [key, value] of Object.entries(media)) {
+    copy[key] = value.clone();
+  }
+  return copy as T;
+}
+
+class MainThreadWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  // Loaded on first use, so the encoder is only bundled into the page when
+  // main-thread execution is used
+  private host: Promise<EncoderHost> = import("./encoder-core").then(
+    ({ EncoderHost }) => new EncoderHost((message) => this.reply(message)),
+  );
+  private terminated = false;
+
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void {
+    if (this.terminated) return;
+    const data = cloneMessage(message, transfer);
+    // Each message starts after the one before it without waiting for it
+    // to finish, as the messages of a worker do
+    this.host
+      .then((host) => {
+        if (!this.terminated) return host.handleMessage(data);
+      })
+      .catch((error) => this.fail(error));
+  }
+
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.host.then(
+      (host) => host.dispose(),
+      () => {},
+    );
+  }
+
+  // The encoder does not touch what it posts again, so replies are passed
+  // on without a copy
+  private reply(data: MainThreadMessage): void {
+    if (this.terminated) return;
+    queueMicrotask(() => {
+      if (!this.terminated) this.onmessage?.({ data } as MessageEvent);
+    });
+  }
+
+  private fail(error: unknown): void {
+    if (this.terminated) return;
+    this.onerror?.({
+      message: error instanceof Error ? error.message : String(error),
+      error,
+    } as ErrorEvent);
+  }
+}
+
+/**
+ * Create an object that takes the messages of a worker and encodes them on
+ * the main thread with the same encoder a worker runs. WebCodecs still
+ * encodes off the main thread; muxing runs on it.
+ */
+export function createMainThreadWorker(): Worker {
+  return new MainThreadWorker() as unknown as Worker;
+}
@@ -0,0 +1,117 @@
+/**
+ * Runtime checks for the messages the worker posts to the main thread
+ */
+
+import { EncodeError, MainThreadMessage, MessagePayload } from "../types";
+
+type Check = (value: unknown) => boolean;
+
+const isNumber: Check = (value) => typeof value === "number";
+const isString: Check = (value) => typeof value === "string";
+const isBoolean: Check = (value) => typeof value === "boolean";
+const isBytes: Check = (value) => value instanceof Uint8Array;
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+function optional(check: Check): Check {
+  return (value) => value === undefined || check(value);
+}
+
+function nullable(check: Check): Check {
+  return (value) => value === null || check(value);
+}
+
+const isOutput: Check = (value) =>
+  value === null ||
+  isBytes(value) ||
+  (typeof File !== "undefined" && value instanceof File);
+
+const isTimestampRange: Check = (value) =>
+  isObject(value) && isNumber(value.start) && isNumber(value.end);
+
+const isErrorDetail: Check = (value) =>
+  isObject(value) &&
+  isString(value.message) &&
+  isString(value.type) &&
+  optional(isString)(value.stack);
+
+type MainThreadMessageType = MainThreadMessage["type"];
+
+/**
+ * A check for every field, so that a field added to a message type must be
+ * added here too
+ */
+const MESSAGE_FIELDS: {
+  [K in MainThreadMessageType]: {
+    [F in keyof MessagePayload<MainThreadMessage, K>]-?: Check;
+  };
+} = {
+  initialized: {
+    actualVideoCodec: optional(isString),
+    actualAudioCodec: optional(nullable(isString)),
+  },
+  progress: {
+    processedFrames: isNumber,
+    totalFrames: optional(isNumber),
+  },
+  finalized: {
+    output: isOutput,
+  },
+  queueSize: {
+    videoQueueSize: isNumber,
+    audioQueueSize: isNumber,
+  },
+  dataChunk: {
+    chunk: isBytes,
+    isHeader: optional(isBoolean),
+    offset: optional(isNumber),
+    container: isString,
+    kind: optional(isString),
+    timestampRange: optional(isTimestampRange),
+    keyframe: optional(isBoolean),
+  },
+  error: {
+    errorDetail: isErrorDetail,
+  },
+  cancelled: {},
+};
+
+/**
+ * Check that a message from the worker has a known type and the fields of
+ * that type
+ *
+ * @throws EncodeError 'worker-error' naming the first problem found
+ */
+export function assertMainThreadMessage(
+  value: unknown,
+): asserts value is MainThreadMessage {
+  const fail = (problem: string): never => {
+    throw new EncodeError(
+      "worker-error",
+      `Invalid message from the worker: ${problem}`,
+      value,
+    );
+  };
+
+  if (!isObject(value)) {
+    return fail("not an object");
+  }
+  const { type } = value;
+  if (
+    typeof type !== "string" ||
+    !Object.prototype.hasOwnProperty.call(MESSAGE_FIELDS, type)
+  ) {
+    return fail(`unknown type '${String(type)}'`);
+  }
+  if (!optional(isNumber)(value.jobId)) {
+    return fail(`'${type}' has an invalid jobId`);
+  }
+
+  const fields: Record<string, Check> =
+    MESSAGE_FIELDS[type as MainThreadMessageType];
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check(value[field])) {
+      return fail(`'${type}' has an invalid ${field}`);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Software encoder for uncompressed and G.711 audio
+ */
+
+import { findConstructor } from "../core/encoder-backends";
+
+type PcmFormat = "pcm" | "alaw" | "ulaw";
+
+const CODEC_FORMATS: Record<string, PcmFormat> = {
+  pcm: "pcm",
+  "pcm-s16": "pcm",
+  alaw: "alaw",
+  ulaw: "ulaw",
+};
+
+function formatForCodec(codec: string): PcmFormat | undefined {
+  return Object.prototype.hasOwnProperty.call(CODEC_FORMATS, codec)
+    ? CODEC_FORMATS[codec]
+    : undefined;
+}
+
+/**
+ * Convert a 16-bit linear sample to G.711 A-law
+ */
+export function linearToAlaw(sample: number): number {
+  let sign = 0x80;
+  if (sample < 0) {
+    sign = 0;
+    sample = -sample - 1;
+  }
+  if (sample > 0x7fff) sample = 0x7fff;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa =
+    exponent === 0 ? (sample >> 4) & 0x0f : (sample >> (exponent + 3)) & 0x0f;
+  return (sign | (exponent << 4) | mantissa) ^ 0x55;
+}
+
+/**
+ * Convert a 16-bit linear sample to G.711 μ-law
+ */
+export function linearToUlaw(sample: number): number {
+  const BIAS = 0x84;
+  const CLIP = 32635;
+  let sign = 0;
+  if (sample < 0) {
+    sign = 0x80;
+    sample = -sample;
+  }
+  if (sample > CLIP) sample = CLIP;
+  sample += BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (sample >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+function toInt16(value: number): number {
+  const clamped = Math.max(-1, Math.min(1, value));
+  return Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff);
+}
+
+/**
+ * AudioEncoder-compatible encoder for the codecs the WAV muxer stores.
+ * Browsers do not implement these in AudioEncoder, so the worker uses this
+ * class for WAV output. Each AudioData becomes one interleaved chunk:
+ * signed 16-bit little endian for 'pcm', one byte per sample for G.711.
+ */
+export class PcmAudioEncoder {
+  state: CodecState = "unconfigured";
+  readonly encodeQueueSize = 0;
+  private format: PcmFormat = "pcm";
+  private config: AudioEncoderConfig | null = null;
+  private sentDecoderConfig = false;
+
+  constructor(private init: AudioEncoderInit) {}
+
+  static async isConfigSupported(
+    config: AudioEncoderConfig,
+  ): Promise<AudioEncoderSupport> {
+    const supported =
+      !!formatForCodec(config.codec) &&
+      config.sampleRate > 0 &&
+      config.numberOfChannels > 0;
+    return {
+      supported,
+      config: {
+        codec: config.codec,
+        sampleRate: config.sampleRate,
+        numberOfChannels: config.numberOfChannels,
+      },
+    };
+  }
+
+  configure(config: AudioEncoderConfig): void {
+    const format = formatForCodec(config.codec);
+    if (!format) {
+      throw new Error(`Unsupported codec: ${config.codec}`);
+    }
+    this.format = format;
+    this.config = config;
+    this.sentDecoderConfig = false;
+    this.state = "configured";
+  }
+
+  encode(data: AudioData): void {
+    if (this.state !== "configured" || !this.config) {
+      throw new Error("PcmAudioEncoder is not configured");
+    }
+    try {
+      const channels = data.numberOfChannels;
+      const frames = data.numberOfFrames;
+      const planes: Float32Array[] = [];
+      for (let ch = 0; ch < channels; ch++) {
+        const plane = new Float32Array(frames);
+        data.copyTo(plane, { planeIndex: ch, format: "f32-planar" });
+        planes.push(plane);
+      }
+
+      const bytesPerSample = this.format === "pcm" ? 2 : 1;
+      const bytes = new Uint8Array(frames * channels * bytesPerSample);
+      const view = new DataView(bytes.buffer);
+      let offset = 0;
+      for (let i = 0; i < frames; i++) {
+        for (let ch = 0; ch < channels; ch++) {
+          const sample = toInt16(planes[ch][i]);
+          if (this.format === "pcm") {
+            view.setInt16(offset, sample, true);
+            offset += 2;
+          } else {
+            bytes[offset++] =
+              this.format === "alaw"
+                ? linearToAlaw(sample)
+                : linearToUlaw(sample);
+          }
+        }
+      }
+
+      const EncodedAudioChunkCtor = findConstructor("EncodedAudioChunk")!;
+      const chunk = new EncodedAudioChunkCtor({
+        type: "key",
+        timestamp: data.timestamp,
+        duration: data.duration,
+        data: bytes,
+      });
+      const metadata: EncodedAudioChunkMetadata = {};
+      if (!this.sentDecoderConfig) {
+        this.sentDecoderConfig = true;
+        metadata.decoderConfig = {
+          codec: this.config.codec,
+          sampleRate: this.config.sampleRate,
+          numberOfChannels: this.config.numberOfChannels,
+        };
+      }
+      this.init.output(chunk, metadata);
+    } catch (e) {
+      this.init.error(e as DOMException);
+    }
+  }
+
+  async flush(): Promise<void> {}
+
+  reset(): void {
+    this.state = "unconfigured";
+    this.config = null;
+  }
+
+  close(): void {
+    this.state = "closed";
+    this.config = null;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Muxer output kept in memory up to a budget, then moved to a file in the
+ * origin private file system (OPFS)
+ */
+
+// Synchronous access handles are only available in dedicated workers
+interface SyncAccessHandle {
+  write(buffer: BufferSource, options?: { at?: number }): number;
+  flush(): void;
+  close(): void;
+}
+
+type SpillFileHandle = FileSystemFileHandle & {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>;
+};
+
+let spillCounter = 0;
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Receives the positional writes of a streaming muxer. Writes are applied to
+ * a growing buffer until the output passes `budget` bytes; from then on they
+ * go to an OPFS file through a sync access handle. Writes that arrive while
+ * the file is being opened are queued. Without OPFS the output stays in
+ * memory.
+ */
+export class SpillTarget {
+  private buffer = new Uint8Array(0);
+  private length = 0;
+  private queue: { data: Uint8Array; offset: number }[] = [];
+  private opening: Promise<void> | null = null;
+  private fileHandle: SpillFileHandle | null = null;
+  private access: SyncAccessHandle | null = null;
+  private failure: Error | null = null;
+
+  /**
+   * @param budget Bytes to hold in memory
+   * @param expectedSize Estimated size of the output; the file is opened
+   * right away when it exceeds the budget
+   */
+  constructor(
+    private budget: number,
+    expectedSize?: number,
+  ) {
+    if (expectedSize !== undefined && expectedSize > budget) {
+      this.spill();
+    }
+  }
+
+  write(data: Uint8Array, offset: number): void {
+    if (this.failure) return;
+    if (this.access) {
+      try {
+        this.access.write(data, { at: offset });
+      } catch (error) {
+        this.failure = toError(error);
+      }
+      return;
+    }
+    if (this.opening) {
+      this.queue.push({ data, offset });
+      return;
+    }
+
+    const end = offset + data.byteLength;
+    if (end > this.buffer.byteLength) {
+      // Grow geometrically so appends stay linear
+      const grown = new Uint8Array(Math.max(end, this.buffer.byteLength * 2));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(data, offset);
+    this.length = Math.max(this.length, end);
+
+    if (this.length > this.budget) {
+      this.spill();
+    }
+  }
+
+  /**
+   * Complete the output
+   *
+   * @returns The OPFS file when the output was spilled, else the bytes
+   * @throws Error when the OPFS file could not be written
+   */
+  async finish(): Promise<Uint8Array | File> {
+    await this.opening;
+    if (this.failure) throw this.failure;
+    if (!this.access || !this.fileHandle) {
+      return this.buffer.slice(0, this.length);
+    }
+    this.access.flush();
+    this.access.close();
+    this.access = null;
+    return this.fileHandle.getFile();
+  }
+
+  /**
+   * Close and remove the OPFS file, if any
+   */
+  async discard(): Promise<void> {
+    await this.opening;
+    this.access?.close();
+    this.access = null;
+    this.buffer = new Uint8Array(0);
+    if (this.fileHandle) {
+      const name = this.fileHandle.name;
+      this.fileHandle = null;
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(name).catch(() => {});
+    }
+  }
+
+  private spill(): void {
+    this.opening = this.openFile()
+      .then(
+        () => {
+          // Memory contents first, then the writes made since
+          if (this.length > 0) {
+            this.access!.write(this.buffer.subarray(0, this.length), {
+              at: 0,
+            });
+          }
+          for (const { data, offset } of this.queue) {
+            this.access!.write(data, { at: offset });
+          }
+          this.buffer = new Uint8Array(0);
+        },
+        (error) => {
+          console.warn("Worker: Keeping the output in memory:", error);
+          this.budget = Infinity;
+        },
+      )
+      .catch((error) => {
+        this.failure = toError(error);
+      })
+      .finally(() => {
+        const queued = this.queue;
+        this.queue = [];
+        this.opening = null;
+        if (!this.access) {
+          for (const { data, offset } of queued) this.write(data, offset);
+        }
+      });
+  }
+
+  private async openFile(): Promise<void> {
+    if (typeof navigator === "undefined" || !navigator.storage?.getDirectory) {
+      throw new Error("The origin private file system is not available");
+    }
+    const root = await navigator.storage.getDirectory();
+    const name = `webcodecs-encoder-${Date.now()}-${++spillCounter}.tmp`;
+    const fileHandle = (await root.getFileHandle(name, {
+      create: true,
+    })) as SpillFileHandle;
+    try {
+      this.access = await fileHandle.createSyncAccessHandle();
+    } catch (error) {
+      await root.removeEntry(name).catch(() => {});
+      throw error;
+    }
+    this.fileHandle = fileHandle;
+  }
+}
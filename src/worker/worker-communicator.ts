@@ -2,7 +2,49 @@
  * Worker creation and management
  */
 
-import { EncodeError } from "../types";
+import {
+  EncodeError,
+  EncoderErrorType,
+  ExecutionMode,
+  JobMessage,
+  MainThreadMessage,
+  MessagePayload,
+  WorkerMessage,
+  WorkerResponseMap,
+  WorkerSource,
+} from "../types";
+import { assertMainThreadMessage } from "./message-validator";
+import { getSettings } from "../core/configure";
+import { hasEncoderBackends } from "../core/encoder-backends";
+import { createMainThreadWorker } from "./main-thread-worker";
+
+type WorkerMessageType = WorkerMessage["type"];
+type MainThreadMessageType = MainThreadMessage["type"];
+
+/**
+ * Payload argument of send(), which may be left out when it has no required
+ * fields
+ */
+type SendArgs<K extends WorkerMessageType> =
+  Partial<MessagePayload<WorkerMessage, K>> extends MessagePayload<
+    WorkerMessage,
+    K
+  >
+    ? [data?: MessagePayload<WorkerMessage, K>]
+    : [data: MessagePayload<WorkerMessage, K>];
+
+/**
+ * Payload of any message to the worker
+ */
+type WorkerPayload = {
+  [K in WorkerMessageType]: MessagePayload<WorkerMessage, K>;
+}[WorkerMessageType];
+
+type MessageHandler<K extends MainThreadMessageType> = (
+  data: MessagePayload<MainThreadMessage, K>,
+) => void;
+
+type ErrorPayload = MessagePayload<MainThreadMessage, "error">;
 
 function resolveWorkerUrl(): string {
   const processUrl =
@@ -37,18 +79,42 @@ function createExternalWorker(): Worker {
   } catch (error) {
     throw new EncodeError(
       "initialization-failed",
-      "Failed to create external worker. Make sure webcodecs-worker.js is available and WEBCODECS_WORKER_URL is configured when needed.",
+      "Failed to create external worker. Make sure webcodecs-worker.js is available and set its URL with configure({ workerUrl }) when needed, or import from webcodecs-encoder/inline to use the worker built into the bundle.",
+      error,
+    );
+  }
+}
+
+/**
+ * Create the worker the caller supplied as a script URL or a function
+ */
+function createWorkerFrom(source: URL | string | (() => Worker)): Worker {
+  try {
+    return typeof source === "function"
+      ? source()
+      : new Worker(source, { type: "module" });
+  } catch (error) {
+    throw new EncodeError(
+      "initialization-failed",
+      "Failed to create the worker passed to the encoder",
       error,
     );
   }
 }
 
+function isWorkerInstance(source: WorkerSource | undefined): source is Worker {
+  return (
+    typeof source === "object" &&
+    typeof (source as Worker).postMessage === "function"
+  );
+}
+
 /**
- * Create inline worker (for test environments)
+ * Create the mock worker (for test environments)
  */
-function createInlineWorker(): { worker: Worker; blobUrl: string } {
+function createMockWorker(): { worker: Worker; blobUrl: string } {
   try {
-    const workerSource = getWorkerSource();
+    const workerSource = getMockWorkerSource();
     const blob = new Blob([workerSource], { type: "application/javascript" });
     const blobUrl = URL.createObjectURL(blob);
 
@@ -58,7 +124,7 @@ function createInlineWorker(): { worker: Worker; blobUrl: string } {
   } catch (error) {
     throw new EncodeError(
       "initialization-failed",
-      "Failed to create inline worker",
+      "Failed to create mock worker",
       error,
     );
   }
@@ -69,47 +135,27 @@ function createInlineWorker(): { worker: Worker; blobUrl: string } {
  */
 export function createWorker(): Worker | { worker: Worker; blobUrl: string } {
   const isTestEnvironment = detectTestEnvironment();
-  const isProductionEnvironment = detectProductionEnvironment();
   const inlineOverride = hasInlineWorkerOverride();
   const inlineDisabled = isInlineWorkerDisabled();
 
-  if (inlineOverride) {
-    if (isProductionEnvironment && !allowInlineOverrideInProduction()) {
-      throw new Error(
-        "[WorkerCommunicator] Inline worker override is disabled in production environments.",
-      );
-    }
-    console.warn("[WorkerCommunicator] Using inline worker (override).");
-    return createInlineWorker();
+  // The mock's output is placeholder bytes, so it never runs outside tests
+  if (inlineOverride && !isTestEnvironment) {
+    throw new EncodeError(
+      "configuration-error",
+      "[WorkerCommunicator] The inline mock worker is only available in test environments. Use the webcodecs-encoder/inline entry to embed the real worker.",
+    );
   }
 
-  if (isTestEnvironment && !inlineDisabled) {
+  if (isTestEnvironment && (inlineOverride || !inlineDisabled)) {
     console.warn(
-      "[WorkerCommunicator] Using inline worker (test environment).",
+      "[WorkerCommunicator] Using the mock worker (test environment).",
     );
-    return createInlineWorker();
+    return createMockWorker();
   }
 
-  try {
-    return createExternalWorker();
-  } catch (error) {
-    if (!inlineDisabled && !isProductionEnvironment) {
-      console.warn(
-        "[WorkerCommunicator] Failed to create external worker. Falling back to inline worker.",
-        error,
-      );
-      return createInlineWorker();
-    }
-
-    if (!inlineDisabled) {
-      console.error(
-        "[WorkerCommunicator] Failed to create external worker in a production-like environment.",
-        error,
-      );
-    }
-
-    throw error;
-  }
+  // No fallback to the mock: a missing worker fails the encode instead of
+  // producing a file with placeholder bytes
+  return createExternalWorker();
 }
 
 function detectTestEnvironment(): boolean {
@@ -134,31 +180,6 @@ function detectTestEnvironment(): boolean {
   return false;
 }
 
-function detectProductionEnvironment(): boolean {
-  if (typeof process !== "undefined") {
-    const nodeEnv = process.env?.NODE_ENV;
-    if (!nodeEnv) {
-      const lifecycle = process.env?.npm_lifecycle_event ?? "";
-      return /build|start|serve|preview/i.test(lifecycle);
-    }
-    return ["production", "prod", "staging", "preview"].includes(nodeEnv);
-  }
-
-  if (typeof window !== "undefined") {
-    const protocol = window.location?.protocol;
-    const hostname = window.location?.hostname ?? "";
-    const isLocalHost =
-      hostname === "" ||
-      hostname === "localhost" ||
-      hostname === "127.0.0.1" ||
-      hostname.endsWith(".localhost");
-
-    return protocol === "https:" && !isLocalHost;
-  }
-
-  return false;
-}
-
 function hasInlineWorkerOverride(): boolean {
   return (
     (typeof process !== "undefined" &&
@@ -168,15 +189,6 @@ function hasInlineWorkerOverride(): boolean {
   );
 }
 
-function allowInlineOverrideInProduction(): boolean {
-  return (
-    (typeof process !== "undefined" &&
-      process.env?.WEBCODECS_ALLOW_INLINE_IN_PROD === "true") ||
-    (typeof window !== "undefined" &&
-      (window as any).__WEBCODECS_ALLOW_INLINE_IN_PROD__ === true)
-  );
-}
-
 function isInlineWorkerDisabled(): boolean {
   return (
     (typeof process !== "undefined" &&
@@ -187,9 +199,9 @@ function isInlineWorkerDisabled(): boolean {
 }
 
 /**
- * Generate inline worker source code (testing only)
+ * Generate mock worker source code (testing only)
  */
-function getWorkerSource(): string {
+function getMockWorkerSource(): string {
   return `
     // ⚠️  TESTING ONLY - DO NOT USE IN PRODUCTION ⚠️
     // WebCodecs Encoder Worker (Inline Mock Implementation)
@@ -198,54 +210,63 @@ function getWorkerSource(): string {
     
     console.warn('⚠️  Using inline mock worker - FOR TESTING ONLY');
     
-    let config = null;
-    let processedFrames = 0;
+    // State of each job, by job id
+    const jobs = new Map();
     
     self.onmessage = async function(event) {
-      const { type, ...data } = event.data;
+      const { type, jobId, ...data } = event.data;
+      const reply = (message) => {
+        self.postMessage(jobId === undefined ? message : { ...message, jobId });
+      };
       
       try {
         switch (type) {
           case 'initialize':
-            config = data.config;
-            processedFrames = 0;
+            jobs.set(jobId, { config: data.config, processedFrames: 0 });
             // Wait a bit before sending success response
             setTimeout(() => {
-              self.postMessage({ type: 'initialized' });
+              reply({ type: 'initialized' });
             }, 50);
             break;
             
           case 'addVideoFrame':
-            processedFrames++;
+          case 'addVideoChunk': {
+            const job = jobs.get(jobId);
+            if (!job) break;
+            job.processedFrames++;
             // Progress update
-            self.postMessage({ 
+            reply({ 
               type: 'progress', 
-              processedFrames,
+              processedFrames: job.processedFrames,
               totalFrames: data.totalFrames 
             });
             break;
+          }
             
           case 'addAudioData':
+          case 'addAudioChunk':
             // Audio data processing (placeholder)
             break;
             
           case 'finalize':
+            jobs.delete(jobId);
             // Wait a bit before returning result
             setTimeout(() => {
               const result = new Uint8Array([0x00, 0x00, 0x00, 0x20, 0x66, 0x74, 0x79, 0x70]); // MP4 magic number
-              self.postMessage({ type: 'finalized', output: result });
+              reply({ type: 'finalized', output: result });
             }, 100);
             break;
             
           case 'cancel':
-            self.postMessage({ type: 'cancelled' });
+            jobs.delete(jobId);
+            reply({ type: 'cancelled' });
             break;
             
           default:
             console.warn('Unknown message type:', type);
         }
       } catch (error) {
-        self.postMessage({ 
+        reply({ 
           type: 'error', 
           errorDetail: {
             message: error.message,
@@ -263,29 +284,76 @@ function getWorkerSource(): string {
  */
 export class WorkerCommunicator {
   private worker: Worker;
-  private messageHandlers: Map<string, (data: any) => void> = new Map();
+  private messageHandlers: Map<MainThreadMessageType, (data: any) => void> =
+    new Map();
   private workerBlobUrl: string | null = null;
-  private pendingWorkerError: { errorDetail: any } | null = null;
-
-  constructor() {
-    const workerResult = createWorker();
-    if (typeof workerResult === "object" && "worker" in workerResult) {
-      // Inline worker case
-      this.worker = workerResult.worker;
-      this.workerBlobUrl = workerResult.blobUrl;
+  private pendingWorkerError: ErrorPayload | null = null;
+  private jobs: Map<number, WorkerJob> = new Map();
+  private nextJobId = 1;
+  private terminated = false;
+  private ownsWorker = true;
+
+  /**
+   * @param source Worker to use instead of the configured or default one.
+   * A Worker instance is not terminated with the communicator.
+   */
+  constructor(source?: WorkerSource) {
+    const explicit = source ?? getSettings().workerUrl;
+    if (isWorkerInstance(explicit)) {
+      this.worker = explicit;
+      this.ownsWorker = false;
+    } else if (explicit !== undefined) {
+      this.worker = createWorkerFrom(explicit);
     } else {
-      // External worker case
-      this.worker = workerResult;
+      const workerResult = createWorker();
+      if (typeof workerResult === "object" && "worker" in workerResult) {
+        // Inline worker case
+        this.worker = workerResult.worker;
+        this.workerBlobUrl = workerResult.blobUrl;
+      } else {
+        // External worker case
+        this.worker = workerResult;
+      }
     }
     this.worker.onmessage = this.handleMessage.bind(this);
     this.worker.onerror = this.handleWorkerError.bind(this);
   }
 
   private handleMessage(event: MessageEvent): void {
-    const { type, ...data } = event.data;
+    let message: MainThreadMessage;
+    try {
+      assertMainThreadMessage(event.data);
+      message = event.data;
+    } catch (error) {
+      // Fails the job the message names, or else every job
+      console.error(error);
+      message = {
+        type: "error",
+        errorDetail: {
+          message: error instanceof Error ? error.message : String(error),
+          type: EncoderErrorType.WorkerError,
+        },
+        jobId:
+          typeof event.data?.jobId === "number" ? event.data.jobId : undefined,
+      };
+    }
+
+    const { type, jobId, ...data } = message;
+    if (jobId !== undefined) {
+      // Messages of a closed job are dropped
+      this.jobs.get(jobId)?.dispatch(type, data);
+      return;
+    }
+
     const handler = this.messageHandlers.get(type);
     if (handler) {
       handler(data);
+      return;
+    }
+    // Worker-wide messages, e.g. uncaught errors, and replies of workers
+    // that do not echo job ids
+    for (const job of this.jobs.values()) {
+      job.dispatch(type, data);
     }
   }
 
@@ -294,12 +362,12 @@ export class WorkerCommunicator {
       event.preventDefault();
     }
 
-    const payload = {
+    const payload: ErrorPayload = {
       errorDetail: {
         message: event.message
           ? `Worker error: ${event.message}`
           : "Worker error",
-        type: "worker-error",
+        type: EncoderErrorType.WorkerError,
         stack: (event as any).error?.stack,
       },
     };
@@ -309,6 +377,12 @@ export class WorkerCommunicator {
       handler(payload);
       return;
     }
+    if (this.jobs.size > 0) {
+      for (const job of this.jobs.values()) {
+        job.dispatch("error", payload);
+      }
+      return;
+    }
 
     this.pendingWorkerError = payload;
     console.error("Worker error before error handler registration:", event);
@@ -317,26 +391,52 @@ export class WorkerCommunicator {
   /**
    * Register message handler
    */
-  on(type: string, handler: (data: any) => void): void {
-    this.messageHandlers.set(type, handler);
+  on<K extends MainThreadMessageType>(
+    type: K,
+    handler: MessageHandler<K>,
+  ): void {
+    const untyped: (data: any) => void = handler;
+    this.messageHandlers.set(type, untyped);
     if (type === "error" && this.pendingWorkerError) {
       const pending = this.pendingWorkerError;
       this.pendingWorkerError = null;
-      handler(pending);
+      untyped(pending);
     }
   }
 
   /**
    * Unregister message handler
    */
-  off(type: string): void {
+  off(type: MainThreadMessageType): void {
     this.messageHandlers.delete(type);
   }
 
   /**
    * Send message to worker
    */
-  send(type: string, data: any = {}): void {
+  send<K extends WorkerMessageType>(type: K, ...args: SendArgs<K>): void;
+  send(type: WorkerMessageType, data: WorkerPayload = {}): void {
+    this.post(type, data);
+  }
+
+  /**
+   * Send a message of job `jobId`, which the worker hands to that job's
+   * encoder
+   */
+  sendJobMessage(
+    jobId: number,
+    type: WorkerMessageType,
+    data: WorkerPayload,
+  ): void {
+    this.post(type, { ...data, jobId });
+  }
+
+  private post(
+    type: WorkerMessageType,
+    data: WorkerPayload & JobMessage,
+  ): void {
+    if (this.terminated) return;
+
     // Detect transferable objects for optimization
     const transferables: Transferable[] = [];
 
@@ -347,7 +447,7 @@ export class WorkerCommunicator {
       /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
 
     // Optimize transfer only if ArrayBuffer is included
-    if (data.buffer instanceof ArrayBuffer) {
+    if ("buffer" in data && data.buffer instanceof ArrayBuffer) {
       transferables.push(data.buffer);
     }
 
@@ -415,13 +515,31 @@ export class WorkerCommunicator {
     }
   }
 
+  /**
+   * Start a job on this worker. Jobs run side by side, each with its own
+   * encoder in the worker.
+   */
+  createJob(): WorkerJob {
+    const id = this.nextJobId++;
+    const job = new WorkerJob(id, this, () => this.jobs.delete(id));
+    this.jobs.set(id, job);
+    return job;
+  }
+
   /**
    * Terminate communication
    */
   terminate(): void {
+    this.terminated = true;
+    for (const job of [...this.jobs.values()]) {
+      job.close();
+    }
     this.messageHandlers.clear();
-    if (this.worker) {
+    if (this.worker && this.ownsWorker) {
       this.worker.terminate();
+    } else if (this.worker) {
+      this.worker.onmessage = null;
+      this.worker.onerror = null;
     }
     if (this.workerBlobUrl) {
       URL.revokeObjectURL(this.workerBlobUrl);
@@ -429,3 +547,275 @@ export class WorkerCommunicator {
     }
   }
 }
+
+type WorkerResponseData<K extends keyof WorkerResponseMap> = Omit<
+  WorkerResponseMap[K],
+  "type"
+>;
+
+const RESPONSE_TYPES: {
+  [K in keyof WorkerResponseMap]: WorkerResponseMap[K]["type"];
+} = {
+  initialize: "initialized",
+  finalize: "finalized",
+  cancel: "cancelled",
+};
+
+/**
+ * Milliseconds a worker may take to answer `initialize`
+ */
+export const INITIALIZE_TIMEOUT = 30_000;
+
+interface PendingRequest {
+  responseType: MainThreadMessageType;
+  resolve(data: any): void;
+  reject(error: EncodeError): void;
+}
+
+/**
+ * One encode on a worker. Messages carry the job id, so several jobs can
+ * share a worker.
+ */
+export class WorkerJob {
+  private messageHandlers: Map<MainThreadMessageType, (data: any) => void> =
+    new Map();
+  private pendingWorkerError: ErrorPayload | null = null;
+  private requests: Set<PendingRequest> = new Set();
+  private ended = false;
+  private closed = false;
+
+  constructor(
+    readonly id: number,
+    readonly communicator: WorkerCommunicator,
+    private onClose: () => void,
+  ) {}
+
+  /**
+   * Deliver a message the worker posted for this job
+   */
+  dispatch(type: MainThreadMessageType, data: any): void {
+    if (this.closed) return;
+    if (type === "finalized" || type === "cancelled" || type === "error") {
+      this.ended = true;
+    }
+
+    for (const request of [...this.requests]) {
+      if (type === "error") {
+        request.reject(toEncodeError(data.errorDetail));
+      } else if (type === request.responseType) {
+        request.resolve(data);
+      }
+    }
+
+    const handler = this.messageHandlers.get(type);
+    if (handler) {
+      handler(data);
+    } else if (type === "error" && !this.pendingWorkerError) {
+      this.pendingWorkerError = data;
+    }
+  }
+
+  /**
+   * Register message handler
+   */
+  on<K extends MainThreadMessageType>(
+    type: K,
+    handler: MessageHandler<K>,
+  ): void {
+    const untyped: (data: any) => void = handler;
+    this.messageHandlers.set(type, untyped);
+    if (type === "error" && this.pendingWorkerError) {
+      const pending = this.pendingWorkerError;
+      this.pendingWorkerError = null;
+      untyped(pending);
+    }
+  }
+
+  /**
+   * Unregister message handler
+   */
+  off(type: MainThreadMessageType): void {
+    this.messageHandlers.delete(type);
+  }
+
+  /**
+   * Send message to the job's encoder
+   */
+  send<K extends WorkerMessageType>(type: K, ...args: SendArgs<K>): void;
+  send(type: WorkerMessageType, data: WorkerPayload = {}): void {
+    if (this.closed) return;
+    this.communicator.sendJobMessage(this.id, type, data);
+  }
+
+  /**
+   * Send a request and wait for its response, e.g. `initialized` for
+   * `initialize`.
+   *
+   * @throws EncodeError from an error the worker posts for the job,
+   * 'timeout' when it does not answer within `timeout` milliseconds, or
+   * 'cancelled' when the job is closed first
+   */
+  request<K extends keyof WorkerResponseMap>(
+    type: K,
+    data?: MessagePayload<WorkerMessage, K>,
+    options: { timeout?: number } = {},
+  ): Promise<WorkerResponseData<K>> {
+    if (this.closed) {
+      return Promise.reject(
+        new EncodeError("cancelled", "The worker job has been closed"),
+      );
+    }
+
+    return new Promise<WorkerResponseData<K>>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const request: PendingRequest = {
+        responseType: RESPONSE_TYPES[type],
+        resolve: (response) => {
+          settle();
+          resolve(response);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      const settle = () => {
+        clearTimeout(timer);
+        this.requests.delete(request);
+      };
+
+      if (options.timeout !== undefined) {
+        timer = setTimeout(() => {
+          request.reject(
+            new EncodeError(
+              "timeout",
+              `The worker did not answer '${type}' within ${options.timeout} ms`,
+            ),
+          );
+        }, options.timeout);
+      }
+      this.requests.add(request);
+      this.communicator.sendJobMessage(this.id, type, data ?? {});
+    });
+  }
+
+  /**
+   * Stop listening to the job. A job the worker has not ended yet is
+   * cancelled, so that its encoder is released.
+   */
+  close(): void {
+    if (this.closed) return;
+    if (!this.ended) {
+      this.send("cancel");
+    }
+    this.closed = true;
+    this.messageHandlers.clear();
+    for (const request of [...this.requests]) {
+      request.reject(
+        new EncodeError("cancelled", "The worker job has been closed"),
+      );
+    }
+    this.onClose();
+  }
+}
+
+/**
+ * EncodeError for an error the worker posted
+ */
+export function toEncodeError(
+  errorDetail: ErrorPayload["errorDetail"],
+): EncodeError {
+  return new EncodeError(
+    errorDetail.type || "encoding-failed",
+    errorDetail.message || "Worker error",
+    errorDetail,
+  );
+}
+
+/**
+ * Source of the workers that run encode jobs
+ */
+export interface WorkerProvider {
+  /**
+   * Start a job on a worker
+   *
+   * @throws EncodeError 'cancelled' when `signal` aborts while waiting
+   */
+  acquire(signal?: AbortSignal): Promise<WorkerJob>;
+  /**
+   * Close a job once it has ended. `reusable` is false when its worker
+   * crashed or stopped answering.
+   */
+  release(job: WorkerJob, reusable: boolean): void;
+}
+
+// Communicators of the Worker instances passed in, shared by their jobs
+const sharedCommunicators = new WeakMap<Worker, WorkerCommunicator>();
+
+/**
+ * Workers for encode() and encodeStream(): a new worker for every job,
+ * terminated when the job ends, or jobs on the caller's Worker instance,
+ * which is left running. With `execution` 'main-thread' every job gets its
+ * own in-page stand-in for a worker. `execution` defaults to 'main-thread'
+ * while an encoder backend is registered and no worker is passed, since the
+ * backend only exists in this context.
+ */
+export function workersFor(
+  source?: WorkerSource,
+  execution: ExecutionMode = source === undefined && hasEncoderBackends()
+    ? "main-thread"
+    : "worker",
+): WorkerProvider {
+  if (execution === "main-thread") {
+    return {
+      async acquire() {
+        if (source !== undefined) {
+          throw new EncodeError(
+            "configuration-error",
+            "The worker option cannot be used with execution 'main-thread'",
+          );
+        }
+        return new WorkerCommunicator(createMainThreadWorker).createJob();
+      },
+      release(job) {
+        job.communicator.terminate();
+      },
+    };
+  }
+  if (execution !== "worker") {
+    return {
+      async acquire() {
+        throw new EncodeError(
+          "configuration-error",
+          "execution must be 'worker' or 'main-thread'",
+        );
+      },
+      release() {},
+    };
+  }
+
+  if (isWorkerInstance(source)) {
+    return {
+      async acquire() {
+        let communicator = sharedCommunicators.get(source);
+        if (!communicator) {
+          communicator = new WorkerCommunicator(source);
+          sharedCommunicators.set(source, communicator);
+        }
+        return communicator.createJob();
+      },
+      release(job) {
+        job.close();
+      },
+    };
+  }
+
+  return {
+    async acquire() {
+      return new WorkerCommunicator(source).createJob();
+    },
+    release(job) {
+      job.communicator.terminate();
+    },
+  };
+}
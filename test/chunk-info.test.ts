@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  Mp4ChunkInfoReader,
+  WebMChunkInfoReader,
+} from "../src/muxers/chunk-info";
+import { box, concat, initSegment, mediaSegment } from "./helpers/fmp4";
+import { element, uint, unknownSize, webmHead } from "./helpers/ebml";
+
+// Sample flags with sample_depends_on = 2 (sync) or sample_is_non_sync_sample
+const SYNC = 0x02000000;
+const NON_SYNC = 0x01010000;
+
+describe("Mp4ChunkInfoReader", () => {
+  const init = initSegment([
+    { id: 1, timescale: 90_000, handler: "vide" },
+    { id: 2, timescale: 48_000, handler: "soun" },
+  ]);
+
+  it("reads the kind, media time and key frame of each box", () => {
+    const reader = new Mp4ChunkInfoReader();
+
+    expect(reader.read(init)).toEqual({ kind: "init", keyframe: false });
+    expect(
+      reader.read(
+        mediaSegment(1, [
+          {
+            trackId: 1,
+            baseTime: 90_000,
+            durations: [3000, 3000],
+            firstSampleFlags: SYNC,
+          },
+          {
+            trackId: 2,
+            baseTime: 48_000,
+            durations: { count: 3, duration: 1024 },
+          },
+        ]),
+      ),
+    ).toEqual({
+      kind: "fragment",
+      timestampRange: { start: 1_000_000, end: 1_066_667 },
+      keyframe: true,
+    });
+    expect(
+      reader.read(
+        mediaSegment(2, [
+          {
+            trackId: 1,
+            baseTime: 96_000,
+            durations: [3000],
+            firstSampleFlags: NON_SYNC,
+          },
+        ]),
+      ),
+    ).toMatchObject({ kind: "fragment", keyframe: false });
+    expect(reader.read(box("mfra", box("mfro", [0, 0, 0, 0])))).toEqual({
+      kind: "index",
+      keyframe: false,
+    });
+  });
+
+  it("reports an mdat written apart from its moof like the moof", () => {
+    const reader = new Mp4ChunkInfoReader();
+    const segment = mediaSegment(1, [
+      { trackId: 1, baseTime: 0, durations: [3000], firstSampleFlags: SYNC },
+    ]);
+    const moofSize = new DataView(segment.buffer).getUint32(0);
+
+    reader.read(init);
+    const moof = reader.read(segment.subarray(0, moofSize));
+    expect(reader.read(segment.subarray(moofSize))).toEqual(moof);
+    expect(moof).toMatchObject({
+      timestampRange: { start: 0, end: 33_333 },
+    });
+  });
+});
+
+describe("WebMChunkInfoReader", () => {
+  it("reads the kind, media time and key frame of each write", () => {
+    const reader = new WebMChunkInfoReader();
+
+    expect(reader.read(webmHead)).toEqual({ kind: "init", keyframe: false });
+    // Cluster at 2 s with a key frame and a delta frame 40 ms later
+    expect(
+      reader.read(
+        concat(
+          unknownSize(0x1f43b675),
+          element(0xe7, uint(2000)),
+          element(0xa3, [0x81, 0, 0, 0x80, 1]),
+        ),
+      ),
+    ).toEqual({
+      kind: "cluster",
+      timestampRange: { start: 2_000_000, end: 2_000_000 },
+      keyframe: true,
+    });
+    expect(reader.read(element(0xa3, [0x81, 0, 40, 0x00, 2]))).toEqual({
+      kind: "cluster",
+      timestampRange: { start: 2_040_000, end: 2_080_000 },
+      keyframe: false,
+    });
+    expect(reader.read(element(0x1c53bb6b, element(0xbb)))).toEqual({
+      kind: "index",
+      keyframe: false,
+    });
+  });
+});
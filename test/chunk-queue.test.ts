@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { ChunkQueue } from "../src/stream/chunk-queue";
+
+describe("ChunkQueue", () => {
+  it("resolves a waiting pull as soon as a chunk is pushed", async () => {
+    const queue = new ChunkQueue<string>(10);
+    const pulled = queue.pull();
+
+    queue.push("a", 1);
+    expect(await pulled).toBe("a");
+
+    queue.push("b", 1);
+    queue.close();
+    expect(await queue.pull()).toBe("b");
+    expect(await queue.pull()).toBeNull();
+  });
+
+  it("holds ready() until the queued bytes drop to the high-water mark", async () => {
+    const queue = new ChunkQueue<string>(4);
+    queue.push("a", 3);
+    await queue.ready();
+
+    queue.push("b", 3);
+    let ready = false;
+    const waiting = queue.ready().then(() => {
+      ready = true;
+    });
+    await Promise.resolve();
+    expect(ready).toBe(false);
+
+    await queue.pull();
+    await waiting;
+    expect(ready).toBe(true);
+  });
+
+  it("fails ready() once the consumer cancels", async () => {
+    const queue = new ChunkQueue<string>(0);
+    queue.push("a", 1);
+    const waiting = queue.ready();
+
+    queue.cancel(new Error("gone"));
+    await expect(waiting).rejects.toThrow("gone");
+    await expect(queue.ready()).rejects.toThrow("gone");
+    expect(await queue.pull()).toBeNull();
+  });
+});
@@ -35,6 +35,67 @@ describe('config-parser', () => {
     expect(config.audioBitrate).toBeGreaterThan(0);
   });
 
+  it('disables video and picks the container codec for audio-only containers', async () => {
+    const wav = await inferAndBuildConfig([], { container: 'wav' });
+    expect(wav.videoBitrate).toBe(0);
+    expect(wav.codec?.video).toBeUndefined();
+    expect(wav.codec?.audio).toBe('pcm');
+
+    const ogg = await inferAndBuildConfig([], { container: 'ogg' });
+    expect(ogg.width).toBe(0);
+    expect(ogg.codec?.audio).toBe('opus');
+
+    const telephony = await inferAndBuildConfig([], {
+      container: 'wav',
+      audio: { codec: 'alaw' },
+    });
+    expect(telephony.sampleRate).toBe(8000);
+    expect(telephony.channels).toBe(1);
+  });
+
+  it('passes MP4 layout options through for MP4 output only', async () => {
+    const mp4 = await inferAndBuildConfig([], {
+      mp4: { fragmented: true, fragmentDuration: 4 },
+    });
+    expect(mp4.mp4).toEqual({ fragmented: true, fragmentDuration: 4 });
+    expect(mp4.latencyMode).toBe('quality');
+    // One key frame per fragment at the default 30 fps
+    expect(mp4.keyFrameInterval).toBe(120);
+
+    const webm = await inferAndBuildConfig([], {
+      container: 'webm',
+      mp4: { fragmented: true },
+    });
+    expect(webm.mp4).toBeUndefined();
+
+    await expect(
+      inferAndBuildConfig([], { mp4: { cmaf: true, fragmented: false } }),
+    ).rejects.toMatchObject({ type: 'configuration-error' });
+  });
+
+  it('passes the memory budget to the worker config', async () => {
+    const config = await inferAndBuildConfig([], { memoryBudget: 1024 });
+    expect(config.memoryBudget).toBe(1024);
+
+    await expect(
+      inferAndBuildConfig([], { memoryBudget: -1 }),
+    ).rejects.toMatchObject({ type: 'configuration-error' });
+  });
+
+  it('infers an audio-only config from planar PCM sources', async () => {
+    const config = await inferAndBuildConfig({
+      data: [new Float32Array(441), new Float32Array(441), new Float32Array(441)],
+      sampleRate: 44_100,
+    });
+
+    expect(config.width).toBe(0);
+    expect(config.videoBitrate).toBe(0);
+    expect(config.codec?.video).toBeUndefined();
+    expect(config.sampleRate).toBe(44_100);
+    expect(config.channels).toBe(3);
+    expect(config.audioBitrate).toBeGreaterThan(0);
+  });
+
   it('keeps video:false when extending encoder factories', () => {
     const baseFactory = createEncoder({
       video: false,
@@ -0,0 +1,23 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { configure, getSettings } from "../src/core/configure";
+
+describe("configure", () => {
+  afterEach(() => {
+    configure({ workerUrl: undefined });
+  });
+
+  it("keeps settings that are not passed", () => {
+    configure({ workerUrl: "/assets/worker.js" });
+    configure({});
+    expect(getSettings().workerUrl).toBe("/assets/worker.js");
+
+    configure({ workerUrl: undefined });
+    expect(getSettings().workerUrl).toBeUndefined();
+  });
+
+  it("rejects a workerUrl that is not a string or URL", () => {
+    expect(() => configure({ workerUrl: 42 as any })).toThrow(
+      expect.objectContaining({ type: "configuration-error" }),
+    );
+  });
+});
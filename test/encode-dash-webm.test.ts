@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { encodeDash } from "../src/stream/encode-dash";
+import { registerEncoderBackend } from "../src/core/encoder-backends";
+import type { DashOutput } from "../src/types";
+import { referenceBackend } from "./helpers/reference-backend";
+
+// WebM DASH through the real webm-muxer, which has to write the stream
+// monotonically for the segments to be cut from it as it comes
+
+const hex = (bytes: Uint8Array) =>
+  Array.from(bytes.subarray(0, 4), (b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+
+let unregister: (() => void) | undefined;
+
+afterEach(() => {
+  unregister?.();
+  unregister = undefined;
+});
+
+describe("encodeDash with WebM", () => {
+  it("cuts init and cluster segments from the streamed muxer output", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    const frames = Array.from({ length: 25 }, (_, i) => ({
+      width: 2,
+      height: 2,
+      data: new Uint8ClampedArray(16).fill(i),
+    })) as ImageData[];
+
+    const out: DashOutput[] = [];
+    for await (const item of encodeDash(frames, {
+      container: "webm",
+      frameRate: 10,
+      audio: false,
+      dash: { segmentDuration: 1 },
+    })) {
+      out.push(item);
+    }
+
+    const segments = out.filter((item) => item.type === "segment");
+    expect(out[0]).toMatchObject({ type: "init", name: "init.webm" });
+    expect(hex((out[0] as { data: Uint8Array }).data)).toBe("1a45dfa3");
+    expect(segments.length).toBe(3);
+    for (const segment of segments) {
+      // Each segment starts with a Cluster
+      expect(hex((segment as { data: Uint8Array }).data)).toBe("1f43b675");
+    }
+    const mpd = out[out.length - 1];
+    expect(mpd).toMatchObject({ type: "manifest", name: "manifest.mpd" });
+    expect((mpd as { content: string }).content).toContain(
+      'mediaPresentationDuration="PT2.500S"',
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { WebMSegmenter } from "../src/utils/webm-segmenter";
+import { encodeDash } from "../src/stream/encode-dash";
+import { encodeStream } from "../src/stream/encode-stream";
+import { DashOutput } from "../src/types";
+import { concat, initSegment, mediaSegment } from "./helpers/fmp4";
+import { element, uint, unknownSize, webmHead } from "./helpers/ebml";
+
+vi.mock("../src/stream/encode-stream", () => ({
+  encodeStream: vi.fn(),
+}));
+
+// One cluster per second with blocks 500 ms apart; odd ones of unknown size
+function cluster(index: number): Uint8Array {
+  const children = concat(
+    element(0xe7, uint(index * 1000)),
+    element(0xa3, [0x81, 0, 0, 0x80, 1, 2, 3]),
+    element(0xa3, [0x81, 0x01, 0xf4, 0x00, 4, 5, 6]),
+  );
+  return index % 2
+    ? concat(unknownSize(0x1f43b675), children)
+    : element(0x1f43b675, children);
+}
+
+const clusters = [0, 1, 2, 3, 4, 5].map(cluster);
+const webmFile = concat(webmHead, ...clusters);
+
+const fmp4File = concat(
+  initSegment([
+    { id: 1, timescale: 90_000, handler: "vide" },
+    { id: 2, timescale: 48_000, handler: "soun" },
+  ]),
+  mediaSegment(1, [
+    { trackId: 1, baseTime: 0, durations: Array(120).fill(3000) },
+  ]),
+  mediaSegment(2, [
+    { trackId: 1, baseTime: 360_000, durations: Array(100).fill(3000) },
+  ]),
+);
+
+function split(data: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.byteLength; offset += size) {
+    chunks.push(data.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+async function collect(
+  iterable: AsyncIterable<DashOutput>,
+): Promise<DashOutput[]> {
+  const out: DashOutput[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe("WebMSegmenter", () => {
+  it("groups clusters into segments of at least the segment duration", () => {
+    const segmenter = new WebMSegmenter(2);
+    const parts = split(webmFile, 5).flatMap((chunk) => segmenter.push(chunk));
+    parts.push(...segmenter.end());
+
+    expect(parts.map((part) => part.type)).toEqual([
+      "init",
+      "segment",
+      "segment",
+      "segment",
+    ]);
+    expect(parts[0]).toMatchObject({
+      data: webmHead,
+      video: { codec: "vp9", codedWidth: 640, codedHeight: 360 },
+    });
+    expect(parts[1]).toMatchObject({
+      data: concat(clusters[0], clusters[1]),
+      startTime: 0,
+      duration: 2,
+    });
+    expect(parts[2]).toMatchObject({ startTime: 2, duration: 2 });
+    // The last one ends one frame after its last block
+    expect(parts[3]).toMatchObject({
+      data: concat(clusters[4], clusters[5]),
+      startTime: 4,
+      duration: 2,
+    });
+  });
+});
+
+describe("encodeDash", () => {
+  beforeEach(() => {
+    vi.mocked(encodeStream).mockReset();
+    vi.mocked(encodeStream).mockImplementation(async function* () {
+      yield* split(fmp4File, 100);
+    });
+  });
+
+  it("yields a static MPD with the segment timeline at the end", async () => {
+    const out = await collect(encodeDash([]));
+
+    expect(out.map((item) => `${item.type}:${item.name}`)).toEqual([
+      "init:init.mp4",
+      "segment:segment1.m4s",
+      "segment:segment2.m4s",
+      "manifest:manifest.mpd",
+    ]);
+    expect(encodeStream).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({
+        container: "mp4",
+        mp4: { fragmented: true, fragmentDuration: 4 },
+      }),
+    );
+
+    const mpd = (out[3] as Extract<DashOutput, { type: "manifest" }>).content;
+    expect(mpd).toContain('type="static"');
+    expect(mpd).toContain('mediaPresentationDuration="PT7.333S"');
+    expect(mpd).toContain('mimeType="video/mp4"');
+    expect(mpd).toContain('codecs="avc1.42C01F,opus"');
+    expect(mpd).toContain('width="640" height="360"');
+    expect(mpd).toContain('audioSamplingRate="48000"');
+    expect(mpd).toContain(
+      'initialization="init.mp4" media="segment$Number$.m4s" startNumber="1"',
+    );
+    expect(mpd).toContain('<S t="0" d="4000"/>');
+    expect(mpd).toContain('<S t="4000" d="3333"/>');
+    expect(mpd).not.toContain("minimumUpdatePeriod");
+  });
+
+  it("updates a dynamic MPD after every segment", async () => {
+    const out = await collect(
+      encodeDash([], { dash: { type: "dynamic", liveWindow: 1 } }),
+    );
+    const manifests = out.filter(
+      (item): item is Extract<DashOutput, { type: "manifest" }> =>
+        item.type === "manifest",
+    );
+
+    expect(manifests.map((m) => m.ended)).toEqual([false, false, true]);
+    expect(manifests[0].content).toContain('type="dynamic"');
+    expect(manifests[0].content).toContain('minimumUpdatePeriod="PT4.000S"');
+    expect(manifests[0].content).toContain("availabilityStartTime=");
+    expect(manifests[1].content).toContain('startNumber="2"');
+    expect(manifests[1].content).not.toContain('<S t="0"');
+    expect(manifests[2].content).not.toContain("minimumUpdatePeriod");
+    expect(manifests[2].content).toContain("mediaPresentationDuration");
+  });
+
+  it("segments WebM output and requests key frames per segment", async () => {
+    vi.mocked(encodeStream).mockImplementation(async function* () {
+      yield* split(webmFile, 64);
+    });
+
+    const out = await collect(
+      encodeDash([], {
+        container: "webm",
+        frameRate: 25,
+        dash: { segmentDuration: 2 },
+      }),
+    );
+
+    expect(encodeStream).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({
+        container: "webm",
+        video: { keyFrameInterval: 50 },
+      }),
+    );
+    expect(out.map((item) => item.name)).toEqual([
+      "init.webm",
+      "segment1.webm",
+      "segment2.webm",
+      "segment3.webm",
+      "manifest.mpd",
+    ]);
+    const mpd = (out[4] as Extract<DashOutput, { type: "manifest" }>).content;
+    expect(mpd).toContain('mimeType="video/webm"');
+    expect(mpd).toContain('codecs="vp09.00.10.08"');
+  });
+
+  it("rejects containers without a DASH segment format", async () => {
+    await expect(
+      collect(encodeDash([], { container: "mkv" as any })),
+    ).rejects.toMatchObject({ type: "configuration-error" });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Fmp4Segmenter } from "../src/utils/fmp4-segmenter";
+import { encodeHls } from "../src/stream/encode-hls";
+import { encodeStream } from "../src/stream/encode-stream";
+import { HlsOutput } from "../src/types";
+import { box, concat, initSegment, mediaSegment } from "./helpers/fmp4";
+
+vi.mock("../src/stream/encode-stream", () => ({
+  encodeStream: vi.fn(),
+}));
+
+const tracks = [
+  { id: 1, timescale: 90_000, handler: "vide" as const },
+  { id: 2, timescale: 48_000, handler: "soun" as const },
+];
+
+const init = initSegment(tracks);
+const segments = [
+  mediaSegment(1, [
+    { trackId: 2, baseTime: 0, durations: { count: 300, duration: 1024 } },
+    { trackId: 1, baseTime: 0, durations: Array(180).fill(3000) },
+  ]),
+  mediaSegment(2, [
+    { trackId: 1, baseTime: 540_000, durations: Array(150).fill(3000) },
+  ]),
+];
+const file = concat(init, ...segments, box("mfra", [0, 0, 0, 0]));
+
+function split(data: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.byteLength; offset += size) {
+    chunks.push(data.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+async function collect(
+  iterable: AsyncIterable<HlsOutput>,
+): Promise<HlsOutput[]> {
+  const out: HlsOutput[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+describe("Fmp4Segmenter", () => {
+  it("reassembles arbitrary chunks into init and media segments", () => {
+    const segmenter = new Fmp4Segmenter();
+    const parts = split(file, 7).flatMap((chunk) => segmenter.push(chunk));
+    segmenter.end();
+
+    expect(parts.map((part) => part.type)).toEqual([
+      "init",
+      "segment",
+      "segment",
+    ]);
+    expect(parts[0].data).toEqual(init);
+    expect(parts[1].data).toEqual(segments[0]);
+    expect(parts[2].data).toEqual(segments[1]);
+  });
+
+  it("times segments by the video track", () => {
+    const segmenter = new Fmp4Segmenter();
+    const [, first, second] = segmenter.push(file);
+
+    expect(first).toMatchObject({ startTime: 0, duration: 6 });
+    expect(second).toMatchObject({ startTime: 6, duration: 5 });
+  });
+
+  it("rejects a stream that ends inside a segment", () => {
+    const segmenter = new Fmp4Segmenter();
+    segmenter.push(file.subarray(0, init.byteLength + 20));
+    expect(() => segmenter.end()).toThrow(/ended inside a segment/);
+  });
+});
+
+describe("encodeHls", () => {
+  beforeEach(() => {
+    vi.mocked(encodeStream).mockReset();
+    vi.mocked(encodeStream).mockImplementation(async function* () {
+      yield* split(file, 64);
+    });
+  });
+
+  it("yields the init segment, media segments and playlist updates", async () => {
+    const out = await collect(encodeHls([], { hls: { segmentDuration: 6 } }));
+
+    expect(out.map((item) => `${item.type}:${item.name}`)).toEqual([
+      "init:init.mp4",
+      "segment:segment0.m4s",
+      "playlist:playlist.m3u8",
+      "segment:segment1.m4s",
+      "playlist:playlist.m3u8",
+      "playlist:playlist.m3u8",
+    ]);
+    expect(out[3]).toMatchObject({ sequence: 1, startTime: 6, duration: 5 });
+
+    const live = out[2] as Extract<HlsOutput, { type: "playlist" }>;
+    expect(live.ended).toBe(false);
+    expect(live.content).toContain("#EXT-X-PLAYLIST-TYPE:EVENT");
+    expect(live.content).not.toContain("#EXT-X-ENDLIST");
+
+    const final = out[5] as Extract<HlsOutput, { type: "playlist" }>;
+    expect(final.ended).toBe(true);
+    expect(final.content).toBe(
+      [
+        "#EXTM3U",
+        "#EXT-X-VERSION:7",
+        "#EXT-X-TARGETDURATION:6",
+        "#EXT-X-MEDIA-SEQUENCE:0",
+        "#EXT-X-PLAYLIST-TYPE:VOD",
+        "#EXT-X-INDEPENDENT-SEGMENTS",
+        '#EXT-X-MAP:URI="init.mp4"',
+        "#EXTINF:6.000,",
+        "segment0.m4s",
+        "#EXTINF:5.000,",
+        "segment1.m4s",
+        "#EXT-X-ENDLIST",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("requests fragmented MP4 cut at the segment duration", async () => {
+    await collect(encodeHls([], { hls: { segmentDuration: 2 } }));
+
+    expect(encodeStream).toHaveBeenCalledWith(
+      [],
+      expect.objectContaining({
+        container: "mp4",
+        mp4: { fragmented: true, fragmentDuration: 2 },
+      }),
+    );
+  });
+
+  it("keeps a sliding window of segments for live playlists", async () => {
+    const out = await collect(
+      encodeHls([], {
+        hls: {
+          liveWindow: 1,
+          segmentName: (sequence) => `live/${sequence}.m4s`,
+        },
+      }),
+    );
+
+    const final = out[out.length - 1] as Extract<
+      HlsOutput,
+      { type: "playlist" }
+    >;
+    expect(final.content).toContain("#EXT-X-MEDIA-SEQUENCE:1");
+    expect(final.content).not.toContain("#EXT-X-PLAYLIST-TYPE");
+    expect(final.content).not.toContain("live/0.m4s");
+    expect(final.content).toContain("live/1.m4s");
+  });
+
+  it("rejects containers other than MP4", async () => {
+    await expect(
+      collect(encodeHls([], { container: "webm" })),
+    ).rejects.toMatchObject({ type: "configuration-error" });
+    expect(encodeStream).not.toHaveBeenCalled();
+  });
+});
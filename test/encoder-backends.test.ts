@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  findConstructor,
+  hasEncoderBackends,
+  registerEncoderBackend,
+} from "../src/core/encoder-backends";
+import { encode } from "../src/core/encode";
+import { createEncoderPool } from "../src/core/encoder-pool";
+import {
+  ReferenceFrame,
+  ReferenceVideoEncoder,
+  referenceBackend as backend,
+} from "./helpers/reference-backend";
+
+// Only the MP4 muxer is used here
+vi.mock("../src/muxers/webmmuxer", () => ({ WebMMuxerWrapper: vi.fn() }));
+
+let unregister: (() => void) | undefined;
+
+afterEach(() => {
+  unregister?.();
+  unregister = undefined;
+});
+
+describe("registerEncoderBackend", () => {
+  it("supplies classes ahead of the environment, latest first", () => {
+    unregister = registerEncoderBackend(backend);
+    const other = {
+      name: "other",
+      VideoEncoder: vi.fn() as unknown as typeof VideoEncoder,
+    };
+    const unregisterOther = registerEncoderBackend(other);
+
+    expect(hasEncoderBackends()).toBe(true);
+    expect(findConstructor("VideoEncoder")).toBe(other.VideoEncoder);
+    expect(findConstructor("VideoFrame")).toBe(ReferenceFrame);
+
+    unregisterOther();
+    expect(findConstructor("VideoEncoder")).toBe(ReferenceVideoEncoder);
+    unregister();
+    expect(hasEncoderBackends()).toBe(false);
+    expect(findConstructor("VideoEncoder")).toBe(globalThis.VideoEncoder);
+  });
+
+  it("rejects a backend without any class", () => {
+    expect(() => registerEncoderBackend({ name: "empty" })).toThrow(
+      expect.objectContaining({ type: "configuration-error" }),
+    );
+  });
+
+  it("runs encode() on the main thread with the backend", async () => {
+    unregister = registerEncoderBackend(backend);
+    const frames = [0, 1, 2].map((value) => ({
+      width: 2,
+      height: 2,
+      data: new Uint8ClampedArray(16).fill(value),
+    })) as ImageData[];
+
+    const output = await encode(frames, {
+      container: "mp4",
+      audio: false,
+      video: { codec: "avc" },
+    });
+
+    expect(String.fromCharCode(...output.subarray(4, 8))).toBe("ftyp");
+  });
+
+  it("runs pool encodes on the main thread with the backend", async () => {
+    unregister = registerEncoderBackend(backend);
+    const frames = [0, 1, 2].map((value) => ({
+      width: 2,
+      height: 2,
+      data: new Uint8ClampedArray(16).fill(value),
+    })) as ImageData[];
+    const pool = createEncoderPool({ size: 1 });
+
+    try {
+      const outputs = await Promise.all(
+        [0, 1].map(() =>
+          pool.encode(frames, {
+            container: "mp4",
+            audio: false,
+            video: { codec: "avc" },
+          }),
+        ),
+      );
+
+      for (const output of outputs) {
+        expect(String.fromCharCode(...output.subarray(4, 8))).toBe("ftyp");
+      }
+    } finally {
+      pool.close();
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createEncoderPool } from "../src/core/encoder-pool";
+import { encodeWith } from "../src/core/encode";
+import {
+  WorkerCommunicator,
+  WorkerJob,
+  WorkerProvider,
+} from "../src/worker/worker-communicator";
+
+vi.mock("../src/core/encode", () => ({ encodeWith: vi.fn() }));
+vi.mock("../src/stream/encode-stream", () => ({ encodeStreamWith: vi.fn() }));
+vi.mock("../src/worker/worker-communicator", () => {
+  const WorkerCommunicator = vi.fn(() => {
+    const communicator: any = {
+      createJob: vi.fn(() => ({ communicator, close: vi.fn() })),
+      terminate: vi.fn(),
+    };
+    return communicator;
+  });
+  return {
+    WorkerCommunicator,
+    // Each new pool member is a new worker
+    workersFor: vi.fn(() => ({
+      acquire: async () => new (WorkerCommunicator as any)().createJob(),
+      release: vi.fn(),
+    })),
+  };
+});
+
+// Jobs hold their worker until finish() is called with the outcome
+interface Job {
+  name: string;
+  job: WorkerJob;
+  worker: WorkerCommunicator;
+  finish(reusable?: boolean): void;
+}
+
+let started: Job[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  started = [];
+  vi.mocked(encodeWith).mockImplementation(
+    async (workers: WorkerProvider, source: any, options?: any) => {
+      const job = await workers.acquire(options?.signal);
+      return new Promise((resolve) => {
+        started.push({
+          name: source,
+          job,
+          worker: job.communicator,
+          finish: (reusable = true) => {
+            workers.release(job, reusable);
+            resolve(new Uint8Array([1]));
+          },
+        });
+      });
+    },
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.mocked(WorkerCommunicator).mockClear();
+});
+
+describe("createEncoderPool", () => {
+  it("caps concurrency and starts waiting jobs by priority", async () => {
+    const pool = createEncoderPool({ size: 2 });
+
+    const jobs = [
+      pool.encode("a" as any),
+      pool.encode("b" as any),
+      pool.encode("low" as any, { priority: -1 }),
+      pool.encode("c" as any),
+      pool.encode("high" as any, { priority: 5 }),
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started.map((job) => job.name)).toEqual(["a", "b"]);
+    expect(pool.running).toBe(2);
+    expect(pool.pending).toBe(3);
+
+    for (let i = 0; i < 5; i++) {
+      started[i].finish();
+      await vi.advanceTimersByTimeAsync(0);
+    }
+    await Promise.all(jobs);
+    expect(started.map((job) => job.name)).toEqual([
+      "a",
+      "b",
+      "high",
+      "c",
+      "low",
+    ]);
+    expect(WorkerCommunicator).toHaveBeenCalledTimes(2);
+  });
+
+  it("reuses warm workers until the idle timeout", async () => {
+    const pool = createEncoderPool({ size: 1, idleTimeout: 1000 });
+
+    const first = pool.encode("a" as any);
+    await vi.advanceTimersByTimeAsync(0);
+    started[0].finish();
+    await first;
+    expect(started[0].job.close).toHaveBeenCalled();
+
+    const second = pool.encode("b" as any);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started[1].worker).toBe(started[0].worker);
+    started[1].finish();
+    await second;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started[1].worker.terminate).toHaveBeenCalled();
+    expect(WorkerCommunicator).toHaveBeenCalledTimes(1);
+  });
+
+  it("terminates a worker that crashed", async () => {
+    const pool = createEncoderPool({ size: 1 });
+
+    const first = pool.encode("a" as any);
+    await vi.advanceTimersByTimeAsync(0);
+    started[0].finish(false);
+    await first;
+    expect(started[0].worker.terminate).toHaveBeenCalled();
+
+    pool.encode("b" as any);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started[1].worker).not.toBe(started[0].worker);
+  });
+
+  it("rejects waiting jobs on abort and on close", async () => {
+    const pool = createEncoderPool({ size: 1 });
+    const controller = new AbortController();
+
+    pool.encode("a" as any);
+    const aborted = pool.encode("b" as any, { signal: controller.signal });
+    const closed = pool.encode("c" as any);
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ type: "cancelled" });
+    expect(pool.pending).toBe(1);
+
+    pool.close();
+    await expect(closed).rejects.toMatchObject({ type: "cancelled" });
+    started[0].finish();
+    expect(started[0].worker.terminate).toHaveBeenCalled();
+  });
+
+  it("rejects invalid sizes", () => {
+    expect(() => createEncoderPool({ size: 0 })).toThrow(
+      expect.objectContaining({ type: "configuration-error" }),
+    );
+  });
+});
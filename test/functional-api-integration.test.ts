@@ -1,5 +1,13 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { encode, encodeStream, canEncode } from '../src/index';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  encode,
+  encodeStream,
+  canEncode,
+  createEncodeTransform,
+  encodeToReadableStream,
+  createEncoderPool,
+  configure,
+} from '../src/index';
 import { EncodeError } from '../src/types';
 
 // Setup actual mock worker
@@ -46,6 +54,24 @@ const createMockWorker = () => {
   return worker;
 };
 
+// Mock worker that posts the given dataChunk messages before finalizing
+const createStreamingWorker = (chunks: any[]) => {
+  const worker = createMockWorker();
+  const respond = worker.postMessage.getMockImplementation()!;
+  worker.postMessage.mockImplementation((data) => {
+    if (data.type !== 'finalize') return respond(data);
+    const send = (message: any) =>
+      worker.onmessage!(new MessageEvent('message', { data: message }));
+    setTimeout(() => {
+      for (const chunk of chunks) {
+        send({ type: 'dataChunk', container: 'mp4', ...chunk });
+      }
+      send({ type: 'finalized', output: null });
+    }, 1);
+  });
+  return worker;
+};
+
 // More advanced WebCodecs mocks
 const setupWebCodecsMocks = () => {
   const mockVideoEncoder = vi.fn().mockImplementation(() => ({
@@ -339,6 +365,110 @@ describe('Functional API Integration Tests', () => {
       expect(typeof stream[Symbol.asyncIterator]).toBe('function');
     });
 
+    it('should stream fragmented MP4 at the requested latency', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      for await (const _chunk of encodeStream(frames, {
+        latencyMode: 'quality',
+        mp4: { fragmented: true, fragmentDuration: 2 },
+      })) {
+        // drain
+      }
+
+      const [init] = worker.postMessage.mock.calls[0];
+      expect(init).toMatchObject({
+        type: 'initialize',
+        config: {
+          latencyMode: 'quality',
+          streaming: true,
+          mp4: { fragmented: true, fragmentDuration: 2 },
+        },
+      });
+    });
+
+    it('should yield detailed chunks when requested', async () => {
+      const worker = createStreamingWorker([
+        {
+          chunk: new Uint8Array([1, 2]),
+          offset: 0,
+          isHeader: true,
+          kind: 'init',
+          keyframe: false,
+        },
+        {
+          chunk: new Uint8Array([3]),
+          offset: 2,
+          isHeader: false,
+          kind: 'fragment',
+          keyframe: true,
+          timestampRange: { start: 0, end: 33333 },
+        },
+      ]);
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      const chunks = [];
+      for await (const chunk of encodeStream(frames, { yield: 'detailed' })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([
+        {
+          data: new Uint8Array([1, 2]),
+          offset: 0,
+          isHeader: true,
+          kind: 'init',
+          keyframe: false,
+        },
+        {
+          data: new Uint8Array([3]),
+          offset: 2,
+          isHeader: false,
+          kind: 'fragment',
+          keyframe: true,
+          timestampRange: { start: 0, end: 33333 },
+        },
+      ]);
+    });
+
+    it('should stop reading the source while output is not consumed', async () => {
+      const worker = createMockWorker();
+      const respond = worker.postMessage.getMockImplementation()!;
+      worker.postMessage.mockImplementation((data) => {
+        respond(data);
+        if (data.type !== 'addVideoFrame') return;
+        setTimeout(() => {
+          worker.onmessage!(new MessageEvent('message', {
+            data: { type: 'dataChunk', container: 'mp4', chunk: new Uint8Array(100) },
+          }));
+        }, 1);
+      });
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      let framesRead = 0;
+      async function* frames() {
+        for (let i = 0; i < 10; i++) {
+          framesRead++;
+          yield new (global.ImageData as any)(640, 480);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      }
+
+      const stream = encodeStream(frames(), { highWaterMark: 150 });
+      await stream.next();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(framesRead).toBeLessThan(10);
+
+      let remaining = 0;
+      for await (const _chunk of stream) {
+        remaining++;
+      }
+      expect(framesRead).toBe(10);
+      expect(remaining).toBe(9);
+    });
+
     it('should handle network errors gracefully', async () => {
       // More realistic test - boundary case of canEncode
       const unsupportedConfig = await canEncode({
@@ -349,6 +479,303 @@ describe('Functional API Integration Tests', () => {
     });
   });
 
+  describe('WHATWG Stream Tests', () => {
+    const readAll = async <T,>(readable: ReadableStream<T>): Promise<T[]> => {
+      const reader = readable.getReader();
+      const out: T[] = [];
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return out;
+        out.push(value);
+      }
+    };
+
+    it('should encode a source into a ReadableStream', async () => {
+      const worker = createStreamingWorker([
+        { chunk: new Uint8Array([1, 2]), offset: 0, isHeader: true },
+        { chunk: new Uint8Array([3]), offset: 2, isHeader: false },
+      ]);
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      const chunks = await readAll(encodeToReadableStream(frames));
+
+      expect(chunks).toEqual([new Uint8Array([1, 2]), new Uint8Array([3])]);
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should encode the frames written to a transform', async () => {
+      const worker = createStreamingWorker([
+        { chunk: new Uint8Array([1, 2]), offset: 0, isHeader: true, kind: 'init' },
+      ]);
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const transform = createEncodeTransform({ width: 640, height: 480 });
+
+      const output = readAll(transform.readable);
+      const writer = transform.writable.getWriter();
+      await writer.write(new (global.ImageData as any)(640, 480));
+      await writer.write(new (global.ImageData as any)(640, 480));
+      await writer.close();
+
+      expect(await output).toEqual([
+        expect.objectContaining({ data: new Uint8Array([1, 2]), kind: 'init' }),
+      ]);
+      const frameMessages = worker.postMessage.mock.calls.filter(
+        ([message]) => message.type === 'addVideoFrame',
+      );
+      expect(frameMessages).toHaveLength(2);
+    });
+
+    it('should cancel the encode and fail writes when the output is cancelled', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const transform = createEncodeTransform({ width: 640, height: 480 });
+      const writer = transform.writable.getWriter();
+
+      // The second write is taken once the encoder has the first frame
+      await writer.write(new (global.ImageData as any)(640, 480));
+      await writer.write(new (global.ImageData as any)(640, 480));
+      await transform.readable.cancel(new Error('no longer needed'));
+
+      expect(worker.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cancel' }),
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+      await expect(
+        writer.write(new (global.ImageData as any)(640, 480)),
+      ).rejects.toThrow('no longer needed');
+    });
+  });
+
+  describe('Encoder Pool Tests', () => {
+    it('should run consecutive encodes on the same worker', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const pool = createEncoderPool({ size: 1 });
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      await pool.encode(frames);
+      await pool.encode(frames);
+      pool.close();
+
+      expect(global.Worker).toHaveBeenCalledTimes(1);
+      const initializations = worker.postMessage.mock.calls.filter(
+        ([message]) => message.type === 'initialize',
+      );
+      expect(initializations).toHaveLength(2);
+      expect(worker.terminate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Worker Injection Tests', () => {
+    afterEach(() => {
+      configure({ workerUrl: undefined });
+    });
+
+    it('should run jobs on a passed Worker without terminating it', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn();
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      await encode(frames, { worker: worker as any });
+      await encode(frames, { worker: worker as any });
+
+      expect(global.Worker).not.toHaveBeenCalled();
+      const jobIds = worker.postMessage.mock.calls
+        .filter(([message]) => message.type === 'initialize')
+        .map(([message]) => message.jobId);
+      expect(new Set(jobIds).size).toBe(2);
+      expect(worker.terminate).not.toHaveBeenCalled();
+    });
+
+    it('should start a worker per encode from a factory', async () => {
+      const factory = vi.fn(() => createMockWorker() as any);
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      await encode(frames, { worker: factory });
+      await encode(frames, { worker: factory });
+
+      expect(factory).toHaveBeenCalledTimes(2);
+      const [first] = factory.mock.results.map((result) => result.value);
+      expect(first.terminate).toHaveBeenCalled();
+    });
+
+    it('should prefer the per-call worker over configure()', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      configure({ workerUrl: '/assets/encoder-worker.js' });
+      await encode(frames);
+      expect(global.Worker).toHaveBeenLastCalledWith(
+        '/assets/encoder-worker.js',
+        { type: 'module' },
+      );
+
+      await encode(frames, { worker: '/v2/encoder-worker.js' });
+      expect(global.Worker).toHaveBeenLastCalledWith('/v2/encoder-worker.js', {
+        type: 'module',
+      });
+    });
+  });
+
+  describe('Output Tests', () => {
+    it('should write positional chunks to a file stream', async () => {
+      const worker = createStreamingWorker([
+        { chunk: new Uint8Array([0, 0, 0, 0]), offset: 0, isHeader: true },
+        { chunk: new Uint8Array([5, 6]), offset: 4, isHeader: false },
+        { chunk: new Uint8Array([0, 0, 0, 6]), offset: 0, isHeader: true },
+      ]);
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const writes: any[] = [];
+      const file = {
+        write: vi.fn(async (command) => {
+          writes.push(command);
+        }),
+        seek: vi.fn(),
+        close: vi.fn().mockResolvedValue(undefined),
+        abort: vi.fn(),
+      };
+      const handle = { createWritable: vi.fn().mockResolvedValue(file) };
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      await expect(
+        encode(frames, { output: handle as any }),
+      ).resolves.toBeUndefined();
+
+      expect(writes.map((w) => w.position)).toEqual([0, 4, 0]);
+      expect(writes[2]).toEqual({
+        type: 'write',
+        position: 0,
+        data: new Uint8Array([0, 0, 0, 6]),
+      });
+      expect(file.close).toHaveBeenCalled();
+      const [init] = worker.postMessage.mock.calls[0];
+      expect(init.config).toMatchObject({
+        streaming: true,
+        seekableOutput: true,
+      });
+    });
+
+    it('should fail when a WritableStream would have to seek back', async () => {
+      const worker = createStreamingWorker([
+        { chunk: new Uint8Array([1, 2]), offset: 0, isHeader: true },
+        { chunk: new Uint8Array([3]), offset: 0, isHeader: true },
+      ]);
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const written: Uint8Array[] = [];
+      const abort = vi.fn();
+      const stream = new WritableStream<Uint8Array>({
+        write(chunk) {
+          written.push(chunk);
+        },
+        abort,
+      });
+      const frames = [new (global.ImageData as any)(640, 480)];
+
+      const error = await encode(frames, { output: stream }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(EncodeError);
+      expect(error.type).toBe('muxing-failed');
+      expect(written).toEqual([new Uint8Array([1, 2])]);
+      expect(abort).toHaveBeenCalled();
+      const [init] = worker.postMessage.mock.calls[0];
+      expect(init.config.seekableOutput).toBe(false);
+    });
+
+    it('should stop reading the source while the output is behind', async () => {
+      const worker = createMockWorker();
+      const respond = worker.postMessage.getMockImplementation()!;
+      // 4 MiB of output per frame, a quarter of what may wait to be written
+      const chunk = new Uint8Array(4 * 1024 * 1024);
+      let sent = 0;
+      let written = 0;
+      let behind = 0;
+      worker.postMessage.mockImplementation((data) => {
+        if (data.type !== 'addVideoFrame') return respond(data);
+        worker.onmessage!(
+          new MessageEvent('message', {
+            data: {
+              type: 'dataChunk',
+              container: 'mp4',
+              chunk,
+              offset: sent++ * chunk.byteLength,
+              isHeader: false,
+            },
+          }),
+        );
+        behind = Math.max(behind, sent - written);
+      });
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const stream = new WritableStream<Uint8Array>({
+        async write() {
+          await new Promise((resolve) => setTimeout(resolve, 2));
+          written++;
+        },
+      });
+      const frames = Array.from(
+        { length: 12 },
+        () => new (global.ImageData as any)(640, 480),
+      );
+
+      await encode(frames, { output: stream });
+
+      expect(written).toBe(12);
+      expect(behind).toBeLessThanOrEqual(5);
+    });
+
+    it('should discard the output when aborted while waiting for a worker', async () => {
+      global.Worker = vi.fn().mockImplementation(() => createMockWorker());
+      const pool = createEncoderPool({ size: 1 });
+      // Holds the pool's only worker until released
+      let release!: () => void;
+      const held = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      async function* busy() {
+        yield new (global.ImageData as any)(640, 480);
+        await held;
+      }
+      const first = pool.encode(busy());
+      await vi.waitFor(() => expect(pool.running).toBe(1));
+
+      const abort = vi.fn();
+      const stream = new WritableStream<Uint8Array>({ abort });
+      const controller = new AbortController();
+      const second = pool.encode([new (global.ImageData as any)(640, 480)], {
+        output: stream,
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(pool.pending).toBe(1));
+      controller.abort();
+
+      await expect(second).rejects.toMatchObject({ type: 'cancelled' });
+      expect(abort).toHaveBeenCalled();
+      release();
+      await first;
+      pool.close();
+    });
+
+    it('should size a memoryBudget output from the frame count at initialize', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const frames = Array.from(
+        { length: 3 },
+        () => new (global.ImageData as any)(640, 480),
+      );
+
+      await encode(frames, { memoryBudget: 1024 });
+
+      // The worker spills from the start when the expected size is over budget
+      const [init] = worker.postMessage.mock.calls[0];
+      expect(init).toMatchObject({
+        type: 'initialize',
+        totalFrames: 3,
+        config: { memoryBudget: 1024 },
+      });
+    });
+  });
+
   describe('Quality Presets - Detailed Tests', () => {
     let testFrame: any;
 
@@ -412,6 +839,414 @@ describe('Functional API Integration Tests', () => {
     });
   });
 
+  describe('Cancellation Tests', () => {
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const onError = vi.fn();
+
+      await expect(
+        encode([new (global.ImageData as any)(640, 480)], {
+          signal: controller.signal,
+          onError,
+        }),
+      ).rejects.toMatchObject({ type: 'cancelled' });
+
+      expect(global.Worker).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.any(EncodeError));
+    });
+
+    it('should stop source iteration and send cancel to the worker on abort', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      const controller = new AbortController();
+      let yielded = 0;
+      async function* frames() {
+        for (let i = 0; i < 10; i++) {
+          yielded++;
+          if (i === 2) {
+            controller.abort();
+          }
+          yield new (global.ImageData as any)(640, 480);
+        }
+      }
+
+      const error = await encode(frames(), {
+        signal: controller.signal,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(EncodeError);
+      expect(error.type).toBe('cancelled');
+      expect(yielded).toBe(3);
+      expect(worker.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cancel' }),
+      );
+      expect(worker.postMessage).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'finalize' }),
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should reject encodeStream with a cancelled error on abort', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      const controller = new AbortController();
+      async function* frames() {
+        yield new (global.ImageData as any)(640, 480);
+        controller.abort('user stopped export');
+        yield new (global.ImageData as any)(640, 480);
+      }
+
+      const consume = async () => {
+        for await (const _chunk of encodeStream(frames(), {
+          signal: controller.signal,
+        })) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({
+        type: 'cancelled',
+        message: 'Encoding was cancelled: user stopped export',
+      });
+      expect(worker.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cancel' }),
+      );
+      expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should close the frame pulled from the source when aborted', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      const controller = new AbortController();
+      const pulled = new (global.VideoFrame as any)({ width: 640, height: 480 });
+      // Frames made by the library stay plain objects; only `pulled` is a
+      // VideoFrame to the library
+      const VideoFrameMock = vi
+        .fn()
+        .mockImplementation((global.VideoFrame as any).getMockImplementation());
+      Object.setPrototypeOf(pulled, VideoFrameMock.prototype);
+      global.VideoFrame = VideoFrameMock as any;
+      async function* frames() {
+        yield new (global.ImageData as any)(640, 480);
+        controller.abort();
+        yield pulled;
+      }
+
+      const consume = async () => {
+        for await (const _chunk of encodeStream(frames(), {
+          signal: controller.signal,
+        })) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({ type: 'cancelled' });
+      expect(pulled.close).toHaveBeenCalled();
+      expect(
+        worker.postMessage.mock.calls.filter(
+          ([message]) => message.type === 'addVideoFrame',
+        ),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('Timed Media Sources', () => {
+    class MockAudioData {
+      format = 'f32-planar';
+      sampleRate = 48000;
+      numberOfFrames = 1024;
+      numberOfChannels = 2;
+      duration = 21333;
+      close = vi.fn();
+      clone = vi.fn();
+      constructor(public timestamp: number) {}
+    }
+
+    it('should keep caller-provided timestamps and send audio samples', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const left = new Float32Array(480);
+      const right = new Float32Array(480);
+
+      async function* media() {
+        const frame = new (global.ImageData as any)(640, 480);
+        yield { type: 'video' as const, frame, timestamp: 0, duration: 40000 };
+        yield { type: 'audio' as const, data: [left, right], sampleRate: 48000 };
+        yield { type: 'video' as const, frame, timestamp: 100000 };
+        yield { type: 'audio' as const, data: [left, right], sampleRate: 48000 };
+        // Untimed frames follow the previous one
+        yield frame;
+      }
+
+      await encode(media(), { frameRate: 25 });
+
+      const timings = (global.VideoFrame as any).mock.calls.map(
+        ([, init]: [unknown, VideoFrameInit]) => [init.timestamp, init.duration],
+      );
+      expect(timings).toEqual([
+        [0, 40000],
+        [100000, 40000],
+        [140000, 40000],
+      ]);
+
+      const audioMessages = worker.postMessage.mock.calls
+        .map(([message]) => message)
+        .filter((m) => m.type === 'addAudioData');
+      expect(audioMessages).toHaveLength(2);
+      expect(audioMessages[0]).toMatchObject({
+        audioData: [left, right],
+        format: 'f32-planar',
+        timestamp: 0,
+        sampleRate: 48000,
+        numberOfFrames: 480,
+        numberOfChannels: 2,
+      });
+      expect(audioMessages[1].timestamp).toBe(10000);
+    });
+
+    it('should close AudioData items once they are sent', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const items = [0, 21333].map((timestamp) =>
+        new MockAudioData(timestamp),
+      );
+      global.AudioData = MockAudioData as any;
+
+      async function* media() {
+        yield new (global.ImageData as any)(640, 480);
+        yield* items;
+      }
+
+      await encode(media());
+
+      const audioMessages = worker.postMessage.mock.calls
+        .map(([message]) => message)
+        .filter((m) => m.type === 'addAudioData');
+      expect(audioMessages.map((m) => m.timestamp)).toEqual([0, 21333]);
+      for (const item of items) {
+        expect(item.close).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it('should close the first item and end the source when its config is rejected', async () => {
+      global.AudioData = MockAudioData as any;
+      const first = new MockAudioData(0);
+      let ended = false;
+
+      async function* media() {
+        try {
+          yield first;
+          yield new MockAudioData(21333);
+        } finally {
+          ended = true;
+        }
+      }
+
+      await expect(
+        encode(media(), { memoryBudget: -1 }),
+      ).rejects.toMatchObject({ type: 'configuration-error' });
+      expect(first.close).toHaveBeenCalledTimes(1);
+      expect(ended).toBe(true);
+    });
+
+    it('should close the first item when encodeStream rejects its config', async () => {
+      global.AudioData = MockAudioData as any;
+      const first = new MockAudioData(0);
+      let ended = false;
+
+      async function* media() {
+        try {
+          yield first;
+        } finally {
+          ended = true;
+        }
+      }
+
+      await expect(async () => {
+        for await (const _chunk of encodeStream(media(), { memoryBudget: -1 })) {
+          // Nothing is produced
+        }
+      }).rejects.toMatchObject({ type: 'configuration-error' });
+      expect(first.close).toHaveBeenCalledTimes(1);
+      expect(ended).toBe(true);
+    });
+  });
+
+  describe('Audio-Only Sources', () => {
+    it('should encode planar PCM without a video track', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+      const samples = {
+        data: [new Float32Array(4800), new Float32Array(4800)],
+        sampleRate: 48000,
+      };
+
+      const result = await encode(samples, { container: 'mp4' });
+
+      expect(result).toBeInstanceOf(Uint8Array);
+      const messages = worker.postMessage.mock.calls.map(([message]) => message);
+      expect(messages[0]).toMatchObject({
+        type: 'initialize',
+        config: { videoBitrate: 0, sampleRate: 48000, channels: 2 },
+      });
+      const audioMessages = messages.filter((m) => m.type === 'addAudioData');
+      // 100 ms in 20 ms chunks
+      expect(audioMessages).toHaveLength(5);
+      expect(audioMessages[4].timestamp).toBe(80000);
+      expect(messages.some((m) => m.type === 'addVideoFrame')).toBe(false);
+    });
+
+    it('should encode an iterable that starts with audio as audio-only with video: false', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      async function* pcm() {
+        for (let i = 0; i < 3; i++) {
+          yield {
+            type: 'audio' as const,
+            data: [new Float32Array(1024)],
+            sampleRate: 16000,
+          };
+        }
+      }
+
+      await encode(pcm(), { video: false });
+
+      const messages = worker.postMessage.mock.calls.map(([message]) => message);
+      expect(messages[0].config).toMatchObject({
+        width: 0,
+        videoBitrate: 0,
+        sampleRate: 16000,
+        channels: 1,
+      });
+      expect(messages.filter((m) => m.type === 'addAudioData')).toHaveLength(3);
+    });
+
+    it('should keep video for an interleaved iterable that starts with audio', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      async function* media() {
+        for (let i = 0; i < 2; i++) {
+          yield {
+            type: 'audio' as const,
+            data: [new Float32Array(1024)],
+            sampleRate: 16000,
+          };
+          yield new (global.ImageData as any)(320, 240);
+        }
+      }
+
+      await encode(media(), { width: 320, height: 240 });
+
+      const messages = worker.postMessage.mock.calls.map(([message]) => message);
+      expect(messages[0].config).toMatchObject({
+        width: 320,
+        height: 240,
+        sampleRate: 16000,
+        channels: 1,
+      });
+      expect(messages[0].config.videoBitrate).toBeGreaterThan(0);
+      expect(messages.filter((m) => m.type === 'addAudioData')).toHaveLength(2);
+      expect(messages.filter((m) => m.type === 'addVideoFrame')).toHaveLength(2);
+    });
+
+    it('should reject video frames when video is disabled', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      async function* media() {
+        yield {
+          type: 'audio' as const,
+          data: [new Float32Array(1024)],
+          sampleRate: 16000,
+        };
+        yield new (global.ImageData as any)(320, 240);
+      }
+
+      await expect(encode(media(), { video: false })).rejects.toMatchObject({
+        type: 'invalid-input',
+      });
+      const messages = worker.postMessage.mock.calls.map(([message]) => message);
+      expect(messages.some((m) => m.type === 'addVideoFrame')).toBe(false);
+    });
+  });
+
+  describe('Encoded Chunk Sources', () => {
+    class MockEncodedVideoChunk {
+      constructor(init: any) {
+        Object.assign(this, init);
+      }
+    }
+    class MockEncodedAudioChunk {
+      constructor(init: any) {
+        Object.assign(this, init);
+      }
+    }
+
+    beforeEach(() => {
+      global.EncodedVideoChunk = MockEncodedVideoChunk as any;
+      global.EncodedAudioChunk = MockEncodedAudioChunk as any;
+    });
+
+    const videoMeta = {
+      decoderConfig: { codec: 'avc1.64001F', codedWidth: 1280, codedHeight: 720 },
+    };
+    const audioMeta = {
+      decoderConfig: { codec: 'mp4a.40.2', sampleRate: 44100, numberOfChannels: 2 },
+    };
+
+    it('should send chunks and decoder configs straight to the muxer', async () => {
+      const worker = createMockWorker();
+      global.Worker = vi.fn().mockReturnValue(worker);
+
+      async function* chunks() {
+        yield {
+          video: new MockEncodedVideoChunk({ type: 'key', timestamp: 0 }),
+          audio: new MockEncodedAudioChunk({ type: 'key', timestamp: 0 }),
+          meta: { video: videoMeta, audio: audioMeta },
+        };
+        yield { video: new MockEncodedVideoChunk({ type: 'delta', timestamp: 33333 }) };
+      }
+
+      const result = await encode(chunks() as any);
+
+      expect(result).toBeInstanceOf(Uint8Array);
+      const messages = worker.postMessage.mock.calls.map(([message]) => message);
+      expect(messages[0]).toMatchObject({
+        type: 'initialize',
+        config: {
+          width: 1280,
+          height: 720,
+          sampleRate: 44100,
+          codec: { video: 'avc', audio: 'aac' },
+          passthrough: { video: true, audio: true },
+        },
+      });
+      const videoMessages = messages.filter((m) => m.type === 'addVideoChunk');
+      expect(videoMessages.map((m) => m.metadata)).toEqual([videoMeta, undefined]);
+      expect(messages.filter((m) => m.type === 'addAudioChunk')).toHaveLength(1);
+      expect(messages.some((m) => m.type === 'addVideoFrame')).toBe(false);
+    });
+
+    it('should reject codecs the container cannot hold', async () => {
+      async function* chunks() {
+        yield {
+          video: new MockEncodedVideoChunk({ type: 'key', timestamp: 0 }),
+          meta: { video: { decoderConfig: { codec: 'vp8' } } },
+        };
+      }
+
+      await expect(
+        encode(chunks() as any, { container: 'mp4' }),
+      ).rejects.toMatchObject({ type: 'not-supported' });
+    });
+  });
+
   describe('Resource Management Tests', () => {
     it('should properly clean up resources on completion', async () => {
       // Simpler test - verify mocks are set up correctly
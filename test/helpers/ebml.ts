@@ -0,0 +1,59 @@
+/**
+ * Minimal EBML elements for WebM segmenter and chunk info tests
+ */
+
+import { concat } from "./fmp4";
+
+// EBML element with its ID written as given (marker included) and an 8-byte
+// size
+export function element(id: number, ...payload: (Uint8Array | number[])[]) {
+  const idBytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    idBytes.unshift(value & 0xff);
+  }
+  const body = concat(
+    ...payload.map((p) => (p instanceof Uint8Array ? p : new Uint8Array(p))),
+  );
+  const size = [0x01, 0, 0, 0, 0, 0, 0, 0];
+  let remaining = body.byteLength;
+  for (let i = 7; i > 0; i--) {
+    size[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  return concat(new Uint8Array(idBytes), new Uint8Array(size), body);
+}
+
+// Header of a 4-byte ID element of unknown size
+export function unknownSize(id: number): Uint8Array {
+  const header = element(id);
+  header.set([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], 4);
+  return header;
+}
+
+export const text = (value: string) => new TextEncoder().encode(value);
+
+export const uint = (value: number, length = 2) => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+};
+
+// EBML header, Segment of unknown size, Info and one VP9 track at 640x360
+export const webmHead = concat(
+  element(0x1a45dfa3, element(0x4282, text("webm"))),
+  unknownSize(0x18538067),
+  element(0x1549a966, element(0x2ad7b1, uint(1_000_000, 3))),
+  element(
+    0x1654ae6b,
+    element(
+      0xae,
+      element(0xd7, [1]),
+      element(0x83, [1]),
+      element(0x86, text("V_VP9")),
+      element(0xe0, element(0xb0, uint(640)), element(0xba, uint(360))),
+    ),
+  ),
+);
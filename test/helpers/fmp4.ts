@@ -0,0 +1,143 @@
+/**
+ * Minimal fragmented MP4 files for segmenter and chunk info tests
+ */
+
+export function box(
+  type: string,
+  ...children: (Uint8Array | number[])[]
+): Uint8Array {
+  const parts = children.map((c) =>
+    c instanceof Uint8Array ? c : new Uint8Array(c),
+  );
+  const size = 8 + parts.reduce((n, p) => n + p.byteLength, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(new TextEncoder().encode(type), 4);
+  let offset = 8;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+export function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+export const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const fourcc = (type: string) => new TextEncoder().encode(type);
+
+export interface TestTrack {
+  id: number;
+  timescale: number;
+  handler: "vide" | "soun";
+}
+
+// avc1 at 640x360 with avcC for Constrained Baseline level 3.1, or Opus
+function sampleEntry(handler: TestTrack["handler"]): Uint8Array {
+  if (handler === "vide") {
+    const fields = new Uint8Array(78);
+    new DataView(fields.buffer).setUint16(24, 640);
+    new DataView(fields.buffer).setUint16(26, 360);
+    return box("avc1", fields, box("avcC", [1, 0x42, 0xc0, 0x1f, 0xff]));
+  }
+  const fields = new Uint8Array(28);
+  new DataView(fields.buffer).setUint16(16, 2);
+  new DataView(fields.buffer).setUint32(24, 48000 * 65536);
+  return box(
+    "Opus",
+    fields,
+    box("dOps", [0, 2, 0x01, 0x38, 0, 0, 0xbb, 0x80, 0, 0, 0]),
+  );
+}
+
+export function initSegment(tracks: TestTrack[]): Uint8Array {
+  const traks = tracks.map((track) =>
+    box(
+      "trak",
+      box("tkhd", [0, 0, 0, 3], u32(0), u32(0), u32(track.id), u32(0)),
+      box(
+        "mdia",
+        box("mdhd", [0, 0, 0, 0], u32(0), u32(0), u32(track.timescale), u32(0)),
+        box("hdlr", [0, 0, 0, 0], u32(0), fourcc(track.handler), [0]),
+        box(
+          "minf",
+          box(
+            "stbl",
+            box("stsd", [0, 0, 0, 0], u32(1), sampleEntry(track.handler)),
+          ),
+        ),
+      ),
+    ),
+  );
+  return concat(
+    box("ftyp", fourcc("iso6"), u32(0), fourcc("iso6")),
+    box("moov", box("mvhd", [0, 0, 0, 0]), ...traks),
+  );
+}
+
+export interface TestFragment {
+  trackId: number;
+  baseTime: number;
+  /** One entry per sample, or a sample count with a default duration */
+  durations: number[] | { count: number; duration: number };
+  /** Written as first_sample_flags in the trun when set */
+  firstSampleFlags?: number;
+}
+
+export function mediaSegment(
+  sequence: number,
+  fragments: TestFragment[],
+  payload = new Uint8Array([1, 2, 3, 4]),
+): Uint8Array {
+  const trafs = fragments.map((fragment) => {
+    const { durations } = fragment;
+    const perSample = Array.isArray(durations);
+    const tfhd = perSample
+      ? box("tfhd", [0, 0, 0, 0], u32(fragment.trackId))
+      : box(
+          "tfhd",
+          [0, 0, 0, 0x08],
+          u32(fragment.trackId),
+          u32(durations.duration),
+        );
+    const flags = fragment.firstSampleFlags;
+    const firstFlags = flags === undefined ? [] : [u32(flags)];
+    const trun = perSample
+      ? box(
+          "trun",
+          [0, 0, 0x01, flags === undefined ? 0 : 0x04],
+          u32(durations.length),
+          ...firstFlags,
+          ...durations.map(u32),
+        )
+      : box(
+          "trun",
+          [0, 0, 0, flags === undefined ? 0 : 0x04],
+          u32(durations.count),
+          ...firstFlags,
+        );
+    return box(
+      "traf",
+      tfhd,
+      box("tfdt", [1, 0, 0, 0], u32(0), u32(fragment.baseTime)),
+      trun,
+    );
+  });
+  return concat(
+    box("moof", box("mfhd", [0, 0, 0, 0], u32(sequence)), ...trafs),
+    box("mdat", payload),
+  );
+}
@@ -0,0 +1,150 @@
+// Deterministic software stand-ins for the WebCodecs classes, for encodes
+// without WebCodecs
+
+function bytesOf(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+export class ReferenceFrame {
+  readonly data: Uint8ClampedArray;
+  readonly codedWidth: number;
+  readonly codedHeight: number;
+  readonly displayWidth: number;
+  readonly displayHeight: number;
+  readonly timestamp: number;
+  readonly duration: number | null;
+
+  constructor(
+    source: Uint8ClampedArray | ReferenceFrame,
+    init: VideoFrameBufferInit | VideoFrameInit,
+  ) {
+    if (source instanceof ReferenceFrame) {
+      // A copy with the timing of `init`, as VideoFrame(image, init) makes
+      this.data = source.data;
+      this.codedWidth = this.displayWidth = source.codedWidth;
+      this.codedHeight = this.displayHeight = source.codedHeight;
+      this.timestamp = init.timestamp ?? source.timestamp;
+      this.duration = init.duration ?? source.duration;
+      return;
+    }
+    const bufferInit = init as VideoFrameBufferInit;
+    this.data = source;
+    this.codedWidth = this.displayWidth = bufferInit.codedWidth;
+    this.codedHeight = this.displayHeight = bufferInit.codedHeight;
+    this.timestamp = bufferInit.timestamp;
+    this.duration = bufferInit.duration ?? null;
+  }
+
+  clone() {
+    return new ReferenceFrame(this, {});
+  }
+
+  close() {}
+}
+
+export class ReferenceChunk {
+  readonly type: EncodedVideoChunkType;
+  readonly timestamp: number;
+  readonly duration: number | null;
+  readonly byteLength: number;
+  private data: Uint8Array;
+
+  constructor(init: EncodedVideoChunkInit) {
+    this.type = init.type;
+    this.timestamp = init.timestamp;
+    this.duration = init.duration ?? null;
+    this.data = bytesOf(init.data).slice();
+    this.byteLength = this.data.byteLength;
+  }
+
+  copyTo(destination: AllowSharedBufferSource) {
+    bytesOf(destination).set(this.data);
+  }
+}
+
+export class ReferenceVideoEncoder {
+  static isConfigSupported = async (config: VideoEncoderConfig) => ({
+    supported: true,
+    config,
+  });
+
+  state = "unconfigured";
+  encodeQueueSize = 0;
+  private config: VideoEncoderConfig | null = null;
+
+  constructor(private init: VideoEncoderInit) {}
+
+  configure(config: VideoEncoderConfig) {
+    this.config = config;
+    this.state = "configured";
+  }
+
+  encode(frame: ReferenceFrame, options?: VideoEncoderEncodeOptions) {
+    const chunk = new ReferenceChunk({
+      type: options?.keyFrame ? "key" : "delta",
+      timestamp: frame.timestamp,
+      duration: frame.duration ?? undefined,
+      data: new Uint8Array([0, 0, 0, 2, 0x65, frame.data[0]]),
+    });
+    this.init.output(chunk as any, {
+      decoderConfig: {
+        codec: this.config!.codec,
+        description: new Uint8Array([1, 0x42, 0, 0x1f, 0xff, 0xe0, 0]),
+      },
+    });
+  }
+
+  async flush() {}
+
+  close() {
+    this.state = "closed";
+  }
+}
+
+export class ReferenceAudioData {
+  readonly format = "f32-planar";
+  readonly sampleRate: number;
+  readonly numberOfFrames: number;
+  readonly numberOfChannels: number;
+  readonly timestamp: number;
+  readonly duration: number;
+  private samples: Float32Array;
+
+  constructor(init: AudioDataInit) {
+    this.sampleRate = init.sampleRate;
+    this.numberOfFrames = init.numberOfFrames;
+    this.numberOfChannels = init.numberOfChannels;
+    this.timestamp = init.timestamp;
+    this.duration = (init.numberOfFrames / init.sampleRate) * 1_000_000;
+    // Interleaved 'f32', as the worker builds it
+    const bytes = bytesOf(init.data).slice();
+    this.samples = new Float32Array(bytes.buffer);
+  }
+
+  copyTo(
+    destination: AllowSharedBufferSource,
+    options: AudioDataCopyToOptions,
+  ) {
+    const plane = destination as Float32Array;
+    for (let i = 0; i < this.numberOfFrames; i++) {
+      plane[i] = this.samples[i * this.numberOfChannels + options.planeIndex];
+    }
+  }
+
+  clone() {
+    return this;
+  }
+
+  close() {}
+}
+
+export const referenceBackend = {
+  name: "reference",
+  VideoEncoder: ReferenceVideoEncoder as unknown as typeof VideoEncoder,
+  VideoFrame: ReferenceFrame as unknown as typeof VideoFrame,
+  AudioData: ReferenceAudioData as unknown as typeof AudioData,
+  EncodedVideoChunk: ReferenceChunk as unknown as typeof EncodedVideoChunk,
+  EncodedAudioChunk: ReferenceChunk as unknown as typeof EncodedAudioChunk,
+};
@@ -13,6 +13,18 @@ vi.mock("../../src/muxers/mp4muxer", () => ({
 vi.mock("../../src/muxers/webmmuxer", () => ({
   WebMMuxerWrapper: vi.fn(() => mockMuxerInstanceForWorker),
 }));
+vi.mock("../../src/muxers/wavmuxer", () => ({
+  WavMuxerWrapper: vi.fn(() => mockMuxerInstanceForWorker),
+}));
+vi.mock("../../src/muxers/adtsmuxer", () => ({
+  AdtsMuxerWrapper: vi.fn(() => mockMuxerInstanceForWorker),
+}));
+vi.mock("../../src/muxers/oggmuxer", () => ({
+  OggMuxerWrapper: vi.fn(() => mockMuxerInstanceForWorker),
+}));
+vi.mock("../../src/muxers/mp3muxer", () => ({
+  Mp3MuxerWrapper: vi.fn(() => mockMuxerInstanceForWorker),
+}));
 
 export const mockSelf = {
   postMessage: vi.fn(),
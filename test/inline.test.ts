@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+// The entry configures the worker when it is imported, so each test loads
+// fresh copies of it and of the settings module
+async function importInline() {
+  vi.resetModules();
+  const inline = await import("../src/inline");
+  const { getSettings } = await import("../src/core/configure");
+  return { inline, settings: getSettings() };
+}
+
+describe("webcodecs-encoder/inline", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("configures a Blob worker from the bundled worker source", async () => {
+    const createObjectURL = vi.fn(() => "blob:encoder-worker");
+    vi.stubGlobal("__INLINE_WORKER_SOURCE__", "self.onmessage = () => {};");
+    vi.stubGlobal("URL", { createObjectURL });
+
+    const { inline, settings } = await importInline();
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(settings.workerUrl).toBe("blob:encoder-worker");
+    expect(typeof inline.encode).toBe("function");
+  });
+
+  it("leaves the worker unset without a bundled source", async () => {
+    const { settings } = await importInline();
+    expect(settings.workerUrl).toBeUndefined();
+  });
+});
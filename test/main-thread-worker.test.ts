@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMainThreadWorker } from "../src/worker/main-thread-worker";
+import { workersFor } from "../src/worker/worker-communicator";
+import type { EncoderConfig, MainThreadMessage } from "../src/types";
+
+// Only the WAV muxer is used here
+vi.mock("../src/muxers/webmmuxer", () => ({ WebMMuxerWrapper: vi.fn() }));
+
+const wavConfig: EncoderConfig = {
+  width: 0,
+  height: 0,
+  frameRate: 30,
+  videoBitrate: 0,
+  audioBitrate: 768_000,
+  sampleRate: 48000,
+  channels: 2,
+  container: "wav",
+  codec: { audio: "pcm" },
+  latencyMode: "quality",
+};
+
+function collectMessages(worker: Worker) {
+  const messages: MainThreadMessage[] = [];
+  worker.onmessage = (event) => messages.push(event.data);
+  return {
+    messages,
+    next: (type: MainThreadMessage["type"]) =>
+      vi.waitFor(() => {
+        const message = messages.find((message) => message.type === type);
+        if (!message) throw new Error(`No '${type}' message yet`);
+        return message;
+      }),
+  };
+}
+
+describe("createMainThreadWorker", () => {
+  it("runs the worker's encoder in the page", async () => {
+    const onmessage = self.onmessage;
+    const worker = createMainThreadWorker();
+    const { next } = collectMessages(worker);
+
+    worker.postMessage({ type: "initialize", config: wavConfig, jobId: 1 });
+    expect(await next("initialized")).toMatchObject({ jobId: 1 });
+
+    worker.postMessage({ type: "finalize", jobId: 1 });
+    const finalized = await next("finalized");
+    const output = (finalized as { output: Uint8Array }).output;
+    expect(String.fromCharCode(...output.subarray(0, 4))).toBe("RIFF");
+
+    // The worker entry's handlers are not installed on the page
+    expect(self.onmessage).toBe(onmessage);
+    worker.terminate();
+  });
+
+  it("drops messages once terminated", async () => {
+    const worker = createMainThreadWorker();
+    const { messages } = collectMessages(worker);
+
+    worker.postMessage({ type: "initialize", config: wavConfig, jobId: 1 });
+    worker.terminate();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(messages).toEqual([]);
+  });
+});
+
+describe("workersFor with execution 'main-thread'", () => {
+  it("rejects a worker passed with it", async () => {
+    const workers = workersFor("/encoder-worker.js", "main-thread");
+    await expect(workers.acquire()).rejects.toMatchObject({
+      type: "configuration-error",
+    });
+  });
+
+  it("rejects an unknown execution mode", async () => {
+    const workers = workersFor(undefined, "gpu" as any);
+    await expect(workers.acquire()).rejects.toMatchObject({
+      type: "configuration-error",
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { assertMainThreadMessage } from "../src/worker/message-validator";
+
+describe("assertMainThreadMessage", () => {
+  it("accepts the messages the worker posts", () => {
+    const messages = [
+      { type: "initialized", actualVideoCodec: "avc1.42001f" },
+      { type: "initialized", actualVideoCodec: "vp09", actualAudioCodec: null },
+      { type: "progress", processedFrames: 3, jobId: 1 },
+      { type: "finalized", output: new Uint8Array([1]) },
+      { type: "finalized", output: null },
+      {
+        type: "dataChunk",
+        chunk: new Uint8Array(4),
+        container: "mp4",
+        offset: 0,
+        timestampRange: { start: 0, end: 33_333 },
+      },
+      {
+        type: "error",
+        errorDetail: { message: "boom", type: "encoding-failed" },
+      },
+      { type: "cancelled" },
+    ];
+
+    for (const message of messages) {
+      expect(() => assertMainThreadMessage(message)).not.toThrow();
+    }
+  });
+
+  it("rejects unknown types", () => {
+    expect(() => assertMainThreadMessage({ type: "finalised" })).toThrow(
+      expect.objectContaining({
+        type: "worker-error",
+        message: "Invalid message from the worker: unknown type 'finalised'",
+      }),
+    );
+    expect(() => assertMainThreadMessage("initialized")).toThrow(
+      "not an object",
+    );
+  });
+
+  it("rejects missing or mistyped fields", () => {
+    expect(() =>
+      assertMainThreadMessage({ type: "progress", processedFrames: "3" }),
+    ).toThrow("'progress' has an invalid processedFrames");
+    expect(() =>
+      assertMainThreadMessage({ type: "dataChunk", chunk: new Uint8Array(1) }),
+    ).toThrow("'dataChunk' has an invalid container");
+    expect(() =>
+      assertMainThreadMessage({ type: "error", errorDetail: "boom" }),
+    ).toThrow("'error' has an invalid errorDetail");
+    expect(() =>
+      assertMainThreadMessage({ type: "cancelled", jobId: "1" }),
+    ).toThrow("'cancelled' has an invalid jobId");
+  });
+});
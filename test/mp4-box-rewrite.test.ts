@@ -0,0 +1,263 @@
+import { describe, it, expect } from "vitest";
+import {
+  addCompatibleBrand,
+  buildAudioSampleEntry,
+  replaceAudioSampleEntry,
+  shiftFragmentIndex,
+} from "../src/muxers/mp4-box-rewrite";
+import {
+  dflaFromFlacDescription,
+  dopsFromOpusHead,
+  flacDescriptionFromDfla,
+  opusHeadFromDops,
+} from "../src/demuxers/codec-config";
+
+function box(type: string, ...children: (Uint8Array | number[])[]): Uint8Array {
+  const parts = children.map((c) =>
+    c instanceof Uint8Array ? c : new Uint8Array(c),
+  );
+  const size = 8 + parts.reduce((n, p) => n + p.byteLength, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(new TextEncoder().encode(type), 4);
+  let offset = 8;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const tag = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function findBox(data: Uint8Array, path: string[]): number {
+  const view = new DataView(data.buffer, data.byteOffset);
+  let start = 0;
+  let end = data.byteLength;
+  let found = -1;
+  for (const type of path) {
+    found = -1;
+    for (let offset = start; offset < end; offset += view.getUint32(offset)) {
+      if (tag(data, offset + 4) === type) {
+        found = offset;
+        break;
+      }
+    }
+    expect(found).toBeGreaterThanOrEqual(0);
+    start = found + (type === "stsd" ? 16 : 8);
+    end = found + view.getUint32(found);
+  }
+  return found;
+}
+
+// ftyp, a moov with one sound track holding a placeholder entry, and mdat
+function buildFile(): { file: Uint8Array; sampleOffset: number } {
+  const placeholder = box(
+    "Opus",
+    new Array(28).fill(0),
+    box("dOps", new Array(11).fill(0)),
+  );
+  const hdlr = box(
+    "hdlr",
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+    new TextEncoder().encode("soun"),
+    new Array(13).fill(0),
+  );
+  const stsd = box("stsd", [0, 0, 0, 0], u32(1), placeholder);
+  const ftyp = box("ftyp", new TextEncoder().encode("isom"), u32(0));
+  const moovFor = (sampleOffset: number) =>
+    box(
+      "moov",
+      box(
+        "trak",
+        box(
+          "mdia",
+          hdlr,
+          box(
+            "minf",
+            box(
+              "stbl",
+              stsd,
+              box("stco", [0, 0, 0, 0], u32(1), u32(sampleOffset)),
+            ),
+          ),
+        ),
+      ),
+    );
+  const moovSize = moovFor(0).byteLength;
+  const sampleOffset = ftyp.byteLength + moovSize + 8;
+  const mdat = box("mdat", [0xfc, 0xff, 0xfe]);
+  return { file: concat(ftyp, moovFor(sampleOffset), mdat), sampleOffset };
+}
+
+function opusHead(channels: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  head.set(new TextEncoder().encode("OpusHead"));
+  const view = new DataView(head.buffer);
+  head[8] = 1;
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, 44100, true);
+  return head;
+}
+
+function flacDescription(): Uint8Array {
+  const description = new Uint8Array(4 + 38 + 8);
+  description.set(new TextEncoder().encode("fLaC"));
+  description.set([0x00, 0x00, 0x00, 0x22], 4); // STREAMINFO, not last
+  description[8] = 0x10; // min block size
+  description.set([0x04, 0x00, 0x00, 0x04], 42); // a following block
+  return description;
+}
+
+describe("MP4 audio config conversion", () => {
+  it("round-trips OpusHead through dOps", () => {
+    const head = opusHead(2, 312);
+    const dOps = dopsFromOpusHead(head);
+    expect(dOps.byteLength).toBe(11);
+    expect(new DataView(dOps.buffer).getUint16(2)).toBe(312);
+    expect(Array.from(opusHeadFromDops(dOps))).toEqual(Array.from(head));
+  });
+
+  it("keeps only STREAMINFO, flagged as the last block, for dfLa", () => {
+    const blocks = dflaFromFlacDescription(flacDescription());
+    expect(blocks.byteLength).toBe(38);
+    expect(blocks[0]).toBe(0x80);
+    expect(blocks[4]).toBe(0x10);
+    expect(Array.from(flacDescriptionFromDfla(blocks).subarray(0, 4))).toEqual([
+      0x66, 0x4c, 0x61, 0x43,
+    ]);
+    expect(() => dflaFromFlacDescription(new Uint8Array(8))).toThrow(
+      "STREAMINFO",
+    );
+  });
+});
+
+describe("buildAudioSampleEntry", () => {
+  it("writes an Opus entry with dOps at 48 kHz", () => {
+    const entry = buildAudioSampleEntry("opus", opusHead(2, 312), 2, 48000);
+    const view = new DataView(entry.buffer);
+    expect(tag(entry, 4)).toBe("Opus");
+    expect(view.getUint16(14)).toBe(1); // data reference index
+    expect(view.getUint16(24)).toBe(2);
+    expect(view.getUint16(26)).toBe(16);
+    expect(view.getUint32(32)).toBe(48000 * 0x10000);
+    expect(tag(entry, 40)).toBe("dOps");
+    expect(view.getUint16(46)).toBe(312);
+    expect(entry.byteLength).toBe(36 + 8 + 11);
+  });
+
+  it("writes a fLaC entry with dfLa", () => {
+    const entry = buildAudioSampleEntry("flac", flacDescription(), 1, 96000);
+    const view = new DataView(entry.buffer);
+    expect(tag(entry, 4)).toBe("fLaC");
+    expect(view.getUint32(32)).toBe(0); // 96 kHz does not fit 16.16
+    expect(tag(entry, 40)).toBe("dfLa");
+    expect(view.getUint32(36)).toBe(8 + 4 + 38);
+    expect(entry[48]).toBe(0x80);
+  });
+
+  it("requires encoder descriptions it cannot synthesize", () => {
+    expect(() => buildAudioSampleEntry("flac", undefined, 2, 48000)).toThrow();
+    expect(() => buildAudioSampleEntry("opus", undefined, 6, 48000)).toThrow();
+    const stereo = buildAudioSampleEntry("opus", undefined, 2, 48000);
+    expect(stereo[45]).toBe(2); // dOps channel count
+  });
+});
+
+describe("replaceAudioSampleEntry", () => {
+  it("swaps the entry and updates box sizes and chunk offsets", () => {
+    const { file, sampleOffset } = buildFile();
+    const entry = buildAudioSampleEntry("flac", flacDescription(), 2, 44100);
+
+    const result = replaceAudioSampleEntry(file, entry)!;
+    const delta = entry.byteLength - (36 + 8 + 11);
+    expect(result.delta).toBe(delta);
+    expect(result.data.byteLength).toBe(file.byteLength + delta);
+
+    const data = result.data;
+    const view = new DataView(data.buffer);
+    const moov = findBox(data, ["moov"]);
+    expect(moov + view.getUint32(moov)).toBe(findBox(data, ["mdat"]));
+
+    const stsd = findBox(data, [
+      "moov",
+      "trak",
+      "mdia",
+      "minf",
+      "stbl",
+      "stsd",
+    ]);
+    expect(tag(data, stsd + 20)).toBe("fLaC");
+    expect(view.getUint32(stsd)).toBe(16 + entry.byteLength);
+
+    const stco = findBox(data, [
+      "moov",
+      "trak",
+      "mdia",
+      "minf",
+      "stbl",
+      "stco",
+    ]);
+    const newOffset = view.getUint32(stco + 16);
+    expect(newOffset).toBe(sampleOffset + delta);
+    expect(Array.from(data.subarray(newOffset, newOffset + 3))).toEqual([
+      0xfc, 0xff, 0xfe,
+    ]);
+  });
+
+  it("returns null until the moov box is complete", () => {
+    const { file } = buildFile();
+    const entry = buildAudioSampleEntry("opus", undefined, 2, 48000);
+    expect(replaceAudioSampleEntry(file.subarray(0, 40), entry)).toBeNull();
+  });
+
+  it("shifts moof offsets in the fragment index", () => {
+    const tfra = box(
+      "tfra",
+      [1, 0, 0, 0],
+      u32(1),
+      u32(0),
+      u32(1),
+      new Array(8).fill(0),
+      [0, 0, 0, 0],
+      u32(500),
+      [1, 1, 1],
+    );
+    const mfra = box("mfra", tfra, box("mfro", [0, 0, 0, 0], u32(0)));
+    shiftFragmentIndex(mfra, 19);
+    expect(new DataView(mfra.buffer).getUint32(8 + 8 + 16 + 12)).toBe(519);
+  });
+});
+
+describe("addCompatibleBrand", () => {
+  it("appends the brand to ftyp once", () => {
+    const { file } = buildFile();
+    const result = addCompatibleBrand(file, "cmfc")!;
+    expect(result.delta).toBe(4);
+    expect(new DataView(result.data.buffer).getUint32(0)).toBe(20);
+    expect(tag(result.data, 16)).toBe("cmfc");
+    expect(tag(result.data, 24)).toBe("moov");
+
+    expect(addCompatibleBrand(result.data, "cmfc")!.delta).toBe(0);
+    expect(addCompatibleBrand(file.subarray(0, 12), "cmfc")).toBeNull();
+  });
+});
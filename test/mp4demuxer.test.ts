@@ -0,0 +1,241 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect } from "vitest";
+import { Mp4Demuxer } from "../src/demuxers/mp4demuxer";
+import { openDemuxer } from "../src/demuxers/demuxer";
+import type { DemuxedSample } from "../src/types";
+
+const u8 = (...values: number[]) => new Uint8Array(values);
+const u16 = (value: number) => u8(value >> 8, value & 0xff);
+const u32 = (value: number) =>
+  u8(value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+const zeros = (length: number) => new Uint8Array(length);
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(u32(8 + body.byteLength), ascii(type), body);
+}
+
+function fullBox(type: string, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u32(0), ...payload);
+}
+
+function table(type: string, entries: number[][]): Uint8Array {
+  return fullBox(type, u32(entries.length), ...entries.flat().map(u32));
+}
+
+const AVC_C = u8(1, 0x64, 0x00, 0x1f, 0xff, 0xe0, 0x00);
+const ASC = u8(0x12, 0x10); // AAC-LC, 44.1 kHz, stereo
+
+// Edit list entries are [segment duration, media time, rate]
+function videoTrak(chunkOffset: number, edits?: number[][]): Uint8Array {
+  const avc1 = box(
+    "avc1",
+    zeros(6),
+    u16(1), // data reference index
+    zeros(16),
+    u16(640),
+    u16(360),
+    zeros(50),
+    box("avcC", AVC_C),
+  );
+  return box(
+    "trak",
+    ...(edits ? [box("edts", table("elst", edits))] : []),
+    box(
+      "mdia",
+      fullBox("mdhd", u32(0), u32(0), u32(30000), u32(3000), u32(0)),
+      fullBox("hdlr", u32(0), ascii("vide"), zeros(13)),
+      box(
+        "minf",
+        box(
+          "stbl",
+          fullBox("stsd", u32(1), avc1),
+          table("stts", [[3, 1000]]),
+          table("ctts", [
+            [1, 1000],
+            [1, 2000],
+            [1, 0],
+          ]),
+          table("stsc", [[1, 3, 1]]),
+          fullBox("stsz", u32(0), u32(3), u32(4), u32(5), u32(6)),
+          table("stco", [[chunkOffset]]),
+          table("stss", [[1]]),
+        ),
+      ),
+    ),
+  );
+}
+
+function audioTrak(chunkOffset: number): Uint8Array {
+  const esds = fullBox(
+    "esds",
+    u8(0x03, 0x16), // ES_Descriptor
+    u16(1),
+    u8(0),
+    u8(0x04, 0x11), // DecoderConfigDescriptor
+    u8(0x40, 0x15),
+    zeros(11),
+    u8(0x05, 0x02), // DecoderSpecificInfo
+    ASC,
+  );
+  const mp4a = box(
+    "mp4a",
+    zeros(6),
+    u16(1),
+    zeros(8),
+    u16(2), // channels
+    u16(16), // sample size
+    zeros(4),
+    u32(44100 << 16),
+    esds,
+  );
+  return box(
+    "trak",
+    box(
+      "mdia",
+      fullBox("mdhd", u32(0), u32(0), u32(44100), u32(2048), u32(0)),
+      fullBox("hdlr", u32(0), ascii("soun"), zeros(13)),
+      box(
+        "minf",
+        box(
+          "stbl",
+          fullBox("stsd", u32(1), mp4a),
+          table("stts", [[2, 1024]]),
+          table("stsc", [[1, 2, 1]]),
+          fullBox("stsz", u32(3), u32(2)),
+          table("stco", [[chunkOffset]]),
+        ),
+      ),
+    ),
+  );
+}
+
+/**
+ * Build a progressive MP4 with the moov box after mdat:
+ * [audio chunk (2 x 3 bytes)][video chunk (4 + 5 + 6 bytes)]
+ */
+function buildMp4(videoEdits?: number[][]): Uint8Array {
+  const ftyp = box("ftyp", ascii("isom"), u32(0), ascii("isomavc1"));
+  const audioData = u8(0xa0, 0xa0, 0xa0, 0xa1, 0xa1, 0xa1);
+  const videoData = concat(
+    u8(0x10, 0x10, 0x10, 0x10),
+    u8(0x11, 0x11, 0x11, 0x11, 0x11),
+    u8(0x12, 0x12, 0x12, 0x12, 0x12, 0x12),
+  );
+  const mdat = box("mdat", audioData, videoData);
+  const audioOffset = ftyp.byteLength + 8;
+  const videoOffset = audioOffset + audioData.byteLength;
+
+  const moov = box(
+    "moov",
+    fullBox("mvhd", u32(0), u32(0), u32(1000), u32(100), zeros(80)),
+    videoTrak(videoOffset, videoEdits),
+    audioTrak(audioOffset),
+  );
+  return concat(ftyp, mdat, moov);
+}
+
+async function collect(
+  samples: AsyncGenerator<DemuxedSample>,
+): Promise<DemuxedSample[]> {
+  const result: DemuxedSample[] = [];
+  for await (const sample of samples) {
+    result.push(sample);
+  }
+  return result;
+}
+
+describe("Mp4Demuxer", () => {
+  it("reads track configuration from moov", async () => {
+    const demuxer = await Mp4Demuxer.open(new Blob([buildMp4()]));
+
+    expect(demuxer.container).toBe("mp4");
+    expect(demuxer.duration).toBe(100_000);
+    expect(demuxer.videoTrack).toMatchObject({
+      codec: "avc",
+      codecString: "avc1.64001F",
+      codedWidth: 640,
+      codedHeight: 360,
+      sampleCount: 3,
+      frameRate: 30,
+      reordered: true,
+    });
+    expect(demuxer.videoTrack?.description).toEqual(AVC_C);
+    expect(demuxer.audioTrack).toMatchObject({
+      codec: "aac",
+      codecString: "mp4a.40.2",
+      sampleRate: 44100,
+      numberOfChannels: 2,
+    });
+    expect(demuxer.audioTrack?.description).toEqual(ASC);
+  });
+
+  it("yields samples interleaved by file offset with presentation timestamps", async () => {
+    const demuxer = await Mp4Demuxer.open(new Blob([buildMp4()]));
+    const samples = await collect(demuxer.samples());
+
+    expect(samples.map((s) => s.track)).toEqual([
+      "audio",
+      "audio",
+      "video",
+      "video",
+      "video",
+    ]);
+
+    const audio = samples.filter((s) => s.track === "audio");
+    expect(audio.map((s) => s.timestamp)).toEqual([0, 23220]);
+    expect(audio[1].data).toEqual(u8(0xa1, 0xa1, 0xa1));
+
+    const video = samples.filter((s) => s.track === "video");
+    expect(video.map((s) => s.type)).toEqual(["key", "delta", "delta"]);
+    // dts + ctts offset in a 30000 Hz timescale
+    expect(video.map((s) => s.timestamp)).toEqual([33333, 100000, 66667]);
+    expect(video.map((s) => s.duration)).toEqual([33333, 33333, 33333]);
+    expect(video.map((s) => s.data.byteLength)).toEqual([4, 5, 6]);
+    expect(video[2].data[0]).toBe(0x12);
+  });
+
+  it("takes the edit list media time off video timestamps", async () => {
+    // An empty edit, then the composition delay of the first frame
+    const demuxer = await Mp4Demuxer.open(
+      new Blob([
+        buildMp4([
+          [0, 0xffffffff, 0x10000],
+          [100, 1000, 0x10000],
+        ]),
+      ]),
+    );
+    const samples = await collect(demuxer.samples());
+
+    const video = samples.filter((s) => s.track === "video");
+    expect(video.map((s) => s.timestamp)).toEqual([0, 66667, 33333]);
+    const audio = samples.filter((s) => s.track === "audio");
+    expect(audio.map((s) => s.timestamp)).toEqual([0, 23220]);
+  });
+
+  it("rejects fragmented files", async () => {
+    const ftyp = box("ftyp", ascii("iso5"), u32(0));
+    const moof = box("moof", fullBox("mfhd", u32(1)));
+    await expect(
+      Mp4Demuxer.open(new Blob([concat(ftyp, moof)])),
+    ).rejects.toThrow("Fragmented");
+  });
+
+  it("openDemuxer returns null for unrecognised data", async () => {
+    const demuxer = await openDemuxer(new Blob([zeros(64)]));
+    expect(demuxer).toBeNull();
+  });
+});
@@ -256,6 +256,124 @@ describe("Mp4MuxerWrapper", () => {
     });
   });
 
+  describe("fragmented MP4 options", () => {
+    it("writes fragments into the buffer at quality latency", () => {
+      new Mp4MuxerWrapper(
+        { ...baseConfig, mp4: { fragmented: true, fragmentDuration: 2 } },
+        postMessageCallback,
+      );
+      expect(StreamTargetMockConst).not.toHaveBeenCalled();
+      expect(MuxerMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fastStart: "fragmented",
+          minFragmentDuration: 2,
+        }),
+      );
+    });
+
+    it("streams a progressive file to a seekable receiver", () => {
+      const wrapper = new Mp4MuxerWrapper(
+        { ...baseConfig, streaming: true, seekableOutput: true },
+        postMessageCallback,
+      );
+      expect(StreamTargetMockConst).toHaveBeenCalled();
+      expect(MuxerMock).toHaveBeenCalledWith(
+        expect.objectContaining({ fastStart: false }),
+      );
+
+      // mp4-muxer patches the mdat size after writing the moov box
+      const onData = StreamTargetMockConst.mock.calls[0][0].onData;
+      onData(new Uint8Array([0, 0, 0, 8, 0x6d, 0x64, 0x61, 0x74]), 0);
+      onData(new Uint8Array([0, 0, 0, 16]), 0);
+      expect(wrapper.finalize()).toBeNull();
+      expect(postMessageCallback).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "dataChunk", offset: 0 }),
+        expect.any(Array),
+      );
+    });
+
+    it("emits a progressive file in one chunk when streaming", () => {
+      const file = new Uint8Array([0, 0, 0, 8, 0x6d, 0x64, 0x61, 0x74]);
+      mockMuxerMethods.finalize.mockImplementationOnce(() => {
+        getLastMuxerTargetInstance()!.buffer = file.buffer;
+      });
+      const wrapper = new Mp4MuxerWrapper(
+        { ...baseConfig, streaming: true, mp4: { fragmented: false } },
+        postMessageCallback,
+      );
+      expect(MuxerMock).toHaveBeenCalledWith(
+        expect.objectContaining({ fastStart: "in-memory" }),
+      );
+
+      expect(wrapper.finalize()).toBeNull();
+      expect(postMessageCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "dataChunk",
+          chunk: file,
+          offset: 0,
+          isHeader: true,
+        }),
+        [file.buffer],
+      );
+    });
+
+    it("adds the CMAF brand to streamed output", async () => {
+      new Mp4MuxerWrapper(
+        { ...baseConfig, streaming: true, mp4: { cmaf: true } },
+        postMessageCallback,
+      );
+      const module = (await import("mp4-muxer")) as unknown as MockedMp4Muxer;
+      const onData = module._getCapturedStreamTargetOnData()!;
+
+      // ftyp: iso5, minor version 512, compatible iso5
+      const ftyp = new Uint8Array([
+        0, 0, 0, 20, 0x66, 0x74, 0x79, 0x70, 0x69, 0x73, 0x6f, 0x35, 0, 0, 2, 0,
+        0x69, 0x73, 0x6f, 0x35,
+      ]);
+      onData(ftyp, 0);
+      onData(new Uint8Array([1, 2]), ftyp.byteLength);
+
+      const [[head], [media]] = postMessageCallback.mock.calls;
+      expect(head.chunk.byteLength).toBe(24);
+      expect(new DataView(head.chunk.buffer).getUint32(0)).toBe(24);
+      expect(String.fromCharCode(...head.chunk.subarray(20, 24))).toBe("cmfc");
+      expect(media.offset).toBe(24);
+    });
+  });
+
+  describe("Opus and FLAC audio", () => {
+    it("keeps Opus audio enabled for MP4", () => {
+      new Mp4MuxerWrapper(
+        { ...baseConfig, codec: { audio: "opus" } },
+        postMessageCallback,
+      );
+      const callArgs = MuxerMock.mock.calls[0][0] as any;
+      expect(callArgs.audio).toMatchObject({ codec: "opus" });
+    });
+
+    it("passes FLAC to mp4-muxer as a placeholder track without its STREAMINFO", () => {
+      const wrapper = new Mp4MuxerWrapper(
+        { ...baseConfig, codec: { audio: "flac" } },
+        postMessageCallback,
+      );
+      const callArgs = MuxerMock.mock.calls[0][0] as any;
+      expect(callArgs.audio).toMatchObject({ codec: "opus" });
+
+      const chunk = { type: "key", timestamp: 0 } as EncodedAudioChunk;
+      wrapper.addAudioChunk(chunk, {
+        decoderConfig: {
+          codec: "flac",
+          numberOfChannels: 2,
+          sampleRate: 48000,
+          description: new Uint8Array(42),
+        },
+      });
+      const [, meta] = mockMuxerMethods.addAudioChunk.mock.calls[0];
+      expect(meta.decoderConfig.codec).toBe("flac");
+      expect(meta.decoderConfig.description).toBeUndefined();
+    });
+  });
+
   describe("audio disabled", () => {
     it("should omit audio track when disableAudio is true", () => {
       const wrapper = new Mp4MuxerWrapper(baseConfig, postMessageCallback, {
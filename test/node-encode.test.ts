@@ -0,0 +1,178 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, existsSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { Writable } from "stream";
+import { encode, registerEncoderBackend } from "../src/node";
+import type { AudioSourceItem, RawVideoFrame } from "../src/node";
+import {
+  ReferenceFrame,
+  ReferenceVideoEncoder,
+  referenceBackend,
+} from "./helpers/reference-backend";
+
+// Only the MP4 and WAV muxers are used here
+vi.mock("../src/muxers/webmmuxer", () => ({ WebMMuxerWrapper: vi.fn() }));
+
+function rgbaFrames(count: number): RawVideoFrame[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: "video",
+    data: new Uint8Array(2 * 2 * 4).fill(i),
+    format: "RGBA",
+    width: 2,
+    height: 2,
+  }));
+}
+
+const tag = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// Two stereo samples
+function pcmItem(): AudioSourceItem {
+  return {
+    type: "audio",
+    data: [new Float32Array([0.5, -0.5]), new Float32Array([0, 1])],
+    sampleRate: 48000,
+  };
+}
+
+let unregister: (() => void) | undefined;
+let directory: string | undefined;
+
+afterEach(() => {
+  unregister?.();
+  unregister = undefined;
+  if (directory) rmSync(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+describe("node encode", () => {
+  it("returns raw frames as an MP4 Buffer without output", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+
+    const output = await encode(rgbaFrames(3), { audio: false });
+
+    expect(Buffer.isBuffer(output)).toBe(true);
+    expect(tag(output, 4)).toBe("ftyp");
+  });
+
+  it("leaves audio out of a video-only source by default", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+
+    const output = await encode(rgbaFrames(3));
+
+    expect(tag(output, 4)).toBe("ftyp");
+  });
+
+  it("leaves audio out of a frame iterable when the backend has an AudioEncoder", async () => {
+    const AudioEncoder = vi.fn();
+    unregister = registerEncoderBackend({
+      ...referenceBackend,
+      AudioEncoder: AudioEncoder as unknown as typeof globalThis.AudioEncoder,
+    });
+    async function* frames() {
+      yield* rgbaFrames(3);
+    }
+
+    const output = await encode(frames());
+
+    expect(tag(output, 4)).toBe("ftyp");
+    expect(AudioEncoder).not.toHaveBeenCalled();
+  });
+
+  it("sizes the encoder from the first frame", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    const configure = vi.spyOn(
+      referenceBackend.VideoEncoder.prototype,
+      "configure",
+    );
+
+    const output = await encode(
+      [
+        {
+          type: "video",
+          data: new Uint8Array(4 * 2 + 2 * 2 * 1),
+          format: "I420",
+          width: 4,
+          height: 2,
+        },
+      ],
+      { audio: false },
+    );
+
+    expect(output.byteLength).toBeGreaterThan(0);
+    expect(configure).toHaveBeenCalledWith(
+      expect.objectContaining({ width: 4, height: 2 }),
+    );
+    configure.mockRestore();
+  });
+
+  it("encodes raw frames as backend VideoFrames with their timing", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    const encodeFrame = vi.spyOn(ReferenceVideoEncoder.prototype, "encode");
+    const [first, second, third] = rgbaFrames(3);
+
+    await encode(
+      [first, { ...second, timestamp: 100_000, duration: 50_000 }, third],
+      { audio: false, frameRate: 10 },
+    );
+
+    const frames = encodeFrame.mock.calls.map(([frame]) => frame);
+    expect(frames.every((frame) => frame instanceof ReferenceFrame)).toBe(true);
+    expect(frames.map((frame) => [frame.timestamp, frame.duration])).toEqual([
+      [0, 100_000],
+      [100_000, 50_000],
+      [150_000, 100_000],
+    ]);
+    encodeFrame.mockRestore();
+  });
+
+  it("writes PCM to a file path", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    directory = mkdtempSync(path.join(tmpdir(), "webcodecs-encoder-"));
+    const file = path.join(directory, "out.wav");
+
+    await encode([pcmItem()], { output: file, container: "wav" });
+
+    const output = readFileSync(file);
+    expect(tag(output, 0)).toBe("RIFF");
+    expect(output.byteLength).toBe(44 + 2 * 2 * 2);
+  });
+
+  it("writes PCM to a Writable and ends it", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    const chunks: Buffer[] = [];
+    const writable = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    async function* pcm() {
+      yield pcmItem();
+    }
+    await encode(pcm(), { output: writable, container: "wav" });
+
+    expect(writable.writableEnded).toBe(true);
+    expect(tag(Buffer.concat(chunks), 0)).toBe("RIFF");
+  });
+
+  it("rejects frames smaller than their size and removes the file", async () => {
+    unregister = registerEncoderBackend(referenceBackend);
+    directory = mkdtempSync(path.join(tmpdir(), "webcodecs-encoder-"));
+    const file = path.join(directory, "out.mp4");
+    const [frame] = rgbaFrames(1);
+
+    await expect(
+      encode([{ ...frame, data: new Uint8Array(4) }], {
+        output: file,
+        audio: false,
+      }),
+    ).rejects.toMatchObject({ type: "invalid-input" });
+    expect(existsSync(file)).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  OggMuxerWrapper,
+  oggCrc32,
+  opusPacketSamples,
+} from "../src/muxers/oggmuxer";
+import { AdtsMuxerWrapper } from "../src/muxers/adtsmuxer";
+import { Mp3MuxerWrapper } from "../src/muxers/mp3muxer";
+import type { EncoderConfig } from "../src/types";
+
+function createConfig(overrides: Partial<EncoderConfig> = {}): EncoderConfig {
+  return {
+    width: 0,
+    height: 0,
+    frameRate: 30,
+    videoBitrate: 0,
+    audioBitrate: 128_000,
+    sampleRate: 48000,
+    channels: 2,
+    container: "ogg",
+    codec: { audio: "opus" },
+    latencyMode: "quality",
+    ...overrides,
+  };
+}
+
+function fakeChunk(bytes: number[], duration = 20_000): EncodedAudioChunk {
+  const data = new Uint8Array(bytes);
+  return {
+    type: "key",
+    timestamp: 0,
+    duration,
+    byteLength: data.byteLength,
+    copyTo: (dest: Uint8Array) => dest.set(data),
+  } as unknown as EncodedAudioChunk;
+}
+
+interface OggPage {
+  headerType: number;
+  granule: number;
+  sequence: number;
+  packets: number[][];
+}
+
+function readPages(bytes: Uint8Array): OggPage[] {
+  const pages: OggPage[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  let offset = 0;
+  while (offset < bytes.byteLength) {
+    expect(String.fromCharCode(...bytes.subarray(offset, offset + 4))).toBe(
+      "OggS",
+    );
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    const bodySize = segments.reduce((n, s) => n + s, 0);
+    const pageSize = 27 + segmentCount + bodySize;
+
+    const page = bytes.slice(offset, offset + pageSize);
+    const crc = new DataView(page.buffer).getUint32(22, true);
+    page.fill(0, 22, 26);
+    expect(oggCrc32(page)).toBe(crc);
+
+    const packets: number[][] = [];
+    let body = offset + 27 + segmentCount;
+    let packet: number[] = [];
+    for (const size of segments) {
+      packet.push(...bytes.subarray(body, body + size));
+      body += size;
+      if (size < 255) {
+        packets.push(packet);
+        packet = [];
+      }
+    }
+    pages.push({
+      headerType: bytes[offset + 5],
+      granule: view.getUint32(offset + 6, true),
+      sequence: view.getUint32(offset + 18, true),
+      packets,
+    });
+    offset += pageSize;
+  }
+  return pages;
+}
+
+describe("OggMuxerWrapper", () => {
+  it("reads Opus packet durations from the TOC byte", () => {
+    expect(opusPacketSamples(new Uint8Array([0xfc]))).toBe(960); // CELT 20 ms
+    expect(opusPacketSamples(new Uint8Array([0x09]))).toBe(1920); // SILK 20 ms x2
+    expect(opusPacketSamples(new Uint8Array([0x7b, 0x03]))).toBe(2880);
+  });
+
+  it("writes header pages, audio pages and an end-of-stream page", () => {
+    const muxer = new OggMuxerWrapper(createConfig(), vi.fn());
+    const opusHead = new Uint8Array(19);
+    opusHead.set(new TextEncoder().encode("OpusHead"));
+    opusHead.set([1, 2, 0x38, 0x01, 0x80, 0xbb], 8); // stereo, pre-skip 312
+    muxer.addAudioChunk(fakeChunk([0xfc, 1, 2]), {
+      decoderConfig: {
+        codec: "opus",
+        sampleRate: 48000,
+        numberOfChannels: 2,
+        description: opusHead,
+      },
+    });
+    muxer.addAudioChunk(fakeChunk([0xfc, 3]));
+
+    const pages = readPages(muxer.finalize()!);
+
+    expect(pages.map((p) => p.sequence)).toEqual([0, 1, 2]);
+    expect(pages[0].headerType).toBe(0x02);
+    expect(pages[0].packets).toEqual([Array.from(opusHead)]);
+    expect(String.fromCharCode(...pages[1].packets[0].slice(0, 8))).toBe(
+      "OpusTags",
+    );
+    expect(pages[2].headerType).toBe(0x04);
+    expect(pages[2].packets).toEqual([
+      [0xfc, 1, 2],
+      [0xfc, 3],
+    ]);
+    // Granule positions include the 312-sample pre-skip
+    expect(pages[2].granule).toBe(312 + 960 * 2);
+  });
+
+  it("builds an OpusHead when the encoder provides none", () => {
+    const muxer = new OggMuxerWrapper(createConfig({ channels: 1 }), vi.fn());
+    muxer.addAudioChunk(fakeChunk([0xfc]));
+
+    const [head] = readPages(muxer.finalize()!)[0].packets;
+    expect(String.fromCharCode(...head.slice(0, 8))).toBe("OpusHead");
+    expect(head[9]).toBe(1);
+  });
+
+  it("closes a page once it holds a second of audio", () => {
+    const muxer = new OggMuxerWrapper(createConfig(), vi.fn());
+    for (let i = 0; i < 60; i++) {
+      muxer.addAudioChunk(fakeChunk([0xfc]));
+    }
+
+    const pages = readPages(muxer.finalize()!).slice(2);
+    expect(pages.map((p) => p.packets.length)).toEqual([50, 10]);
+    expect(pages.map((p) => p.granule)).toEqual([48000, 57600]);
+  });
+});
+
+describe("AdtsMuxerWrapper", () => {
+  it("prefixes raw AAC frames with headers from the AudioSpecificConfig", () => {
+    const muxer = new AdtsMuxerWrapper(
+      createConfig({ container: "aac", codec: { audio: "aac" } }),
+      vi.fn(),
+    );
+    muxer.addAudioChunk(fakeChunk([0xaa, 0xbb]), {
+      decoderConfig: {
+        codec: "mp4a.40.2",
+        sampleRate: 44100,
+        numberOfChannels: 2,
+        description: new Uint8Array([0x12, 0x10]), // LC, 44.1 kHz, stereo
+      },
+    });
+
+    const output = muxer.finalize()!;
+    expect(Array.from(output)).toEqual([
+      0xff, 0xf1, 0x50, 0x80, 0x01, 0x3f, 0xfc, 0xaa, 0xbb,
+    ]);
+  });
+
+  it("keeps frames that already carry an ADTS header", () => {
+    const muxer = new AdtsMuxerWrapper(
+      createConfig({ container: "aac", codec: { audio: "aac" } }),
+      vi.fn(),
+    );
+    const frame = [0xff, 0xf1, 0x50, 0x80, 0x01, 0x1f, 0xfc, 0xaa];
+    muxer.addAudioChunk(fakeChunk(frame));
+    expect(Array.from(muxer.finalize()!)).toEqual(frame);
+  });
+});
+
+describe("Mp3MuxerWrapper", () => {
+  it("concatenates frames and disables unsupported codecs", () => {
+    const muxer = new Mp3MuxerWrapper(
+      createConfig({ container: "mp3", codec: { audio: "mp3" } }),
+      vi.fn(),
+    );
+    muxer.addAudioChunk(fakeChunk([0xff, 0xfb, 1]));
+    muxer.addAudioChunk(fakeChunk([0xff, 0xfb, 2]));
+    expect(Array.from(muxer.finalize()!)).toEqual([
+      0xff, 0xfb, 1, 0xff, 0xfb, 2,
+    ]);
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const aacInMp3 = new Mp3MuxerWrapper(
+      createConfig({ container: "mp3", codec: { audio: "aac" } }),
+      vi.fn(),
+    );
+    aacInMp3.addAudioChunk(fakeChunk([1]));
+    expect(aacInMp3.finalize()!.byteLength).toBe(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Demuxer, EncoderConfig } from "../src/types";
+
+const openDemuxerMock = vi.fn();
+vi.mock("../src/demuxers/demuxer", () => ({
+  openDemuxer: (...args: unknown[]) => openDemuxerMock(...args),
+}));
+
+import { applyRemuxPlan } from "../src/utils/remux-plan";
+
+function makeDemuxer(overrides: Partial<Demuxer> = {}): Demuxer {
+  return {
+    container: "mp4",
+    duration: 1_000_000,
+    videoTrack: {
+      codec: "avc",
+      codecString: "avc1.64001F",
+      codedWidth: 1280,
+      codedHeight: 720,
+      description: new Uint8Array([1]),
+      frameRate: 30,
+    },
+    audioTrack: {
+      codec: "aac",
+      codecString: "mp4a.40.2",
+      sampleRate: 44100,
+      numberOfChannels: 2,
+      description: new Uint8Array([0x12, 0x10]),
+    },
+    samples: async function* () {},
+    ...overrides,
+  };
+}
+
+function makeConfig(overrides: Partial<EncoderConfig> = {}): EncoderConfig {
+  return {
+    width: 640,
+    height: 480,
+    frameRate: 30,
+    videoBitrate: 1_000_000,
+    audioBitrate: 128_000,
+    sampleRate: 48000,
+    channels: 2,
+    container: "mp4",
+    codec: { video: "avc", audio: "aac" },
+    ...overrides,
+  };
+}
+
+const videoFile = { file: new Blob([new Uint8Array(16)]), type: "video/mp4" };
+
+describe("applyRemuxPlan", () => {
+  beforeEach(() => {
+    openDemuxerMock.mockReset();
+    openDemuxerMock.mockResolvedValue(makeDemuxer());
+  });
+
+  it("leaves the config untouched in transcode mode", async () => {
+    const config = makeConfig();
+    await applyRemuxPlan(videoFile, config);
+
+    expect(config.passthrough).toBeUndefined();
+    expect(openDemuxerMock).not.toHaveBeenCalled();
+  });
+
+  it("copies codec parameters of tracks the container accepts", async () => {
+    const config = makeConfig();
+    await applyRemuxPlan(videoFile, config, { mode: "auto" });
+
+    expect(config.passthrough).toEqual({ video: true, audio: true });
+    expect(config).toMatchObject({
+      width: 1280,
+      height: 720,
+      sampleRate: 44100,
+      channels: 2,
+      codec: { video: "avc", audio: "aac" },
+      codecString: { video: "avc1.64001F", audio: "mp4a.40.2" },
+    });
+  });
+
+  it("transcodes only the tracks that cannot be copied in auto mode", async () => {
+    openDemuxerMock.mockResolvedValue(
+      makeDemuxer({
+        audioTrack: {
+          codec: "vorbis",
+          codecString: "vorbis",
+          description: new Uint8Array(8),
+          sampleRate: 48000,
+          numberOfChannels: 2,
+        },
+      }),
+    );
+    const config = makeConfig();
+    await applyRemuxPlan(videoFile, config, { mode: "auto" });
+
+    expect(config.passthrough).toEqual({ video: true });
+    expect(config.codec?.audio).toBe("aac");
+  });
+
+  it("rejects remux mode when a track needs re-encoding", async () => {
+    const config = makeConfig({ container: "webm" });
+
+    await expect(
+      applyRemuxPlan(videoFile, config, { mode: "remux", container: "webm" }),
+    ).rejects.toMatchObject({
+      type: "not-supported",
+      message: expect.stringContaining("cannot be stored in WEBM"),
+    });
+  });
+
+  it("treats resizing and B-frames as reasons to re-encode", async () => {
+    const config = makeConfig();
+    await expect(
+      applyRemuxPlan(videoFile, config, { mode: "remux", width: 640 }),
+    ).rejects.toThrow("resizing requires re-encoding");
+
+    openDemuxerMock.mockResolvedValue(
+      makeDemuxer({
+        videoTrack: { ...makeDemuxer().videoTrack!, reordered: true },
+      }),
+    );
+    await expect(
+      applyRemuxPlan(videoFile, makeConfig(), { mode: "remux" }),
+    ).rejects.toThrow("B-frames");
+  });
+
+  it("requires a VideoFile source in remux mode", async () => {
+    await expect(
+      applyRemuxPlan([], makeConfig(), { mode: "remux" }),
+    ).rejects.toMatchObject({ type: "invalid-input" });
+    await expect(
+      applyRemuxPlan([], makeConfig(), { mode: "auto" }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SpillTarget } from "../src/worker/spill-target";
+
+// An origin private file system holding one growable file per entry
+function createOpfs(options: { syncAccess?: boolean } = {}) {
+  const files = new Map<string, Uint8Array>();
+  const root = {
+    getFileHandle: vi.fn(async (name: string) => {
+      if (!files.has(name)) files.set(name, new Uint8Array(0));
+      return {
+        name,
+        createSyncAccessHandle: vi.fn(async () => {
+          if (options.syncAccess === false) {
+            throw new Error("Sync access handles are not supported");
+          }
+          return {
+            write: (buffer: Uint8Array, { at = 0 } = {}) => {
+              const current = files.get(name)!;
+              const end = at + buffer.byteLength;
+              const next = new Uint8Array(Math.max(current.byteLength, end));
+              next.set(current);
+              next.set(buffer, at);
+              files.set(name, next);
+              return buffer.byteLength;
+            },
+            flush: vi.fn(),
+            close: vi.fn(),
+          };
+        }),
+        getFile: async () => new File([files.get(name)!], name),
+      };
+    }),
+    removeEntry: vi.fn(async (name: string) => {
+      files.delete(name);
+    }),
+  };
+  vi.stubGlobal("navigator", {
+    storage: { getDirectory: vi.fn(async () => root) },
+  });
+  return { files, root };
+}
+
+// jsdom's File has no arrayBuffer()
+function bytesOf(output: Uint8Array | File): Promise<number[]> {
+  if (!(output instanceof File)) return Promise.resolve(Array.from(output));
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve(Array.from(new Uint8Array(reader.result as ArrayBuffer)));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(output);
+  });
+}
+
+describe("SpillTarget", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps output within the budget in memory", async () => {
+    const { root } = createOpfs();
+    const target = new SpillTarget(16);
+
+    target.write(new Uint8Array([0, 0, 3, 4]), 0);
+    target.write(new Uint8Array([5, 6]), 4);
+    target.write(new Uint8Array([1, 2]), 0);
+
+    const output = await target.finish();
+    expect(output).toBeInstanceOf(Uint8Array);
+    expect(await bytesOf(output)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(root.getFileHandle).not.toHaveBeenCalled();
+  });
+
+  it("moves the output to a file once it exceeds the budget", async () => {
+    const { files } = createOpfs();
+    const target = new SpillTarget(4);
+
+    target.write(new Uint8Array([0, 0, 3]), 0);
+    target.write(new Uint8Array([4, 5, 6]), 3);
+    // Written while the file is being opened
+    target.write(new Uint8Array([1, 2]), 0);
+
+    const output = await target.finish();
+    expect(output).toBeInstanceOf(File);
+    expect(await bytesOf(output)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(files.size).toBe(1);
+  });
+
+  it("opens the file up front when the expected size exceeds the budget", async () => {
+    const { root } = createOpfs();
+    const target = new SpillTarget(4, 1024);
+    expect(navigator.storage.getDirectory).toHaveBeenCalled();
+
+    target.write(new Uint8Array([1, 2]), 0);
+    const output = await target.finish();
+    expect(output).toBeInstanceOf(File);
+    expect(await bytesOf(output)).toEqual([1, 2]);
+    expect(root.getFileHandle).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the output in memory without sync access handles", async () => {
+    const { files } = createOpfs({ syncAccess: false });
+    const target = new SpillTarget(2);
+
+    target.write(new Uint8Array([1, 2, 3]), 0);
+    target.write(new Uint8Array([4]), 3);
+
+    const output = await target.finish();
+    expect(output).toBeInstanceOf(Uint8Array);
+    expect(await bytesOf(output)).toEqual([1, 2, 3, 4]);
+    expect(files.size).toBe(0);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("removes the file when discarded", async () => {
+    const { files, root } = createOpfs();
+    const target = new SpillTarget(0);
+
+    target.write(new Uint8Array([1]), 0);
+    await target.discard();
+
+    expect(root.removeEntry).toHaveBeenCalled();
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { VideoFileDecoder } from "../src/utils/video-file-decoder";
+import { encode } from "../src/core/encode";
+import { openDemuxer } from "../src/demuxers/demuxer";
+import type { Demuxer, DemuxedSample } from "../src/types";
+
+vi.mock("../src/demuxers/demuxer", () => ({ openDemuxer: vi.fn() }));
+
+const FRAME_COUNT = 20;
+
+interface FakeFrame {
+  timestamp: number;
+  displayWidth: number;
+  displayHeight: number;
+  close: ReturnType<typeof vi.fn>;
+}
+
+// Decodes one chunk per task and outputs it as a frame
+class FakeVideoDecoder {
+  static isConfigSupported = async () => ({ supported: true });
+  static maxQueueSize = 0;
+  static outputs: FakeFrame[] = [];
+
+  state = "unconfigured";
+  decodeQueueSize = 0;
+  ondequeue: (() => void) | null = null;
+  private queue: { timestamp: number }[] = [];
+  private flushed: (() => void) | null = null;
+
+  constructor(
+    private init: { output(frame: FakeFrame): void; error(e: unknown): void },
+  ) {}
+
+  configure() {
+    this.state = "configured";
+  }
+
+  decode(chunk: { timestamp: number }) {
+    this.queue.push(chunk);
+    this.decodeQueueSize++;
+    FakeVideoDecoder.maxQueueSize = Math.max(
+      FakeVideoDecoder.maxQueueSize,
+      this.decodeQueueSize,
+    );
+    if (this.queue.length === 1) setTimeout(() => this.next(), 0);
+  }
+
+  flush(): Promise<void> {
+    if (this.queue.length === 0) return Promise.resolve();
+    return new Promise((resolve) => (this.flushed = resolve));
+  }
+
+  close() {
+    this.state = "closed";
+  }
+
+  private next() {
+    if (this.state === "closed") return;
+    const chunk = this.queue.shift()!;
+    this.decodeQueueSize--;
+    this.ondequeue?.();
+    const frame = {
+      timestamp: chunk.timestamp,
+      displayWidth: 2,
+      displayHeight: 2,
+      close: vi.fn(),
+    };
+    FakeVideoDecoder.outputs.push(frame);
+    this.init.output(frame);
+    if (this.queue.length > 0) setTimeout(() => this.next(), 0);
+    else this.flushed?.();
+  }
+}
+
+class FakeEncodedVideoChunk {
+  readonly timestamp: number;
+  constructor(init: { timestamp: number }) {
+    this.timestamp = init.timestamp;
+  }
+}
+
+const demuxer: Demuxer = {
+  container: "mp4",
+  videoTrack: {
+    codec: "avc",
+    codecString: "avc1.64001F",
+    codedWidth: 2,
+    codedHeight: 2,
+  } as Demuxer["videoTrack"],
+  audioTrack: null,
+  async *samples(): AsyncGenerator<DemuxedSample> {
+    for (let i = 0; i < FRAME_COUNT; i++) {
+      yield {
+        track: "video",
+        type: i === 0 ? "key" : "delta",
+        timestamp: i * 33_333,
+        duration: 33_333,
+        data: new Uint8Array(1),
+      };
+    }
+  },
+};
+
+async function openDecoder(): Promise<VideoFileDecoder> {
+  vi.mocked(openDemuxer).mockResolvedValue(demuxer);
+  return (await VideoFileDecoder.open(new Blob([]), { audio: false }))!;
+}
+
+beforeEach(() => {
+  FakeVideoDecoder.maxQueueSize = 0;
+  FakeVideoDecoder.outputs = [];
+  vi.stubGlobal("VideoDecoder", FakeVideoDecoder);
+  vi.stubGlobal("EncodedVideoChunk", FakeEncodedVideoChunk);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("VideoFileDecoder", () => {
+  it("holds demuxing back while the handler is behind", async () => {
+    const decoder = await openDecoder();
+    const timestamps: number[] = [];
+
+    await decoder.decode({
+      onVideoFrame: async (frame) => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        timestamps.push(frame.timestamp);
+      },
+      onAudioData: () => {},
+    });
+
+    expect(timestamps).toHaveLength(FRAME_COUNT);
+    expect(FakeVideoDecoder.maxQueueSize).toBeLessThanOrEqual(9);
+  });
+
+  it("closes the frames queued before a cancel instead of passing them on", async () => {
+    const decoder = await openDecoder();
+    const controller = new AbortController();
+    const received: FakeFrame[] = [];
+    const close = vi.spyOn(FakeVideoDecoder.prototype, "close");
+
+    const decoding = decoder.decode(
+      {
+        onVideoFrame: async (frame) => {
+          received.push(frame as unknown as FakeFrame);
+          // Slower than the decoder, so outputs queue up behind it
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          if (received.length === 3) controller.abort();
+        },
+        onAudioData: () => {},
+      },
+      controller.signal,
+    );
+    await expect(decoding).rejects.toMatchObject({ type: "cancelled" });
+    expect(close).toHaveBeenCalled();
+
+    // Let the outputs that were still queued run
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(received).toHaveLength(3);
+    const dropped = FakeVideoDecoder.outputs.slice(3);
+    expect(dropped.length).toBeGreaterThan(0);
+    for (const frame of dropped) {
+      expect(frame.close).toHaveBeenCalled();
+    }
+  });
+});
+
+// A file holding video frames at the given timestamps
+function videoFileDemuxer(timestamps: number[]): Demuxer {
+  return {
+    ...demuxer,
+    videoTrack: { ...demuxer.videoTrack!, sampleCount: timestamps.length },
+    duration: timestamps[timestamps.length - 1] + 16_667,
+    async *samples(): AsyncGenerator<DemuxedSample> {
+      for (const [i, timestamp] of timestamps.entries()) {
+        yield {
+          track: "video",
+          type: i === 0 ? "key" : "delta",
+          timestamp,
+          duration: 16_667,
+          data: new Uint8Array(1),
+        };
+      }
+    },
+  };
+}
+
+// Answers the encoder's requests and records the frames it is sent
+function createWorker() {
+  const frames: number[] = [];
+  const worker = {
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    onerror: null,
+    postMessage: vi.fn((message: { type: string; timestamp?: number }) => {
+      if (message.type === "addVideoFrame") frames.push(message.timestamp!);
+      const reply =
+        message.type === "initialize"
+          ? { type: "initialized" }
+          : message.type === "finalize"
+            ? { type: "finalized", output: new Uint8Array(1) }
+            : null;
+      if (reply) {
+        setTimeout(() => worker.onmessage?.({ data: reply } as MessageEvent));
+      }
+    }),
+    terminate: vi.fn(),
+  };
+  vi.stubGlobal("Worker", vi.fn().mockReturnValue(worker));
+  vi.stubGlobal("URL", {
+    createObjectURL: () => "blob:encoder-worker",
+    revokeObjectURL: () => {},
+  });
+  return frames;
+}
+
+describe("encode() of a VideoFile", () => {
+  const sixtyFps = Array.from({ length: 60 }, (_, i) => i * 16_666);
+
+  it("keeps every frame of a 60 fps file that does not state its rate", async () => {
+    vi.mocked(openDemuxer).mockResolvedValue(videoFileDemuxer(sixtyFps));
+    const frames = createWorker();
+
+    await encode({ file: new Blob([]), type: "video/webm" });
+
+    expect(frames).toEqual(sixtyFps);
+  });
+
+  it("keeps closely spaced frames of a variable frame rate file", async () => {
+    const timestamps = [0, 5_000, 10_000, 100_000, 104_000, 300_000];
+    vi.mocked(openDemuxer).mockResolvedValue(videoFileDemuxer(timestamps));
+    const frames = createWorker();
+
+    await encode({ file: new Blob([]), type: "video/mp4" });
+
+    expect(frames).toEqual(timestamps);
+  });
+
+  it("drops frames above a requested frameRate", async () => {
+    vi.mocked(openDemuxer).mockResolvedValue(videoFileDemuxer(sixtyFps));
+    const frames = createWorker();
+
+    await encode(
+      { file: new Blob([]), type: "video/webm" },
+      { frameRate: 30 },
+    );
+
+    expect(frames).toEqual(sixtyFps.filter((_, i) => i % 2 === 0));
+  });
+});
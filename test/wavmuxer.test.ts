@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { WavMuxerWrapper } from "../src/muxers/wavmuxer";
+import {
+  PcmAudioEncoder,
+  linearToAlaw,
+  linearToUlaw,
+} from "../src/worker/pcm-audio-encoder";
+import type { EncoderConfig } from "../src/types";
+
+function createConfig(overrides: Partial<EncoderConfig> = {}): EncoderConfig {
+  return {
+    width: 0,
+    height: 0,
+    frameRate: 30,
+    videoBitrate: 0,
+    audioBitrate: 768_000,
+    sampleRate: 48000,
+    channels: 2,
+    container: "wav",
+    codec: { audio: "pcm" },
+    latencyMode: "quality",
+    ...overrides,
+  };
+}
+
+function fakeChunk(bytes: number[], timestamp = 0): EncodedAudioChunk {
+  const data = new Uint8Array(bytes);
+  return {
+    type: "key",
+    timestamp,
+    duration: 0,
+    byteLength: data.byteLength,
+    copyTo: (dest: Uint8Array) => dest.set(data),
+  } as unknown as EncodedAudioChunk;
+}
+
+const tag = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+describe("WavMuxerWrapper", () => {
+  it("writes a PCM header sized to the data", () => {
+    const post = vi.fn();
+    const muxer = new WavMuxerWrapper(createConfig(), post);
+    muxer.addAudioChunk(fakeChunk([1, 0, 2, 0]));
+    muxer.addAudioChunk(fakeChunk([3, 0, 4, 0], 10));
+
+    const output = muxer.finalize()!;
+    const view = new DataView(output.buffer);
+
+    expect(output.byteLength).toBe(44 + 8);
+    expect(tag(output, 0)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(tag(output, 8)).toBe("WAVE");
+    expect(tag(output, 12)).toBe("fmt ");
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(tag(output, 36)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(Array.from(output.subarray(44))).toEqual([1, 0, 2, 0, 3, 0, 4, 0]);
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("adds a fact chunk and pads odd G.711 data", () => {
+    const muxer = new WavMuxerWrapper(
+      createConfig({ codec: { audio: "ulaw" }, sampleRate: 8000, channels: 1 }),
+      vi.fn(),
+    );
+    muxer.addAudioChunk(fakeChunk([0xff, 0x7f, 0x00]));
+
+    const output = muxer.finalize()!;
+    const view = new DataView(output.buffer);
+
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(view.getUint16(20, true)).toBe(7); // μ-law
+    expect(view.getUint16(34, true)).toBe(8);
+    expect(tag(output, 38)).toBe("fact");
+    expect(view.getUint32(46, true)).toBe(3);
+    expect(tag(output, 50)).toBe("data");
+    expect(view.getUint32(54, true)).toBe(3);
+    expect(output.byteLength).toBe(58 + 4);
+    expect(view.getUint32(4, true)).toBe(output.byteLength - 8);
+  });
+
+  it("streams a header with unknown sizes in realtime mode", () => {
+    const post = vi.fn();
+    const muxer = new WavMuxerWrapper(
+      createConfig({ latencyMode: "realtime" }),
+      post,
+    );
+    muxer.addAudioChunk(fakeChunk([1, 0, 2, 0]));
+
+    expect(muxer.finalize()).toBeNull();
+    const [header, data] = post.mock.calls.map(([message]) => message);
+    expect(header).toMatchObject({
+      type: "dataChunk",
+      offset: 0,
+      isHeader: true,
+      container: "wav",
+    });
+    expect(new DataView(header.chunk.buffer).getUint32(40, true)).toBe(
+      0xffffffff,
+    );
+    expect(data).toMatchObject({ offset: 44, isHeader: false });
+    expect(Array.from(data.chunk)).toEqual([1, 0, 2, 0]);
+  });
+
+  it("fills in the header sizes for a seekable receiver", () => {
+    const post = vi.fn();
+    const muxer = new WavMuxerWrapper(
+      createConfig({ streaming: true, seekableOutput: true }),
+      post,
+    );
+    muxer.addAudioChunk(fakeChunk([1, 0, 2, 0]));
+
+    expect(muxer.finalize()).toBeNull();
+    const header = post.mock.calls[2][0];
+    expect(header).toMatchObject({ offset: 0, isHeader: true });
+    expect(new DataView(header.chunk.buffer).getUint32(40, true)).toBe(4);
+  });
+
+  it("rejects video chunks", () => {
+    const post = vi.fn();
+    const muxer = new WavMuxerWrapper(createConfig(), post);
+    muxer.addVideoChunk({} as EncodedVideoChunk);
+    expect(post).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "error",
+        errorDetail: expect.objectContaining({ type: "configuration-error" }),
+      }),
+    );
+  });
+});
+
+describe("PcmAudioEncoder", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("converts samples to G.711", () => {
+    expect(linearToUlaw(0)).toBe(0xff);
+    expect(linearToUlaw(-1)).toBe(0x7f);
+    expect(linearToUlaw(32767)).toBe(0x80);
+    expect(linearToAlaw(0)).toBe(0xd5);
+    expect(linearToAlaw(-1)).toBe(0x55);
+    expect(linearToAlaw(32767)).toBe(0xaa);
+  });
+
+  it("only supports PCM and G.711 codecs", async () => {
+    const base = { sampleRate: 8000, numberOfChannels: 1 };
+    for (const codec of ["pcm", "pcm-s16", "ulaw", "alaw"]) {
+      expect(
+        (await PcmAudioEncoder.isConfigSupported({ ...base, codec })).supported,
+      ).toBe(true);
+    }
+    expect(
+      (await PcmAudioEncoder.isConfigSupported({ ...base, codec: "opus" }))
+        .supported,
+    ).toBe(false);
+  });
+
+  it("interleaves AudioData into 16-bit little endian chunks", () => {
+    vi.stubGlobal(
+      "EncodedAudioChunk",
+      class {
+        constructor(public init: EncodedAudioChunkInit) {}
+      },
+    );
+    const output = vi.fn();
+    const encoder = new PcmAudioEncoder({ output, error: vi.fn() });
+    encoder.configure({ codec: "pcm", sampleRate: 48000, numberOfChannels: 2 });
+
+    const planes = [new Float32Array([1, -1]), new Float32Array([0, 0.5])];
+    encoder.encode({
+      numberOfChannels: 2,
+      numberOfFrames: 2,
+      timestamp: 1000,
+      duration: 42,
+      copyTo: (dest: Float32Array, { planeIndex }: { planeIndex: number }) =>
+        dest.set(planes[planeIndex]),
+    } as unknown as AudioData);
+
+    const [chunk, metadata] = output.mock.calls[0];
+    const view = new DataView((chunk.init.data as Uint8Array).buffer);
+    expect([0, 2, 4, 6].map((offset) => view.getInt16(offset, true))).toEqual([
+      32767, 0, -32768, 16384,
+    ]);
+    expect(chunk.init).toMatchObject({ type: "key", timestamp: 1000 });
+    expect(metadata.decoderConfig).toEqual({
+      codec: "pcm",
+      sampleRate: 48000,
+      numberOfChannels: 2,
+    });
+  });
+});
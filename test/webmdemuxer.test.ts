@@ -0,0 +1,195 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect } from "vitest";
+import { WebMDemuxer } from "../src/demuxers/webmdemuxer";
+import { detectContainer } from "../src/demuxers/demuxer";
+import type { DemuxedSample } from "../src/types";
+
+const u8 = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function idBytes(id: number): Uint8Array {
+  const bytes: number[] = [];
+  while (id > 0) {
+    bytes.unshift(id & 0xff);
+    id = Math.floor(id / 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+function sizeBytes(size: number): Uint8Array {
+  if (size < 0x7f) return u8(0x80 | size);
+  return u8(0x40 | (size >> 8), size & 0xff);
+}
+
+function el(id: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(idBytes(id), sizeBytes(body.byteLength), body);
+}
+
+/** Element with unknown size (used for live Segment/Cluster) */
+function openEl(id: number, ...payload: Uint8Array[]): Uint8Array {
+  return concat(
+    idBytes(id),
+    u8(0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff),
+    ...payload,
+  );
+}
+
+function uint(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return el(id, new Uint8Array(bytes));
+}
+
+function float64(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return el(id, bytes);
+}
+
+function block(
+  track: number,
+  timecode: number,
+  flags: number,
+  ...frames: Uint8Array[]
+) {
+  return concat(
+    u8(0x80 | track, (timecode >> 8) & 0xff, timecode & 0xff, flags),
+    ...frames,
+  );
+}
+
+const OPUS_HEAD = concat(
+  ascii("OpusHead"),
+  u8(1, 2, 0x38, 0x01, 0x80, 0xbb, 0, 0, 0, 0, 0),
+);
+
+function buildWebM(): Uint8Array {
+  const ebmlHeader = el(0x1a45dfa3, el(0x4282, ascii("webm")));
+  const info = el(0x1549a966, uint(0x2ad7b1, 1_000_000), float64(0x4489, 100));
+  const tracks = el(
+    0x1654ae6b,
+    el(
+      0xae,
+      uint(0xd7, 1),
+      uint(0x83, 1),
+      el(0x86, ascii("V_VP9")),
+      uint(0x23e383, 33_333_333),
+      el(0xe0, uint(0xb0, 320), uint(0xba, 240)),
+    ),
+    el(
+      0xae,
+      uint(0xd7, 2),
+      uint(0x83, 2),
+      el(0x86, ascii("A_OPUS")),
+      el(0x63a2, OPUS_HEAD),
+      el(0xe1, float64(0xb5, 48000), uint(0x9f, 2)),
+    ),
+  );
+
+  // Live-style cluster with unknown size
+  const cluster1 = openEl(
+    0x1f43b675,
+    uint(0xe7, 0),
+    el(0xa3, block(1, 0, 0x80, u8(0x10, 0x10))),
+    el(0xa3, block(2, 0, 0x80, u8(0xa0))),
+    el(0xa0, el(0xa1, block(1, 33, 0x00, u8(0x11))), uint(0xfb, 33)),
+  );
+  // Sized cluster with a Xiph-laced audio block
+  const cluster2 = el(
+    0x1f43b675,
+    uint(0xe7, 40),
+    el(
+      0xa0,
+      el(
+        0xa1,
+        block(2, 0, 0x02, u8(2, 1, 2), u8(0xa1), u8(0xa1, 0xa2), u8(0xa3)),
+      ),
+      uint(0x9b, 40),
+    ),
+  );
+
+  return concat(
+    ebmlHeader,
+    openEl(0x18538067, info, tracks, cluster1, cluster2),
+  );
+}
+
+async function collect(
+  samples: AsyncGenerator<DemuxedSample>,
+): Promise<DemuxedSample[]> {
+  const result: DemuxedSample[] = [];
+  for await (const sample of samples) {
+    result.push(sample);
+  }
+  return result;
+}
+
+describe("WebMDemuxer", () => {
+  it("detects the container from the EBML magic", async () => {
+    expect(await detectContainer(new Blob([buildWebM()]))).toBe("webm");
+  });
+
+  it("reads segment info and tracks", async () => {
+    const demuxer = await WebMDemuxer.open(new Blob([buildWebM()]));
+
+    expect(demuxer.container).toBe("webm");
+    expect(demuxer.duration).toBe(100_000);
+    expect(demuxer.videoTrack).toMatchObject({
+      codec: "vp9",
+      codecString: "vp09.00.10.08",
+      codedWidth: 320,
+      codedHeight: 240,
+    });
+    expect(demuxer.videoTrack?.frameRate).toBeCloseTo(30, 3);
+    expect(demuxer.audioTrack).toMatchObject({
+      codec: "opus",
+      codecString: "opus",
+      sampleRate: 48000,
+      numberOfChannels: 2,
+    });
+    expect(demuxer.audioTrack?.description).toEqual(OPUS_HEAD);
+  });
+
+  it("walks unknown-size clusters, block groups and laced blocks", async () => {
+    const demuxer = await WebMDemuxer.open(new Blob([buildWebM()]));
+    const samples = await collect(demuxer.samples());
+
+    expect(
+      samples.map(({ track, type, timestamp, duration }) => ({
+        track,
+        type,
+        timestamp,
+        duration,
+      })),
+    ).toEqual([
+      { track: "video", type: "key", timestamp: 0, duration: 33333 },
+      { track: "audio", type: "key", timestamp: 0, duration: 0 },
+      { track: "video", type: "delta", timestamp: 33000, duration: 33333 },
+      { track: "audio", type: "key", timestamp: 40000, duration: 13333 },
+      { track: "audio", type: "key", timestamp: 53333, duration: 13333 },
+      { track: "audio", type: "key", timestamp: 66667, duration: 13333 },
+    ]);
+    expect(samples[0].data).toEqual(u8(0x10, 0x10));
+    expect(samples.slice(3).map((s) => Array.from(s.data))).toEqual([
+      [0xa1],
+      [0xa1, 0xa2],
+      [0xa3],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect } from "vitest";
+import { WebMMuxerWrapper } from "../src/muxers/webmmuxer";
+import { children, readElementHeader } from "../src/demuxers/webmdemuxer";
+import type { EncoderConfig, MainThreadMessage } from "../src/types";
+
+// Output of the real webm-muxer, read back element by element
+
+const DOC_TYPE = 0x4282;
+
+const baseConfig: EncoderConfig = {
+  width: 320,
+  height: 240,
+  frameRate: 30,
+  videoBitrate: 1_000_000,
+  audioBitrate: 64_000,
+  sampleRate: 48_000,
+  channels: 2,
+  container: "webm",
+};
+
+function encodedChunk(timestamp: number): any {
+  return {
+    type: "key",
+    timestamp,
+    duration: 33_333,
+    byteLength: 3,
+    copyTo: (destination: Uint8Array) => destination.set([1, 2, 3]),
+  };
+}
+
+function mux(config: EncoderConfig): Uint8Array {
+  const posted: MainThreadMessage[] = [];
+  const muxer = new WebMMuxerWrapper(config, (message) => posted.push(message));
+  muxer.addVideoChunk(encodedChunk(0));
+  muxer.addAudioChunk(encodedChunk(0));
+  muxer.addVideoChunk(encodedChunk(33_333));
+  const file = muxer.finalize();
+  expect(posted).toEqual([]);
+  return file!;
+}
+
+function docType(file: Uint8Array): string | undefined {
+  const header = readElementHeader(file, 0)!;
+  const end = header.headerLength + header.size;
+  for (const element of children(file, header.headerLength, end)) {
+    if (element.id === DOC_TYPE) {
+      return new TextDecoder().decode(
+        file.subarray(element.start, element.end),
+      );
+    }
+  }
+  return undefined;
+}
+
+describe("WebMMuxerWrapper output", () => {
+  it("writes the webm DocType for webm", () => {
+    expect(docType(mux(baseConfig))).toBe("webm");
+  });
+
+  it("writes the matroska DocType for mkv", () => {
+    const file = mux({
+      ...baseConfig,
+      container: "mkv",
+      codec: { video: "avc", audio: "pcm" },
+    });
+    expect(docType(file)).toBe("matroska");
+  });
+});
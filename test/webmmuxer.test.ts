@@ -5,29 +5,44 @@ import { EncoderErrorType } from "../src/types";
 
 vi.mock("webm-muxer", () => {
   const mockMuxerMethods = {
-    addVideoChunk: vi.fn(),
-    addAudioChunk: vi.fn(),
+    addVideoChunkRaw: vi.fn(),
+    addAudioChunkRaw: vi.fn(),
     finalize: vi.fn(),
   };
-  class DummyTarget {
-    write(_data: any) {}
+  class ArrayBufferTarget {
+    buffer: ArrayBuffer | null = null;
+  }
+  class StreamTarget {
+    constructor(public options: any) {}
   }
   const WebMMuxerMock = vi.fn(() => mockMuxerMethods);
   return {
-    default: WebMMuxerMock,
+    Muxer: WebMMuxerMock,
+    ArrayBufferTarget,
+    StreamTarget,
     _mockMuxerMethods: mockMuxerMethods,
-    _DummyTarget: DummyTarget,
   };
 });
 
 interface MockedModule {
-  default: any;
+  Muxer: any;
+  StreamTarget: any;
   _mockMuxerMethods: {
-    addVideoChunk: any;
-    addAudioChunk: any;
+    addVideoChunkRaw: any;
+    addAudioChunkRaw: any;
     finalize: any;
   };
-  _DummyTarget: any;
+}
+
+// Chunk with three bytes of data
+function encodedChunk(timestamp = 0): any {
+  return {
+    type: "key",
+    timestamp,
+    duration: 1000,
+    byteLength: 3,
+    copyTo: (destination: Uint8Array) => destination.set([1, 2, 3]),
+  };
 }
 
 const baseConfig: EncoderConfig = {
@@ -90,12 +105,14 @@ describe("CallbackWritableStream", () => {
 describe("WebMMuxerWrapper", () => {
   let mockMuxerMethods: MockedModule["_mockMuxerMethods"];
   let postMessageCallback: ReturnType<typeof vi.fn>;
-  let WebMMuxerMock: MockedModule["default"];
+  let WebMMuxerMock: MockedModule["Muxer"];
+  let StreamTargetMock: MockedModule["StreamTarget"];
 
   beforeEach(async () => {
     const module = (await import("webm-muxer")) as unknown as MockedModule;
     mockMuxerMethods = module._mockMuxerMethods;
-    WebMMuxerMock = module.default;
+    WebMMuxerMock = module.Muxer;
+    StreamTargetMock = module.StreamTarget;
     vi.clearAllMocks();
     postMessageCallback = vi.fn();
   });
@@ -172,15 +189,15 @@ describe("WebMMuxerWrapper", () => {
       const callArgs = WebMMuxerMock.mock.calls[0][0];
       
       // Check target object existence and functionality
-      expect(callArgs.target).toBeDefined();
-      expect(typeof callArgs.target.write).toBe('function');
+      expect(callArgs.target).toBeInstanceOf(StreamTargetMock);
+      expect(callArgs.streaming).toBe(true);
       
-      // Perform direct test - actually test WritableStream functionality
+      // Perform direct test - actually test StreamTarget functionality
       const testChunk = new Uint8Array([1, 2, 3, 4, 5]);
       const testPosition = 0;
       
-      // Call write method directly
-      callArgs.target.write({ data: testChunk, position: testPosition });
+      // Call onData directly
+      callArgs.target.options.onData(testChunk, testPosition);
 
       // Verify postMessageCallback is called when target's write method is called
       expect(postMessageCallback).toHaveBeenCalledWith(
@@ -190,6 +207,8 @@ describe("WebMMuxerWrapper", () => {
           offset: testPosition,
           isHeader: true,
           container: "webm",
+          kind: "init",
+          keyframe: false,
         },
         [expect.any(ArrayBuffer)],
       );
@@ -200,23 +219,92 @@ describe("WebMMuxerWrapper", () => {
     });
   });
 
+  it("lets a seekable receiver take the sizes and Cues written back", () => {
+    new WebMMuxerWrapper(
+      { ...baseConfig, streaming: true, seekableOutput: true },
+      postMessageCallback,
+    );
+    const callArgs = WebMMuxerMock.mock.calls[0][0];
+    expect(callArgs.target).toBeInstanceOf(StreamTargetMock);
+    expect(callArgs.streaming).toBeUndefined();
+  });
+
+  describe("Matroska", () => {
+    it("keeps WebM codec rules for the webm container", () => {
+      const config: EncoderConfig = {
+        ...baseConfig,
+        codec: { video: "avc", audio: "aac" },
+      };
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      new WebMMuxerWrapper(config, postMessageCallback);
+      const args = WebMMuxerMock.mock.calls[0][0];
+      expect(args.type).toBeUndefined();
+      expect(args.video.codec).toBe("V_VP9");
+      expect(args.audio).toBeUndefined();
+      warn.mockRestore();
+    });
+
+    it("writes the matroska doctype with H.264 and PCM for mkv", () => {
+      const config: EncoderConfig = {
+        ...baseConfig,
+        container: "mkv",
+        codec: { video: "avc", audio: "pcm" },
+      };
+      new WebMMuxerWrapper(config, postMessageCallback);
+      expect(WebMMuxerMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "matroska",
+          video: expect.objectContaining({ codec: "V_MPEG4/ISO/AVC" }),
+          audio: expect.objectContaining({
+            codec: "A_PCM/INT/LIT",
+            bitDepth: 16,
+          }),
+        }),
+      );
+    });
+
+    it("maps HEVC, AAC and MP3 to Matroska codec IDs", () => {
+      new WebMMuxerWrapper(
+        { ...baseConfig, container: "mkv", codec: { video: "hevc", audio: "aac" } },
+        postMessageCallback,
+      );
+      new WebMMuxerWrapper(
+        { ...baseConfig, container: "mkv", codec: { audio: "mp3" } },
+        postMessageCallback,
+      );
+      const [hevcArgs] = WebMMuxerMock.mock.calls[0];
+      const [mp3Args] = WebMMuxerMock.mock.calls[1];
+      expect(hevcArgs.video.codec).toBe("V_MPEGH/ISO/HEVC");
+      expect(hevcArgs.audio.codec).toBe("A_AAC");
+      expect(mp3Args.video.codec).toBe("V_MPEG4/ISO/AVC");
+      expect(mp3Args.audio.codec).toBe("A_MPEG/L3");
+    });
+
+    it("labels streamed chunks with the mkv container", () => {
+      new WebMMuxerWrapper(
+        { ...baseConfig, container: "mkv", latencyMode: "realtime" },
+        postMessageCallback,
+      );
+      const { target } = WebMMuxerMock.mock.calls[0][0];
+      target.options.onData(new Uint8Array([1]), 0);
+      expect(postMessageCallback.mock.calls[0][0].container).toBe("mkv");
+    });
+  });
+
   describe("addVideoChunk", () => {
     it("handles correctly formed video chunks", () => {
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
-      const chunk = {
-        type: "key",
-        timestamp: 0,
-        duration: 1000,
-        data: new Uint8Array(10),
-        byteLength: 10,
-        copyTo: vi.fn(),
-      } as EncodedVideoChunk;
       const meta = {
         decoderConfig: { codec: "vp9", description: new Uint8Array(5) },
       } as EncodedVideoChunkMetadata;
       
-      wrapper.addVideoChunk(chunk, meta);
-      expect(mockMuxerMethods.addVideoChunk).toHaveBeenCalledWith(chunk, meta);
+      wrapper.addVideoChunk(encodedChunk(), meta);
+      expect(mockMuxerMethods.addVideoChunkRaw).toHaveBeenCalledWith(
+        new Uint8Array([1, 2, 3]),
+        "key",
+        0,
+        meta,
+      );
     });
 
     it("posts error if video track not configured", () => {
@@ -232,17 +320,17 @@ describe("WebMMuxerWrapper", () => {
           type: EncoderErrorType.ConfigurationError,
         },
       });
-      expect(mockMuxerMethods.addVideoChunk).not.toHaveBeenCalled();
+      expect(mockMuxerMethods.addVideoChunkRaw).not.toHaveBeenCalled();
     });
 
     it("handles errors from muxer.addVideoChunk", () => {
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
       const error = new Error("Video chunk error");
-      mockMuxerMethods.addVideoChunk.mockImplementationOnce(() => {
+      mockMuxerMethods.addVideoChunkRaw.mockImplementationOnce(() => {
         throw error;
       });
       
-      wrapper.addVideoChunk({} as any, {} as any);
+      wrapper.addVideoChunk(encodedChunk(), {} as any);
       
       expect(postMessageCallback).toHaveBeenCalledWith({
         type: "error",
@@ -258,14 +346,6 @@ describe("WebMMuxerWrapper", () => {
   describe("addAudioChunk", () => {
     it("handles correctly formed audio chunks", () => {
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
-      const chunk = {
-        type: "key",
-        timestamp: 0,
-        duration: 1000,
-        data: new Uint8Array(10),
-        byteLength: 10,
-        copyTo: vi.fn(),
-      } as EncodedAudioChunk;
       const meta = {
         decoderConfig: {
           codec: "opus",
@@ -275,8 +355,13 @@ describe("WebMMuxerWrapper", () => {
         },
       } as EncodedAudioChunkMetadata;
       
-      wrapper.addAudioChunk(chunk, meta);
-      expect(mockMuxerMethods.addAudioChunk).toHaveBeenCalledWith(chunk, meta);
+      wrapper.addAudioChunk(encodedChunk(), meta);
+      expect(mockMuxerMethods.addAudioChunkRaw).toHaveBeenCalledWith(
+        new Uint8Array([1, 2, 3]),
+        "key",
+        0,
+        meta,
+      );
     });
 
     it("does nothing if audio track not configured", () => {
@@ -285,18 +370,18 @@ describe("WebMMuxerWrapper", () => {
       
       wrapper.addAudioChunk({} as any, {} as any);
       
-      expect(mockMuxerMethods.addAudioChunk).not.toHaveBeenCalled();
+      expect(mockMuxerMethods.addAudioChunkRaw).not.toHaveBeenCalled();
       expect(postMessageCallback).not.toHaveBeenCalled();
     });
 
     it("handles errors from muxer.addAudioChunk", () => {
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
       const error = new Error("Audio chunk error");
-      mockMuxerMethods.addAudioChunk.mockImplementationOnce(() => {
+      mockMuxerMethods.addAudioChunkRaw.mockImplementationOnce(() => {
         throw error;
       });
       
-      wrapper.addAudioChunk({} as any, {} as any);
+      wrapper.addAudioChunk(encodedChunk(), {} as any);
       
       expect(postMessageCallback).toHaveBeenCalledWith({
         type: "error",
@@ -342,8 +427,8 @@ describe("WebMMuxerWrapper", () => {
 
     it("returns Uint8Array when finalize succeeds in non-realtime mode", () => {
       const expected = new Uint8Array([1, 2, 3, 4]);
-      mockMuxerMethods.finalize.mockReturnValueOnce(expected.buffer);
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
+      WebMMuxerMock.mock.calls[0][0].target.buffer = expected.buffer;
       
       const result = wrapper.finalize();
       
@@ -352,7 +437,6 @@ describe("WebMMuxerWrapper", () => {
     });
 
     it("posts error when finalize returns no buffer in non-realtime mode", () => {
-      mockMuxerMethods.finalize.mockReturnValueOnce(null);
       const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
       
       const result = wrapper.finalize();
@@ -390,35 +474,30 @@ describe("WebMMuxerWrapper", () => {
 
   it("adds video and audio chunks", () => {
     const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
-    wrapper.addVideoChunk({} as any, {} as any);
-    wrapper.addAudioChunk({} as any, {} as any);
-    expect(mockMuxerMethods.addVideoChunk).toHaveBeenCalled();
-    expect(mockMuxerMethods.addAudioChunk).toHaveBeenCalled();
+    wrapper.addVideoChunk(encodedChunk(), {} as any);
+    wrapper.addAudioChunk(encodedChunk(), {} as any);
+    expect(mockMuxerMethods.addVideoChunkRaw).toHaveBeenCalled();
+    expect(mockMuxerMethods.addAudioChunkRaw).toHaveBeenCalled();
   });
 
   it("finalizes and returns Uint8Array in non-realtime mode", () => {
     const expected = new Uint8Array([1, 2, 3]);
-    mockMuxerMethods.finalize.mockReturnValueOnce(expected.buffer);
     const wrapper = new WebMMuxerWrapper(baseConfig, postMessageCallback);
+    WebMMuxerMock.mock.calls[0][0].target.buffer = expected.buffer;
     const out = wrapper.finalize();
     expect(mockMuxerMethods.finalize).toHaveBeenCalled();
     expect(out).toEqual(expected);
   });
 
-  it("streams chunks in realtime", async () => {
-    const module = (await import("webm-muxer")) as unknown as MockedModule;
+  it("streams chunks in realtime", () => {
     const realtimeConfig = { ...baseConfig, latencyMode: "realtime" as const };
     new WebMMuxerWrapper(realtimeConfig, postMessageCallback);
-    const DummyTarget = module._DummyTarget;
     // simulate write callback
-    const dataCb = (DummyTarget as any).mock?.calls?.[0]?.[0]?.onData;
-    if (dataCb) {
-      const chunk = new Uint8Array([1]);
-      dataCb(chunk, 0);
-      expect(postMessageCallback).toHaveBeenCalledWith(
-        expect.objectContaining({ container: "webm", isHeader: true }),
-        [chunk.buffer],
-      );
-    }
+    const { target } = WebMMuxerMock.mock.calls[0][0];
+    target.options.onData(new Uint8Array([1]), 0);
+    expect(postMessageCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ container: "webm", isHeader: true }),
+      [expect.any(ArrayBuffer)],
+    );
   });
 });
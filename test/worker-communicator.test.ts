@@ -50,7 +50,9 @@ describe("WorkerCommunicator", () => {
     it("メッセージ送信が正常に動作する", () => {
       const communicator = new WorkerCommunicator();
 
-      communicator.send("initialize", { config: { width: 640, height: 480 } });
+      communicator.send("initialize", {
+        config: { width: 640, height: 480 } as any,
+      });
 
       expect(mockWorker.postMessage).toHaveBeenCalledWith({
         type: "initialize",
@@ -70,7 +72,7 @@ describe("WorkerCommunicator", () => {
       };
 
       communicator.send("addVideoFrame", {
-        frame: mockVideoFrame,
+        frame: mockVideoFrame as any,
         timestamp: 0,
       });
 
@@ -96,7 +98,7 @@ describe("WorkerCommunicator", () => {
       communicator.send("addAudioData", {
         audio: mockAudioData,
         timestamp: 0,
-      });
+      } as any);
 
       // Verify it's not sent as transferable object
       expect(mockWorker.postMessage).toHaveBeenCalledWith({
@@ -111,6 +113,7 @@ describe("WorkerCommunicator", () => {
 
       const mockArrayBuffer = new ArrayBuffer(1024);
 
+      // @ts-expect-error only the transfer is under test
       communicator.send("data", {
         buffer: mockArrayBuffer,
       });
@@ -128,6 +131,7 @@ describe("WorkerCommunicator", () => {
     it("Transferableオブジェクトがない場合は通常送信される", () => {
       const communicator = new WorkerCommunicator();
 
+      // @ts-expect-error only the transfer is under test
       communicator.send("normal", { data: "test" });
 
       // Normal postMessage (no second argument)
@@ -233,6 +237,144 @@ describe("WorkerCommunicator", () => {
     });
   });
 
+  describe("ジョブ", () => {
+    const reply = (data: any) => mockWorker.onmessage!({ data });
+
+    it("複数のジョブを1つのWorkerで多重化する", () => {
+      const communicator = new WorkerCommunicator();
+      const first = communicator.createJob();
+      const second = communicator.createJob();
+      const firstProgress = vi.fn();
+      const secondProgress = vi.fn();
+      first.on("progress", firstProgress);
+      second.on("progress", secondProgress);
+
+      first.send("addVideoFrame", { timestamp: 0 } as any);
+      second.send("addVideoFrame", { timestamp: 0 } as any);
+      expect(mockWorker.postMessage).toHaveBeenCalledWith({
+        type: "addVideoFrame",
+        timestamp: 0,
+        jobId: first.id,
+      });
+      expect(mockWorker.postMessage).toHaveBeenCalledWith({
+        type: "addVideoFrame",
+        timestamp: 0,
+        jobId: second.id,
+      });
+
+      reply({ type: "progress", processedFrames: 3, jobId: second.id });
+      expect(firstProgress).not.toHaveBeenCalled();
+      expect(secondProgress).toHaveBeenCalledWith({ processedFrames: 3 });
+    });
+
+    it("リクエストは対応するレスポンスで解決される", async () => {
+      const communicator = new WorkerCommunicator();
+      const job = communicator.createJob();
+
+      const initialized = job.request("initialize", { config: {} as any });
+      expect(mockWorker.postMessage).toHaveBeenCalledWith({
+        type: "initialize",
+        config: {},
+        jobId: job.id,
+      });
+      reply({ type: "initialized", actualVideoCodec: "avc1", jobId: job.id });
+      await expect(initialized).resolves.toEqual({ actualVideoCodec: "avc1" });
+
+      const finalized = job.request("finalize");
+      reply({
+        type: "error",
+        errorDetail: { type: "muxing-failed", message: "boom" },
+        jobId: job.id,
+      });
+      await expect(finalized).rejects.toMatchObject({
+        type: "muxing-failed",
+        message: "boom",
+      });
+    });
+
+    it("応答がなければタイムアウトする", async () => {
+      vi.useFakeTimers();
+      try {
+        const communicator = new WorkerCommunicator();
+        const job = communicator.createJob();
+
+        const initialized = job.request(
+          "initialize",
+          { config: {} as any },
+          { timeout: 1000 },
+        );
+        const assertion = expect(initialized).rejects.toMatchObject({
+          type: "timeout",
+        });
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("終了していないジョブはクローズ時にキャンセルされる", async () => {
+      const communicator = new WorkerCommunicator();
+      const job = communicator.createJob();
+      const progress = vi.fn();
+      job.on("progress", progress);
+
+      const finalized = job.request("finalize");
+      job.close();
+
+      expect(mockWorker.postMessage).toHaveBeenLastCalledWith({
+        type: "cancel",
+        jobId: job.id,
+      });
+      await expect(finalized).rejects.toMatchObject({ type: "cancelled" });
+
+      reply({ type: "progress", processedFrames: 1, jobId: job.id });
+      expect(progress).not.toHaveBeenCalled();
+    });
+
+    it("不正なメッセージはそのジョブのworkerエラーになる", async () => {
+      const communicator = new WorkerCommunicator();
+      const job = communicator.createJob();
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const finalized = job.request("finalize");
+      reply({ type: "finalised", jobId: job.id });
+      await expect(finalized).rejects.toMatchObject({
+        type: "worker-error",
+        message: "Invalid message from the worker: unknown type 'finalised'",
+      });
+      expect(errorSpy).toHaveBeenCalled();
+    });
+
+    it("メッセージの型はコンパイル時に検査される", () => {
+      const communicator = new WorkerCommunicator();
+      const job = communicator.createJob();
+
+      // @ts-expect-error misspelled message type
+      job.on("finalised", () => {});
+      // @ts-expect-error missing payload
+      job.send("addVideoChunk");
+      job.on("progress", (data) => {
+        // @ts-expect-error processedFrames is a number
+        data.processedFrames.toUpperCase;
+      });
+    });
+
+    it("ジョブIDのないエラーはすべてのジョブに届く", () => {
+      const communicator = new WorkerCommunicator();
+      const first = communicator.createJob();
+      const second = communicator.createJob();
+      const firstError = vi.fn();
+      const secondError = vi.fn();
+      first.on("error", firstError);
+      second.on("error", secondError);
+
+      reply({ type: "error", errorDetail: { type: "worker-error" } });
+      expect(firstError).toHaveBeenCalled();
+      expect(secondError).toHaveBeenCalled();
+    });
+  });
+
   describe("インラインワーカー作成", () => {
     it("テスト環境でインラインワーカーが作成される", () => {
       // Test environment setup
@@ -246,6 +388,29 @@ describe("WorkerCommunicator", () => {
       expect(mockBlob).toHaveBeenCalled();
       expect(mockCreateObjectURL).toHaveBeenCalled();
     });
+
+    it("テスト環境以外ではインラインワーカーの強制指定を設定エラーにする", () => {
+      const realProcess = global.process;
+      Object.defineProperty(global, "process", {
+        value: { env: { WEBCODECS_USE_INLINE_WORKER: "true" } },
+        writable: true,
+      });
+      // Vitest's globals also mark a test environment
+      vi.stubGlobal("vi", undefined);
+
+      try {
+        expect(() => new WorkerCommunicator()).toThrow(
+          expect.objectContaining({ type: "configuration-error" }),
+        );
+        expect(mockBlob).not.toHaveBeenCalled();
+      } finally {
+        vi.unstubAllGlobals();
+        Object.defineProperty(global, "process", {
+          value: realProcess,
+          writable: true,
+        });
+      }
+    });
   });
 
   describe("エラーハンドリング", () => {
@@ -285,5 +450,26 @@ describe("WorkerCommunicator", () => {
         }
       }
     });
+
+    it("外部ワーカーを作れない場合はモックに切り替えずにエラーにする", () => {
+      const prevDisableInline = process.env.WEBCODECS_DISABLE_INLINE_WORKER;
+      process.env.WEBCODECS_DISABLE_INLINE_WORKER = "true";
+      global.Worker = vi.fn(() => {
+        throw new Error("Not found");
+      }) as any;
+
+      try {
+        expect(() => new WorkerCommunicator()).toThrow(
+          expect.objectContaining({ type: "initialization-failed" }),
+        );
+        expect(mockBlob).not.toHaveBeenCalled();
+      } finally {
+        if (prevDisableInline === undefined) {
+          delete process.env.WEBCODECS_DISABLE_INLINE_WORKER;
+        } else {
+          process.env.WEBCODECS_DISABLE_INLINE_WORKER = prevDisableInline;
+        }
+      }
+    });
   });
 });
@@ -66,6 +66,24 @@ describe("worker self.onmessage error handling and cancellation edge cases", ()
     videoFrame.close();
   });
 
+  it("should close addVideoFrame frames when video is disabled", async () => {
+    if (!global.self.onmessage) throw new Error("Worker onmessage handler not set up");
+    const audioOnly = { ...config, width: 0, height: 0, videoBitrate: 0 };
+    await global.self.onmessage({ data: { type: "initialize", config: audioOnly } } as MessageEvent);
+
+    const videoFrame = new globalThis.VideoFrame(new Uint8Array(10), {
+      timestamp: 0,
+      codedWidth: 10,
+      codedHeight: 10,
+      format: "RGBA",
+    });
+    const close = vi.spyOn(videoFrame, "close");
+    await global.self.onmessage({
+      data: { type: "addVideoFrame", frame: videoFrame, timestamp: 0 },
+    } as MessageEvent);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
   it("should ignore addAudioData if worker is cancelled (already tested, but good for this describe block too)", async () => {
     if (!global.self.onmessage) throw new Error("Worker onmessage handler not set up");
     await global.self.onmessage({ data: { type: "initialize", config } } as MessageEvent);
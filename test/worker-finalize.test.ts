@@ -226,6 +226,41 @@ describe("handleFinalize", () => {
     );
   });
 
+  it("should post the output collected from the muxer when a memory budget is set", async () => {
+    if (!global.self.onmessage) throw new Error("Worker onmessage handler not set up");
+
+    const mp4muxerModule = await import("../src/muxers/mp4muxer");
+    const currentMp4MuxerWrapperMock = vi.mocked(mp4muxerModule.Mp4MuxerWrapper);
+    let muxerConfig: EncoderConfig | undefined;
+    currentMp4MuxerWrapperMock.mockImplementation(((muxerConf: EncoderConfig, post: (message: any) => void) => {
+      muxerConfig = { ...muxerConf };
+      mockMuxerInstanceForWorker.finalize = vi.fn<() => Uint8Array | null>(() => {
+        post({ type: "dataChunk", chunk: new Uint8Array([1, 2, 3, 4]), offset: 0, isHeader: true });
+        post({ type: "dataChunk", chunk: new Uint8Array([9]), offset: 0, isHeader: true });
+        return null;
+      });
+      return mockMuxerInstanceForWorker;
+    }) as any);
+
+    const budgetMessage: InitializeWorkerMessage = {
+      type: "initialize",
+      config: { ...config, memoryBudget: 1024 },
+    };
+    await global.self.onmessage({ data: budgetMessage } as MessageEvent);
+    expect(muxerConfig).toMatchObject({ streaming: true, seekableOutput: true });
+    mockSelf.postMessage.mockClear();
+
+    const finalizeMessage: FinalizeWorkerMessage = { type: "finalize" };
+    await global.self.onmessage({ data: finalizeMessage } as MessageEvent);
+
+    const output = new Uint8Array([9, 2, 3, 4]);
+    expect(mockSelf.postMessage).toHaveBeenCalledTimes(1);
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      { type: "finalized", output },
+      [expect.any(ArrayBuffer)],
+    );
+  });
+
   it("should handle general error during finalization (e.g. videoEncoder.flush throws)", async () => {
     if (!global.self.onmessage) throw new Error("Worker onmessage handler not set up");
     const flushError = new Error("Flush failed for test");
@@ -132,6 +132,52 @@ describe("worker", () => {
     );
   });
 
+  it("runs an encoder per job id and tags its messages", async () => {
+    if (!global.self.onmessage) {
+      throw new Error("Worker onmessage handler not set up by script import");
+    }
+
+    await global.self.onmessage({
+      data: { type: "initialize", config, jobId: 1 },
+    } as MessageEvent);
+    await global.self.onmessage({
+      data: { type: "initialize", config, jobId: 2 },
+    } as MessageEvent);
+    expect(mockSelf.postMessage).toHaveBeenCalledWith({
+      type: "initialized",
+      actualVideoCodec: "avc1.42001f",
+      actualAudioCodec: "mp4a.40.2",
+      jobId: 2,
+    });
+
+    // Cancelling one job leaves the other running
+    mockSelf.postMessage.mockClear();
+    await global.self.onmessage({
+      data: { type: "cancel", jobId: 1 },
+    } as MessageEvent);
+    expect(mockSelf.postMessage).toHaveBeenCalledWith({
+      type: "cancelled",
+      jobId: 1,
+    });
+
+    mockSelf.postMessage.mockClear();
+    mockMuxerInstanceForWorker.finalize = vi.fn(() => new Uint8Array([1]));
+    await global.self.onmessage({
+      data: { type: "finalize", jobId: 2 },
+    } as MessageEvent);
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "finalized", jobId: 2 }),
+      expect.any(Array),
+    );
+
+    // Messages for ended jobs are dropped
+    mockSelf.postMessage.mockClear();
+    await global.self.onmessage({
+      data: { type: "finalize", jobId: 1 },
+    } as MessageEvent);
+    expect(mockSelf.postMessage).not.toHaveBeenCalled();
+  });
+
   it("uses codec string override when provided", async () => {
     if (!global.self.onmessage)
       throw new Error("Worker onmessage handler not set up");
@@ -379,6 +425,29 @@ describe("worker", () => {
     );
   });
 
+  it("configures Opus audio for MP4 container when supported", async () => {
+    if (!global.self.onmessage)
+      throw new Error("Worker onmessage handler not set up");
+
+    const opusConfig: EncoderConfig = {
+      ...config,
+      codec: { video: "avc", audio: "opus" },
+      sampleRate: 48_000,
+    };
+
+    mockSelf.AudioEncoder.isConfigSupported = vi.fn(async (cfg: any) => ({
+      supported: cfg.codec === "opus",
+      config: cfg,
+    }));
+
+    const initMessage: InitializeWorkerMessage = { type: "initialize", config: opusConfig };
+    await global.self.onmessage({ data: initMessage } as MessageEvent);
+
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "initialized", actualAudioCodec: "opus" }),
+    );
+  });
+
   it("configures Vorbis audio for WebM container when supported", async () => {
     if (!global.self.onmessage)
       throw new Error("Worker onmessage handler not set up");
@@ -405,6 +474,68 @@ describe("worker", () => {
     );
   });
 
+  it("uses the WAV muxer and software PCM encoder for WAV output", async () => {
+    if (!global.self.onmessage)
+      throw new Error("Worker onmessage handler not set up");
+
+    const { WavMuxerWrapper } = await import("../src/muxers/wavmuxer");
+    mockSelf.AudioEncoder.mockClear();
+    mockSelf.VideoEncoder.mockClear();
+
+    const wavConfig: EncoderConfig = {
+      ...config,
+      container: "wav",
+      codec: { video: "avc", audio: "ulaw" },
+      audioBitrate: 64_000,
+      sampleRate: 8_000,
+      channels: 1,
+    };
+
+    const initMessage: InitializeWorkerMessage = { type: "initialize", config: wavConfig };
+    await global.self.onmessage({ data: initMessage } as MessageEvent);
+
+    expect(WavMuxerWrapper).toHaveBeenCalledWith(
+      expect.objectContaining({ codec: { video: undefined, audio: "ulaw" } }),
+      expect.any(Function),
+      { disableAudio: false },
+    );
+    expect(mockSelf.AudioEncoder).not.toHaveBeenCalled();
+    expect(mockSelf.VideoEncoder).not.toHaveBeenCalled();
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "initialized", actualAudioCodec: "ulaw" }),
+    );
+  });
+
+  it("keeps H.264 and encodes PCM in software for Matroska output", async () => {
+    if (!global.self.onmessage)
+      throw new Error("Worker onmessage handler not set up");
+
+    const { WebMMuxerWrapper } = await import("../src/muxers/webmmuxer");
+    mockSelf.AudioEncoder.mockClear();
+
+    const mkvConfig: EncoderConfig = {
+      ...config,
+      container: "mkv",
+      codec: { video: "avc", audio: "pcm" },
+    };
+
+    const initMessage: InitializeWorkerMessage = { type: "initialize", config: mkvConfig };
+    await global.self.onmessage({ data: initMessage } as MessageEvent);
+
+    expect(WebMMuxerWrapper).toHaveBeenCalledWith(
+      expect.objectContaining({ container: "mkv" }),
+      expect.any(Function),
+      { disableAudio: false },
+    );
+    expect(mockSelf.VideoEncoder.isConfigSupported).toHaveBeenCalledWith(
+      expect.objectContaining({ avc: { format: "avc" } }),
+    );
+    expect(mockSelf.AudioEncoder).not.toHaveBeenCalled();
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "initialized", actualAudioCodec: "pcm" }),
+    );
+  });
+
   // Add more tests for addVideoData, addAudioData, error handling, etc.
   describe("worker error handling during initialization", () => {
     it("should post an error if video codec is not supported", async () => {
@@ -454,7 +585,7 @@ describe("worker", () => {
         {
           type: "error",
           errorDetail: {
-            message: "Worker: No supported audio codec (AAC, MP3) found for MP4 container.",
+            message: "Worker: No supported audio codec (AAC, MP3, Opus, FLAC) found for MP4 container.",
             type: "not-supported",
           },
         },
@@ -782,7 +913,7 @@ describe("worker", () => {
         {
           type: "error",
           errorDetail: {
-            message: "Worker: No supported audio codec (AAC, MP3) found for MP4 container.",
+            message: "Worker: No supported audio codec (AAC, MP3, Opus, FLAC) found for MP4 container.",
             type: "not-supported",
           },
         },
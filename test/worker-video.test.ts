@@ -222,3 +222,39 @@ describe("handleAddVideoFrame", () => {
     f3.close();
   });
 });
+
+describe("passthrough tracks", () => {
+  it("skips the video encoder and writes chunks straight to the muxer", async () => {
+    if (!global.self.onmessage) throw new Error("Worker onmessage handler not set up");
+    const veMock = mockSelf.VideoEncoder as ReturnType<typeof vi.fn>;
+    veMock.mockClear();
+
+    const cfg: EncoderConfig = {
+      ...config,
+      codecString: { video: "avc1.64001F" },
+      passthrough: { video: true },
+    };
+    await global.self.onmessage({
+      data: { type: "initialize", config: cfg, totalFrames: 2 },
+    } as MessageEvent);
+
+    expect(veMock).not.toHaveBeenCalled();
+    expect(mockSelf.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "initialized", actualVideoCodec: "avc1.64001F" }),
+    );
+    mockSelf.postMessage.mockClear();
+
+    const chunk = { type: "key", timestamp: 0, duration: 33333, byteLength: 4 };
+    const metadata = { decoderConfig: { codec: "avc1.64001F" } };
+    await global.self.onmessage({
+      data: { type: "addVideoChunk", chunk, metadata },
+    } as MessageEvent);
+
+    expect(mockMuxerInstanceForWorker.addVideoChunk).toHaveBeenCalledWith(chunk, metadata);
+    expect(mockSelf.postMessage).toHaveBeenCalledWith({
+      type: "progress",
+      processedFrames: 1,
+      totalFrames: 2,
+    });
+  });
+});
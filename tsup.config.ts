@@ -1,6 +1,20 @@
 import { defineConfig } from 'tsup';
+import { build } from 'esbuild';
 
-export default defineConfig([
+// inline エントリに埋め込むワーカーのソース
+async function bundleWorker(): Promise<string> {
+  const result = await build({
+    entryPoints: ['src/worker/encoder-worker.ts'],
+    bundle: true,
+    format: 'iife',
+    platform: 'browser',
+    minify: true,
+    write: false,
+  });
+  return result.outputFiles[0].text;
+}
+
+export default defineConfig(async () => [
   // メインエントリポイント
   {
     entry: ['src/index.ts'],
@@ -33,6 +47,26 @@ export default defineConfig([
     sourcemap: true,
     outDir: 'dist',
   },
+  // ワーカー埋め込み版 (webcodecs-encoder/inline)
+  {
+    entry: { inline: 'src/inline.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    outDir: 'dist',
+    define: {
+      __INLINE_WORKER_SOURCE__: JSON.stringify(await bundleWorker()),
+    },
+  },
+  // Node.js版 (webcodecs-encoder/node)
+  {
+    entry: { node: 'src/node.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    outDir: 'dist',
+    platform: 'node',
+  },
   // Worker (IIFE形式)
   {
     entry: { 'worker': 'src/worker/encoder-worker.ts' },